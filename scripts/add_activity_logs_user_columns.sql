@@ -0,0 +1,6 @@
+-- Store who made each change alongside the user id
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS user_email TEXT;
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS user_role VARCHAR(20);
+
+-- Create index for filtering the logs page by user
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON activity_logs(user_id);
@@ -0,0 +1,12 @@
+-- Record superadmin overrides of the discrepancy status transition rules
+-- Requires the discrepancy_status_history table (create_disputes_tables.sql)
+ALTER TABLE discrepancy_status_history ADD COLUMN IF NOT EXISTS is_override BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE discrepancy_status_history ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- An override always carries its reason
+ALTER TABLE discrepancy_status_history DROP CONSTRAINT IF EXISTS discrepancy_status_history_override_reason_chk;
+ALTER TABLE discrepancy_status_history ADD CONSTRAINT discrepancy_status_history_override_reason_chk
+  CHECK (NOT is_override OR (reason IS NOT NULL AND reason <> ''));
+
+COMMENT ON COLUMN discrepancy_status_history.is_override IS 'True when the change broke the transition rules under a superadmin override';
+COMMENT ON COLUMN discrepancy_status_history.reason IS 'Why the transition rules were overridden';
@@ -0,0 +1,70 @@
+-- Report category mapping on expense types and subtypes
+-- Replaces the name heuristics of the expenses report: each type says which
+-- report row it belongs to, whether it is flight related and whether it is income.
+
+ALTER TABLE expense_types ADD COLUMN IF NOT EXISTS report_category TEXT;
+ALTER TABLE expense_types ADD COLUMN IF NOT EXISTS is_flight_related BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE expense_types ADD COLUMN IF NOT EXISTS income_type TEXT
+  CHECK (income_type IN ('credit_note', 'charter_profit'));
+ALTER TABLE expense_types ADD COLUMN IF NOT EXISTS report_order INTEGER NOT NULL DEFAULT 100;
+
+-- Subtype overrides; NULL means "same as the expense type"
+ALTER TABLE expense_subtypes ADD COLUMN IF NOT EXISTS report_category TEXT;
+ALTER TABLE expense_subtypes ADD COLUMN IF NOT EXISTS is_flight_related BOOLEAN;
+ALTER TABLE expense_subtypes ADD COLUMN IF NOT EXISTS income_type TEXT
+  CHECK (income_type IN ('credit_note', 'charter_profit'));
+
+-- Invoice types can mark every line of the invoice as income (credit notes)
+ALTER TABLE invoice_types ADD COLUMN IF NOT EXISTS income_type TEXT
+  CHECK (income_type IN ('credit_note', 'charter_profit'));
+
+COMMENT ON COLUMN expense_types.report_category IS 'Row of the expenses report this type is shown in (NULL = not reported)';
+COMMENT ON COLUMN expense_types.is_flight_related IS 'False for non-flight costs (shown in the non-flight group of the report)';
+COMMENT ON COLUMN expense_types.income_type IS 'credit_note or charter_profit when expenses of this type are income';
+COMMENT ON COLUMN expense_types.report_order IS 'Position of the report category in the report (lowest first)';
+COMMENT ON COLUMN expense_subtypes.report_category IS 'Overrides the report category of the expense type';
+COMMENT ON COLUMN expense_subtypes.is_flight_related IS 'Overrides the flight flag of the expense type';
+COMMENT ON COLUMN expense_subtypes.income_type IS 'Overrides the income flag of the expense type';
+COMMENT ON COLUMN invoice_types.income_type IS 'credit_note or charter_profit when lines of invoices of this type are income';
+
+-- Backfill from the previous name matching, first match wins
+UPDATE expense_types SET report_category = 'CAMO and Management', is_flight_related = FALSE, report_order = 10
+  WHERE report_category IS NULL AND name ILIKE '%camo%' AND name ILIKE '%management%';
+UPDATE expense_types SET report_category = 'Crew', is_flight_related = FALSE, report_order = 60
+  WHERE report_category IS NULL AND LOWER(TRIM(name)) = 'crew';
+UPDATE expense_types SET report_category = 'Disbursement fee', is_flight_related = FALSE, report_order = 150
+  WHERE report_category IS NULL AND name ILIKE '%disbursement%';
+UPDATE expense_types SET report_category = 'Insurance charge', is_flight_related = FALSE, report_order = 50
+  WHERE report_category IS NULL AND name ILIKE '%insurance%';
+UPDATE expense_types SET report_category = 'Maintenance', is_flight_related = FALSE, report_order = 40
+  WHERE report_category IS NULL AND LOWER(TRIM(name)) = 'maintenance';
+UPDATE expense_types SET report_category = 'Subscriptions', is_flight_related = FALSE, report_order = 30
+  WHERE report_category IS NULL AND name ILIKE '%subscription%';
+UPDATE expense_types SET report_category = 'FalconCare', is_flight_related = FALSE, report_order = 70
+  WHERE report_category IS NULL AND (name ILIKE '%falconcare%' OR name ILIKE '%falcon care%');
+UPDATE expense_types SET report_category = 'Honeywell', is_flight_related = FALSE, report_order = 80
+  WHERE report_category IS NULL AND LOWER(TRIM(name)) = 'honeywell';
+UPDATE expense_types SET report_category = 'Ground handling', is_flight_related = TRUE, report_order = 90
+  WHERE report_category IS NULL AND (name ILIKE '%ground handling%' OR name ILIKE '%groundhandling%');
+UPDATE expense_types SET report_category = 'Fuel', is_flight_related = TRUE, report_order = 100
+  WHERE report_category IS NULL AND LOWER(TRIM(name)) = 'fuel';
+UPDATE expense_types SET report_category = 'Navigation charges', is_flight_related = TRUE, report_order = 110
+  WHERE report_category IS NULL AND (name ILIKE '%navigation%' OR name ILIKE '%enroute%');
+UPDATE expense_types SET report_category = 'Overfly charges', is_flight_related = TRUE, report_order = 120
+  WHERE report_category IS NULL AND (name ILIKE '%overfly%' OR name ILIKE '%overflight%');
+UPDATE expense_types SET report_category = 'Catering', is_flight_related = TRUE, report_order = 130
+  WHERE report_category IS NULL AND (name ILIKE '%catering%' OR name ILIKE '%food%');
+UPDATE expense_types SET report_category = 'Flight planning', is_flight_related = TRUE, report_order = 20
+  WHERE report_category IS NULL AND (name ILIKE '%flight planning%' OR name ILIKE '%flightplanning%');
+UPDATE expense_types SET report_category = 'Other charges', is_flight_related = FALSE, report_order = 140
+  WHERE report_category IS NULL AND name ILIKE '%other charges%';
+
+-- Charter profit used to be detected from the type name
+UPDATE expense_types SET income_type = 'charter_profit'
+  WHERE income_type IS NULL AND name ILIKE '%charter%' AND name ILIKE '%profit%';
+
+-- Credit notes and charter profit used to be detected from the invoice type name
+UPDATE invoice_types SET income_type = 'credit_note'
+  WHERE income_type IS NULL AND name ILIKE '%credit%' AND name ILIKE '%note%';
+UPDATE invoice_types SET income_type = 'charter_profit'
+  WHERE income_type IS NULL AND name ILIKE '%charter%' AND name ILIKE '%profit%';
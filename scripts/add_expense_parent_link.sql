@@ -0,0 +1,93 @@
+-- Link disbursement fees to the expense they are charged on
+-- Fees used to be found by comparing invoice, flight, period and place (and
+-- the expense amount in the fee comment), falling back to the first candidate,
+-- which could pick the wrong fee. The relation is now stored on the fee row.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS parent_expense_id UUID REFERENCES expenses(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_parent_expense_id ON expenses(parent_expense_id);
+
+COMMENT ON COLUMN expenses.parent_expense_id IS 'Expense a disbursement fee is charged on (NULL for regular expenses)';
+
+-- Candidate parents of each unlinked fee: other expenses on the same invoice,
+-- flight, period and place (the previous matching)
+CREATE TEMP TABLE fee_link_candidates AS
+SELECT
+  fee.id AS fee_id,
+  parent.id AS parent_id,
+  COALESCE(
+    fee.exp_comments LIKE '%' || TO_CHAR(parent.exp_amount, 'FM999999999990.00') || '%'
+      AND fee.exp_comments LIKE '%' || COALESCE(parent.exp_currency, 'AED') || '%',
+    FALSE
+  ) AS comment_match
+FROM expenses fee
+JOIN expense_types ft ON ft.id = fee.exp_type_id AND ft.name ILIKE '%disbursement%'
+JOIN expenses parent
+  ON parent.id <> fee.id
+  AND parent.exp_type_id IS DISTINCT FROM fee.exp_type_id
+  AND parent.exp_invoice IS NOT DISTINCT FROM fee.exp_invoice
+  AND parent.exp_flight IS NOT DISTINCT FROM fee.exp_flight
+  AND parent.exp_period_start IS NOT DISTINCT FROM fee.exp_period_start
+  AND parent.exp_period_end IS NOT DISTINCT FROM fee.exp_period_end
+  AND parent.exp_place IS NOT DISTINCT FROM fee.exp_place
+WHERE fee.parent_expense_id IS NULL;
+
+-- A fee is linked when it has a single candidate, or a single candidate whose
+-- amount and currency appear in the fee comment
+CREATE TEMP TABLE fee_link_choices AS
+SELECT
+  fee_id,
+  CASE
+    WHEN COUNT(*) = 1 THEN MIN(parent_id::text)::uuid
+    WHEN COUNT(*) FILTER (WHERE comment_match) = 1
+      THEN (MIN(parent_id::text) FILTER (WHERE comment_match))::uuid
+  END AS parent_id,
+  COUNT(*) AS candidates,
+  COUNT(*) FILTER (WHERE comment_match) AS comment_matches
+FROM fee_link_candidates
+GROUP BY fee_id;
+
+-- An expense carries one fee: skip parents chosen by several fees or
+-- already linked
+UPDATE expenses e
+SET parent_expense_id = c.parent_id
+FROM fee_link_choices c
+WHERE e.id = c.fee_id
+  AND c.parent_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM fee_link_choices other
+    WHERE other.parent_id = c.parent_id AND other.fee_id <> c.fee_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM expenses linked WHERE linked.parent_expense_id = c.parent_id
+  );
+
+-- Review report: fees still unlinked and why. Link each one by hand, then
+-- run this script again to refresh the report:
+--   UPDATE expenses SET parent_expense_id = '<expense id>' WHERE id = '<fee id>';
+SELECT
+  fee.id AS fee_id,
+  fee.exp_invoice,
+  fee.exp_amount,
+  fee.exp_currency,
+  fee.exp_comments,
+  COALESCE(c.candidates, 0) AS candidates,
+  COALESCE(c.comment_matches, 0) AS comment_matches,
+  (
+    SELECT STRING_AGG(fc.parent_id::text, ', ')
+    FROM fee_link_candidates fc
+    WHERE fc.fee_id = fee.id
+  ) AS candidate_expense_ids,
+  CASE
+    WHEN c.fee_id IS NULL THEN 'no matching expense'
+    WHEN c.parent_id IS NULL THEN 'several matching expenses'
+    ELSE 'matching expense claimed by another fee'
+  END AS reason
+FROM expenses fee
+JOIN expense_types ft ON ft.id = fee.exp_type_id AND ft.name ILIKE '%disbursement%'
+LEFT JOIN fee_link_choices c ON c.fee_id = fee.id
+WHERE fee.parent_expense_id IS NULL
+ORDER BY fee.exp_invoice, fee.id;
+
+DROP TABLE fee_link_choices;
+DROP TABLE fee_link_candidates;
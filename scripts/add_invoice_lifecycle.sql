@@ -0,0 +1,114 @@
+-- Invoice lifecycle: received → entered → approved → scheduled → paid
+-- inv_filled / inv_disputed only said whether the expense lines were entered.
+-- The lifecycle also tracks approval (who and when), the scheduled payment
+-- date and payment (inv_paid / inv_paid_date, also set by bank transaction
+-- matching), and every invoice gets a due date from the supplier's payment
+-- terms.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_status TEXT NOT NULL DEFAULT 'received';
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_due_date DATE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_payment_terms_days INTEGER CHECK (inv_payment_terms_days >= 0);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_approved_by TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_approved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_payment_date DATE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_status_reason TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'invoices_inv_status_chk'
+  ) THEN
+    ALTER TABLE invoices ADD CONSTRAINT invoices_inv_status_chk
+      CHECK (inv_status IN ('received', 'entered', 'approved', 'scheduled', 'paid'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_inv_status ON invoices(inv_status);
+CREATE INDEX IF NOT EXISTS idx_invoices_inv_due_date ON invoices(inv_due_date);
+
+COMMENT ON COLUMN invoices.inv_status IS 'Lifecycle stage: received, entered, approved, scheduled or paid';
+COMMENT ON COLUMN invoices.inv_due_date IS 'Payment due date (invoice date + payment terms unless set by hand)';
+COMMENT ON COLUMN invoices.inv_payment_terms_days IS 'Payment terms the due date was computed from (NULL when set by hand)';
+COMMENT ON COLUMN invoices.inv_approved_by IS 'Email of the user who approved the invoice';
+COMMENT ON COLUMN invoices.inv_approved_at IS 'When the invoice was approved';
+COMMENT ON COLUMN invoices.inv_payment_date IS 'Date the payment is scheduled for';
+COMMENT ON COLUMN invoices.inv_status_reason IS 'Why the invoice was last moved back in its lifecycle';
+
+-- Invoices whose lines are already entered start in "entered", paid ones
+-- in "paid"
+UPDATE invoices SET inv_status = 'entered'
+WHERE inv_filled = TRUE AND inv_status = 'received';
+
+UPDATE invoices SET inv_status = 'paid'
+WHERE inv_paid = TRUE;
+
+-- Payment terms per supplier (same free-text name as invoices.inv_supplier).
+-- The row without a supplier is the default for every other supplier.
+CREATE TABLE IF NOT EXISTS supplier_payment_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier TEXT,
+  terms_days INTEGER NOT NULL CHECK (terms_days >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_payment_terms_supplier
+  ON supplier_payment_terms (LOWER(COALESCE(supplier, '')));
+
+COMMENT ON TABLE supplier_payment_terms IS 'Days an invoice of a supplier is due after its invoice date';
+COMMENT ON COLUMN supplier_payment_terms.terms_days IS 'Days from the invoice date to the due date';
+
+-- Default terms: 30 days
+INSERT INTO supplier_payment_terms (terms_days, notes)
+SELECT 30, 'Default payment terms'
+WHERE NOT EXISTS (
+  SELECT 1 FROM supplier_payment_terms WHERE supplier IS NULL
+);
+
+-- Due dates of existing invoices from the default terms
+UPDATE invoices i
+SET inv_due_date = i.inv_date::date + t.terms_days,
+    inv_payment_terms_days = t.terms_days
+FROM supplier_payment_terms t
+WHERE t.supplier IS NULL
+  AND i.inv_due_date IS NULL
+  AND i.inv_date IS NOT NULL;
+
+-- Enable Row Level Security (same as fx_rates table)
+ALTER TABLE supplier_payment_terms ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read all payment terms
+CREATE POLICY "Authenticated users can read supplier_payment_terms"
+  ON supplier_payment_terms
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage payment terms
+CREATE POLICY "Superadmin can manage supplier_payment_terms"
+  ON supplier_payment_terms
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage supplier_payment_terms"
+  ON supplier_payment_terms
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
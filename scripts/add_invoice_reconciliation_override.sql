@@ -0,0 +1,13 @@
+-- Record why an invoice was marked as filled while its expense lines did not
+-- add up to the invoice total
+-- PUT /api/invoices/:id/status refuses inv_filled = true on an unreconciled
+-- invoice unless an override reason is given; the reason, who gave it and
+-- when are kept on the invoice and cleared when it is reopened.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_filled_override_reason TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_filled_override_by TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_filled_override_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN invoices.inv_filled_override_reason IS 'Why the invoice was marked as filled although its lines do not match the total';
+COMMENT ON COLUMN invoices.inv_filled_override_by IS 'Email of the user who overrode the reconciliation check';
+COMMENT ON COLUMN invoices.inv_filled_override_at IS 'When the reconciliation check was overridden';
@@ -0,0 +1,59 @@
+-- Create airports table
+-- Reference list of airports that flight legs depart from and arrive at.
+-- Flights store the IATA code (the ICAO code for airports without one); both
+-- codes are accepted on input. Fill the table from the bundled dataset with
+-- "Load bundled airports" in Settings (POST /api/airports/load-bundled); until
+-- then the server uses the bundled dataset directly.
+CREATE TABLE IF NOT EXISTS airports (
+  icao TEXT PRIMARY KEY CHECK (icao ~ '^[A-Z0-9]{4}$'),
+  iata TEXT UNIQUE CHECK (iata ~ '^[A-Z0-9]{3}$'),
+  name TEXT NOT NULL,
+  country TEXT NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  timezone TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_airports_country ON airports(country);
+
+-- Add comments to table
+COMMENT ON TABLE airports IS 'Airports for flight legs (ICAO, IATA, name, country, time zone)';
+COMMENT ON COLUMN airports.country IS 'ISO 3166-1 alpha-2 country code, used to group report rows by country';
+COMMENT ON COLUMN airports.timezone IS 'IANA time zone, e.g. Asia/Dubai';
+
+-- Enable Row Level Security (same as currencies table)
+ALTER TABLE airports ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read all airports
+CREATE POLICY "Authenticated users can read airports"
+  ON airports
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage airports
+CREATE POLICY "Superadmin can manage airports"
+  ON airports
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage airports"
+  ON airports
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
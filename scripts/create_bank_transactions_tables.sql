@@ -0,0 +1,116 @@
+-- Create bank statement and transaction tables
+-- Statements are imported from CSV, MT940 or CAMT.053 files; each transaction
+-- can be matched to the invoice it pays.
+CREATE TABLE IF NOT EXISTS bank_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  filename TEXT,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'mt940', 'camt053')),
+  account TEXT,
+  transactions_count INTEGER NOT NULL DEFAULT 0,
+  imported_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_id UUID NOT NULL REFERENCES bank_statements(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  value_date DATE,
+  amount NUMERIC(15, 2) NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  reference TEXT,
+  counterparty TEXT,
+  bank_reference TEXT,
+  fingerprint TEXT NOT NULL UNIQUE,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  match_status TEXT NOT NULL DEFAULT 'unmatched' CHECK (match_status IN ('unmatched', 'auto', 'manual')),
+  matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for matching and listing
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_statement_id ON bank_transactions(statement_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_invoice_id ON bank_transactions(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_booking_date ON bank_transactions(booking_date DESC);
+
+-- Payment status on invoices, kept in sync with matched transactions
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_paid BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_paid_date DATE;
+-- 'bank' when matched payments cover the invoice, 'manual' when it was marked
+-- paid by hand (bank matching never undoes a manual payment)
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_paid_source TEXT CHECK (inv_paid_source IN ('bank', 'manual'));
+
+-- Add comments to tables
+COMMENT ON TABLE bank_statements IS 'Imported bank statement files';
+COMMENT ON TABLE bank_transactions IS 'Bank transactions with the invoice each payment settles';
+
+-- Enable Row Level Security (same as flights table)
+ALTER TABLE bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read statements and transactions
+CREATE POLICY "Authenticated users can read bank_statements"
+  ON bank_statements
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read bank_transactions"
+  ON bank_transactions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage statements and transactions
+CREATE POLICY "Superadmin can manage bank_statements"
+  ON bank_statements
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+CREATE POLICY "Superadmin can manage bank_transactions"
+  ON bank_transactions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage bank_statements"
+  ON bank_statements
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage bank_transactions"
+  ON bank_transactions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,89 @@
+-- Create currencies table
+-- Reference list of ISO 4217 currencies accepted on invoices, expenses and
+-- discrepancies. Run this before create_discrepancies_table.sql.
+CREATE TABLE IF NOT EXISTS currencies (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  name TEXT NOT NULL,
+  minor_units INTEGER NOT NULL DEFAULT 2 CHECK (minor_units BETWEEN 0 AND 4),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE currencies IS 'ISO 4217 currencies available for invoices, expenses and discrepancies';
+
+-- Seed with the currencies our handlers bill in
+INSERT INTO currencies (code, name, minor_units)
+VALUES
+  ('AED', 'UAE Dirham', 2),
+  ('USD', 'US Dollar', 2),
+  ('EUR', 'Euro', 2),
+  ('GBP', 'Pound Sterling', 2),
+  ('CHF', 'Swiss Franc', 2),
+  ('SAR', 'Saudi Riyal', 2),
+  ('QAR', 'Qatari Riyal', 2),
+  ('KWD', 'Kuwaiti Dinar', 3),
+  ('BHD', 'Bahraini Dinar', 3),
+  ('OMR', 'Rial Omani', 3),
+  ('EGP', 'Egyptian Pound', 2),
+  ('TRY', 'Turkish Lira', 2),
+  ('INR', 'Indian Rupee', 2),
+  ('CNY', 'Yuan Renminbi', 2),
+  ('HKD', 'Hong Kong Dollar', 2),
+  ('SGD', 'Singapore Dollar', 2),
+  ('JPY', 'Yen', 0),
+  ('THB', 'Baht', 2),
+  ('MYR', 'Malaysian Ringgit', 2),
+  ('KZT', 'Tenge', 2),
+  ('RUB', 'Russian Ruble', 2)
+ON CONFLICT (code) DO NOTHING;
+
+-- Replace the old AED/USD/EUR check on discrepancies with a reference to this table
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'discrepancies') THEN
+    ALTER TABLE discrepancies DROP CONSTRAINT IF EXISTS discrepancies_claimed_currency_check;
+    ALTER TABLE discrepancies DROP CONSTRAINT IF EXISTS discrepancies_claimed_currency_fkey;
+    ALTER TABLE discrepancies
+      ADD CONSTRAINT discrepancies_claimed_currency_fkey
+      FOREIGN KEY (claimed_currency) REFERENCES currencies(code);
+  END IF;
+END $$;
+
+-- Enable Row Level Security (same as flights table)
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read all currencies
+CREATE POLICY "Authenticated users can read currencies"
+  ON currencies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage currencies
+CREATE POLICY "Superadmin can manage currencies"
+  ON currencies
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage currencies"
+  ON currencies
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
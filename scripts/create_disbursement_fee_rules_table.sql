@@ -0,0 +1,87 @@
+-- Create disbursement_fee_rules table
+-- Disbursement fees used to be a fixed 5% of the expense. A rule gives the
+-- fee rate, optional VAT on the fee, a minimum and a cap, per supplier and/or
+-- per invoice type. The most specific active rule wins:
+-- supplier + invoice type > supplier > invoice type > default (both empty).
+
+-- Supplier of an invoice (same free-text name as discrepancies.supplier)
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS inv_supplier TEXT;
+COMMENT ON COLUMN invoices.inv_supplier IS 'Supplier that issued the invoice';
+
+CREATE TABLE IF NOT EXISTS disbursement_fee_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier TEXT,
+  invoice_type_id UUID REFERENCES invoice_types(id) ON DELETE CASCADE,
+  rate NUMERIC(7, 4) NOT NULL CHECK (rate >= 0),
+  vat_rate NUMERIC(7, 4) NOT NULL DEFAULT 0 CHECK (vat_rate >= 0),
+  min_amount NUMERIC(12, 2) CHECK (min_amount >= 0),
+  max_amount NUMERIC(12, 2) CHECK (max_amount >= 0),
+  currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT disbursement_fee_rules_limits_chk CHECK (
+    min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount
+  )
+);
+
+-- One rule per supplier / invoice type combination
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disbursement_fee_rules_scope
+  ON disbursement_fee_rules (
+    LOWER(COALESCE(supplier, '')),
+    COALESCE(invoice_type_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+COMMENT ON TABLE disbursement_fee_rules IS 'How the disbursement fee of an expense is computed, per supplier and/or invoice type';
+COMMENT ON COLUMN disbursement_fee_rules.rate IS 'Fee in percent of the expense amount';
+COMMENT ON COLUMN disbursement_fee_rules.vat_rate IS 'VAT in percent added on top of the fee';
+COMMENT ON COLUMN disbursement_fee_rules.min_amount IS 'Minimum fee before VAT, in currency (or the expense currency)';
+COMMENT ON COLUMN disbursement_fee_rules.max_amount IS 'Fee cap before VAT, in currency (or the expense currency)';
+COMMENT ON COLUMN disbursement_fee_rules.currency IS 'Currency of min_amount and max_amount; NULL means the expense currency';
+
+-- Default rule: 5% plus 5% VAT on the fee, as the invoice page applied it
+INSERT INTO disbursement_fee_rules (rate, vat_rate, notes)
+SELECT 5, 5, 'Default rule (previously hard-coded)'
+WHERE NOT EXISTS (
+  SELECT 1 FROM disbursement_fee_rules
+  WHERE supplier IS NULL AND invoice_type_id IS NULL
+);
+
+-- Enable Row Level Security (same as fx_rates table)
+ALTER TABLE disbursement_fee_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read all rules
+CREATE POLICY "Authenticated users can read disbursement_fee_rules"
+  ON disbursement_fee_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage rules
+CREATE POLICY "Superadmin can manage disbursement_fee_rules"
+  ON disbursement_fee_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage disbursement_fee_rules"
+  ON disbursement_fee_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
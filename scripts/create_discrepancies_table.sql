@@ -1,4 +1,5 @@
 -- Create discrepancies table
+-- Requires the currencies table (create_currencies_table.sql)
 CREATE TABLE IF NOT EXISTS discrepancies (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -7,7 +8,7 @@ CREATE TABLE IF NOT EXISTS discrepancies (
   status TEXT NOT NULL DEFAULT 'Created' CHECK (status IN ('Created', 'Raised', 'Resolved', 'Declined', 'Closed')),
   solution TEXT,
   claimed_amount NUMERIC(15, 2),
-  claimed_currency TEXT CHECK (claimed_currency IN ('AED', 'USD', 'EUR')),
+  claimed_currency TEXT REFERENCES currencies(code),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
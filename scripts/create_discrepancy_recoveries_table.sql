@@ -0,0 +1,60 @@
+-- Create discrepancy_recoveries table
+-- Links a discrepancy to the credit-note expense rows that recovered it.
+-- One credit note can be split across several discrepancies; amount is the
+-- part applied to this discrepancy, in the credit note's currency.
+-- Requires discrepancies, expenses and currencies tables
+CREATE TABLE IF NOT EXISTS discrepancy_recoveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discrepancy_id UUID NOT NULL REFERENCES discrepancies(id) ON DELETE CASCADE,
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL REFERENCES currencies(code),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT discrepancy_recoveries_pair_key UNIQUE (discrepancy_id, expense_id)
+);
+
+-- Create indexes for lookups from either side
+CREATE INDEX IF NOT EXISTS idx_discrepancy_recoveries_discrepancy_id ON discrepancy_recoveries(discrepancy_id);
+CREATE INDEX IF NOT EXISTS idx_discrepancy_recoveries_expense_id ON discrepancy_recoveries(expense_id);
+
+-- Add comment to table
+COMMENT ON TABLE discrepancy_recoveries IS 'Credit notes (expenses with exp_category income_credit_note) applied to discrepancies';
+
+-- Enable Row Level Security (same as discrepancies table)
+ALTER TABLE discrepancy_recoveries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read recoveries
+CREATE POLICY "Authenticated users can read discrepancy_recoveries"
+  ON discrepancy_recoveries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage recoveries
+CREATE POLICY "Superadmin can manage discrepancy_recoveries"
+  ON discrepancy_recoveries
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage discrepancy_recoveries"
+  ON discrepancy_recoveries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
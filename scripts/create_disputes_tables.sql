@@ -0,0 +1,151 @@
+-- Disputes workspace on top of the discrepancies table
+-- Requires the discrepancies table (create_discrepancies_table.sql)
+
+-- Who the dispute is raised with and when they have to answer by
+ALTER TABLE discrepancies ADD COLUMN IF NOT EXISTS supplier TEXT;
+ALTER TABLE discrepancies ADD COLUMN IF NOT EXISTS response_due_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_discrepancies_supplier ON discrepancies(supplier);
+
+-- Correspondence notes; a reply points at the note it answers
+CREATE TABLE IF NOT EXISTS discrepancy_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discrepancy_id UUID NOT NULL REFERENCES discrepancies(id) ON DELETE CASCADE,
+  parent_note_id UUID REFERENCES discrepancy_notes(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL DEFAULT 'internal' CHECK (direction IN ('internal', 'sent', 'received')),
+  body TEXT NOT NULL,
+  author_id UUID,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discrepancy_notes_discrepancy_id ON discrepancy_notes(discrepancy_id, created_at);
+
+COMMENT ON TABLE discrepancy_notes IS 'Threaded correspondence and internal notes on a disputed discrepancy';
+
+-- Files exchanged with the supplier (kept inline as base64)
+CREATE TABLE IF NOT EXISTS discrepancy_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discrepancy_id UUID NOT NULL REFERENCES discrepancies(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES discrepancy_notes(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'application/octet-stream',
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  content_base64 TEXT NOT NULL,
+  uploaded_by UUID,
+  uploaded_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discrepancy_attachments_discrepancy_id ON discrepancy_attachments(discrepancy_id);
+
+COMMENT ON TABLE discrepancy_attachments IS 'Documents attached to a disputed discrepancy';
+
+-- One row per status change, including the initial status on creation
+CREATE TABLE IF NOT EXISTS discrepancy_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discrepancy_id UUID NOT NULL REFERENCES discrepancies(id) ON DELETE CASCADE,
+  from_status TEXT CHECK (from_status IN ('Created', 'Raised', 'Resolved', 'Declined', 'Closed')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('Created', 'Raised', 'Resolved', 'Declined', 'Closed')),
+  changed_by UUID,
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discrepancy_status_history_discrepancy_id ON discrepancy_status_history(discrepancy_id, changed_at);
+
+COMMENT ON TABLE discrepancy_status_history IS 'Timestamped status transitions of discrepancies';
+
+-- Backfill the current status of existing discrepancies as their first entry
+INSERT INTO discrepancy_status_history (discrepancy_id, from_status, to_status, changed_at)
+SELECT d.id, NULL, d.status, COALESCE(d.updated_at, d.created_at)
+FROM discrepancies d
+WHERE NOT EXISTS (
+  SELECT 1 FROM discrepancy_status_history h WHERE h.discrepancy_id = d.id
+);
+
+-- Enable Row Level Security (same as discrepancies table)
+ALTER TABLE discrepancy_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discrepancy_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discrepancy_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read dispute data
+CREATE POLICY "Authenticated users can read discrepancy_notes"
+  ON discrepancy_notes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read discrepancy_attachments"
+  ON discrepancy_attachments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read discrepancy_status_history"
+  ON discrepancy_status_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage notes and attachments
+CREATE POLICY "Superadmin can manage discrepancy_notes"
+  ON discrepancy_notes
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+CREATE POLICY "Superadmin can manage discrepancy_attachments"
+  ON discrepancy_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+-- Status history is only written by the server
+CREATE POLICY "Service role can manage discrepancy_notes"
+  ON discrepancy_notes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage discrepancy_attachments"
+  ON discrepancy_attachments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage discrepancy_status_history"
+  ON discrepancy_status_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,67 @@
+-- Create fx_rates table
+-- A row means "1 from_currency = rate to_currency", in force from the month of
+-- effective_from until a later row for the same pair takes over.
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  effective_from DATE NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fx_rates_pair_chk CHECK (from_currency <> to_currency),
+  CONSTRAINT fx_rates_pair_month_key UNIQUE (from_currency, to_currency, effective_from)
+);
+
+-- Create index for rate lookups by pair and date
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_effective_from ON fx_rates(from_currency, to_currency, effective_from DESC);
+
+-- Add comment to table
+COMMENT ON TABLE fx_rates IS 'Dated exchange rates used to convert amounts in reports and exports';
+
+-- Seed with the rates previously hard-coded in the Excel export
+INSERT INTO fx_rates (from_currency, to_currency, rate, effective_from, notes)
+VALUES
+  ('USD', 'AED', 3.6735, '2000-01-01', 'USD/AED until Oct 2025'),
+  ('USD', 'AED', 3.6725, '2025-11-01', 'USD/AED from Nov 2025'),
+  ('EUR', 'USD', 1.16, '2000-01-01', 'Fixed EUR/USD')
+ON CONFLICT (from_currency, to_currency, effective_from) DO NOTHING;
+
+-- Enable Row Level Security (same as flights table)
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read all rates
+CREATE POLICY "Authenticated users can read fx_rates"
+  ON fx_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage rates
+CREATE POLICY "Superadmin can manage fx_rates"
+  ON fx_rates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage fx_rates"
+  ON fx_rates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,77 @@
+-- Attachments on invoices and discrepancies
+-- The original supplier invoice (PDF or scan) is kept with the invoice.
+-- Attachment files are stored outside the database (local directory in
+-- development, Supabase Storage bucket in production); the tables keep the
+-- metadata and the storage path.
+
+CREATE TABLE IF NOT EXISTS invoice_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  storage_path TEXT NOT NULL UNIQUE,
+  uploaded_by UUID,
+  uploaded_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_attachments_invoice_id ON invoice_attachments(invoice_id);
+
+COMMENT ON TABLE invoice_attachments IS 'Documents attached to an invoice (original supplier invoice, scans)';
+COMMENT ON COLUMN invoice_attachments.storage_path IS 'Path of the file in attachment storage';
+
+-- Discrepancy attachments move to attachment storage too. Rows uploaded
+-- before keep their inline content_base64 and are still served from it.
+ALTER TABLE discrepancy_attachments ADD COLUMN IF NOT EXISTS storage_path TEXT UNIQUE;
+ALTER TABLE discrepancy_attachments ALTER COLUMN content_base64 DROP NOT NULL;
+
+COMMENT ON COLUMN discrepancy_attachments.storage_path IS 'Path of the file in attachment storage (NULL for files kept in content_base64)';
+
+ALTER TABLE discrepancy_attachments DROP CONSTRAINT IF EXISTS discrepancy_attachments_content_chk;
+ALTER TABLE discrepancy_attachments ADD CONSTRAINT discrepancy_attachments_content_chk
+  CHECK (storage_path IS NOT NULL OR content_base64 IS NOT NULL);
+
+-- Private Supabase Storage bucket used when ATTACHMENT_STORAGE=supabase
+-- (name must match ATTACHMENT_BUCKET, default "attachments")
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security (same as discrepancy_attachments)
+ALTER TABLE invoice_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read invoice attachments
+CREATE POLICY "Authenticated users can read invoice_attachments"
+  ON invoice_attachments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage invoice attachments
+CREATE POLICY "Superadmin can manage invoice_attachments"
+  ON invoice_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage invoice_attachments"
+  ON invoice_attachments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
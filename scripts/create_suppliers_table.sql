@@ -0,0 +1,196 @@
+-- Create suppliers table
+-- Suppliers were free text: invoices.inv_supplier, expenses.exp_fuel_provider,
+-- disbursement_fee_rules.supplier and supplier_payment_terms.supplier. They
+-- become one suppliers table that invoices, expenses and fee rules reference,
+-- and the payment terms move onto the supplier.
+-- The script can be run again: steps that read the old name columns only run
+-- while those columns still exist.
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  country TEXT,
+  default_currency TEXT CHECK (default_currency ~ '^[A-Z]{3}$'),
+  vat_number TEXT,
+  payment_terms_days INTEGER CHECK (payment_terms_days >= 0),
+  contacts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers (LOWER(TRIM(name)));
+
+COMMENT ON TABLE suppliers IS 'Suppliers that issue invoices';
+COMMENT ON COLUMN suppliers.default_currency IS 'Currency the supplier usually invoices in';
+COMMENT ON COLUMN suppliers.payment_terms_days IS 'Days from the invoice date to the due date; NULL uses the default terms';
+COMMENT ON COLUMN suppliers.contacts IS 'Contacts as [{"name", "email", "phone", "role"}]';
+
+-- One supplier per name already in use (a name spelled in several ways keeps
+-- the first spelling found)
+INSERT INTO suppliers (name)
+SELECT DISTINCT ON (LOWER(TRIM(exp_fuel_provider))) TRIM(exp_fuel_provider)
+FROM expenses
+WHERE TRIM(COALESCE(exp_fuel_provider, '')) <> ''
+ORDER BY LOWER(TRIM(exp_fuel_provider)), TRIM(exp_fuel_provider)
+ON CONFLICT DO NOTHING;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'inv_supplier'
+  ) THEN
+    INSERT INTO suppliers (name)
+    SELECT DISTINCT ON (LOWER(TRIM(inv_supplier))) TRIM(inv_supplier)
+    FROM invoices
+    WHERE TRIM(COALESCE(inv_supplier, '')) <> ''
+    ORDER BY LOWER(TRIM(inv_supplier)), TRIM(inv_supplier)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'disbursement_fee_rules' AND column_name = 'supplier'
+  ) THEN
+    INSERT INTO suppliers (name)
+    SELECT DISTINCT ON (LOWER(TRIM(supplier))) TRIM(supplier)
+    FROM disbursement_fee_rules
+    WHERE TRIM(COALESCE(supplier, '')) <> ''
+    ORDER BY LOWER(TRIM(supplier)), TRIM(supplier)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- Payment terms of a supplier
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'supplier_payment_terms'
+  ) THEN
+    INSERT INTO suppliers (name)
+    SELECT DISTINCT ON (LOWER(TRIM(supplier))) TRIM(supplier)
+    FROM supplier_payment_terms
+    WHERE TRIM(COALESCE(supplier, '')) <> ''
+    ORDER BY LOWER(TRIM(supplier)), TRIM(supplier)
+    ON CONFLICT DO NOTHING;
+
+    UPDATE suppliers s
+    SET payment_terms_days = t.terms_days
+    FROM supplier_payment_terms t
+    WHERE t.supplier IS NOT NULL
+      AND LOWER(TRIM(t.supplier)) = LOWER(TRIM(s.name));
+  END IF;
+END $$;
+
+-- Invoices
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_supplier_id ON invoices(supplier_id);
+COMMENT ON COLUMN invoices.supplier_id IS 'Supplier that issued the invoice';
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'inv_supplier'
+  ) THEN
+    UPDATE invoices i
+    SET supplier_id = s.id
+    FROM suppliers s
+    WHERE i.supplier_id IS NULL
+      AND LOWER(TRIM(i.inv_supplier)) = LOWER(TRIM(s.name));
+  END IF;
+END $$;
+
+-- Expenses: the fuel provider, else the supplier of the invoice
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_expenses_supplier_id ON expenses(supplier_id);
+COMMENT ON COLUMN expenses.supplier_id IS 'Supplier of the expense (defaults to the supplier of its invoice)';
+
+UPDATE expenses e
+SET supplier_id = s.id
+FROM suppliers s
+WHERE e.supplier_id IS NULL
+  AND LOWER(TRIM(e.exp_fuel_provider)) = LOWER(TRIM(s.name));
+
+UPDATE expenses e
+SET supplier_id = i.supplier_id
+FROM invoices i
+WHERE e.supplier_id IS NULL
+  AND e.exp_invoice = i.id
+  AND i.supplier_id IS NOT NULL;
+
+-- Disbursement fee rules
+ALTER TABLE disbursement_fee_rules ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE CASCADE;
+COMMENT ON COLUMN disbursement_fee_rules.supplier_id IS 'Supplier the rule applies to (NULL for any supplier)';
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'disbursement_fee_rules' AND column_name = 'supplier'
+  ) THEN
+    UPDATE disbursement_fee_rules r
+    SET supplier_id = s.id
+    FROM suppliers s
+    WHERE r.supplier_id IS NULL
+      AND LOWER(TRIM(r.supplier)) = LOWER(TRIM(s.name));
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_disbursement_fee_rules_scope;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disbursement_fee_rules_scope
+  ON disbursement_fee_rules (
+    COALESCE(supplier_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(invoice_type_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+-- Name columns replaced by the references (exp_fuel_provider stays: it is
+-- the fuel provider as printed on the fuel expense)
+ALTER TABLE invoices DROP COLUMN IF EXISTS inv_supplier;
+ALTER TABLE disbursement_fee_rules DROP COLUMN IF EXISTS supplier;
+
+-- Payment terms now live on the supplier; suppliers without terms use the
+-- default in the application
+DROP TABLE IF EXISTS supplier_payment_terms;
+
+-- Enable Row Level Security (same as fx_rates table)
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Superadmin can manage suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Service role can manage suppliers" ON suppliers;
+
+-- Policy: Allow authenticated users to read all suppliers
+CREATE POLICY "Authenticated users can read suppliers"
+  ON suppliers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Allow superadmin to manage suppliers
+CREATE POLICY "Superadmin can manage suppliers"
+  ON suppliers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+    )
+  );
+
+-- Policy: Allow service_role to bypass RLS (for server-side operations)
+CREATE POLICY "Service role can manage suppliers"
+  ON suppliers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,69 @@
+-- Store expense type, subtype and invoice type as foreign keys
+-- expenses.exp_type / exp_subtype / exp_invoice_type held the type names (and
+-- in some older rows the IDs). Renaming a type left those rows behind, so the
+-- references move to exp_type_id / exp_subtype_id / exp_invoice_type_id.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exp_type_id UUID REFERENCES expense_types(id) ON DELETE SET NULL;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exp_subtype_id UUID REFERENCES expense_subtypes(id) ON DELETE SET NULL;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exp_invoice_type_id UUID REFERENCES invoice_types(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_exp_type_id ON expenses(exp_type_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_exp_subtype_id ON expenses(exp_subtype_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_exp_invoice_type_id ON expenses(exp_invoice_type_id);
+
+COMMENT ON COLUMN expenses.exp_type_id IS 'Expense type of the expense';
+COMMENT ON COLUMN expenses.exp_subtype_id IS 'Expense subtype (belongs to exp_type_id)';
+COMMENT ON COLUMN expenses.exp_invoice_type_id IS 'Invoice type of the expense';
+
+-- Backfill from the stored names (case-insensitive) or IDs stored as text
+UPDATE expenses e
+SET exp_type_id = t.id
+FROM expense_types t
+WHERE e.exp_type_id IS NULL
+  AND e.exp_type IS NOT NULL
+  AND (LOWER(TRIM(e.exp_type)) = LOWER(TRIM(t.name)) OR TRIM(e.exp_type) = t.id::text);
+
+UPDATE expenses e
+SET exp_subtype_id = st.id
+FROM expense_subtypes st
+WHERE e.exp_subtype_id IS NULL
+  AND e.exp_subtype IS NOT NULL
+  AND st.expense_type_id = e.exp_type_id
+  AND (LOWER(TRIM(e.exp_subtype)) = LOWER(TRIM(st.name)) OR TRIM(e.exp_subtype) = st.id::text);
+
+UPDATE expenses e
+SET exp_invoice_type_id = it.id
+FROM invoice_types it
+WHERE e.exp_invoice_type_id IS NULL
+  AND e.exp_invoice_type IS NOT NULL
+  AND (LOWER(TRIM(e.exp_invoice_type)) = LOWER(TRIM(it.name)) OR TRIM(e.exp_invoice_type) = it.id::text);
+
+-- Rows whose stored name matches no type; fix them (or create the missing
+-- type) and run this script again
+SELECT id, exp_type, exp_subtype, exp_invoice_type
+FROM expenses
+WHERE (TRIM(COALESCE(exp_type, '')) <> '' AND exp_type_id IS NULL)
+   OR (TRIM(COALESCE(exp_subtype, '')) <> '' AND exp_subtype_id IS NULL)
+   OR (TRIM(COALESCE(exp_invoice_type, '')) <> '' AND exp_invoice_type_id IS NULL);
+
+-- Drop the name columns once every row is resolved
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'expenses' AND column_name = 'exp_type'
+  ) THEN
+    IF EXISTS (
+      SELECT 1 FROM expenses
+      WHERE (TRIM(COALESCE(exp_type, '')) <> '' AND exp_type_id IS NULL)
+         OR (TRIM(COALESCE(exp_subtype, '')) <> '' AND exp_subtype_id IS NULL)
+         OR (TRIM(COALESCE(exp_invoice_type, '')) <> '' AND exp_invoice_type_id IS NULL)
+    ) THEN
+      RAISE NOTICE 'Some expenses have unresolved type names; name columns kept';
+    ELSE
+      ALTER TABLE expenses DROP COLUMN exp_type;
+      ALTER TABLE expenses DROP COLUMN exp_subtype;
+      ALTER TABLE expenses DROP COLUMN exp_invoice_type;
+    END IF;
+  END IF;
+END $$;
@@ -0,0 +1,336 @@
+// ---------- Airports ----------
+// Reference data for flight legs. Flights are stored with the IATA code of
+// the airport (the ICAO code when it has none); ops systems export either
+// code, so both are looked up and the same airport is always written the same
+// way and legs chain by route. BUNDLED_AIRPORTS seeds the airports table and
+// is used when the table is not available.
+
+export interface Airport {
+  icao: string;
+  iata: string | null;
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  timezone: string; // IANA time zone
+}
+
+// Airport code (ICAO or IATA) -> airport
+export type AirportIndex = Map<string, Airport>;
+
+// ICAO, IATA, name, country, time zone
+const AIRPORT_DATA: [string, string | null, string, string, string][] = [
+  // United Arab Emirates
+  ['OMAA', 'AUH', 'Abu Dhabi International', 'AE', 'Asia/Dubai'],
+  ['OMAD', 'AZI', 'Al Bateen Executive', 'AE', 'Asia/Dubai'],
+  ['OMAL', 'AAN', 'Al Ain International', 'AE', 'Asia/Dubai'],
+  ['OMDB', 'DXB', 'Dubai International', 'AE', 'Asia/Dubai'],
+  ['OMDW', 'DWC', 'Al Maktoum International', 'AE', 'Asia/Dubai'],
+  ['OMFJ', 'FJR', 'Fujairah International', 'AE', 'Asia/Dubai'],
+  ['OMRK', 'RKT', 'Ras Al Khaimah International', 'AE', 'Asia/Dubai'],
+  ['OMSJ', 'SHJ', 'Sharjah International', 'AE', 'Asia/Dubai'],
+  // Gulf
+  ['OOMS', 'MCT', 'Muscat International', 'OM', 'Asia/Muscat'],
+  ['OOSA', 'SLL', 'Salalah International', 'OM', 'Asia/Muscat'],
+  ['OBBI', 'BAH', 'Bahrain International', 'BH', 'Asia/Bahrain'],
+  ['OTHH', 'DOH', 'Hamad International', 'QA', 'Asia/Qatar'],
+  ['OKBK', 'KWI', 'Kuwait International', 'KW', 'Asia/Kuwait'],
+  ['OERK', 'RUH', 'King Khalid International', 'SA', 'Asia/Riyadh'],
+  ['OEJN', 'JED', 'King Abdulaziz International', 'SA', 'Asia/Riyadh'],
+  ['OEDF', 'DMM', 'King Fahd International', 'SA', 'Asia/Riyadh'],
+  ['OEMA', 'MED', 'Prince Mohammad bin Abdulaziz', 'SA', 'Asia/Riyadh'],
+  // Middle East and North Africa
+  ['OJAI', 'AMM', 'Queen Alia International', 'JO', 'Asia/Amman'],
+  ['OLBA', 'BEY', 'Beirut–Rafic Hariri International', 'LB', 'Asia/Beirut'],
+  ['OSDI', 'DAM', 'Damascus International', 'SY', 'Asia/Damascus'],
+  ['ORBI', 'BGW', 'Baghdad International', 'IQ', 'Asia/Baghdad'],
+  ['OIIE', 'IKA', 'Tehran Imam Khomeini International', 'IR', 'Asia/Tehran'],
+  ['OYSN', 'SAH', "Sana'a International", 'YE', 'Asia/Aden'],
+  ['HECA', 'CAI', 'Cairo International', 'EG', 'Africa/Cairo'],
+  ['HEGN', 'HRG', 'Hurghada International', 'EG', 'Africa/Cairo'],
+  ['HESH', 'SSH', 'Sharm El Sheikh International', 'EG', 'Africa/Cairo'],
+  ['HLLT', 'TIP', 'Tripoli International', 'LY', 'Africa/Tripoli'],
+  ['DTTA', 'TUN', 'Tunis–Carthage International', 'TN', 'Africa/Tunis'],
+  ['GMMN', 'CMN', 'Mohammed V International', 'MA', 'Africa/Casablanca'],
+  // South and Central Asia
+  ['OAKB', 'KBL', 'Kabul International', 'AF', 'Asia/Kabul'],
+  ['OPKC', 'KHI', 'Jinnah International', 'PK', 'Asia/Karachi'],
+  ['OPLA', 'LHE', 'Allama Iqbal International', 'PK', 'Asia/Karachi'],
+  ['OPIS', 'ISB', 'Islamabad International', 'PK', 'Asia/Karachi'],
+  ['VIDP', 'DEL', 'Indira Gandhi International', 'IN', 'Asia/Kolkata'],
+  [
+    'VABB',
+    'BOM',
+    'Chhatrapati Shivaji Maharaj International',
+    'IN',
+    'Asia/Kolkata',
+  ],
+  ['VOBL', 'BLR', 'Kempegowda International', 'IN', 'Asia/Kolkata'],
+  ['VOMM', 'MAA', 'Chennai International', 'IN', 'Asia/Kolkata'],
+  ['VOCI', 'COK', 'Cochin International', 'IN', 'Asia/Kolkata'],
+  ['VOHS', 'HYD', 'Rajiv Gandhi International', 'IN', 'Asia/Kolkata'],
+  ['VCBI', 'CMB', 'Bandaranaike International', 'LK', 'Asia/Colombo'],
+  ['VRMM', 'MLE', 'Velana International', 'MV', 'Indian/Maldives'],
+  ['VNKT', 'KTM', 'Tribhuvan International', 'NP', 'Asia/Kathmandu'],
+  ['VGHS', 'DAC', 'Hazrat Shahjalal International', 'BD', 'Asia/Dhaka'],
+  ['UAAA', 'ALA', 'Almaty International', 'KZ', 'Asia/Almaty'],
+  ['UACC', 'NQZ', 'Nursultan Nazarbayev International', 'KZ', 'Asia/Almaty'],
+  ['UTTT', 'TAS', 'Tashkent International', 'UZ', 'Asia/Tashkent'],
+  ['UBBB', 'GYD', 'Heydar Aliyev International', 'AZ', 'Asia/Baku'],
+  ['UGTB', 'TBS', 'Tbilisi International', 'GE', 'Asia/Tbilisi'],
+  ['UDYZ', 'EVN', 'Zvartnots International', 'AM', 'Asia/Yerevan'],
+  // East Asia and Oceania
+  ['VTBS', 'BKK', 'Suvarnabhumi', 'TH', 'Asia/Bangkok'],
+  ['VTSP', 'HKT', 'Phuket International', 'TH', 'Asia/Bangkok'],
+  ['WSSS', 'SIN', 'Singapore Changi', 'SG', 'Asia/Singapore'],
+  ['WMKK', 'KUL', 'Kuala Lumpur International', 'MY', 'Asia/Kuala_Lumpur'],
+  ['WIII', 'CGK', 'Soekarno–Hatta International', 'ID', 'Asia/Jakarta'],
+  ['WADD', 'DPS', 'I Gusti Ngurah Rai International', 'ID', 'Asia/Makassar'],
+  ['VHHH', 'HKG', 'Hong Kong International', 'HK', 'Asia/Hong_Kong'],
+  ['ZBAA', 'PEK', 'Beijing Capital International', 'CN', 'Asia/Shanghai'],
+  ['ZSPD', 'PVG', 'Shanghai Pudong International', 'CN', 'Asia/Shanghai'],
+  ['RJTT', 'HND', 'Tokyo Haneda', 'JP', 'Asia/Tokyo'],
+  ['RJAA', 'NRT', 'Narita International', 'JP', 'Asia/Tokyo'],
+  ['RKSI', 'ICN', 'Incheon International', 'KR', 'Asia/Seoul'],
+  ['YSSY', 'SYD', 'Sydney Kingsford Smith', 'AU', 'Australia/Sydney'],
+  // Europe
+  ['EGLL', 'LHR', 'London Heathrow', 'GB', 'Europe/London'],
+  ['EGKK', 'LGW', 'London Gatwick', 'GB', 'Europe/London'],
+  ['EGSS', 'STN', 'London Stansted', 'GB', 'Europe/London'],
+  ['EGGW', 'LTN', 'London Luton', 'GB', 'Europe/London'],
+  ['EGLF', 'FAB', 'Farnborough', 'GB', 'Europe/London'],
+  ['EGLC', 'LCY', 'London City', 'GB', 'Europe/London'],
+  ['EIDW', 'DUB', 'Dublin', 'IE', 'Europe/Dublin'],
+  ['LFPG', 'CDG', 'Paris Charles de Gaulle', 'FR', 'Europe/Paris'],
+  ['LFPB', 'LBG', 'Paris Le Bourget', 'FR', 'Europe/Paris'],
+  ['LFPO', 'ORY', 'Paris Orly', 'FR', 'Europe/Paris'],
+  ['LFMN', 'NCE', "Nice Côte d'Azur", 'FR', 'Europe/Paris'],
+  ['EDDF', 'FRA', 'Frankfurt', 'DE', 'Europe/Berlin'],
+  ['EDDM', 'MUC', 'Munich', 'DE', 'Europe/Berlin'],
+  ['EDDB', 'BER', 'Berlin Brandenburg', 'DE', 'Europe/Berlin'],
+  ['EHAM', 'AMS', 'Amsterdam Schiphol', 'NL', 'Europe/Amsterdam'],
+  ['EBBR', 'BRU', 'Brussels', 'BE', 'Europe/Brussels'],
+  ['LSZH', 'ZRH', 'Zurich', 'CH', 'Europe/Zurich'],
+  ['LSGG', 'GVA', 'Geneva', 'CH', 'Europe/Zurich'],
+  ['LOWW', 'VIE', 'Vienna International', 'AT', 'Europe/Vienna'],
+  ['LIRF', 'FCO', 'Rome Fiumicino', 'IT', 'Europe/Rome'],
+  ['LIML', 'LIN', 'Milan Linate', 'IT', 'Europe/Rome'],
+  ['LIMC', 'MXP', 'Milan Malpensa', 'IT', 'Europe/Rome'],
+  ['LEMD', 'MAD', 'Adolfo Suárez Madrid–Barajas', 'ES', 'Europe/Madrid'],
+  ['LEBL', 'BCN', 'Barcelona–El Prat', 'ES', 'Europe/Madrid'],
+  ['LEPA', 'PMI', 'Palma de Mallorca', 'ES', 'Europe/Madrid'],
+  ['LPPT', 'LIS', 'Lisbon Humberto Delgado', 'PT', 'Europe/Lisbon'],
+  ['LGAV', 'ATH', 'Athens International', 'GR', 'Europe/Athens'],
+  ['LCLK', 'LCA', 'Larnaca International', 'CY', 'Asia/Nicosia'],
+  ['LMML', 'MLA', 'Malta International', 'MT', 'Europe/Malta'],
+  ['LTFM', 'IST', 'Istanbul', 'TR', 'Europe/Istanbul'],
+  ['LTFJ', 'SAW', 'Istanbul Sabiha Gökçen', 'TR', 'Europe/Istanbul'],
+  ['LTAI', 'AYT', 'Antalya', 'TR', 'Europe/Istanbul'],
+  ['EKCH', 'CPH', 'Copenhagen', 'DK', 'Europe/Copenhagen'],
+  ['ESSA', 'ARN', 'Stockholm Arlanda', 'SE', 'Europe/Stockholm'],
+  ['ENGM', 'OSL', 'Oslo Gardermoen', 'NO', 'Europe/Oslo'],
+  ['EFHK', 'HEL', 'Helsinki-Vantaa', 'FI', 'Europe/Helsinki'],
+  ['EPWA', 'WAW', 'Warsaw Chopin', 'PL', 'Europe/Warsaw'],
+  ['LKPR', 'PRG', 'Václav Havel Prague', 'CZ', 'Europe/Prague'],
+  [
+    'LHBP',
+    'BUD',
+    'Budapest Ferenc Liszt International',
+    'HU',
+    'Europe/Budapest',
+  ],
+  ['LBSF', 'SOF', 'Sofia', 'BG', 'Europe/Sofia'],
+  [
+    'LROP',
+    'OTP',
+    'Bucharest Henri Coandă International',
+    'RO',
+    'Europe/Bucharest',
+  ],
+  ['LYBE', 'BEG', 'Belgrade Nikola Tesla', 'RS', 'Europe/Belgrade'],
+  ['LDZA', 'ZAG', 'Zagreb Franjo Tuđman', 'HR', 'Europe/Zagreb'],
+  ['UUEE', 'SVO', 'Moscow Sheremetyevo', 'RU', 'Europe/Moscow'],
+  ['UUDD', 'DME', 'Moscow Domodedovo', 'RU', 'Europe/Moscow'],
+  ['UUWW', 'VKO', 'Moscow Vnukovo', 'RU', 'Europe/Moscow'],
+  // Africa
+  ['HKJK', 'NBO', 'Jomo Kenyatta International', 'KE', 'Africa/Nairobi'],
+  ['HAAB', 'ADD', 'Addis Ababa Bole International', 'ET', 'Africa/Addis_Ababa'],
+  ['HSSS', 'KRT', 'Khartoum International', 'SD', 'Africa/Khartoum'],
+  ['DNMM', 'LOS', 'Murtala Muhammed International', 'NG', 'Africa/Lagos'],
+  ['FAOR', 'JNB', 'O. R. Tambo International', 'ZA', 'Africa/Johannesburg'],
+  ['FACT', 'CPT', 'Cape Town International', 'ZA', 'Africa/Johannesburg'],
+  ['FMMI', 'TNR', 'Ivato International', 'MG', 'Indian/Antananarivo'],
+  [
+    'FIMP',
+    'MRU',
+    'Sir Seewoosagur Ramgoolam International',
+    'MU',
+    'Indian/Mauritius',
+  ],
+  ['FSIA', 'SEZ', 'Seychelles International', 'SC', 'Indian/Mahe'],
+  // Americas
+  ['KJFK', 'JFK', 'John F. Kennedy International', 'US', 'America/New_York'],
+  ['KTEB', 'TEB', 'Teterboro', 'US', 'America/New_York'],
+  ['KLAX', 'LAX', 'Los Angeles International', 'US', 'America/Los_Angeles'],
+  ['KMIA', 'MIA', 'Miami International', 'US', 'America/New_York'],
+  ['KORD', 'ORD', "Chicago O'Hare International", 'US', 'America/Chicago'],
+  ['CYYZ', 'YYZ', 'Toronto Pearson International', 'CA', 'America/Toronto'],
+  ['MMMX', 'MEX', 'Mexico City International', 'MX', 'America/Mexico_City'],
+  [
+    'SBGR',
+    'GRU',
+    'São Paulo/Guarulhos International',
+    'BR',
+    'America/Sao_Paulo',
+  ],
+];
+
+export const BUNDLED_AIRPORTS: Airport[] = AIRPORT_DATA.map(
+  ([icao, iata, name, country, timezone]) => ({
+    icao,
+    iata,
+    name,
+    country,
+    timezone,
+  })
+);
+
+// Country names for report grouping (countries of the bundled airports)
+export const COUNTRY_NAMES: Record<string, string> = {
+  AE: 'United Arab Emirates',
+  AF: 'Afghanistan',
+  AM: 'Armenia',
+  AT: 'Austria',
+  AU: 'Australia',
+  AZ: 'Azerbaijan',
+  BD: 'Bangladesh',
+  BE: 'Belgium',
+  BG: 'Bulgaria',
+  BH: 'Bahrain',
+  BR: 'Brazil',
+  CA: 'Canada',
+  CH: 'Switzerland',
+  CN: 'China',
+  CY: 'Cyprus',
+  CZ: 'Czechia',
+  DE: 'Germany',
+  DK: 'Denmark',
+  EG: 'Egypt',
+  ES: 'Spain',
+  ET: 'Ethiopia',
+  FI: 'Finland',
+  FR: 'France',
+  GB: 'United Kingdom',
+  GE: 'Georgia',
+  GR: 'Greece',
+  HK: 'Hong Kong',
+  HR: 'Croatia',
+  HU: 'Hungary',
+  ID: 'Indonesia',
+  IE: 'Ireland',
+  IN: 'India',
+  IQ: 'Iraq',
+  IR: 'Iran',
+  IT: 'Italy',
+  JO: 'Jordan',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KR: 'South Korea',
+  KW: 'Kuwait',
+  KZ: 'Kazakhstan',
+  LB: 'Lebanon',
+  LK: 'Sri Lanka',
+  LY: 'Libya',
+  MA: 'Morocco',
+  MG: 'Madagascar',
+  MT: 'Malta',
+  MU: 'Mauritius',
+  MV: 'Maldives',
+  MX: 'Mexico',
+  MY: 'Malaysia',
+  NG: 'Nigeria',
+  NL: 'Netherlands',
+  NO: 'Norway',
+  NP: 'Nepal',
+  OM: 'Oman',
+  PK: 'Pakistan',
+  PL: 'Poland',
+  PT: 'Portugal',
+  QA: 'Qatar',
+  RO: 'Romania',
+  RS: 'Serbia',
+  RU: 'Russia',
+  SA: 'Saudi Arabia',
+  SC: 'Seychelles',
+  SD: 'Sudan',
+  SE: 'Sweden',
+  SG: 'Singapore',
+  SY: 'Syria',
+  TH: 'Thailand',
+  TN: 'Tunisia',
+  TR: 'Turkey',
+  US: 'United States',
+  UZ: 'Uzbekistan',
+  YE: 'Yemen',
+  ZA: 'South Africa',
+};
+
+// Helper function to index airports by ICAO and IATA code
+export function buildAirportIndex(airports: Airport[]): AirportIndex {
+  const index: AirportIndex = new Map();
+  for (const airport of airports) {
+    index.set(airport.icao.toUpperCase(), airport);
+    if (airport.iata) index.set(airport.iata.toUpperCase(), airport);
+  }
+  return index;
+}
+
+const BUNDLED_AIRPORT_INDEX = buildAirportIndex(BUNDLED_AIRPORTS);
+
+// Code flights are stored with
+export function getAirportCode(airport: Airport): string {
+  return airport.iata || airport.icao;
+}
+
+export function findAirport(
+  value: any,
+  index: AirportIndex = BUNDLED_AIRPORT_INDEX
+): Airport | null {
+  if (value === null || value === undefined) return null;
+  return index.get(String(value).trim().toUpperCase()) || null;
+}
+
+// Normalise an airport code: trimmed and upper-case, known airports by their
+// stored code (ICAO as IATA). Values that are not codes (city names) are
+// only trimmed.
+export function normalizeAirportCode(
+  value: any,
+  index: AirportIndex = BUNDLED_AIRPORT_INDEX
+): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+  if (!/^[A-Za-z0-9]{3,4}$/.test(text)) return text;
+
+  const airport = findAirport(text, index);
+  return airport ? getAirportCode(airport) : text.toUpperCase();
+}
+
+// Country of a place: an airport code, a country code or a country name.
+// Returns the ISO country code, or null when the place is not known.
+export function findPlaceCountry(
+  value: any,
+  index: AirportIndex = BUNDLED_AIRPORT_INDEX
+): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const airport = findAirport(text, index);
+  if (airport) return airport.country;
+
+  const upper = text.toUpperCase();
+  if (COUNTRY_NAMES[upper]) return upper;
+  const byName = Object.entries(COUNTRY_NAMES).find(
+    ([, name]) => name.toUpperCase() === upper
+  );
+  return byName ? byName[0] : null;
+}
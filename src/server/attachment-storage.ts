@@ -0,0 +1,115 @@
+// ---------- Attachment Storage ----------
+// Where invoice and discrepancy attachment files live. The database only keeps
+// their metadata and storage path; the file itself goes to the local
+// filesystem (development) or a Supabase Storage bucket (production).
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type AttachmentStorageBackend = 'local' | 'supabase';
+
+export interface AttachmentStorage {
+  backend: AttachmentStorageBackend;
+  put(storagePath: string, content: Buffer, contentType: string): Promise<void>;
+  get(storagePath: string): Promise<Buffer>;
+  remove(storagePaths: string[]): Promise<void>;
+}
+
+// Storage paths are always relative ("invoices/<id>/<file>"); refuse anything
+// that could escape the storage root
+function normalizeStoragePath(storagePath: string): string {
+  const normalized = path.posix.normalize(storagePath.replace(/\\/g, '/'));
+  if (
+    !normalized ||
+    normalized.startsWith('/') ||
+    normalized.startsWith('..') ||
+    normalized === '.'
+  ) {
+    throw new Error(`Invalid attachment path: ${storagePath}`);
+  }
+  return normalized;
+}
+
+export function createLocalAttachmentStorage(
+  rootDir: string
+): AttachmentStorage {
+  const root = path.resolve(rootDir);
+  const resolve = (storagePath: string) =>
+    path.join(root, normalizeStoragePath(storagePath));
+
+  return {
+    backend: 'local',
+    async put(storagePath, content) {
+      const filePath = resolve(storagePath);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, content);
+    },
+    async get(storagePath) {
+      return readFile(resolve(storagePath));
+    },
+    async remove(storagePaths) {
+      await Promise.all(
+        storagePaths.map(storagePath =>
+          rm(resolve(storagePath), { force: true })
+        )
+      );
+    },
+  };
+}
+
+export function createSupabaseAttachmentStorage(
+  client: SupabaseClient,
+  bucket: string
+): AttachmentStorage {
+  return {
+    backend: 'supabase',
+    async put(storagePath, content, contentType) {
+      const { error } = await client.storage
+        .from(bucket)
+        .upload(normalizeStoragePath(storagePath), content, {
+          contentType,
+          upsert: true,
+        });
+      if (error) {
+        throw new Error(`Failed to store attachment: ${error.message}`);
+      }
+    },
+    async get(storagePath) {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .download(normalizeStoragePath(storagePath));
+      if (error || !data) {
+        throw new Error(
+          `Failed to read attachment: ${error?.message || 'not found'}`
+        );
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+    async remove(storagePaths) {
+      if (storagePaths.length === 0) return;
+      const { error } = await client.storage
+        .from(bucket)
+        .remove(storagePaths.map(normalizeStoragePath));
+      if (error) {
+        throw new Error(`Failed to delete attachment: ${error.message}`);
+      }
+    },
+  };
+}
+
+// Build a storage path that keeps the original file name readable
+export function buildAttachmentPath(
+  folder: string,
+  ownerId: string,
+  attachmentId: string,
+  fileName: string
+): string {
+  const safeName =
+    fileName
+      .normalize('NFKD')
+      .replace(/[^\w.-]+/g, '_')
+      .replace(/^[._]+/, '')
+      .slice(-100) || 'file';
+  return `${folder}/${ownerId}/${attachmentId}-${safeName}`;
+}
@@ -0,0 +1,392 @@
+// ---------- Bank Statement Parsers ----------
+// Turns CSV, MT940 and CAMT.053 bank statements into a flat list of
+// transactions. Amounts are signed: negative = debit (money out), positive =
+// credit (money in).
+
+import { splitCsvLine } from './csv.js';
+
+export type StatementFormat = 'csv' | 'mt940' | 'camt053';
+
+export interface ParsedTransaction {
+  booking_date: string; // YYYY-MM-DD
+  value_date: string | null;
+  amount: number;
+  currency: string;
+  reference: string;
+  counterparty: string | null;
+  bank_reference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  account: string | null;
+  transactions: ParsedTransaction[];
+}
+
+// Helper function to guess the format from the file name and content
+export function detectStatementFormat(
+  content: string,
+  filename = ''
+): StatementFormat | null {
+  const name = filename.toLowerCase();
+  const head = content.slice(0, 2000);
+
+  if (head.includes('camt.053') || /<BkToCstmrStmt>/.test(head)) {
+    return 'camt053';
+  }
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) {
+    return 'mt940';
+  }
+  if (name.endsWith('.xml')) return 'camt053';
+  if (name.endsWith('.sta') || name.endsWith('.mt940')) return 'mt940';
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return 'csv';
+  return null;
+}
+
+export function parseStatement(
+  content: string,
+  format: StatementFormat
+): ParsedStatement {
+  switch (format) {
+    case 'csv':
+      return parseCsvStatement(content);
+    case 'mt940':
+      return parseMt940Statement(content);
+    case 'camt053':
+      return parseCamt053Statement(content);
+    default:
+      throw new Error(`Unsupported statement format: ${format}`);
+  }
+}
+
+// ---------- Shared helpers ----------
+
+// Helper function to parse amounts like "1,234.56", "1.234,56" or "-1234,5".
+// Without a decimal separator given, a lone comma followed by exactly three
+// digits ("1,234") is read as a thousands separator.
+function parseAmount(raw: string, decimalSeparator?: ',' | '.'): number {
+  let value = raw.replace(/[\s'\u00A0]/g, '').replace(/[^\d,.-]/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  const decimalComma =
+    decimalSeparator === undefined
+      ? lastComma > lastDot &&
+        !(lastDot === -1 && /^-?\d{1,3}(,\d{3})+$/.test(value))
+      : decimalSeparator === ',';
+
+  if (decimalComma) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  return parseFloat(value);
+}
+
+// Helper function to normalise a date to YYYY-MM-DD
+function parseDate(raw: string): string | null {
+  const value = raw.trim();
+  let match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  // DD/MM/YYYY, DD.MM.YYYY or DD-MM-YYYY
+  match = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/.exec(value);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+
+  // YYYYMMDD
+  match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  return null;
+}
+
+// Helper function to convert a YYMMDD date (MT940) to YYYY-MM-DD
+function parseYyMmDd(raw: string): string {
+  const year = parseInt(raw.slice(0, 2), 10);
+  const fullYear = year >= 80 ? 1900 + year : 2000 + year;
+  return `${fullYear}-${raw.slice(2, 4)}-${raw.slice(4, 6)}`;
+}
+
+// ---------- CSV ----------
+
+// Header names accepted for each column (lower-case)
+const CSV_COLUMNS = {
+  booking_date: ['booking date', 'transaction date', 'date', 'posting date'],
+  value_date: ['value date', 'valuta'],
+  amount: ['amount', 'transaction amount'],
+  debit: ['debit', 'withdrawal', 'withdrawals', 'money out'],
+  credit: ['credit', 'deposit', 'deposits', 'money in'],
+  currency: ['currency', 'ccy'],
+  reference: [
+    'reference',
+    'description',
+    'details',
+    'narrative',
+    'payment details',
+    'remittance information',
+  ],
+  counterparty: ['counterparty', 'beneficiary', 'payee', 'name'],
+  bank_reference: ['bank reference', 'transaction id', 'id'],
+};
+
+function parseCsvStatement(content: string): ParsedStatement {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+
+  if (lines.length < 2) {
+    throw new Error('CSV statement has no transactions');
+  }
+
+  // Pick the delimiter that splits the header into the most columns
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length
+      ? candidate
+      : best
+  );
+
+  const headers = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const findColumn = (names: string[]) =>
+    headers.findIndex(h => names.includes(h));
+
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, names]) => [key, findColumn(names)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (columns.booking_date === -1) {
+    throw new Error('CSV statement needs a date column');
+  }
+  if (columns.amount === -1 && columns.debit === -1 && columns.credit === -1) {
+    throw new Error('CSV statement needs an amount or debit/credit columns');
+  }
+
+  const transactions: ParsedTransaction[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line, delimiter);
+    const cell = (column: number) => (column >= 0 ? cells[column] || '' : '');
+
+    const bookingDate = parseDate(cell(columns.booking_date));
+    if (!bookingDate) {
+      throw new Error(
+        `Row ${index + 2}: invalid date "${cell(columns.booking_date)}"`
+      );
+    }
+
+    let amount: number;
+    if (columns.amount >= 0) {
+      amount = parseAmount(cell(columns.amount));
+    } else {
+      const debit = cell(columns.debit) ? parseAmount(cell(columns.debit)) : 0;
+      const credit = cell(columns.credit)
+        ? parseAmount(cell(columns.credit))
+        : 0;
+      amount = (credit || 0) - Math.abs(debit || 0);
+    }
+
+    if (isNaN(amount)) {
+      throw new Error(`Row ${index + 2}: invalid amount`);
+    }
+
+    transactions.push({
+      booking_date: bookingDate,
+      value_date: parseDate(cell(columns.value_date)),
+      amount,
+      currency: (cell(columns.currency) || '').toUpperCase(),
+      reference: cell(columns.reference),
+      counterparty: cell(columns.counterparty) || null,
+      bank_reference: cell(columns.bank_reference) || null,
+    });
+  });
+
+  return { format: 'csv', account: null, transactions };
+}
+
+// ---------- MT940 ----------
+
+function parseMt940Statement(content: string): ParsedStatement {
+  // Join continuation lines onto their tag so each tag is one entry
+  const entries: { tag: string; value: string }[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagMatch) {
+      entries.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (
+      entries.length > 0 &&
+      line.trim() !== '' &&
+      line.trim() !== '-}'
+    ) {
+      entries[entries.length - 1].value += `\n${line}`;
+    }
+  }
+
+  let account: string | null = null;
+  let currency = '';
+  const transactions: ParsedTransaction[] = [];
+
+  for (const entry of entries) {
+    if (entry.tag === '25') {
+      account = entry.value.trim();
+    } else if (entry.tag === '60F' || entry.tag === '60M') {
+      // Opening balance: C/D, YYMMDD, currency, amount
+      currency = entry.value.trim().slice(7, 10);
+    } else if (entry.tag === '61') {
+      // YYMMDD [MMDD] (R)D|C [funds code] amount type-code reference [//bank ref]
+      const match =
+        /^(\d{6})(\d{4})?(R?[DC])([A-Z])?([\d,]+)([A-Z][A-Z0-9]{3})([^\n/]*)(?:\/\/([^\n]*))?/.exec(
+          entry.value
+        );
+      if (!match) {
+        throw new Error(`Invalid :61: line "${entry.value.split('\n')[0]}"`);
+      }
+
+      const valueDate = parseYyMmDd(match[1]);
+      let bookingDate = valueDate;
+      if (match[2]) {
+        // Entry date has no year: the one of the value date, or the year
+        // before or after when that puts it closer (entry 0102 with value
+        // date 2024-12-31 is 2025-01-02)
+        const year = Number(valueDate.slice(0, 4));
+        const valueTime = Date.parse(valueDate);
+        bookingDate = [year - 1, year, year + 1]
+          .map(y => `${y}-${match[2].slice(0, 2)}-${match[2].slice(2, 4)}`)
+          .reduce((best, candidate) =>
+            Math.abs(Date.parse(candidate) - valueTime) <
+            Math.abs(Date.parse(best) - valueTime)
+              ? candidate
+              : best
+          );
+      }
+
+      const isDebit = match[3] === 'D' || match[3] === 'RC';
+      // MT940 amounts always use a decimal comma ("1234,500" in KWD)
+      const amount = parseAmount(match[5], ',');
+      const customerRef = match[7].trim();
+
+      transactions.push({
+        booking_date: bookingDate,
+        value_date: valueDate,
+        amount: isDebit ? -amount : amount,
+        currency,
+        reference: customerRef === 'NONREF' ? '' : customerRef,
+        counterparty: null,
+        bank_reference: match[8] ? match[8].trim() : null,
+      });
+    } else if (entry.tag === '86' && transactions.length > 0) {
+      // Information to account owner belongs to the preceding :61:
+      const last = transactions[transactions.length - 1];
+      const info = entry.value.replace(/\n/g, '');
+      last.reference = [last.reference, info].filter(Boolean).join(' ');
+
+      const nameMatch =
+        /\?3[23]([^?]+)/.exec(info) || /\/NAME\/([^/]+)/.exec(info);
+      if (nameMatch) {
+        last.counterparty = nameMatch[1].trim();
+      }
+    }
+  }
+
+  return { format: 'mt940', account, transactions };
+}
+
+// ---------- CAMT.053 ----------
+
+// Helper function to decode the XML entities that appear in statement text
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Helper function to read the text of the first matching element (namespace prefixes allowed)
+function xmlText(xml: string, path: string[]): string | null {
+  let scope = xml;
+  for (const tag of path) {
+    const match = new RegExp(
+      `<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`
+    ).exec(scope);
+    if (!match) return null;
+    scope = match[1];
+  }
+  return decodeXml(scope);
+}
+
+function parseCamt053Statement(content: string): ParsedStatement {
+  if (!/<(?:\w+:)?Stmt>/.test(content)) {
+    throw new Error('Not a CAMT.053 statement (no <Stmt> element)');
+  }
+
+  const account =
+    xmlText(content, ['Stmt', 'Acct', 'Id', 'IBAN']) ||
+    xmlText(content, ['Stmt', 'Acct', 'Id', 'Othr', 'Id']);
+
+  const transactions: ParsedTransaction[] = [];
+  const entryPattern = /<(?:\w+:)?Ntry>([\s\S]*?)<\/(?:\w+:)?Ntry>/g;
+  let entryMatch: RegExpExecArray | null;
+
+  while ((entryMatch = entryPattern.exec(content)) !== null) {
+    const entry = entryMatch[1];
+
+    const amountMatch =
+      /<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"\s*>([^<]+)<\/(?:\w+:)?Amt>/.exec(entry);
+    if (!amountMatch) {
+      throw new Error('CAMT.053 entry without <Amt Ccy="...">');
+    }
+
+    const isDebit = xmlText(entry, ['CdtDbtInd']) === 'DBIT';
+    const amount = parseFloat(amountMatch[2]);
+    const bookingDate =
+      xmlText(entry, ['BookgDt', 'Dt']) ||
+      (xmlText(entry, ['BookgDt', 'DtTm']) || '').slice(0, 10);
+    const valueDate =
+      xmlText(entry, ['ValDt', 'Dt']) ||
+      (xmlText(entry, ['ValDt', 'DtTm']) || '').slice(0, 10) ||
+      null;
+
+    if (!bookingDate) {
+      throw new Error('CAMT.053 entry without a booking date');
+    }
+
+    // Unstructured remittance lines plus the end-to-end id carry the invoice number
+    const remittance: string[] = [];
+    const ustrdPattern = /<(?:\w+:)?Ustrd>([\s\S]*?)<\/(?:\w+:)?Ustrd>/g;
+    let ustrdMatch: RegExpExecArray | null;
+    while ((ustrdMatch = ustrdPattern.exec(entry)) !== null) {
+      remittance.push(decodeXml(ustrdMatch[1]));
+    }
+    const endToEndId = xmlText(entry, ['Refs', 'EndToEndId']);
+    if (endToEndId && endToEndId !== 'NOTPROVIDED') {
+      remittance.push(endToEndId);
+    }
+    const structuredRef = xmlText(entry, ['Strd', 'CdtrRefInf', 'Ref']);
+    if (structuredRef) {
+      remittance.push(structuredRef);
+    }
+
+    // Money out names the creditor, money in names the debtor
+    const counterparty = isDebit
+      ? xmlText(entry, ['RltdPties', 'Cdtr', 'Nm'])
+      : xmlText(entry, ['RltdPties', 'Dbtr', 'Nm']);
+
+    transactions.push({
+      booking_date: bookingDate,
+      value_date: valueDate,
+      amount: isDebit ? -amount : amount,
+      currency: amountMatch[1],
+      reference: remittance.join(' '),
+      counterparty,
+      bank_reference:
+        xmlText(entry, ['AcctSvcrRef']) || xmlText(entry, ['NtryRef']),
+    });
+  }
+
+  return { format: 'camt053', account, transactions };
+}
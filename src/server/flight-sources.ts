@@ -0,0 +1,286 @@
+// ---------- Flight Source Parsers ----------
+// Turns roster exports of the ops systems (iCalendar, AIMS-style fixed-layout
+// CSV) into flight legs. Each format is a FlightSourceParser; add a parser to
+// FLIGHT_SOURCE_PARSERS to support another export. Values are returned as
+// found in the file (dates as YYYY-MM-DD where the format allows): the flight
+// upsert validates and normalises them like any other flight.
+
+import { splitCsvLine } from './csv.js';
+
+export type FlightSourceFormat = 'ics' | 'aims';
+
+export interface ParsedFlightLeg {
+  line: number; // line (CSV) or event number (iCalendar) in the file
+  flt_date: string | null;
+  flt_number: string | null;
+  flt_dep: string | null;
+  flt_arr: string | null;
+  flt_time: string | null;
+  flt_block: string | null;
+  flt_comments: string | null;
+}
+
+export interface FlightSourceParser {
+  format: FlightSourceFormat;
+  label: string;
+  detect(content: string, fileName: string): boolean;
+  parse(content: string): ParsedFlightLeg[];
+}
+
+// ---------- Shared helpers ----------
+
+// Helper function to format minutes as HH:MM
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Helper function to read "HH:MM", "HHMM" or "H:MM" as minutes
+function parseClock(raw: string): number | null {
+  const match = /^(\d{1,2}):?(\d{2})$/.exec(raw.trim());
+  if (!match || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Helper function to get the minutes between two clock times, over midnight
+// when the end is earlier than the start
+function minutesBetween(start: string, end: string): number | null {
+  const from = parseClock(start);
+  const to = parseClock(end);
+  if (from === null || to === null) return null;
+  return (to - from + 24 * 60) % (24 * 60);
+}
+
+const MONTHS = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+
+// Helper function to convert DDMMMYY / DDMMMYYYY (05JAN24) to YYYY-MM-DD.
+// Other values are returned unchanged.
+function parseRosterDate(raw: string): string {
+  const match = /^(\d{1,2})\s*([A-Za-z]{3})\s*(\d{2}|\d{4})$/.exec(raw.trim());
+  if (!match) return raw.trim();
+  const month = MONTHS.indexOf(match[2].toUpperCase());
+  if (month === -1) return raw.trim();
+  const year =
+    match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  return `${year}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+// ---------- iCalendar ----------
+// One VEVENT per duty. Flights are the events whose summary has a flight
+// number and a route ("EK 123 DXB-LHR", "F9105 OMAA - OMDB"); days off,
+// standby and hotel events are skipped. The block time is the event length.
+
+const ROUTE_PATTERN = /\b([A-Z]{3,4})\s*(?:-|–|>|→|\/)\s*([A-Z]{3,4})\b/;
+const FLIGHT_NUMBER_PATTERN =
+  /\b([A-Z]{2,3}|[A-Z]\d|\d[A-Z])\s?(\d{1,4}[A-Z]?)\b/;
+
+// Helper function to unescape an iCalendar text value
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+// Helper function to read an iCalendar date-time (20240105T063000Z) as a date
+// and minutes since midnight, in the time it is written in
+function parseIcsDateTime(
+  value: string
+): { date: string; minutes: number } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2}))?/.exec(value);
+  if (!match) return null;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    minutes: match[4] ? Number(match[4]) * 60 + Number(match[5]) : 0,
+  };
+}
+
+function parseIcsRoster(content: string): ParsedFlightLeg[] {
+  // Long lines are folded: a line starting with a space or tab continues the
+  // previous one
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/);
+
+  const legs: ParsedFlightLeg[] = [];
+  let event: Record<string, string> | null = null;
+  let eventNumber = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      eventNumber++;
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const summary = unescapeIcsText(event.SUMMARY || '');
+      const description = unescapeIcsText(event.DESCRIPTION || '');
+      const route = ROUTE_PATTERN.exec(summary.toUpperCase());
+      const flightNumber = FLIGHT_NUMBER_PATTERN.exec(
+        summary.toUpperCase().replace(ROUTE_PATTERN, '')
+      );
+
+      if (route && flightNumber) {
+        const start = parseIcsDateTime(event.DTSTART || '');
+        const end = parseIcsDateTime(event.DTEND || '');
+        const block =
+          start && end
+            ? Math.round(
+                (Date.parse(end.date) - Date.parse(start.date)) / 60000
+              ) +
+              end.minutes -
+              start.minutes
+            : null;
+        // Air time, when the roster gives it in the description
+        const airTime =
+          /(?:flight|air|airborne)\s*time\s*:?\s*(\d{1,2}:\d{2})/i.exec(
+            description
+          );
+
+        legs.push({
+          line: eventNumber,
+          flt_date: start ? start.date : event.DTSTART || null,
+          flt_number: `${flightNumber[1]}${flightNumber[2]}`,
+          flt_dep: route[1],
+          flt_arr: route[2],
+          flt_time: airTime ? airTime[1] : null,
+          flt_block:
+            block !== null && block >= 0 && block < 24 * 60
+              ? formatMinutes(block)
+              : null,
+          flt_comments: description || null,
+        });
+      }
+      event = null;
+      continue;
+    }
+    if (event) {
+      // NAME;PARAM=...:VALUE -> NAME: VALUE
+      const match = /^([A-Z-]+)(?:;[^:]*)?:(.*)$/.exec(line);
+      if (match && !(match[1] in event)) {
+        event[match[1]] = match[2];
+      }
+    }
+  }
+
+  return legs;
+}
+
+// ---------- AIMS-style CSV ----------
+// Flight log export with a fixed column order (the header row is optional):
+// DATE, FLT, DEP, ARR, STD, STA, ATD, ATA, BLK, FLT TIME, AC TYPE, AC REG
+// Dates are DDMMMYY (05JAN24) or any date the spreadsheet import reads. The
+// block time is BLK, else ATD-ATA, else STD-STA.
+
+const AIMS_COLUMNS = [
+  'date',
+  'flight',
+  'dep',
+  'arr',
+  'std',
+  'sta',
+  'atd',
+  'ata',
+  'block',
+  'air',
+  'ac_type',
+  'ac_reg',
+] as const;
+
+const AIMS_HEADER_PATTERN = /\bSTD\b.*\bSTA\b.*\bBLK\b/i;
+
+function parseAimsRoster(content: string): ParsedFlightLeg[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstLine = lines.find(line => line.trim() !== '') || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const legs: ParsedFlightLeg[] = [];
+  lines.forEach((line, index) => {
+    if (line.trim() === '' || AIMS_HEADER_PATTERN.test(line)) return;
+
+    const cells = splitCsvLine(line, delimiter);
+    const cell = (column: (typeof AIMS_COLUMNS)[number]) =>
+      cells[AIMS_COLUMNS.indexOf(column)] || '';
+
+    let block: string | null = cell('block') || null;
+    if (!block) {
+      const minutes =
+        minutesBetween(cell('atd'), cell('ata')) ??
+        minutesBetween(cell('std'), cell('sta'));
+      block = minutes !== null ? formatMinutes(minutes) : null;
+    }
+
+    const aircraft = [cell('ac_type'), cell('ac_reg')].filter(Boolean);
+
+    legs.push({
+      line: index + 1,
+      flt_date: cell('date') ? parseRosterDate(cell('date')) : null,
+      flt_number: cell('flight') || null,
+      flt_dep: cell('dep') || null,
+      flt_arr: cell('arr') || null,
+      flt_time: cell('air') || null,
+      flt_block: block,
+      flt_comments: aircraft.length ? `A/C ${aircraft.join(' ')}` : null,
+    });
+  });
+
+  return legs;
+}
+
+// ---------- Registry ----------
+
+export const FLIGHT_SOURCE_PARSERS: FlightSourceParser[] = [
+  {
+    format: 'ics',
+    label: 'iCalendar roster (.ics)',
+    detect: (content, fileName) =>
+      fileName.toLowerCase().endsWith('.ics') ||
+      content.slice(0, 200).includes('BEGIN:VCALENDAR'),
+    parse: parseIcsRoster,
+  },
+  {
+    format: 'aims',
+    label: 'AIMS flight log (CSV)',
+    detect: (content, fileName) =>
+      /aims/i.test(fileName) ||
+      AIMS_HEADER_PATTERN.test(content.slice(0, 500).split(/\r?\n/)[0] || ''),
+    parse: parseAimsRoster,
+  },
+];
+
+// Helper function to find the parser of a file from its name and content
+export function detectFlightSourceFormat(
+  content: string,
+  fileName = ''
+): FlightSourceFormat | null {
+  const parser = FLIGHT_SOURCE_PARSERS.find(p => p.detect(content, fileName));
+  return parser ? parser.format : null;
+}
+
+export function parseFlightSource(
+  content: string,
+  format: FlightSourceFormat
+): ParsedFlightLeg[] {
+  const parser = FLIGHT_SOURCE_PARSERS.find(p => p.format === format);
+  if (!parser) {
+    throw new Error(`Unsupported flight source format: ${format}`);
+  }
+  return parser.parse(content);
+}
@@ -10,6 +10,60 @@ import rateLimit from 'express-rate-limit';
 import expressLayouts from 'express-ejs-layouts';
 import { createClient } from '@supabase/supabase-js';
 import * as XLSX from 'xlsx';
+import { createHash, randomUUID } from 'node:crypto';
+import {
+  Airport,
+  AirportIndex,
+  buildAirportIndex,
+  BUNDLED_AIRPORTS,
+  COUNTRY_NAMES,
+  findAirport,
+  findPlaceCountry,
+  getAirportCode,
+  normalizeAirportCode,
+} from './airports.js';
+import {
+  AttachmentStorage,
+  buildAttachmentPath,
+  createLocalAttachmentStorage,
+  createSupabaseAttachmentStorage,
+} from './attachment-storage.js';
+import {
+  detectStatementFormat,
+  parseStatement,
+  ParsedTransaction,
+  StatementFormat,
+} from './bank-statements.js';
+import {
+  detectFlightSourceFormat,
+  FLIGHT_SOURCE_PARSERS,
+  FlightSourceFormat,
+  parseFlightSource,
+  ParsedFlightLeg,
+} from './flight-sources.js';
+import {
+  buildMonthlyMatrix,
+  monthRange,
+  MonthlyMatrix,
+  ProrateMode,
+  ReportItem,
+} from './monthly-allocation.js';
+import { findPaymentCandidates, pickAutoMatch } from './payment-matching.js';
+import {
+  AuthenticatedRequest,
+  createApiAuthorization,
+  findUnmappedApiRoutes,
+} from './route-permissions.js';
+import {
+  ColumnMapping,
+  mappedValue,
+  readSpreadsheet,
+  Spreadsheet,
+  suggestColumnMapping,
+  toDateString,
+  toNumber,
+  toTimeString,
+} from './spreadsheet-import.js';
 
 dotenv.config();
 
@@ -28,15 +82,24 @@ if (!supabaseUrl || !supabaseKey) {
 const supabase =
   supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
 
-// ---------- Authentication Types ----------
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    role: 'superadmin' | 'reader';
-    full_name?: string;
-  };
-}
+// ---------- Attachment Storage Configuration ----------
+// Attachment files go to the local filesystem in development and to a
+// Supabase Storage bucket in production, unless ATTACHMENT_STORAGE says otherwise
+const attachmentStorageBackend =
+  process.env.ATTACHMENT_STORAGE ||
+  (process.env.NODE_ENV === 'production' ? 'supabase' : 'local');
+
+const attachmentStorage: AttachmentStorage | null =
+  attachmentStorageBackend === 'supabase'
+    ? supabase
+      ? createSupabaseAttachmentStorage(
+          supabase,
+          process.env.ATTACHMENT_BUCKET || 'attachments'
+        )
+      : null
+    : createLocalAttachmentStorage(
+        process.env.ATTACHMENT_DIR || 'uploads/attachments'
+      );
 
 // interface JWTPayload { // Not used in current implementation
 //   sub: string;
@@ -57,8 +120,9 @@ function getNextMonth(yearMonth: string): string {
   }
 }
 
-// Helper function to sort flights logically (building flight chains)
-function sortFlightsLogically(flights: any[]): any[] {
+// Helper function to sort flights logically (building flight chains).
+// Airports are matched with the airports reference (see loadAirports).
+function sortFlightsLogically(flights: any[], airports: AirportIndex): any[] {
   if (!flights || flights.length === 0) return flights;
 
   // First, sort by date (oldest first)
@@ -84,7 +148,7 @@ function sortFlightsLogically(flights: any[]): any[] {
 
   sortedDates.forEach(date => {
     const dayFlights = flightsByDate[date];
-    const sortedDayFlights = sortFlightsWithinDay(dayFlights);
+    const sortedDayFlights = sortFlightsWithinDay(dayFlights, airports);
     result.push(...sortedDayFlights);
   });
 
@@ -92,7 +156,7 @@ function sortFlightsLogically(flights: any[]): any[] {
 }
 
 // Helper function to sort flights within a single day to create logical chains
-function sortFlightsWithinDay(flights: any[]): any[] {
+function sortFlightsWithinDay(flights: any[], airports: AirportIndex): any[] {
   if (flights.length <= 1) return flights;
 
   const result: any[] = [];
@@ -104,11 +168,17 @@ function sortFlightsWithinDay(flights: any[]): any[] {
 
   // Build the chain by finding the next flight that starts where the current one ends
   while (remaining.length > 0) {
-    const currentArrival = currentFlight.flt_arr;
+    const currentArrival = normalizeAirportCode(
+      currentFlight.flt_arr,
+      airports
+    );
 
-    // Find a flight that starts from the current arrival airport
+    // Find a flight that starts from the current arrival airport (ICAO and
+    // IATA codes of the same airport match)
     const nextFlightIndex = remaining.findIndex(
-      flight => flight.flt_dep === currentArrival
+      flight =>
+        currentArrival !== null &&
+        normalizeAirportCode(flight.flt_dep, airports) === currentArrival
     );
 
     if (nextFlightIndex !== -1) {
@@ -125,59 +195,914 @@ function sortFlightsWithinDay(flights: any[]): any[] {
   return result;
 }
 
-// ---------- Authentication Middleware ----------
-async function authenticateToken(
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-) {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+// ---------- Exchange Rates ----------
+// A rate means "1 from_currency = rate to_currency" and applies from the month
+// of effective_from onwards, until a later rate for the same pair takes over.
+interface FxRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_from: string;
+}
 
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
+// Fallback used when the fx_rates table is missing or empty (historic constants)
+const DEFAULT_FX_RATES: FxRate[] = [
+  {
+    from_currency: 'USD',
+    to_currency: 'AED',
+    rate: 3.6735,
+    effective_from: '2000-01-01',
+  },
+  {
+    from_currency: 'USD',
+    to_currency: 'AED',
+    rate: 3.6725,
+    effective_from: '2025-11-01',
+  },
+  {
+    from_currency: 'EUR',
+    to_currency: 'USD',
+    rate: 1.16,
+    effective_from: '2000-01-01',
+  },
+];
+
+// Helper function to load exchange rates from the database
+async function loadFxRates(): Promise<FxRate[]> {
+  if (!supabase) {
+    return DEFAULT_FX_RATES;
+  }
+
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('from_currency, to_currency, rate, effective_from')
+    .order('effective_from', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    if (error) {
+      console.warn('Could not load fx_rates, using defaults:', error.message);
     }
+    return DEFAULT_FX_RATES;
+  }
 
-    if (!supabase) {
-      return res.status(500).json({ error: 'Database not available' });
+  return data.map((r: any) => ({
+    from_currency: String(r.from_currency).toUpperCase(),
+    to_currency: String(r.to_currency).toUpperCase(),
+    rate: Number(r.rate),
+    effective_from: String(r.effective_from).slice(0, 10),
+  }));
+}
+
+// Helper function to format a date as YYYY-MM
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Helper function to find the rate in force for a month (direct or inverse pair)
+function getFxRate(
+  rates: FxRate[],
+  fromCurrency: string,
+  toCurrency: string,
+  asOfDate: Date
+): number | null {
+  if (fromCurrency === toCurrency) return 1;
+
+  const monthKey = toMonthKey(asOfDate);
+  let best: { rate: number; effectiveFrom: string } | null = null;
+
+  for (const r of rates) {
+    if (r.effective_from.slice(0, 7) > monthKey || !(r.rate > 0)) continue;
+
+    let rate: number | null = null;
+    if (r.from_currency === fromCurrency && r.to_currency === toCurrency) {
+      rate = r.rate;
+    } else if (
+      r.from_currency === toCurrency &&
+      r.to_currency === fromCurrency
+    ) {
+      rate = 1 / r.rate;
     }
 
-    // Verify JWT token with Supabase
-    const {
-      data: { user },
-      error,
-    } = await supabase.auth.getUser(token);
+    if (rate !== null && (!best || r.effective_from >= best.effectiveFrom)) {
+      best = { rate, effectiveFrom: r.effective_from };
+    }
+  }
 
-    if (error || !user) {
-      return res.status(403).json({ error: 'Invalid or expired token' });
+  return best ? best.rate : null;
+}
+
+// Helper function to convert an amount using the rates in force for a month.
+// Pairs without a direct rate are converted through USD; null when no rate
+// is configured for the pair.
+function convertCurrency(
+  rates: FxRate[],
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  asOfDate: Date = new Date()
+): number | null {
+  if (!amount || !fromCurrency || !toCurrency) return 0;
+  if (fromCurrency === toCurrency) return amount;
+
+  const direct = getFxRate(rates, fromCurrency, toCurrency, asOfDate);
+  if (direct !== null) {
+    return amount * direct;
+  }
+
+  const toUsd = getFxRate(rates, fromCurrency, 'USD', asOfDate);
+  const fromUsd = getFxRate(rates, 'USD', toCurrency, asOfDate);
+  if (toUsd === null || fromUsd === null) return null;
+
+  return amount * toUsd * fromUsd;
+}
+
+// ---------- Currencies ----------
+// Currency that aggregated figures (dashboard, duplicate check) are reported in
+const REPORTING_CURRENCY = (
+  process.env.REPORTING_CURRENCY || 'USD'
+).toUpperCase();
+
+// Fallback used when the currencies table is missing or empty
+const DEFAULT_CURRENCIES = ['AED', 'USD', 'EUR'];
+
+// Helper function to load the codes of active currencies
+async function loadCurrencyCodes(): Promise<string[]> {
+  if (!supabase) {
+    return DEFAULT_CURRENCIES;
+  }
+
+  const { data, error } = await supabase
+    .from('currencies')
+    .select('code')
+    .eq('is_active', true)
+    .order('code', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    if (error) {
+      console.warn('Could not load currencies, using defaults:', error.message);
     }
+    return DEFAULT_CURRENCIES;
+  }
 
-    // Get user role from database
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('role, full_name')
-      .eq('id', user.id)
-      .single();
+  return data.map((c: any) => String(c.code).toUpperCase());
+}
 
-    if (userError || !userData) {
-      return res.status(403).json({ error: 'User not found' });
+// Helper function to validate a currency code, returns an error message or null
+async function validateCurrency(currency: unknown): Promise<string | null> {
+  const code = typeof currency === 'string' ? currency.trim() : '';
+  const validCurrencies = await loadCurrencyCodes();
+  if (!validCurrencies.includes(code.toUpperCase())) {
+    return `Invalid currency. Must be one of: ${validCurrencies.join(', ')}`;
+  }
+  return null;
+}
+
+// ---------- Airports ----------
+// Helper function to load the airports reference list. The bundled dataset is
+// used until the airports table is created and filled.
+async function loadAirports(): Promise<Airport[]> {
+  if (!supabase) {
+    return BUNDLED_AIRPORTS;
+  }
+
+  const { data, error } = await supabase
+    .from('airports')
+    .select('icao, iata, name, country, timezone')
+    .order('icao', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    if (error) {
+      console.warn(
+        'Could not load airports, using the bundled list:',
+        error.message
+      );
     }
+    return BUNDLED_AIRPORTS;
+  }
 
-    req.user = {
-      id: user.id,
-      email: user.email || '',
-      role: userData.role as 'superadmin' | 'reader',
-      full_name: userData.full_name,
+  return data as Airport[];
+}
+
+// ---------- Expense Category Mapping ----------
+// Report category, flight/non-flight flag and income flag are attributes of
+// expense_types. A subtype can override any of them; NULL means "same as type".
+// Invoice types carry an income flag too (lines of a credit note are income).
+type ExpenseIncomeType = 'credit_note' | 'charter_profit';
+
+const EXPENSE_INCOME_TYPES: ExpenseIncomeType[] = [
+  'credit_note',
+  'charter_profit',
+];
+
+interface ExpenseCategoryInfo {
+  reportCategory: string | null; // null = not part of the report
+  isFlightRelated: boolean;
+  incomeType: ExpenseIncomeType | null;
+  reportOrder: number;
+}
+
+interface ExpenseCategoryMap {
+  types: Map<string, any>; // by id and by lower-case name
+  subtypes: Map<string, any>; // by id and by "<type id>:<lower-case name>"
+  invoiceTypes: Map<string, any>; // by id
+}
+
+// Helper function to load expense types and subtypes for category lookups
+async function loadExpenseCategoryMap(): Promise<ExpenseCategoryMap> {
+  const map: ExpenseCategoryMap = {
+    types: new Map(),
+    subtypes: new Map(),
+    invoiceTypes: new Map(),
+  };
+  if (!supabase) return map;
+
+  const [{ data: types, error }, { data: subtypes }, { data: invoiceTypes }] =
+    await Promise.all([
+      supabase.from('expense_types').select('*'),
+      supabase.from('expense_subtypes').select('*'),
+      supabase.from('invoice_types').select('*'),
+    ]);
+
+  if (error) {
+    console.warn('Could not load expense types:', error.message);
+  }
+
+  (types || []).forEach((t: any) => {
+    map.types.set(String(t.id), t);
+    map.types.set(String(t.name || '').toLowerCase(), t);
+  });
+  (subtypes || []).forEach((st: any) => {
+    map.subtypes.set(String(st.id), st);
+    map.subtypes.set(
+      `${st.expense_type_id}:${String(st.name || '').toLowerCase()}`,
+      st
+    );
+  });
+  (invoiceTypes || []).forEach((it: any) => {
+    map.invoiceTypes.set(String(it.id), it);
+  });
+
+  return map;
+}
+
+// Helper function to resolve the report attributes of an expense from its
+// type and subtype. Returns null when the type is unknown.
+function resolveExpenseCategory(
+  map: ExpenseCategoryMap,
+  expense: any
+): ExpenseCategoryInfo | null {
+  const typeKey = String(expense.exp_type_id ?? expense.exp_type ?? '').trim();
+  const type = map.types.get(typeKey) || map.types.get(typeKey.toLowerCase());
+  if (!type) return null;
+
+  const subtypeKey = String(
+    expense.exp_subtype_id ?? expense.exp_subtype ?? ''
+  ).trim();
+  const subtype = subtypeKey
+    ? map.subtypes.get(subtypeKey) ||
+      map.subtypes.get(`${type.id}:${subtypeKey.toLowerCase()}`)
+    : null;
+
+  return {
+    reportCategory: subtype?.report_category ?? type.report_category ?? null,
+    isFlightRelated:
+      subtype?.is_flight_related ?? type.is_flight_related ?? true,
+    incomeType: subtype?.income_type ?? type.income_type ?? null,
+    reportOrder: type.report_order ?? 100,
+  };
+}
+
+// Helper function to tell whether an expense is income, and which kind: the
+// category of the expense row itself, else the income flag of its invoice
+// type, else that of its expense type or subtype
+function resolveExpenseIncomeType(
+  map: ExpenseCategoryMap,
+  expense: any
+): ExpenseIncomeType | null {
+  if (expense.exp_category === 'income_credit_note') return 'credit_note';
+  if (expense.exp_category === 'income_charter_profit') {
+    return 'charter_profit';
+  }
+
+  const invoiceType = expense.exp_invoice_type_id
+    ? map.invoiceTypes.get(String(expense.exp_invoice_type_id))
+    : null;
+  return (
+    invoiceType?.income_type ??
+    resolveExpenseCategory(map, expense)?.incomeType ??
+    null
+  );
+}
+
+// Helper function to read an income_type field (empty means "not income")
+function parseIncomeTypeField(value: any): {
+  incomeType: ExpenseIncomeType | null;
+  error?: string;
+} {
+  const incomeType = String(value ?? '').trim();
+  if (
+    incomeType !== '' &&
+    !EXPENSE_INCOME_TYPES.includes(incomeType as ExpenseIncomeType)
+  ) {
+    return {
+      incomeType: null,
+      error: `income_type must be empty or one of: ${EXPENSE_INCOME_TYPES.join(', ')}`,
     };
+  }
+  return {
+    incomeType: incomeType !== '' ? (incomeType as ExpenseIncomeType) : null,
+  };
+}
 
-    next();
+// Helper function to read category mapping fields from a request body.
+// Missing fields are left out; subtypes may use null to inherit from the type.
+function parseExpenseCategoryFields(
+  body: any,
+  isSubtype: boolean
+): { fields: Record<string, any>; error?: string } {
+  const fields: Record<string, any> = {};
+
+  if (body.report_category !== undefined) {
+    const category = String(body.report_category ?? '').trim();
+    fields.report_category = category !== '' ? category : null;
+  }
+
+  if (body.is_flight_related !== undefined) {
+    const value = body.is_flight_related;
+    if (value === null || value === '') {
+      if (!isSubtype) {
+        return { fields, error: 'is_flight_related must be true or false' };
+      }
+      fields.is_flight_related = null;
+    } else if (value === true || value === 'true') {
+      fields.is_flight_related = true;
+    } else if (value === false || value === 'false') {
+      fields.is_flight_related = false;
+    } else {
+      return { fields, error: 'is_flight_related must be true or false' };
+    }
+  }
+
+  if (body.income_type !== undefined) {
+    const { incomeType, error } = parseIncomeTypeField(body.income_type);
+    if (error) return { fields, error };
+    fields.income_type = incomeType;
+  }
+
+  if (!isSubtype && body.report_order !== undefined) {
+    const order = parseInt(body.report_order, 10);
+    if (isNaN(order)) {
+      return { fields, error: 'report_order must be a whole number' };
+    }
+    fields.report_order = order;
+  }
+
+  return { fields };
+}
+
+// ---------- Expense Type References ----------
+// Expenses reference expense_types, expense_subtypes and invoice_types by ID
+// (exp_type_id, exp_subtype_id, exp_invoice_type_id). The exp_type, exp_subtype
+// and exp_invoice_type fields of API responses carry the current names, so
+// renaming a type is reflected in all existing expenses.
+const EXPENSE_TYPE_JOINS = `
+  expense_types!exp_type_id (
+    id,
+    name
+  ),
+  expense_subtypes!exp_subtype_id (
+    id,
+    name
+  ),
+  invoice_types!exp_invoice_type_id (
+    id,
+    name
+  )`;
+
+interface ExpenseTypeRefs {
+  exp_type_id: string | null;
+  exp_subtype_id: string | null;
+  exp_invoice_type_id: string | null;
+}
+
+// Helper function to fill the type names of an expense from its joined rows.
+// Falls back to the old name columns for rows the migration could not resolve.
+function withExpenseTypeNames(expense: any): any {
+  return {
+    ...expense,
+    exp_type: expense.expense_types?.name ?? expense.exp_type ?? null,
+    exp_subtype: expense.expense_subtypes?.name ?? expense.exp_subtype ?? null,
+    exp_invoice_type:
+      expense.invoice_types?.name ?? expense.exp_invoice_type ?? null,
+  };
+}
+
+// Helper function to validate the type IDs sent by the expense forms
+// (as exp_type, exp_subtype and exp_invoice_type)
+async function resolveExpenseTypeRefs(
+  body: any
+): Promise<{ refs: ExpenseTypeRefs; error?: string }> {
+  const refs: ExpenseTypeRefs = {
+    exp_type_id: body.exp_type ? String(body.exp_type) : null,
+    exp_subtype_id: body.exp_subtype ? String(body.exp_subtype) : null,
+    exp_invoice_type_id: body.exp_invoice_type
+      ? String(body.exp_invoice_type)
+      : null,
+  };
+  if (!supabase) return { refs };
+
+  if (refs.exp_type_id) {
+    const { data } = await supabase
+      .from('expense_types')
+      .select('id')
+      .eq('id', refs.exp_type_id)
+      .maybeSingle();
+    if (!data) return { refs, error: 'Unknown expense type' };
+  }
+
+  if (refs.exp_subtype_id) {
+    const { data } = await supabase
+      .from('expense_subtypes')
+      .select('id, expense_type_id')
+      .eq('id', refs.exp_subtype_id)
+      .maybeSingle();
+    if (!data) return { refs, error: 'Unknown expense subtype' };
+    if (refs.exp_type_id && String(data.expense_type_id) !== refs.exp_type_id) {
+      return {
+        refs,
+        error: 'Expense subtype does not belong to the expense type',
+      };
+    }
+  }
+
+  if (refs.exp_invoice_type_id) {
+    const { data } = await supabase
+      .from('invoice_types')
+      .select('id')
+      .eq('id', refs.exp_invoice_type_id)
+      .maybeSingle();
+    if (!data) return { refs, error: 'Unknown invoice type' };
+  }
+
+  return { refs };
+}
+
+// ---------- Suppliers ----------
+// Payment terms of suppliers without their own
+const DEFAULT_PAYMENT_TERMS_DAYS = Number(
+  process.env.DEFAULT_PAYMENT_TERMS_DAYS || 30
+);
+
+// Helper function to check a supplier reference sent in a request body.
+// supplierId is undefined when it was not sent and null when it is cleared.
+async function resolveSupplierId(
+  value: unknown
+): Promise<{ supplierId?: string | null; error?: string }> {
+  if (value === undefined) return {};
+
+  const supplierId = String(value ?? '').trim();
+  if (!supplierId) return { supplierId: null };
+
+  if (supabase) {
+    const { data } = await supabase
+      .from('suppliers')
+      .select('id')
+      .eq('id', supplierId)
+      .maybeSingle();
+    if (!data) return { error: 'Unknown supplier' };
+  }
+
+  return { supplierId };
+}
+
+// ---------- Disbursement Fees ----------
+// A disbursement fee is a separate expense (type "Disbursement fee") on the
+// same invoice, flight, period and place as the expense it is charged on.
+// Its amount comes from the most specific active disbursement_fee_rules row:
+// supplier + invoice type, then supplier, then invoice type, then the default.
+interface DisbursementFeeRule {
+  id: string;
+  supplier_id: string | null;
+  invoice_type_id: string | null;
+  rate: number;
+  vat_rate: number;
+  min_amount: number | null;
+  max_amount: number | null;
+  currency: string | null;
+}
+
+// Helper function to find the fee rule for an expense of an invoice
+async function findDisbursementFeeRule(
+  invoiceId: string | null,
+  invoiceTypeId: string | null
+): Promise<DisbursementFeeRule | null> {
+  if (!supabase) return null;
+
+  const { data: rules, error } = await supabase
+    .from('disbursement_fee_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    console.log(
+      'Supabase error fetching disbursement fee rules:',
+      error.message
+    );
+    return null;
+  }
+
+  let supplierId: string | null = null;
+  if (invoiceId) {
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('supplier_id')
+      .eq('id', invoiceId)
+      .maybeSingle();
+    supplierId = invoice?.supplier_id ?? null;
+  }
+
+  let best: any = null;
+  let bestScore = -1;
+  for (const rule of rules || []) {
+    if (rule.supplier_id && String(rule.supplier_id) !== String(supplierId)) {
+      continue;
+    }
+    if (
+      rule.invoice_type_id &&
+      String(rule.invoice_type_id) !== String(invoiceTypeId)
+    ) {
+      continue;
+    }
+
+    const score = (rule.supplier_id ? 2 : 0) + (rule.invoice_type_id ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  if (!best) return null;
+
+  return {
+    id: best.id,
+    supplier_id: best.supplier_id ?? null,
+    invoice_type_id: best.invoice_type_id ?? null,
+    rate: Number(best.rate) || 0,
+    vat_rate: Number(best.vat_rate) || 0,
+    min_amount: best.min_amount !== null ? Number(best.min_amount) : null,
+    max_amount: best.max_amount !== null ? Number(best.max_amount) : null,
+    currency: best.currency ?? null,
+  };
+}
+
+// Helper function to compute the fee (VAT included) on an expense amount.
+// Minimum and cap apply to the fee before VAT; limits in another currency
+// are converted with the rates in force on asOfDate. Returns an error when
+// such a limit has no exchange rate.
+async function calculateDisbursementFee(
+  rule: DisbursementFeeRule,
+  amount: number,
+  currency: string,
+  asOfDate: Date
+): Promise<{ amount?: number; error?: string }> {
+  let fee = (amount * rule.rate) / 100;
+
+  if (rule.min_amount !== null || rule.max_amount !== null) {
+    const limitCurrency = rule.currency || currency;
+    const rates = limitCurrency !== currency ? await loadFxRates() : [];
+    const minAmount =
+      rule.min_amount !== null
+        ? convertCurrency(
+            rates,
+            rule.min_amount,
+            limitCurrency,
+            currency,
+            asOfDate
+          )
+        : null;
+    const maxAmount =
+      rule.max_amount !== null
+        ? convertCurrency(
+            rates,
+            rule.max_amount,
+            limitCurrency,
+            currency,
+            asOfDate
+          )
+        : null;
+    if (
+      (rule.min_amount !== null && minAmount === null) ||
+      (rule.max_amount !== null && maxAmount === null)
+    ) {
+      return {
+        error: `Missing exchange rate ${limitCurrency} → ${currency} (${toMonthKey(asOfDate)}) for the fee minimum/cap. Add it in Settings → Exchange Rates.`,
+      };
+    }
+
+    if (minAmount !== null) fee = Math.max(fee, minAmount);
+    if (maxAmount !== null) fee = Math.min(fee, maxAmount);
+  }
+
+  fee += (fee * rule.vat_rate) / 100;
+  return { amount: Math.round(fee * 100) / 100 };
+}
+
+// Helper function to find the expense type, subtype and invoice type of fees
+async function getDisbursementFeeTypeRefs(): Promise<ExpenseTypeRefs | null> {
+  if (!supabase) return null;
+
+  const { data: disbursementTypes } = await supabase
+    .from('expense_types')
+    .select('id')
+    .ilike('name', '%disbursement%')
+    .limit(1);
+  if (!disbursementTypes || disbursementTypes.length === 0) return null;
+
+  const refs: ExpenseTypeRefs = {
+    exp_type_id: disbursementTypes[0].id,
+    exp_subtype_id: null,
+    exp_invoice_type_id: null,
+  };
+
+  const { data: subtypes } = await supabase
+    .from('expense_subtypes')
+    .select('id')
+    .eq('expense_type_id', refs.exp_type_id)
+    .ilike('name', '%disbursement%')
+    .limit(1);
+  if (subtypes && subtypes.length > 0) {
+    refs.exp_subtype_id = subtypes[0].id;
+  }
+
+  const { data: invoiceTypes } = await supabase
+    .from('invoice_types')
+    .select('id')
+    .ilike('name', '%disbursement%')
+    .limit(1);
+  if (invoiceTypes && invoiceTypes.length > 0) {
+    refs.exp_invoice_type_id = invoiceTypes[0].id;
+  }
+
+  return refs;
+}
+
+// Helper function to compute the fee of an expense row: amount under the
+// matching rule and the comment describing the expense it is charged on.
+// Returns no fee when no rule applies, and an error when the fee cannot be
+// computed.
+async function computeDisbursementFee(expense: any): Promise<{
+  fee?: {
+    amount: number;
+    currency: string;
+    comment: string;
+    rule: DisbursementFeeRule;
+  };
+  error?: string;
+}> {
+  if (!supabase) return {};
+
+  const amount = parseFloat(expense.exp_amount);
+  if (isNaN(amount)) return {};
+
+  const rule = await findDisbursementFeeRule(
+    expense.exp_invoice || null,
+    expense.exp_invoice_type_id || null
+  );
+  if (!rule) return {};
+
+  const currency = expense.exp_currency || 'AED';
+
+  let flight: any = null;
+  if (expense.exp_flight) {
+    const { data: flightData } = await supabase
+      .from('flights')
+      .select('flt_number, flt_date, flt_dep, flt_arr')
+      .eq('id', expense.exp_flight)
+      .maybeSingle();
+    flight = flightData;
+  }
+
+  const asOfDate = new Date(
+    expense.exp_period_start || flight?.flt_date || Date.now()
+  );
+  const { amount: feeAmount, error } = await calculateDisbursementFee(
+    rule,
+    amount,
+    currency,
+    asOfDate
+  );
+  if (feeAmount === undefined) {
+    return { error };
+  }
+
+  // Type and subtype names of the expense for the comment, by ID as the
+  // expense may not be saved yet (import)
+  const { data: expenseType } = expense.exp_type_id
+    ? await supabase
+        .from('expense_types')
+        .select('name')
+        .eq('id', expense.exp_type_id)
+        .maybeSingle()
+    : { data: null };
+  const { data: expenseSubtype } = expense.exp_subtype_id
+    ? await supabase
+        .from('expense_subtypes')
+        .select('name')
+        .eq('id', expense.exp_subtype_id)
+        .maybeSingle()
+    : { data: null };
+  const typeNames = withExpenseTypeNames({
+    ...expense,
+    expense_types: expenseType,
+    expense_subtypes: expenseSubtype,
+  });
+
+  let comment = typeNames.exp_type || '';
+  if (typeNames.exp_subtype && typeNames.exp_subtype !== 'Select Subtype') {
+    comment += ` - ${typeNames.exp_subtype}`;
+  }
+  comment += `, ${expense.exp_amount} ${currency}`;
+  if (rule.vat_rate > 0) {
+    comment += ' — VAT is applied';
+  }
+
+  // Add period or flight info
+  if (expense.exp_period_start && expense.exp_period_end) {
+    // Format period as YYYY-MM - YYYY-MM to match client-side format
+    const startFormatted = toMonthKey(new Date(expense.exp_period_start));
+    const endFormatted = toMonthKey(new Date(expense.exp_period_end));
+    comment += `, ${startFormatted} - ${endFormatted}`;
+  } else if (flight) {
+    comment += `, ${flight.flt_number} - ${flight.flt_dep} to ${flight.flt_arr}`;
+  }
+
+  return { fee: { amount: feeAmount, currency, comment, rule } };
+}
+
+// Helper function to build the disbursement fee row charged on an expense
+// row (which needs its id). Returns no row when no rule applies, and an error
+// when the fee cannot be computed.
+async function buildDisbursementFeeRow(
+  expense: any
+): Promise<{ row?: Record<string, any>; error?: string }> {
+  const feeRefs = await getDisbursementFeeTypeRefs();
+  // No fee type configured, or the expense is a fee itself
+  if (!feeRefs || expense.exp_type_id === feeRefs.exp_type_id) return {};
+
+  const { fee, error } = await computeDisbursementFee(expense);
+  if (!fee) return { error };
+
+  return {
+    row: {
+      ...feeRefs,
+      exp_amount: fee.amount,
+      exp_currency: fee.currency,
+      parent_expense_id: expense.id,
+      supplier_id: expense.supplier_id || null,
+      exp_invoice: expense.exp_invoice || null,
+      exp_flight: expense.exp_flight || null,
+      exp_period_start: expense.exp_period_start || null,
+      exp_period_end: expense.exp_period_end || null,
+      exp_place: expense.exp_place || null,
+      exp_comments: fee.comment,
+    },
+  };
+}
+
+// Helper function to create the disbursement fee charged on an expense row.
+// Returns the fee row (none when no rule applies) or why it was not created.
+async function createDisbursementFee(
+  expense: any,
+  req: AuthenticatedRequest
+): Promise<{ data?: any; error?: string }> {
+  if (!supabase) return {};
+
+  const { row, error: feeError } = await buildDisbursementFeeRow(expense);
+  if (!row) return { error: feeError };
+
+  const { data, error } = await supabase
+    .from('expenses')
+    .insert([row])
+    .select()
+    .single();
+
+  if (error) {
+    console.log('Error creating disbursement fee:', error.message);
+    return { error: 'Failed to save the disbursement fee' };
+  }
+
+  await logActivity('CREATE', 'expenses', data.id, null, data, req);
+  return { data };
+}
+
+// ---------- Attachments ----------
+// Invoice and discrepancy attachments are uploaded as base64 JSON and kept in
+// attachmentStorage; the tables hold the metadata and the storage path
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Supplier documents only: PDFs and images (by MIME type, or extension when
+// the browser does not send one)
+const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+// Attachment metadata returned by the API (never the file itself)
+const ATTACHMENT_COLUMNS =
+  'id, file_name, content_type, size_bytes, uploaded_by_email, created_at';
+
+// Helper function to validate an uploaded attachment
+function parseAttachmentUpload(body: any): {
+  data?: { file_name: string; content_type: string; content: Buffer };
+  error?: string;
+  status?: number;
+} {
+  const fileName = String(body.file_name || '').trim();
+  if (!fileName || !body.content) {
+    return { error: 'file_name and content are required', status: 400 };
+  }
+
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const declaredType = String(body.content_type || '')
+    .trim()
+    .toLowerCase();
+  const contentType =
+    declaredType && declaredType !== 'application/octet-stream'
+      ? declaredType
+      : ATTACHMENT_CONTENT_TYPES[extension];
+  if (
+    !contentType ||
+    !Object.values(ATTACHMENT_CONTENT_TYPES).includes(contentType)
+  ) {
+    return {
+      error: 'Only PDF and image attachments are allowed',
+      status: 415,
+    };
+  }
+
+  const content = Buffer.from(String(body.content), 'base64');
+  if (content.length === 0) {
+    return { error: 'Attachment is empty', status: 400 };
+  }
+  if (content.length > MAX_ATTACHMENT_BYTES) {
+    return {
+      error: `Attachment is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+      status: 413,
+    };
+  }
+
+  return {
+    data: { file_name: fileName, content_type: contentType, content },
+  };
+}
+
+// Helper function to read an attachment file. Discrepancy attachments
+// uploaded before attachment storage kept the file inline as base64.
+async function readAttachmentContent(attachment: any): Promise<Buffer> {
+  if (attachment.storage_path) {
+    if (!attachmentStorage) {
+      throw new Error('Attachment storage not available');
+    }
+    return attachmentStorage.get(attachment.storage_path);
+  }
+  return Buffer.from(attachment.content_base64 || '', 'base64');
+}
+
+// Helper function to send an attachment inline so PDFs and images preview in
+// the browser
+function sendAttachment(res: Response, attachment: any, content: Buffer) {
+  res.setHeader('Content-Type', attachment.content_type);
+  res.setHeader(
+    'Content-Disposition',
+    `inline; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`
+  );
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  return res.send(content);
+}
+
+// Helper function to delete attachment files once their rows are gone. A
+// leftover file is only logged: the record change has already happened.
+async function removeAttachmentFiles(storagePaths: Array<string | null>) {
+  const paths = storagePaths.filter((p): p is string => !!p);
+  if (paths.length === 0 || !attachmentStorage) return;
+
+  try {
+    await attachmentStorage.remove(paths);
   } catch (error) {
-    console.log('Authentication error:', error);
-    return res.status(403).json({ error: 'Authentication failed' });
+    console.warn('⚠️ Failed to delete attachment files:', paths, error);
   }
 }
 
+// ---------- Authentication Middleware ----------
+// API requests are authenticated by createApiAuthorization (see
+// route-permissions.ts), which sets req.user before the route handlers run.
+
 // Middleware to check if user is superadmin
 function requireSuperadmin(
   req: AuthenticatedRequest,
@@ -190,6 +1115,15 @@ function requireSuperadmin(
   next();
 }
 
+// Helper function to get the logged-in user from an API or page request
+function getActingUser(
+  req?: Request
+): { id: string; email: string; role: 'superadmin' | 'reader' } | null {
+  if (!req) return null;
+  const user = (req as AuthenticatedRequest).user || req.res?.locals.user;
+  return user ? { id: user.id, email: user.email, role: user.role } : null;
+}
+
 // Middleware for session-based authentication (for EJS pages)
 async function authenticateSession(
   req: Request,
@@ -352,12 +1286,11 @@ async function authenticateSession(
 
 // ---------- Logging Function ----------
 async function logActivity(
-  action: 'CREATE' | 'UPDATE' | 'DELETE',
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'REVERT',
   tableName: string,
   recordId: string | null,
   oldData: any = null,
   newData: any = null,
-  userId: string = 'system',
   req?: Request
 ) {
   // Extract record details based on table and data
@@ -370,12 +1303,18 @@ async function logActivity(
       case 'flights':
         recordDetails = `Flight: ${data.flt_number || 'N/A'} (${data.flt_dep || 'N/A'} → ${data.flt_arr || 'N/A'})`;
         break;
+      case 'flight_imports':
+        recordDetails = `Flight Import: ${data.flights_count ?? 0} new and ${data.updated_count ?? 0} updated legs from ${data.file_name || 'file'} (${data.date_from || 'N/A'} – ${data.date_to || 'N/A'})`;
+        break;
       case 'invoices':
         recordDetails = `Invoice: ${data.inv_number || 'N/A'} (${data.inv_currency || 'N/A'} ${data.inv_amount || 'N/A'})`;
         break;
       case 'expenses':
         recordDetails = `Expense: ${data.exp_place || 'N/A'} (${data.exp_currency || 'N/A'} ${data.exp_amount || 'N/A'})`;
         break;
+      case 'expense_imports':
+        recordDetails = `Expense Import: ${data.expenses_count ?? 0} lines${data.disbursement_fees_count ? ` and ${data.disbursement_fees_count} disbursement fees` : ''} from ${data.file_name || 'file'} into invoice ${data.inv_number || 'N/A'}`;
+        break;
       case 'expense_types':
         recordDetails = `Expense Type: ${data.name || 'N/A'}`;
         break;
@@ -385,14 +1324,50 @@ async function logActivity(
       case 'invoice_types':
         recordDetails = `Invoice Type: ${data.name || 'N/A'}`;
         break;
-      case 'discrepancies': {
-        // Try to get invoice number from related data or use invoice_id
-        let invoiceInfo = 'N/A';
-        if (
-          data.invoices &&
-          typeof data.invoices === 'object' &&
-          !Array.isArray(data.invoices)
-        ) {
+      case 'fx_rates':
+        recordDetails = `FX Rate: 1 ${data.from_currency || 'N/A'} = ${data.rate || 'N/A'} ${data.to_currency || 'N/A'} (from ${data.effective_from || 'N/A'})`;
+        break;
+      case 'disbursement_fee_rules':
+        recordDetails = `Disbursement Fee Rule: ${data.suppliers?.name || (data.supplier_id ? 'Supplier' : 'Any supplier')}, ${data.rate ?? 'N/A'}% + ${data.vat_rate ?? 0}% VAT`;
+        break;
+      case 'suppliers':
+        recordDetails = `Supplier: ${data.name || 'N/A'}${data.country ? ` (${data.country})` : ''}`;
+        break;
+      case 'bank_statements':
+        recordDetails = `Bank Statement: ${data.filename || 'N/A'} (${data.format || 'N/A'}, ${data.transactions_count ?? 0} transactions)`;
+        break;
+      case 'bank_transactions':
+        recordDetails = `Bank Transaction: ${data.booking_date || 'N/A'} ${data.currency || ''} ${data.amount ?? 'N/A'}${data.invoice_id ? ' (matched)' : ''}`;
+        break;
+      case 'airports':
+        recordDetails = `Airport: ${data.iata || '—'} / ${data.icao || 'N/A'} - ${data.name || 'N/A'} (${data.country || 'N/A'})`;
+        break;
+      case 'airport_imports':
+        recordDetails = `Airport Import: ${data.airports_count ?? 0} airports from the bundled dataset`;
+        break;
+      case 'currencies':
+        recordDetails = `Currency: ${data.code || 'N/A'} - ${data.name || 'N/A'}${data.is_active === false ? ' (inactive)' : ''}`;
+        break;
+      case 'discrepancy_notes':
+        recordDetails = `Dispute Note: ${data.body ? (data.body.length > 50 ? data.body.substring(0, 50) + '...' : data.body) : 'N/A'} (${data.direction || 'internal'})`;
+        break;
+      case 'invoice_attachments':
+        recordDetails = `Invoice Attachment: ${data.file_name || 'N/A'} (${data.size_bytes ?? 0} bytes)`;
+        break;
+      case 'discrepancy_attachments':
+        recordDetails = `Dispute Attachment: ${data.file_name || 'N/A'} (${data.size_bytes ?? 0} bytes)`;
+        break;
+      case 'discrepancy_recoveries':
+        recordDetails = `Discrepancy Recovery: ${data.currency || 'N/A'} ${data.amount ?? 'N/A'} from credit note ${data.expense_id || 'N/A'}`;
+        break;
+      case 'discrepancies': {
+        // Try to get invoice number from related data or use invoice_id
+        let invoiceInfo = 'N/A';
+        if (
+          data.invoices &&
+          typeof data.invoices === 'object' &&
+          !Array.isArray(data.invoices)
+        ) {
           invoiceInfo = data.invoices.inv_number || 'N/A';
         } else if (data.invoice_id) {
           invoiceInfo = `Invoice ID: ${data.invoice_id}`;
@@ -415,11 +1390,16 @@ async function logActivity(
     }
   }
 
+  // Acting user is resolved from the request (API token or page session)
+  const actingUser = getActingUser(req);
+
   // Console logging for now (until activity_logs table is created)
   const timestamp = new Date().toISOString();
   const logEntry = {
     timestamp,
-    user_id: userId,
+    user_id: actingUser?.id || 'system',
+    user_email: actingUser?.email || null,
+    user_role: actingUser?.role || null,
     action,
     table_name: tableName,
     record_id: recordId,
@@ -439,9 +1419,16 @@ async function logActivity(
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { timestamp, ...dbLogEntry } = logEntry;
 
-      const { error } = await supabase
-        .from('activity_logs')
-        .insert([dbLogEntry]);
+      let { error } = await supabase.from('activity_logs').insert([dbLogEntry]);
+
+      // Older tables have no user_email/user_role columns yet
+      if (error && /user_email|user_role/.test(error.message)) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { user_email, user_role, ...legacyLogEntry } = dbLogEntry;
+        ({ error } = await supabase
+          .from('activity_logs')
+          .insert([legacyLogEntry]));
+      }
 
       if (error) {
         console.warn(
@@ -455,6 +1442,66 @@ async function logActivity(
   }
 }
 
+// Fields that change on every update and only add noise to a diff
+const LOG_DIFF_IGNORED_FIELDS = ['created_at', 'updated_at'];
+
+interface LogFieldChange {
+  field: string;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+}
+
+// Helper function to list the fields that differ between old_data and new_data
+function diffLogData(oldData: any, newData: any): LogFieldChange[] {
+  if (
+    !oldData ||
+    !newData ||
+    typeof oldData !== 'object' ||
+    typeof newData !== 'object'
+  ) {
+    return [];
+  }
+
+  const changes: LogFieldChange[] = [];
+
+  for (const field of Object.keys(newData)) {
+    if (LOG_DIFF_IGNORED_FIELDS.includes(field)) continue;
+
+    const from = oldData[field] ?? null;
+    const to = newData[field] ?? null;
+
+    // Joined relations (e.g. invoices on a discrepancy) are not record fields
+    if (
+      (from !== null && typeof from === 'object') ||
+      (to !== null && typeof to === 'object')
+    ) {
+      continue;
+    }
+
+    // Numeric columns may come back as "1200.00" on one side and 1200 on the
+    // other. A column is numeric when either side is a number; text columns
+    // are compared as text ("00123" is not "123").
+    const numericColumn = typeof from === 'number' || typeof to === 'number';
+    const bothNumeric =
+      numericColumn &&
+      from !== null &&
+      to !== null &&
+      from !== '' &&
+      to !== '' &&
+      !isNaN(Number(from)) &&
+      !isNaN(Number(to));
+    const same = bothNumeric
+      ? Number(from) === Number(to)
+      : String(from) === String(to);
+
+    if (!same) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
 // ---------- Supabase Connection Test ----------
 async function testSupabaseConnection() {
   if (!supabase) {
@@ -538,7 +1585,9 @@ app.use(
 app.use(morgan('dev'));
 app.use(compression());
 app.use(express.urlencoded({ extended: true }));
-app.use(express.json());
+// Bank statements, attachments and backups (which include the attachment
+// files) are posted as JSON and exceed the 100kb default
+app.use(express.json({ limit: '50mb' }));
 app.use(cookieParser(process.env.SESSION_SECRET || 'dev-secret'));
 
 // ---------- Security ----------
@@ -609,6 +1658,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// ---------- Authorisation ----------
+// Every /api request is checked against API_ROUTE_PERMISSIONS
+app.use('/api', createApiAuthorization(supabase));
+
 // Тест REST API Supabase
 app.get('/api/test/rest', async (_req, res) => {
   try {
@@ -967,7 +2020,7 @@ app.get('/', authenticateSession, (_req, res) => {
   res.redirect('/flights');
 });
 
-app.get('/transactions', (_req, res) => {
+app.get('/transactions', authenticateSession, (_req, res) => {
   res.render('transactions/index', { title: 'Transactions' });
 });
 
@@ -976,7 +2029,14 @@ app.get('/invoices', authenticateSession, (_req, res) => {
 });
 
 app.get('/discrepancies', authenticateSession, (_req, res) => {
-  res.render('discrepancies/index', { title: 'Discrepancies' });
+  res.render('discrepancies/index', {
+    title: 'Discrepancies',
+    initialStatuses: DISCREPANCY_INITIAL_STATUSES,
+  });
+});
+
+app.get('/disputes', authenticateSession, (_req, res) => {
+  res.render('disputes/index', { title: 'Disputes' });
 });
 
 app.get('/invoices/:id', authenticateSession, async (req, res) => {
@@ -1095,6 +2155,8 @@ app.post('/api/create-logs-table', async (req, res) => {
       CREATE TABLE IF NOT EXISTS activity_logs (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         user_id VARCHAR(100) DEFAULT 'system',
+        user_email TEXT,
+        user_role VARCHAR(20),
         action VARCHAR(20) NOT NULL,
         table_name VARCHAR(50) NOT NULL,
         record_id UUID,
@@ -1245,16 +2307,30 @@ app.get('/logs', authenticateSession, async (req, res) => {
         error: 'Database not available',
         months: [],
         selectedPeriod: null,
+        users: [],
+        selectedUser: null,
       });
     }
 
     console.log('📋 Loading logs page...');
-    const { data: monthsRaw, error: monthsError } = await supabase
+    let {
+      data: monthsRaw,
+      error: monthsError,
+    }: { data: any[] | null; error: any } = await supabase
       .from('activity_logs')
-      .select('created_at')
+      .select('created_at, user_id, user_email, user_role')
       .order('created_at', { ascending: false })
       .limit(5000);
 
+    // Older tables have no user_email/user_role columns yet
+    if (monthsError && /user_email|user_role/.test(monthsError.message)) {
+      ({ data: monthsRaw, error: monthsError } = await supabase
+        .from('activity_logs')
+        .select('created_at, user_id')
+        .order('created_at', { ascending: false })
+        .limit(5000));
+    }
+
     if (monthsError) {
       console.error('❌ Error fetching log periods:', monthsError);
       console.error('Error code:', monthsError.code);
@@ -1291,6 +2367,30 @@ app.get('/logs', authenticateSession, async (req, res) => {
       });
     }
 
+    // Users that appear in the log, for the user filter
+    const users: { id: string; label: string }[] = [];
+    const seenUsers = new Set<string>();
+
+    (monthsRaw || []).forEach((entry: any) => {
+      const userId = entry.user_id || 'system';
+      if (seenUsers.has(userId)) {
+        return;
+      }
+      seenUsers.add(userId);
+      users.push({
+        id: userId,
+        label: entry.user_email
+          ? `${entry.user_email}${entry.user_role ? ` (${entry.user_role})` : ''}`
+          : userId,
+      });
+    });
+    users.sort((a, b) => a.label.localeCompare(b.label));
+
+    const selectedUser =
+      typeof req.query.user === 'string' && req.query.user.trim() !== ''
+        ? req.query.user.trim()
+        : null;
+
     const requestedPeriod =
       typeof req.query.period === 'string' &&
       /^\d{4}-\d{2}$/.test(req.query.period)
@@ -1382,6 +2482,10 @@ app.get('/logs', authenticateSession, async (req, res) => {
           .gte('created_at', startDateISO)
           .lt('created_at', endDateISO);
 
+        if (selectedUser) {
+          query = query.eq('user_id', selectedUser);
+        }
+
         const { data: logsData, error: logsError } = await query;
 
         if (logsError) {
@@ -1396,7 +2500,14 @@ app.get('/logs', authenticateSession, async (req, res) => {
           );
         }
 
-        logs = logsData || [];
+        // Attach field-level changes to UPDATE and REVERT entries
+        logs = (logsData || []).map(log => ({
+          ...log,
+          changes:
+            log.action === 'UPDATE' || log.action === 'REVERT'
+              ? diffLogData(log.old_data, log.new_data)
+              : [],
+        }));
       }
     }
 
@@ -1408,6 +2519,8 @@ app.get('/logs', authenticateSession, async (req, res) => {
         error: null,
         months,
         selectedPeriod,
+        users,
+        selectedUser,
       });
     } catch (renderError) {
       console.error('❌ Error rendering logs template:', renderError);
@@ -1427,6 +2540,8 @@ app.get('/logs', authenticateSession, async (req, res) => {
         error: error?.message || 'Error loading logs',
         months: [],
         selectedPeriod: null,
+        users: [],
+        selectedUser: null,
       });
     } catch (renderError) {
       // Если даже рендеринг ошибки не работает, возвращаем простой ответ
@@ -1444,6 +2559,225 @@ app.get('/logs', authenticateSession, async (req, res) => {
   }
 });
 
+// ========== ACTIVITY LOG REVERT ==========
+
+// Tables whose UPDATE and DELETE entries can be reverted from the log
+const REVERTIBLE_TABLES = ['flights', 'invoices', 'expenses', 'discrepancies'];
+
+// Helper function to keep only the record's own columns from logged data
+// (drops joined relations such as invoices on a discrepancy)
+function toRecordColumns(data: any): Record<string, any> {
+  const columns: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data || {})) {
+    if (value !== null && typeof value === 'object') continue;
+    columns[key] = value;
+  }
+  return columns;
+}
+
+// POST revert an UPDATE or DELETE entry to the logged previous state.
+// Later edits to the same record are a conflict unless force is true.
+app.post('/api/logs/:id/revert', requireSuperadmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const force = req.body?.force === true;
+
+    if (supabase) {
+      const { data: log, error: logError } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (logError || !log) {
+        return res.status(404).json({ error: 'Log entry not found' });
+      }
+
+      if (!REVERTIBLE_TABLES.includes(log.table_name)) {
+        return res.status(400).json({
+          error: `Changes to ${log.table_name} cannot be reverted`,
+        });
+      }
+
+      if (log.action !== 'UPDATE' && log.action !== 'DELETE') {
+        return res.status(400).json({
+          error: 'Only UPDATE and DELETE entries can be reverted',
+        });
+      }
+
+      if (!log.record_id || !log.old_data) {
+        return res
+          .status(400)
+          .json({ error: 'Log entry has no previous state to restore' });
+      }
+
+      // Current state of the record
+      const { data: current, error: currentError } = await supabase
+        .from(log.table_name)
+        .select('*')
+        .eq('id', log.record_id)
+        .maybeSingle();
+
+      if (currentError) {
+        console.log(
+          'Supabase error fetching record to revert:',
+          currentError.message
+        );
+        return res.status(500).json({ error: 'Failed to load record' });
+      }
+
+      if (log.action === 'UPDATE' && !current) {
+        return res.status(409).json({
+          error: 'The record has been deleted since this change',
+        });
+      }
+
+      if (log.action === 'DELETE' && current) {
+        return res
+          .status(409)
+          .json({ error: 'The record already exists again' });
+      }
+
+      // Conflict check: later log entries for the same record, and fields
+      // that no longer match what this entry wrote
+      const { data: laterLogs } = await supabase
+        .from('activity_logs')
+        .select('id, action, created_at, user_id, user_email, record_details')
+        .eq('table_name', log.table_name)
+        .eq('record_id', log.record_id)
+        .gt('created_at', log.created_at)
+        .order('created_at', { ascending: true });
+
+      const changedSince =
+        log.action === 'UPDATE' && log.new_data
+          ? diffLogData(toRecordColumns(log.new_data), current)
+          : [];
+
+      if (
+        !force &&
+        ((laterLogs && laterLogs.length > 0) || changedSince.length > 0)
+      ) {
+        return res.status(409).json({
+          error:
+            'The record was changed after this entry. Revert again with force to overwrite those changes.',
+          conflicts: laterLogs || [],
+          changedFields: changedSince,
+        });
+      }
+
+      const restored = toRecordColumns(log.old_data);
+      let result: any = null;
+
+      if (log.action === 'UPDATE') {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { id: _recordId, created_at, ...updateData } = restored;
+        const { data, error } = await supabase
+          .from(log.table_name)
+          .update(updateData)
+          .eq('id', log.record_id)
+          .select()
+          .single();
+
+        if (error) {
+          console.log('Supabase error reverting update:', error.message);
+          return res.status(500).json({ error: 'Failed to revert change' });
+        }
+        result = data;
+      } else {
+        const { data, error } = await supabase
+          .from(log.table_name)
+          .insert([restored])
+          .select()
+          .single();
+
+        if (error) {
+          console.log('Supabase error restoring record:', error.message);
+          return res
+            .status(500)
+            .json({ error: `Failed to restore record: ${error.message}` });
+        }
+        result = data;
+
+        // Deleting an expense also deleted its disbursement fees (older
+        // log entries keep a single disbursement_fee)
+        const fees: any[] =
+          log.table_name !== 'expenses'
+            ? []
+            : log.old_data.disbursement_fees ||
+              (log.old_data.disbursement_fee
+                ? [log.old_data.disbursement_fee]
+                : []);
+        for (const fee of fees.filter((f: any) => f && f.id)) {
+          const { data: existingFee } = await supabase
+            .from('expenses')
+            .select('id')
+            .eq('id', fee.id)
+            .maybeSingle();
+
+          if (!existingFee) {
+            const { data: restoredFee, error: feeError } = await supabase
+              .from('expenses')
+              .insert([toRecordColumns(fee)])
+              .select()
+              .single();
+
+            if (feeError) {
+              console.log(
+                'Supabase error restoring disbursement fee:',
+                feeError.message
+              );
+            } else {
+              await logActivity(
+                'REVERT',
+                'expenses',
+                restoredFee.id,
+                null,
+                restoredFee,
+                req
+              );
+            }
+          }
+        }
+      }
+
+      if (
+        log.table_name === 'discrepancies' &&
+        result &&
+        current?.status !== result.status
+      ) {
+        await recordDiscrepancyStatus(
+          log.record_id,
+          current?.status || null,
+          result.status,
+          req,
+          { reason: 'Reverted from the activity log' }
+        );
+      }
+
+      // Log the activity
+      await logActivity(
+        'REVERT',
+        log.table_name,
+        log.record_id,
+        current,
+        result,
+        req
+      );
+
+      return res.json({
+        message: 'Change reverted',
+        revertedLogId: log.id,
+        record: result,
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error reverting log entry:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Маршрут для проверки соединения с Supabase
 app.get('/api/health/supabase', async (_req, res) => {
   try {
@@ -1593,15 +2927,19 @@ const mockData = {
 };
 
 // API маршруты
-app.get('/api/flights', authenticateToken, async (_req, res) => {
+app.get('/api/flights', async (_req, res) => {
   try {
+    const airports = buildAirportIndex(await loadAirports());
+
     if (supabase) {
       // Try to get flights with expenses
       let { data, error } = await supabase.from('flights').select(`
         *,
         expenses!exp_flight (
-          exp_type,
-          exp_subtype
+          exp_type_id,
+          exp_subtype_id,
+          exp_invoice_type_id,
+          ${EXPENSE_TYPE_JOINS}
         )
       `);
 
@@ -1617,7 +2955,7 @@ app.get('/api/flights', authenticateToken, async (_req, res) => {
             'Supabase error, using mock data:',
             flightsResult.error.message
           );
-          return res.json(sortFlightsLogically(mockData.flights));
+          return res.json(sortFlightsLogically(mockData.flights, airports));
         }
         data = flightsResult.data;
         // Add empty expenses array to each flight
@@ -1626,121 +2964,29 @@ app.get('/api/flights', authenticateToken, async (_req, res) => {
         }
       }
 
-      // Enrich expenses with type names if exp_type is an ID
-      if (data && data.length > 0) {
-        try {
-          const isUuidString = (s: string) =>
-            /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-              s
-            );
-
-          // Get all unique expense type IDs and subtype IDs (UUID or number only)
-          const expenseTypeIds = new Set<string>();
-          const expenseSubtypeIds = new Set<string>();
-          data.forEach((flight: any) => {
-            if (flight.expenses && Array.isArray(flight.expenses)) {
-              flight.expenses.forEach((expense: any) => {
-                if (
-                  expense.exp_type != null &&
-                  expense.exp_type !== '' &&
-                  typeof expense.exp_type === 'number'
-                ) {
-                  expenseTypeIds.add(String(expense.exp_type));
-                }
-                const rawSub = expense.exp_subtype;
-                if (rawSub != null && rawSub !== '') {
-                  if (typeof rawSub === 'number') {
-                    expenseSubtypeIds.add(String(rawSub));
-                  } else if (
-                    typeof rawSub === 'string' &&
-                    isUuidString(rawSub)
-                  ) {
-                    expenseSubtypeIds.add(rawSub);
-                  }
-                }
-              });
-            }
-          });
-
-          // Fetch expense type names if we have IDs
-          const expenseTypeMap: { [key: string]: string } = {};
-          if (expenseTypeIds.size > 0) {
-            const { data: expenseTypes, error: typesError } = await supabase
-              .from('expense_types')
-              .select('id, name')
-              .in('id', Array.from(expenseTypeIds));
-
-            if (!typesError && expenseTypes) {
-              expenseTypes.forEach((et: any) => {
-                expenseTypeMap[String(et.id)] = et.name;
-              });
-            }
-          }
-
-          const expenseSubtypeMap: { [key: string]: string } = {};
-          if (expenseSubtypeIds.size > 0) {
-            const { data: expenseSubtypes, error: subtypesError } =
-              await supabase
-                .from('expense_subtypes')
-                .select('id, name')
-                .in('id', Array.from(expenseSubtypeIds));
-
-            if (!subtypesError && expenseSubtypes) {
-              expenseSubtypes.forEach((st: any) => {
-                expenseSubtypeMap[String(st.id)] = st.name;
-              });
-            }
-          }
-
-          // Enrich flights with expense type / subtype names (keep all fields)
-          const enrichedData = data.map((flight: any) => {
-            if (flight.expenses && Array.isArray(flight.expenses)) {
-              flight.expenses = flight.expenses.map((expense: any) => {
-                const typeKey =
-                  expense.exp_type != null ? String(expense.exp_type) : '';
-                const subtypeKey =
-                  expense.exp_subtype != null
-                    ? String(expense.exp_subtype)
-                    : '';
-                return {
-                  ...expense,
-                  exp_type:
-                    typeof expense.exp_type === 'number' &&
-                    expenseTypeMap[typeKey]
-                      ? expenseTypeMap[typeKey]
-                      : expense.exp_type,
-                  exp_subtype:
-                    expenseSubtypeMap[subtypeKey] != null
-                      ? expenseSubtypeMap[subtypeKey]
-                      : expense.exp_subtype,
-                };
-              });
-            }
-            return flight;
-          });
-          return res.json(sortFlightsLogically(enrichedData || []));
-        } catch (enrichError) {
-          // If enrichment fails, return data as-is
-          console.log(
-            'Error enriching expense types, returning data as-is:',
-            enrichError
-          );
-          return res.json(sortFlightsLogically(data || []));
-        }
-      }
+      // Expense type names come from the joined type rows
+      const enrichedData = (data || []).map((flight: any) => ({
+        ...flight,
+        expenses: (flight.expenses || []).map(withExpenseTypeNames),
+      }));
 
-      return res.json(sortFlightsLogically(data || []));
+      return res.json(sortFlightsLogically(enrichedData, airports));
     }
 
-    res.json(sortFlightsLogically(mockData.flights));
+    res.json(sortFlightsLogically(mockData.flights, airports));
   } catch (error) {
     console.log('Error fetching flights:', error);
-    res.json(sortFlightsLogically(mockData.flights));
+    res.json(
+      sortFlightsLogically(
+        mockData.flights,
+        buildAirportIndex(BUNDLED_AIRPORTS)
+      )
+    );
   }
 });
 
 // API endpoint for flight expenses data
-app.get('/api/flights/expenses', authenticateToken, async (_req, res) => {
+app.get('/api/flights/expenses', async (_req, res) => {
   try {
     if (supabase) {
       // Get all flights with their expenses
@@ -1750,11 +2996,11 @@ app.get('/api/flights/expenses', authenticateToken, async (_req, res) => {
           *,
           expenses!exp_flight (
             id,
-            exp_type,
-            exp_subtype,
+            exp_type_id,
+            exp_subtype_id,
             exp_amount,
             exp_currency,
-            exp_invoice_type,
+            exp_invoice_type_id,
             exp_place,
             exp_fuel_quan,
             exp_fuel_provider,
@@ -1762,7 +3008,8 @@ app.get('/api/flights/expenses', authenticateToken, async (_req, res) => {
             invoices!exp_invoice (
               id,
               inv_number
-            )
+            ),
+            ${EXPENSE_TYPE_JOINS}
           )
         `);
 
@@ -1776,7 +3023,13 @@ app.get('/api/flights/expenses', authenticateToken, async (_req, res) => {
           .json({ error: 'Failed to fetch flight expenses data' });
       }
 
-      return res.json(sortFlightsLogically(flights || []));
+      const enrichedFlights = (flights || []).map((flight: any) => ({
+        ...flight,
+        expenses: (flight.expenses || []).map(withExpenseTypeNames),
+      }));
+      const airports = buildAirportIndex(await loadAirports());
+
+      return res.json(sortFlightsLogically(enrichedFlights, airports));
     }
 
     res.status(503).json({ error: 'Database not available' });
@@ -1787,28 +3040,25 @@ app.get('/api/flights/expenses', authenticateToken, async (_req, res) => {
 });
 
 // Heuristic duplicate check: same flight + same economic fingerprint (fuel uplift or line item)
-app.get(
-  '/api/flights/expense-duplicate-check',
-  authenticateToken,
-  async (_req, res) => {
-    try {
-      if (!supabase) {
-        return res.status(503).json({ error: 'Database not available' });
-      }
+app.get('/api/flights/expense-duplicate-check', async (_req, res) => {
+  try {
+    if (!supabase) {
+      return res.status(503).json({ error: 'Database not available' });
+    }
 
-      const pageSize = 1000;
-      let from = 0;
-      const allRows: any[] = [];
-      let moreRows = true;
+    const pageSize = 1000;
+    let from = 0;
+    const allRows: any[] = [];
+    let moreRows = true;
 
-      while (moreRows) {
-        const { data: page, error } = await supabase
-          .from('expenses')
-          .select(
-            `
+    while (moreRows) {
+      const { data: page, error } = await supabase
+        .from('expenses')
+        .select(
+          `
             id,
-            exp_type,
-            exp_subtype,
+            exp_type_id,
+            exp_subtype_id,
             exp_amount,
             exp_currency,
             exp_invoice,
@@ -1817,8 +3067,9 @@ app.get(
             exp_fuel_provider,
             exp_period_start,
             exp_period_end,
-            exp_invoice_type,
+            exp_invoice_type_id,
             created_at,
+            ${EXPENSE_TYPE_JOINS},
             flights!exp_flight (
               id,
               flt_number,
@@ -1831,221 +3082,256 @@ app.get(
               inv_number
             )
           `
-          )
-          .not('exp_flight', 'is', null)
-          .order('created_at', { ascending: false })
-          .range(from, from + pageSize - 1);
+        )
+        .not('exp_flight', 'is', null)
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
 
-        if (error) {
-          console.log('duplicate-check fetch error:', error.message);
-          return res
-            .status(500)
-            .json({ error: 'Failed to load flight expenses' });
-        }
+      if (error) {
+        console.log('duplicate-check fetch error:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to load flight expenses' });
+      }
 
-        if (!page || page.length === 0) {
+      if (!page || page.length === 0) {
+        moreRows = false;
+      } else {
+        allRows.push(...page.map(withExpenseTypeNames));
+        if (page.length < pageSize) {
           moreRows = false;
         } else {
-          allRows.push(...page);
-          if (page.length < pageSize) {
-            moreRows = false;
-          } else {
-            from += pageSize;
-          }
+          from += pageSize;
         }
       }
+    }
 
-      const norm = (v: unknown) =>
-        String(v ?? '')
-          .trim()
-          .toLowerCase()
-          .replace(/\s+/g, ' ');
-      const money = (v: unknown) =>
-        Math.round((parseFloat(String(v ?? '0')) || 0) * 100) / 100;
-      const fuelQuan = (v: unknown) =>
-        Math.round((parseFloat(String(v ?? '0')) || 0) * 100) / 100;
-
-      const isDisbursement = (type: string) =>
-        norm(type).includes('disbursement');
-      const isCredit = (type: string) => norm(type).includes('credit');
-
-      type Finding = {
-        kind: string;
-        severity: 'high' | 'medium';
-        reason: string;
-        signature: string;
-        flightId: string;
-        flightLabel: string;
-        expenses: any[];
-      };
-
-      const byKey = new Map<string, any[]>();
-
-      for (const row of allRows) {
-        const flightId = row.exp_flight;
-        if (!flightId) continue;
+    const norm = (v: unknown) =>
+      String(v ?? '')
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, ' ');
+    const money = (v: unknown) =>
+      Math.round((parseFloat(String(v ?? '0')) || 0) * 100) / 100;
+    const fuelQuan = (v: unknown) =>
+      Math.round((parseFloat(String(v ?? '0')) || 0) * 100) / 100;
+
+    const isDisbursement = (type: string) =>
+      norm(type).includes('disbursement');
+    const isCredit = (type: string) => norm(type).includes('credit');
+
+    // Amounts are also shown in the reporting currency so findings in
+    // different currencies can be compared. Amounts without a rate stay
+    // unconverted (null) and their pair is reported.
+    const fxRates = await loadFxRates();
+    const missingFxRates = new Set<string>();
+    const toReporting = (row: any): number | null => {
+      const parsedDate = new Date(
+        row.flights?.flt_date || row.exp_period_start || row.created_at
+      );
+      const rateDate = isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
+      const currency = (row.exp_currency || 'USD').toUpperCase();
+      const converted = convertCurrency(
+        fxRates,
+        parseFloat(String(row.exp_amount ?? '0')) || 0,
+        currency,
+        REPORTING_CURRENCY,
+        rateDate
+      );
+      if (converted === null) {
+        missingFxRates.add(
+          `${currency} → ${REPORTING_CURRENCY} (${toMonthKey(rateDate)})`
+        );
+        return null;
+      }
+      return money(converted);
+    };
 
-        const typeStr = norm(row.exp_type);
-        const subStr = norm(row.exp_subtype);
-        if (isDisbursement(row.exp_type) || isCredit(row.exp_type)) continue;
+    type Finding = {
+      kind: string;
+      severity: 'high' | 'medium';
+      reason: string;
+      signature: string;
+      flightId: string;
+      flightLabel: string;
+      amountReporting: number | null;
+      expenses: any[];
+    };
 
-        const amt = money(row.exp_amount);
-        const cur = (row.exp_currency || 'USD').toUpperCase();
-        const flt = row.flights || {};
-        const inv = row.invoices || {};
+    const byKey = new Map<string, any[]>();
 
-        let key: string;
-        if (typeStr.includes('fuel')) {
-          const q = fuelQuan(row.exp_fuel_quan);
-          const prov = norm(row.exp_fuel_provider);
-          key = `fuel|${flightId}|${q}|${amt}|${cur}|${prov}`;
-        } else {
-          key = `line|${flightId}|${typeStr}|${subStr}|${amt}|${cur}`;
-        }
+    for (const row of allRows) {
+      const flightId = row.exp_flight;
+      if (!flightId) continue;
 
-        if (!byKey.has(key)) byKey.set(key, []);
-        byKey.get(key)!.push({
-          id: row.id,
-          exp_type: row.exp_type,
-          exp_subtype: row.exp_subtype,
-          exp_amount: row.exp_amount,
-          exp_currency: row.exp_currency,
-          exp_invoice: row.exp_invoice,
-          exp_period_start: row.exp_period_start,
-          exp_period_end: row.exp_period_end,
-          exp_fuel_quan: row.exp_fuel_quan,
-          exp_fuel_provider: row.exp_fuel_provider,
-          exp_invoice_type: row.exp_invoice_type,
-          created_at: row.created_at,
-          flight: {
-            id: flt.id,
-            flt_number: flt.flt_number,
-            flt_date: flt.flt_date,
-            flt_dep: flt.flt_dep,
-            flt_arr: flt.flt_arr,
-          },
-          invoice: {
-            id: inv.id,
-            inv_number: inv.inv_number,
-          },
-        });
-      }
+      const typeStr = norm(row.exp_type);
+      if (isDisbursement(row.exp_type) || isCredit(row.exp_type)) continue;
 
-      const findings: Finding[] = [];
+      const amt = money(row.exp_amount);
+      const cur = (row.exp_currency || 'USD').toUpperCase();
+      const flt = row.flights || {};
+      const inv = row.invoices || {};
 
-      for (const [signature, group] of byKey) {
-        if (group.length < 2) continue;
+      let key: string;
+      if (typeStr.includes('fuel')) {
+        const q = fuelQuan(row.exp_fuel_quan);
+        const prov = norm(row.exp_fuel_provider);
+        key = `fuel|${flightId}|${q}|${amt}|${cur}|${prov}`;
+      } else {
+        key = `line|${flightId}|${row.exp_type_id ?? ''}|${row.exp_subtype_id ?? ''}|${amt}|${cur}`;
+      }
+
+      if (!byKey.has(key)) byKey.set(key, []);
+      byKey.get(key)!.push({
+        id: row.id,
+        exp_type: row.exp_type,
+        exp_subtype: row.exp_subtype,
+        exp_amount: row.exp_amount,
+        exp_currency: row.exp_currency,
+        exp_amount_reporting: toReporting(row),
+        exp_invoice: row.exp_invoice,
+        exp_period_start: row.exp_period_start,
+        exp_period_end: row.exp_period_end,
+        exp_fuel_quan: row.exp_fuel_quan,
+        exp_fuel_provider: row.exp_fuel_provider,
+        exp_invoice_type: row.exp_invoice_type,
+        created_at: row.created_at,
+        flight: {
+          id: flt.id,
+          flt_number: flt.flt_number,
+          flt_date: flt.flt_date,
+          flt_dep: flt.flt_dep,
+          flt_arr: flt.flt_arr,
+        },
+        invoice: {
+          id: inv.id,
+          inv_number: inv.inv_number,
+        },
+      });
+    }
 
-        const flightId = group[0].flight?.id || '';
-        const f = group[0].flight || {};
-        const flightLabel = f.flt_number
-          ? `${f.flt_number} (${f.flt_date || '—'}) ${f.flt_dep || ''} → ${f.flt_arr || ''}`.trim()
-          : flightId;
+    const findings: Finding[] = [];
 
-        const invSet = new Set(
-          group.map((e: any) => e.invoice?.id || e.exp_invoice || 'none')
-        );
-        const periodSet = new Set(
-          group.map((e: any) =>
-            e.exp_period_start ? String(e.exp_period_start).slice(0, 7) : '—'
-          )
-        );
+    for (const [signature, group] of byKey) {
+      if (group.length < 2) continue;
 
-        const isFuel = signature.startsWith('fuel|');
-        let reason: string;
-        if (isFuel) {
-          reason =
-            invSet.size > 1
-              ? 'Same flight, fuel quantity, amount and currency appear in multiple invoices — possible double billing.'
-              : 'Two or more fuel lines with identical quantity/amount/currency on the same flight.';
-        } else {
-          reason =
-            invSet.size > 1 && periodSet.size > 1
-              ? 'Same category and amount on the same flight across invoices and different service periods — check for the same charge in two months.'
-              : invSet.size > 1
-                ? 'Same category and amount on the same flight in multiple invoices.'
-                : 'Duplicate lines (type, subtype, amount, currency) on one flight.';
-        }
+      const flightId = group[0].flight?.id || '';
+      const f = group[0].flight || {};
+      const flightLabel = f.flt_number
+        ? `${f.flt_number} (${f.flt_date || '—'}) ${f.flt_dep || ''} → ${f.flt_arr || ''}`.trim()
+        : flightId;
 
-        findings.push({
-          kind: isFuel ? 'duplicate_fuel' : 'duplicate_line',
-          severity: invSet.size > 1 ? 'high' : 'medium',
-          reason,
-          signature,
-          flightId,
-          flightLabel,
-          expenses: group.sort((a: any, b: any) =>
-            String(a.invoice?.inv_number || '').localeCompare(
-              String(b.invoice?.inv_number || '')
-            )
-          ),
-        });
-      }
+      const invSet = new Set(
+        group.map((e: any) => e.invoice?.id || e.exp_invoice || 'none')
+      );
+      const periodSet = new Set(
+        group.map((e: any) =>
+          e.exp_period_start ? String(e.exp_period_start).slice(0, 7) : '—'
+        )
+      );
 
-      findings.sort((a, b) => {
-        if (a.severity !== b.severity) return a.severity === 'high' ? -1 : 1;
-        return a.flightLabel.localeCompare(b.flightLabel);
+      const isFuel = signature.startsWith('fuel|');
+      let reason: string;
+      if (isFuel) {
+        reason =
+          invSet.size > 1
+            ? 'Same flight, fuel quantity, amount and currency appear in multiple invoices — possible double billing.'
+            : 'Two or more fuel lines with identical quantity/amount/currency on the same flight.';
+      } else {
+        reason =
+          invSet.size > 1 && periodSet.size > 1
+            ? 'Same category and amount on the same flight across invoices and different service periods — check for the same charge in two months.'
+            : invSet.size > 1
+              ? 'Same category and amount on the same flight in multiple invoices.'
+              : 'Duplicate lines (type, subtype, amount, currency) on one flight.';
+      }
+
+      findings.push({
+        kind: isFuel ? 'duplicate_fuel' : 'duplicate_line',
+        severity: invSet.size > 1 ? 'high' : 'medium',
+        reason,
+        signature,
+        flightId,
+        flightLabel,
+        // Total only when every line could be converted
+        amountReporting: group.some((e: any) => e.exp_amount_reporting === null)
+          ? null
+          : money(
+              group.reduce(
+                (sum: number, e: any) => sum + e.exp_amount_reporting,
+                0
+              )
+            ),
+        expenses: group.sort((a: any, b: any) =>
+          String(a.invoice?.inv_number || '').localeCompare(
+            String(b.invoice?.inv_number || '')
+          )
+        ),
       });
+    }
 
-      return res.json({
-        scannedExpenses: allRows.length,
-        findingsCount: findings.length,
-        findings,
-        note: 'Heuristic check; Disbursement fee and Credit note rows are skipped. False positives are possible when two different services share the same price.',
-      });
-    } catch (error) {
-      console.log('Error in expense-duplicate-check:', error);
-      return res.status(500).json({ error: 'Internal server error' });
-    }
+    findings.sort((a, b) => {
+      if (a.severity !== b.severity) return a.severity === 'high' ? -1 : 1;
+      return a.flightLabel.localeCompare(b.flightLabel);
+    });
+
+    return res.json({
+      scannedExpenses: allRows.length,
+      findingsCount: findings.length,
+      reportingCurrency: REPORTING_CURRENCY,
+      missingFxRates: Array.from(missingFxRates),
+      findings,
+      note: 'Heuristic check; Disbursement fee and Credit note rows are skipped. False positives are possible when two different services share the same price.',
+    });
+  } catch (error) {
+    console.log('Error in expense-duplicate-check:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
-);
+});
 
 // API endpoint for single flight expenses by flight number
-app.get(
-  '/api/flights/:flightNumber/expenses',
-  authenticateToken,
-  async (req, res) => {
-    try {
-      const flightNumber = decodeURIComponent(req.params.flightNumber);
+app.get('/api/flights/:flightNumber/expenses', async (req, res) => {
+  try {
+    const flightNumber = decodeURIComponent(req.params.flightNumber);
 
-      if (supabase) {
-        // Get all flights with this flight number
-        const { data: flights, error: flightsError } = await supabase
-          .from('flights')
-          .select(
-            `
+    if (supabase) {
+      // Get all flights with this flight number
+      const { data: flights, error: flightsError } = await supabase
+        .from('flights')
+        .select(
+          `
           id,
           flt_number,
           flt_date,
           flt_dep,
           flt_arr
         `
-          )
-          .eq('flt_number', flightNumber);
+        )
+        .eq('flt_number', flightNumber);
 
-        if (flightsError) {
-          console.log('Supabase error fetching flights:', flightsError.message);
-          return res.status(500).json({ error: 'Failed to fetch flights' });
-        }
+      if (flightsError) {
+        console.log('Supabase error fetching flights:', flightsError.message);
+        return res.status(500).json({ error: 'Failed to fetch flights' });
+      }
 
-        if (!flights || flights.length === 0) {
-          return res.status(404).json({ error: 'Flight not found' });
-        }
+      if (!flights || flights.length === 0) {
+        return res.status(404).json({ error: 'Flight not found' });
+      }
 
-        // Get all flight IDs
-        const flightIds = flights.map(f => f.id);
+      // Get all flight IDs
+      const flightIds = flights.map(f => f.id);
 
-        // Get all expenses for all flights with this flight number
-        const { data: expenses, error: expensesError } = await supabase
-          .from('expenses')
-          .select(
-            `
+      // Get all expenses for all flights with this flight number
+      const { data: expenses, error: expensesError } = await supabase
+        .from('expenses')
+        .select(
+          `
           id,
-          exp_type,
-          exp_subtype,
+          exp_type_id,
+          exp_subtype_id,
           exp_amount,
           exp_currency,
-          exp_invoice_type,
+          exp_invoice_type_id,
           exp_place,
           exp_fuel_quan,
           exp_fuel_provider,
@@ -2058,701 +3344,1038 @@ app.get(
           flights!exp_flight (
             id,
             flt_date
-          )
+          ),
+          ${EXPENSE_TYPE_JOINS}
         `
-          )
-          .in('exp_flight', flightIds);
-
-        if (expensesError) {
-          console.log(
-            'Supabase error fetching expenses:',
-            expensesError.message
-          );
-          return res.status(500).json({ error: 'Failed to fetch expenses' });
-        }
+        )
+        .in('exp_flight', flightIds);
 
-        // Return combined data
-        return res.json({
-          flt_number: flightNumber,
-          flights: flights,
-          expenses: expenses || [],
-        });
+      if (expensesError) {
+        console.log('Supabase error fetching expenses:', expensesError.message);
+        return res.status(500).json({ error: 'Failed to fetch expenses' });
       }
 
-      res.status(503).json({ error: 'Database not available' });
-    } catch (error) {
-      console.log('Error fetching flight expenses:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      // Return combined data
+      return res.json({
+        flt_number: flightNumber,
+        flights: flights,
+        expenses: (expenses || []).map(withExpenseTypeNames),
+      });
     }
-  }
-);
-
-// POST endpoint to add new flight
-app.post(
-  '/api/flights',
-  authenticateToken,
-  requireSuperadmin,
-  async (req, res) => {
-    try {
-      const {
-        flt_date,
-        flt_number,
-        flt_dep,
-        flt_arr,
-        flt_time,
-        flt_block,
-        flt_comments,
-        flt_status,
-      } = req.body;
-
-      // Validate required fields
-      if (
-        !flt_date ||
-        !flt_number ||
-        !flt_dep ||
-        !flt_arr ||
-        !flt_time ||
-        !flt_block
-      ) {
-        return res.status(400).json({
-          error:
-            'All fields are required: flt_date, flt_number, flt_dep, flt_arr, flt_time, flt_block',
-        });
-      }
 
-      // Validate status if provided
-      const validStatuses = ['Planned', 'Completed', 'Invoiced', 'Cancelled'];
-      if (flt_status && !validStatuses.includes(flt_status)) {
-        return res.status(400).json({
-          error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
-        });
-      }
+    res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching flight expenses:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      if (supabase) {
-        const { data, error } = await supabase
-          .from('flights')
-          .insert([
-            {
-              flt_date,
-              flt_number,
-              flt_dep,
-              flt_arr,
-              flt_time,
-              flt_block,
-              flt_comments: flt_comments || null,
-              flt_status: flt_status || 'Planned',
-            },
-          ])
-          .select();
+// ---------- Flight Upsert ----------
+// Flights from the add form, spreadsheets and ops rosters go through the same
+// steps: the leg is validated and normalised (flight number without spaces,
+// IATA airport codes, HH:MM:SS times), then matched to a saved leg with the
+// same flight number, date and route. New legs are inserted; a saved leg gets
+// the new times, comments and status instead of a second copy.
+const FLIGHT_STATUSES = ['Planned', 'Completed', 'Invoiced', 'Cancelled'];
+
+interface FlightLeg {
+  flt_date: string;
+  flt_number: string;
+  flt_dep: string;
+  flt_arr: string;
+  flt_time: string;
+  flt_block: string;
+  flt_comments: string | null;
+  flt_status: string | null; // null: Planned when new, unchanged when saved
+}
 
-        if (error) {
-          console.log('Supabase error adding flight:', error.message);
-          return res
-            .status(500)
-            .json({ error: 'Failed to add flight to database' });
-        }
+interface FlightUpsert {
+  leg: FlightLeg;
+  action: 'insert' | 'update' | 'unchanged' | 'repeated';
+  existing: any | null;
+  changes: (keyof FlightLeg)[]; // fields an update changes
+}
 
-        // Log the activity
-        await logActivity(
-          'CREATE',
-          'flights',
-          data[0].id,
-          null,
-          data[0],
-          'system',
-          req
-        );
+// Helper function to build the key that identifies a flight leg
+function getFlightLegKey(flight: any, airports: AirportIndex): string {
+  return [
+    normalizeFlightNumber(flight.flt_number),
+    String(flight.flt_date).slice(0, 10),
+    normalizeAirportCode(flight.flt_dep, airports) ?? '',
+    normalizeAirportCode(flight.flt_arr, airports) ?? '',
+  ]
+    .join('|')
+    .toUpperCase();
+}
 
-        return res.status(201).json({
-          message: 'Flight added successfully',
-          data: data[0],
-        });
-      }
+// Helper function to validate a flight leg (as entered or read from a file)
+// and normalise its values. Airports are looked up in the airports reference
+// list; well-formed codes missing from it are accepted with a warning.
+// When editing a saved flight, fields that still hold the saved value are
+// kept as they are, so legacy values (a city name, an empty flight time)
+// don't block changing the other fields.
+function normalizeFlightLeg(
+  input: Record<string, any>,
+  airports: AirportIndex,
+  saved?: Record<string, any>
+): {
+  leg: FlightLeg | null;
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const isEmpty = (field: string) =>
+    input[field] === null ||
+    input[field] === undefined ||
+    String(input[field]).trim() === '';
+  const isSaved = (field: string) =>
+    saved !== undefined &&
+    String(saved[field] ?? '').trim() === String(input[field] ?? '').trim();
+
+  let date = toDateString(input.flt_date);
+  if (isSaved('flt_date')) {
+    date = String(saved?.flt_date).slice(0, 10);
+  } else if (isEmpty('flt_date')) {
+    errors.push('Date is required');
+  } else if (!date) {
+    errors.push(`Date "${input.flt_date}" is not a date`);
+  }
 
-      // Fallback for when Supabase is not available
-      return res.status(503).json({ error: 'Database not available' });
-    } catch (error) {
-      console.log('Error adding flight:', error);
-      return res.status(500).json({ error: 'Internal server error' });
+  const flightNumber = isSaved('flt_number')
+    ? saved?.flt_number
+    : normalizeFlightNumber(input.flt_number);
+  if (!flightNumber) errors.push('Flight number is required');
+
+  // Departure and arrival by ICAO or IATA code, stored as getAirportCode.
+  // Codes missing from the airport list are kept as typed, with a warning.
+  const airportCodes: Record<string, string | null> = {};
+  for (const [field, label] of [
+    ['flt_dep', 'Departure'],
+    ['flt_arr', 'Arrival'],
+  ]) {
+    if (isSaved(field)) {
+      airportCodes[field] = saved?.[field] ?? null;
+      continue;
+    }
+
+    const airport = findAirport(input[field], airports);
+    const code = isEmpty(field) ? '' : String(input[field]).trim();
+    airportCodes[field] = airport ? getAirportCode(airport) : null;
+    if (!code) {
+      errors.push(`${label} is required`);
+    } else if (!airport && /^[A-Za-z]{3,4}$/.test(code)) {
+      airportCodes[field] = code.toUpperCase();
+      warnings.push(
+        `${label} "${code.toUpperCase()}" is not in the airport list; add it in Settings → Airports to group it by country`
+      );
+    } else if (!airport) {
+      errors.push(
+        `${label} "${code}" is not an airport code (3-letter IATA or 4-letter ICAO)`
+      );
     }
   }
-);
-
-// API endpoint to get single invoice data
-app.get('/api/invoices/:id', async (req, res) => {
-  try {
-    const invoiceId = req.params.id;
 
-    if (supabase) {
-      const { data: invoice, error } = await supabase
-        .from('invoices')
-        .select('*')
-        .eq('id', invoiceId)
-        .single();
+  // Flight and block time ("0130", "01:30" or a spreadsheet time)
+  const times: Record<string, string | null> = {};
+  for (const [field, label] of [
+    ['flt_time', 'Flight time'],
+    ['flt_block', 'Block time'],
+  ]) {
+    if (isSaved(field)) {
+      times[field] = saved?.[field] ?? null;
+      continue;
+    }
 
-      if (error || !invoice) {
-        return res.status(404).json({ error: 'Invoice not found' });
-      }
+    times[field] = toTimeString(input[field]);
+    if (isEmpty(field)) {
+      errors.push(`${label} is required`);
+    } else if (!times[field]) {
+      errors.push(`${label} "${input[field]}" is not a time (HH:MM)`);
+    }
+  }
 
-      return res.json(invoice);
+  // Status by name in any case
+  let status: string | null = null;
+  if (isSaved('flt_status')) {
+    status = saved?.flt_status ?? null;
+  } else if (!isEmpty('flt_status')) {
+    status =
+      FLIGHT_STATUSES.find(
+        s => s.toLowerCase() === String(input.flt_status).trim().toLowerCase()
+      ) || null;
+    if (!status) {
+      errors.push(
+        `Invalid status "${input.flt_status}". Must be one of: ${FLIGHT_STATUSES.join(', ')}`
+      );
     }
+  }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error) {
-    console.error('Error fetching invoice:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+  if (errors.length > 0) {
+    return { leg: null, errors, warnings };
   }
-});
 
-app.get('/api/invoices', async (_req, res) => {
-  try {
-    if (supabase) {
-      const { data, error } = await supabase
-        .from('invoices')
-        .select('*')
-        .order('inv_date', { ascending: false });
+  return {
+    leg: {
+      flt_date: date as string,
+      flt_number: flightNumber,
+      flt_dep: airportCodes.flt_dep as string,
+      flt_arr: airportCodes.flt_arr as string,
+      flt_time: times.flt_time as string,
+      flt_block: times.flt_block as string,
+      flt_comments: isEmpty('flt_comments')
+        ? null
+        : String(input.flt_comments).trim(),
+      flt_status: status,
+    },
+    errors,
+    warnings,
+  };
+}
 
-      if (error) {
-        console.log('Supabase error, using mock data:', error.message);
-        return res.json(mockData.invoices);
-      }
+// Helper function to match legs to the saved flights (and to earlier legs of
+// the same batch) and decide what saving each one does
+async function planFlightUpserts(
+  legs: FlightLeg[],
+  airports: AirportIndex
+): Promise<FlightUpsert[]> {
+  if (!supabase || legs.length === 0) return [];
+
+  const dates = legs.map(leg => leg.flt_date).sort();
+  const { data: flights, error } = await supabase
+    .from('flights')
+    .select('*')
+    .gte('flt_date', dates[0])
+    .lte('flt_date', `${dates[dates.length - 1]}T23:59:59`);
+
+  if (error) {
+    throw new Error(`Failed to fetch flights: ${error.message}`);
+  }
 
-      // Get discrepancies count for each invoice
-      if (data && data.length > 0) {
-        const invoiceIds = data.map(inv => inv.id);
+  const savedByKey = new Map<string, any>();
+  for (const flight of flights || []) {
+    const key = getFlightLegKey(flight, airports);
+    if (!savedByKey.has(key)) savedByKey.set(key, flight);
+  }
 
-        // Fetch all discrepancies for these invoices
-        const { data: discrepancies, error: discrepanciesError } =
-          await supabase
-            .from('discrepancies')
-            .select('invoice_id, status')
-            .in('invoice_id', invoiceIds);
+  // Route and flight number are compared too: a leg saved as "OMAA" is
+  // rewritten as "AUH"
+  const compared: (keyof FlightLeg)[] = [
+    'flt_number',
+    'flt_dep',
+    'flt_arr',
+    'flt_time',
+    'flt_block',
+    'flt_comments',
+    'flt_status',
+  ];
+
+  const batchKeys = new Set<string>();
+  return legs.map(leg => {
+    const key = getFlightLegKey(leg, airports);
+    if (batchKeys.has(key)) {
+      return { leg, action: 'repeated', existing: null, changes: [] };
+    }
+    batchKeys.add(key);
+
+    const existing = savedByKey.get(key);
+    if (!existing) {
+      return { leg, action: 'insert', existing: null, changes: [] };
+    }
+
+    const changes = compared.filter(
+      field => leg[field] !== null && leg[field] !== existing[field]
+    );
+    return {
+      leg,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      existing,
+      changes,
+    };
+  });
+}
 
-        if (!discrepanciesError && discrepancies) {
-          // Count active discrepancies (Created or Raised) for each invoice
-          const discrepanciesCount: { [key: string]: number } = {};
+// Helper function to update a saved flight and log the change with its old and
+// new data (shared by the flight form and the flight upsert)
+async function updateFlightRecord(
+  oldFlight: any,
+  fields: Record<string, any>,
+  req: Request
+): Promise<{ data: any; error: string | null }> {
+  if (!supabase) return { data: null, error: 'Database not available' };
+
+  const { data, error } = await supabase
+    .from('flights')
+    .update(fields)
+    .eq('id', oldFlight.id)
+    .select()
+    .single();
+
+  if (error) return { data: null, error: error.message };
+
+  await logActivity('UPDATE', 'flights', oldFlight.id, oldFlight, data, req);
+  return { data, error: null };
+}
 
-          discrepancies.forEach(d => {
-            if (d.status === 'Created' || d.status === 'Raised') {
-              const invoiceId = d.invoice_id;
-              discrepanciesCount[invoiceId] =
-                (discrepanciesCount[invoiceId] || 0) + 1;
-            }
-          });
+// Helper function to save planned legs: the new legs in one insert, then the
+// updates one by one. These are separate requests, not one transaction, so a
+// failure stops nothing: the saved rows and the failed legs are both returned.
+// Saving the same legs again is safe, as saved legs are planned as unchanged.
+// Every saved leg gets its own CREATE or UPDATE log entry, so it can be
+// reverted from the log like a flight saved from the form.
+async function applyFlightUpserts(
+  upserts: FlightUpsert[],
+  req: Request
+): Promise<{
+  inserted: any[];
+  updated: any[];
+  failed: { upsert: FlightUpsert; error: string }[];
+}> {
+  const failed: { upsert: FlightUpsert; error: string }[] = [];
+  if (!supabase) return { inserted: [], updated: [], failed };
+
+  const inserts = upserts.filter(upsert => upsert.action === 'insert');
+  let inserted: any[] = [];
+  if (inserts.length > 0) {
+    const { data, error } = await supabase
+      .from('flights')
+      .insert(
+        inserts.map(({ leg }) => ({
+          ...leg,
+          flt_status: leg.flt_status || 'Planned',
+        }))
+      )
+      .select();
 
-          // Add discrepancies count to each invoice
-          data.forEach(invoice => {
-            invoice.discrepancies_count = discrepanciesCount[invoice.id] || 0;
-          });
-        }
+    if (error) {
+      // One insert statement: none of the new legs were saved
+      inserts.forEach(upsert =>
+        failed.push({
+          upsert,
+          error: `Failed to insert flight: ${error.message}`,
+        })
+      );
+    } else {
+      inserted = data || [];
+      for (const flight of inserted) {
+        await logActivity('CREATE', 'flights', flight.id, null, flight, req);
       }
-
-      return res.json(data || []);
     }
-
-    res.json(mockData.invoices);
-  } catch (error) {
-    console.log('Error fetching invoices:', error);
-    res.json(mockData.invoices);
   }
-});
-
-// GET endpoint to fetch expense types
-app.get('/api/expense-types', async (_req, res) => {
-  try {
-    if (supabase) {
-      const { data, error } = await supabase
-        .from('expense_types')
-        .select('*')
-        .order('name');
 
-      if (error) {
-        console.log('Supabase error fetching expense types:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch expense types' });
-      }
+  const updated: any[] = [];
+  for (const upsert of upserts.filter(u => u.action === 'update')) {
+    const { data, error } = await updateFlightRecord(
+      upsert.existing,
+      Object.fromEntries(
+        upsert.changes.map(field => [field, upsert.leg[field]])
+      ),
+      req
+    );
 
-      return res.json(data || []);
+    if (error) {
+      failed.push({
+        upsert,
+        error: `Failed to update flight ${upsert.existing.id}: ${error}`,
+      });
+    } else {
+      updated.push(data);
     }
-
-    // Fallback for when Supabase is not available
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error) {
-    console.log('Error fetching expense types:', error);
-    return res.status(500).json({ error: 'Internal server error' });
   }
-});
 
-// GET endpoint to fetch expense subtypes by type
-app.get('/api/expense-subtypes/:typeId', async (req, res) => {
+  return { inserted, updated, failed };
+}
+
+// POST endpoint to add new flight. A flight with the same number, date and
+// route is refused with the saved one (409); only imports update it.
+app.post('/api/flights', requireSuperadmin, async (req, res) => {
   try {
-    const typeId = req.params.typeId;
+    const { flt_date, flt_number, flt_dep, flt_arr, flt_time, flt_block } =
+      req.body;
+
+    // Validate required fields
+    if (
+      !flt_date ||
+      !flt_number ||
+      !flt_dep ||
+      !flt_arr ||
+      !flt_time ||
+      !flt_block
+    ) {
+      return res.status(400).json({
+        error:
+          'All fields are required: flt_date, flt_number, flt_dep, flt_arr, flt_time, flt_block',
+      });
+    }
 
     if (supabase) {
-      const { data, error } = await supabase
-        .from('expense_subtypes')
-        .select('*')
-        .eq('expense_type_id', typeId)
-        .order('name');
+      const airports = buildAirportIndex(await loadAirports());
+      const { leg, errors, warnings } = normalizeFlightLeg(req.body, airports);
+      if (!leg) {
+        return res.status(400).json({ error: errors.join('; ') });
+      }
 
-      if (error) {
-        console.log('Supabase error fetching expense subtypes:', error.message);
+      const [upsert] = await planFlightUpserts([leg], airports);
+      if (upsert.existing) {
+        return res.status(409).json({
+          error: `Flight ${leg.flt_number} ${leg.flt_dep}-${leg.flt_arr} on ${leg.flt_date} already exists`,
+          duplicate: upsert.existing,
+        });
+      }
+
+      // Logs the activity
+      const saved = await applyFlightUpserts([upsert], req);
+      if (saved.failed.length > 0) {
+        console.log('Supabase error adding flight:', saved.failed[0].error);
         return res
           .status(500)
-          .json({ error: 'Failed to fetch expense subtypes' });
+          .json({ error: 'Failed to add flight to database' });
       }
 
-      return res.json(data || []);
+      const flight = saved.inserted[0];
+
+      return res.status(201).json({
+        message: 'Flight added successfully',
+        data: flight,
+        warnings,
+      });
     }
 
     // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error fetching expense subtypes:', error);
+    console.log('Error adding flight:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET endpoint to fetch invoice types
-app.get('/api/invoice-types', async (_req, res) => {
-  try {
-    if (supabase) {
-      const { data, error } = await supabase
-        .from('invoice_types')
-        .select('*')
-        .order('name');
+// ---------- Flight Import ----------
+// Flight legs imported from an XLSX or CSV file (our own export or a schedule
+// export with mapped columns) or from an ops roster (see flight-sources.ts).
+// Every leg goes through the flight upsert.
+const FLIGHT_IMPORT_FIELDS: Record<string, string[]> = {
+  flt_date: ['date', 'flight date', 'dep date', 'day'],
+  flt_number: ['flight', 'flight number', 'flight no', 'flt no', 'callsign'],
+  flt_dep: ['from', 'dep', 'departure', 'origin', 'adep'],
+  flt_arr: ['to', 'arr', 'arrival', 'destination', 'ades'],
+  flt_time: ['flight time', 'air time', 'airborne time', 'flt time'],
+  flt_block: ['block time', 'block', 'blk', 'block hours'],
+  flt_status: ['status'],
+  flt_comments: ['comments', 'comment', 'remarks', 'notes'],
+};
 
-      if (error) {
-        console.log('Supabase error fetching invoice types:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch invoice types' });
-      }
+const MAX_FLIGHT_IMPORT_ROWS = 1000;
 
-      return res.json(data || []);
-    }
+type FlightImportFormat = 'spreadsheet' | FlightSourceFormat;
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error) {
-    console.log('Error fetching invoice types:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
+interface FlightImportRow {
+  row: number; // row, line or event number in the file
+  values: Record<string, any>; // leg fields, as in the file
+  input: Record<string, any>; // leg fields to validate
+  warnings: string[];
+}
 
-// ========== CRUD ENDPOINTS FOR DICTIONARIES ==========
+// Helper function to validate the rows of a flight import and plan the upsert
+// of the valid ones
+async function buildFlightImport(rows: FlightImportRow[]) {
+  const airports = buildAirportIndex(await loadAirports());
+  const normalized = rows.map(row => normalizeFlightLeg(row.input, airports));
+  const upserts = await planFlightUpserts(
+    normalized.flatMap(({ leg }) => (leg ? [leg] : [])),
+    airports
+  );
 
-// GET single expense type by ID
-app.get('/api/expense-types/:id', async (req, res) => {
+  let next = 0;
+  return rows.map((row, index) => ({
+    ...row,
+    warnings: [...row.warnings, ...normalized[index].warnings],
+    errors: normalized[index].errors,
+    upsert: normalized[index].leg ? upserts[next++] : null,
+  }));
+}
+
+// POST import flight legs sent as base64 JSON
+// { file_name, content, format, mapping, dry_run }.
+// format is spreadsheet (XLSX/CSV with a header row), ics, aims or auto (the
+// default: found from the file). Spreadsheet columns are mapped like the
+// expense import. With dry_run (the default) nothing is saved: the response is
+// the validated preview. Otherwise nothing is saved when any line has errors.
+// A leg that fails to save does not undo the others: the response says which
+// lines were not saved (500), and importing the file again saves only those.
+app.post('/api/flights/import', requireSuperadmin, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { file_name = '', content, mapping, format = 'auto' } = req.body;
+    const dryRun = req.body.dry_run !== false;
 
-    if (supabase) {
-      const { data, error } = await supabase
-        .from('expense_types')
-        .select('*')
-        .eq('id', id)
-        .single();
+    if (!content) {
+      return res.status(400).json({ error: 'File content is required' });
+    }
 
-      if (error) {
-        console.log('Supabase error fetching expense type:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch expense type' });
+    const formats: FlightImportFormat[] = [
+      'spreadsheet',
+      ...FLIGHT_SOURCE_PARSERS.map(parser => parser.format),
+    ];
+    if (format !== 'auto' && !formats.includes(format)) {
+      return res.status(400).json({
+        error: `Unknown format. Must be one of: auto, ${formats.join(', ')}`,
+      });
+    }
+
+    const buffer = Buffer.from(String(content), 'base64');
+    const importFormat: FlightImportFormat =
+      format !== 'auto'
+        ? format
+        : (!/\.xlsx?$/i.test(file_name) &&
+            detectFlightSourceFormat(buffer.toString('utf8'), file_name)) ||
+          'spreadsheet';
+
+    let rows: FlightImportRow[];
+    let headers: string[] = [];
+    let columnMapping: ColumnMapping = {};
+
+    if (importFormat === 'spreadsheet') {
+      let spreadsheet: Spreadsheet;
+      try {
+        spreadsheet = readSpreadsheet(buffer);
+      } catch (parseError) {
+        return res.status(400).json({
+          error: `Could not read file: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+        });
       }
 
-      return res.json(data);
-    }
+      // Mapping as sent (field -> column header), else suggested from headers
+      if (mapping && typeof mapping === 'object') {
+        for (const [field, header] of Object.entries<any>(mapping)) {
+          if (!header) continue;
+          if (!(field in FLIGHT_IMPORT_FIELDS)) {
+            return res.status(400).json({ error: `Unknown field: ${field}` });
+          }
+          if (!spreadsheet.headers.includes(String(header))) {
+            return res
+              .status(400)
+              .json({ error: `Column "${header}" is not in the file` });
+          }
+          columnMapping[field] = String(header);
+        }
+      } else {
+        columnMapping = suggestColumnMapping(
+          spreadsheet.headers,
+          FLIGHT_IMPORT_FIELDS
+        );
+      }
 
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error) {
-    console.log('Error fetching expense type:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      headers = spreadsheet.headers;
+      rows = spreadsheet.rows.map(row => {
+        const input: Record<string, any> = {};
+        const values: Record<string, any> = {};
+        for (const field of Object.keys(columnMapping)) {
+          input[field] = mappedValue(row, columnMapping, field);
+          values[field] =
+            input[field] instanceof Date
+              ? toDateString(input[field])
+              : input[field];
+        }
+        return { row: row.row, values, input, warnings: [] };
+      });
+    } else {
+      let legs: ParsedFlightLeg[];
+      try {
+        legs = parseFlightSource(buffer.toString('utf8'), importFormat);
+      } catch (parseError) {
+        return res.status(400).json({
+          error: `Could not read file: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+        });
+      }
 
-// POST create new expense type
-app.post('/api/expense-types', async (req, res) => {
-  try {
-    const { name, description } = req.body;
+      rows = legs.map(({ line, ...leg }) => {
+        const warnings: string[] = [];
+        const input: Record<string, any> = { ...leg };
+        // Rosters often only have block times
+        if (!leg.flt_time && leg.flt_block) {
+          input.flt_time = leg.flt_block;
+          warnings.push('No flight time in the file; block time used');
+        }
+        return { row: line, values: leg, input, warnings };
+      });
+    }
 
-    if (!name) {
-      return res.status(400).json({ error: 'Name is required' });
+    if (rows.length === 0) {
+      return res.status(400).json({
+        error:
+          importFormat === 'spreadsheet'
+            ? 'The file has no lines'
+            : 'No flights found in the file',
+      });
+    }
+    if (rows.length > MAX_FLIGHT_IMPORT_ROWS) {
+      return res.status(400).json({
+        error: `The file has ${rows.length} lines; import at most ${MAX_FLIGHT_IMPORT_ROWS} at a time`,
+      });
     }
 
     if (supabase) {
-      const { data, error } = await supabase
-        .from('expense_types')
-        .insert([{ name, description: description || null }])
-        .select()
-        .single();
+      const checked = await buildFlightImport(rows);
+      const count = (action: FlightUpsert['action']) =>
+        checked.filter(row => row.upsert?.action === action).length;
+      const errorCount = checked.filter(row => row.errors.length > 0).length;
+      const duplicateCount = count('unchanged') + count('repeated');
+
+      const preview = {
+        file_name,
+        format: importFormat,
+        headers,
+        fields: Object.keys(FLIGHT_IMPORT_FIELDS),
+        mapping: columnMapping,
+        rows: checked.map(({ row, values, warnings, errors, upsert }) => ({
+          row,
+          values,
+          action: upsert ? upsert.action : null,
+          changes: upsert ? upsert.changes : [],
+          warnings,
+          errors,
+        })),
+        new_count: count('insert'),
+        update_count: count('update'),
+        duplicate_count: duplicateCount,
+        error_count: errorCount,
+      };
 
-      if (error) {
-        console.log('Supabase error creating expense type:', error.message);
-        return res.status(500).json({ error: 'Failed to create expense type' });
+      if (dryRun) {
+        return res.json(preview);
       }
 
-      // Log the activity
+      if (errorCount > 0) {
+        return res.status(400).json({
+          ...preview,
+          error: `${errorCount} line(s) have errors; nothing was imported`,
+        });
+      }
+      if (preview.new_count + preview.update_count === 0) {
+        return res.status(400).json({
+          ...preview,
+          error: 'Every leg in the file is already saved; nothing to import',
+        });
+      }
+
+      const saved = await applyFlightUpserts(
+        checked.flatMap(row => (row.upsert ? [row.upsert] : [])),
+        req
+      );
+      const failedRows = saved.failed.map(({ upsert, error }) => ({
+        row: checked.find(row => row.upsert === upsert)?.row ?? null,
+        error,
+      }));
+      if (failedRows.length > 0) {
+        console.log('Supabase error importing flights:', failedRows);
+      }
+
+      if (saved.inserted.length + saved.updated.length === 0) {
+        return res.status(500).json({
+          error: 'Failed to import flights; nothing was saved',
+          imported_count: 0,
+          updated_count: 0,
+          failed_rows: failedRows,
+        });
+      }
+
+      // A summary entry for the whole import, next to the entries of the
+      // saved legs
+      const dates = [...saved.inserted, ...saved.updated]
+        .map(flight => String(flight.flt_date).slice(0, 10))
+        .sort();
       await logActivity(
         'CREATE',
-        'expense_types',
-        data.id,
+        'flight_imports',
         null,
-        data,
-        'system',
+        null,
+        {
+          file_name,
+          format: importFormat,
+          flights_count: saved.inserted.length,
+          updated_count: saved.updated.length,
+          skipped_duplicates: duplicateCount,
+          date_from: dates[0] || null,
+          date_to: dates[dates.length - 1] || null,
+          flight_ids: saved.inserted.map(flight => flight.id),
+          updated_flight_ids: saved.updated.map(flight => flight.id),
+          failed_count: failedRows.length,
+        },
         req
       );
 
-      return res.status(201).json(data);
+      if (failedRows.length > 0) {
+        return res.status(500).json({
+          error: `Imported ${saved.inserted.length} flights and updated ${saved.updated.length}, but ${failedRows.length} line(s) failed to save (lines ${failedRows.map(f => f.row).join(', ')}). Import the file again to retry them.`,
+          imported_count: saved.inserted.length,
+          updated_count: saved.updated.length,
+          failed_rows: failedRows,
+        });
+      }
+
+      return res.status(201).json({
+        message: `Imported ${saved.inserted.length} flights, updated ${saved.updated.length}${duplicateCount ? `, skipped ${duplicateCount} already saved` : ''}`,
+        imported_count: saved.inserted.length,
+        updated_count: saved.updated.length,
+        skipped_count: duplicateCount,
+      });
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error creating expense type:', error);
+    console.log('Error importing flights:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT update expense type
-app.put('/api/expense-types/:id', async (req, res) => {
+// GET export flights as XLSX or CSV (?format=xlsx|csv&from=&to=&status=).
+// The columns are the ones the import recognises, so an exported file can be
+// edited and imported again.
+app.get('/api/flights/export', async (req, res) => {
   try {
-    const { id } = req.params;
-    const { name, description } = req.body;
+    const format = req.query.format === 'csv' ? 'csv' : 'xlsx';
+    const from = req.query.from ? toDateString(String(req.query.from)) : null;
+    const to = req.query.to ? toDateString(String(req.query.to)) : null;
+    const status = req.query.status ? String(req.query.status) : null;
 
-    if (!name) {
-      return res.status(400).json({ error: 'Name is required' });
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return res
+        .status(400)
+        .json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+    }
+    if (status && !FLIGHT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${FLIGHT_STATUSES.join(', ')}`,
+      });
     }
 
     if (supabase) {
-      // First get the old data for logging
-      const { data: oldData, error: fetchError } = await supabase
-        .from('expense_types')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) {
-        console.log(
-          'Supabase error fetching expense type:',
-          fetchError.message
+      let query = supabase
+        .from('flights')
+        .select(
+          'flt_date, flt_number, flt_dep, flt_arr, flt_time, flt_block, flt_status, flt_comments'
         );
-        return res.status(404).json({ error: 'Expense type not found' });
-      }
-
-      const { data, error } = await supabase
-        .from('expense_types')
-        .update({
-          name,
-          description: description || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single();
+      if (from) query = query.gte('flt_date', from);
+      if (to) query = query.lte('flt_date', `${to}T23:59:59`);
+      if (status) query = query.eq('flt_status', status);
 
+      const { data, error } = await query;
       if (error) {
-        console.log('Supabase error updating expense type:', error.message);
-        return res.status(500).json({ error: 'Failed to update expense type' });
-      }
+        console.log('Supabase error exporting flights:', error.message);
+        return res.status(500).json({ error: 'Failed to export flights' });
+      }
+
+      const airports = buildAirportIndex(await loadAirports());
+      const hhmm = (time: any) => (time ? String(time).slice(0, 5) : '');
+      const sheetData = [
+        [
+          'Date',
+          'Flight',
+          'From',
+          'To',
+          'Flight time',
+          'Block time',
+          'Status',
+          'Comments',
+        ],
+        ...sortFlightsLogically(data || [], airports).map(flight => [
+          String(flight.flt_date).slice(0, 10),
+          flight.flt_number,
+          flight.flt_dep,
+          flight.flt_arr,
+          hhmm(flight.flt_time),
+          hhmm(flight.flt_block),
+          flight.flt_status || '',
+          flight.flt_comments || '',
+        ]),
+      ];
 
-      // Log the activity
-      await logActivity(
-        'UPDATE',
-        'expense_types',
-        id,
-        oldData,
-        data,
-        'system',
-        req
+      const ws = XLSX.utils.aoa_to_sheet(sheetData);
+      const filename = `Flights_${from || 'all'}_${to || 'all'}.${format}`;
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`
       );
 
-      return res.json(data);
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        return res.send(`\uFEFF${XLSX.utils.sheet_to_csv(ws)}`);
+      }
+
+      ws['!cols'] = [
+        { wch: 12 },
+        { wch: 10 },
+        { wch: 12 },
+        { wch: 12 },
+        { wch: 11 },
+        { wch: 11 },
+        { wch: 11 },
+        { wch: 40 },
+      ];
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, 'Flights');
+      res.setHeader(
+        'Content-Type',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating expense type:', error);
+    console.log('Error exporting flights:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// DELETE expense type
-app.delete('/api/expense-types/:id', async (req, res) => {
+// API endpoint to get single invoice data
+app.get('/api/invoices/:id', async (req, res) => {
   try {
-    const { id } = req.params;
+    const invoiceId = req.params.id;
 
     if (supabase) {
-      // First get the expense type data for logging
-      const { data: expenseType, error: fetchError } = await supabase
-        .from('expense_types')
-        .select('*')
-        .eq('id', id)
+      const { data: invoice, error } = await supabase
+        .from('invoices')
+        .select('*, suppliers ( id, name )')
+        .eq('id', invoiceId)
         .single();
 
-      if (fetchError) {
-        console.log(
-          'Supabase error fetching expense type:',
-          fetchError.message
-        );
-        return res.status(404).json({ error: 'Expense type not found' });
-      }
-
-      // First delete all associated subtypes
-      const { error: subtypesError } = await supabase
-        .from('expense_subtypes')
-        .delete()
-        .eq('expense_type_id', id);
-
-      if (subtypesError) {
-        console.log(
-          'Supabase error deleting expense subtypes:',
-          subtypesError.message
-        );
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete associated subtypes' });
-      }
-
-      // Then delete the expense type
-      const { error } = await supabase
-        .from('expense_types')
-        .delete()
-        .eq('id', id);
-
-      if (error) {
-        console.log('Supabase error deleting expense type:', error.message);
-        return res.status(500).json({ error: 'Failed to delete expense type' });
+      if (error || !invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
       }
 
-      // Log the activity
-      await logActivity(
-        'DELETE',
-        'expense_types',
-        id,
-        expenseType,
-        null,
-        'system',
-        req
-      );
-
-      return res.status(204).send();
+      return res.json(withInvoiceLifecycle(invoice));
     }
 
+    // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error deleting expense type:', error);
+    console.error('Error fetching invoice:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET single expense subtype by ID
-app.get('/api/expense-subtypes/:id', async (req, res) => {
+app.get('/api/invoices', async (_req, res) => {
   try {
-    const { id } = req.params;
-
     if (supabase) {
       const { data, error } = await supabase
-        .from('expense_subtypes')
-        .select('*')
-        .eq('id', id)
-        .single();
+        .from('invoices')
+        .select('*, suppliers ( id, name )')
+        .order('inv_date', { ascending: false });
 
       if (error) {
-        console.log('Supabase error fetching expense subtype:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to fetch expense subtype' });
+        console.log('Supabase error, using mock data:', error.message);
+        return res.json(mockData.invoices);
       }
 
-      return res.json(data);
+      // Get discrepancies count for each invoice
+      if (data && data.length > 0) {
+        const invoiceIds = data.map(inv => inv.id);
+
+        // Fetch all discrepancies for these invoices
+        const { data: discrepancies, error: discrepanciesError } =
+          await supabase
+            .from('discrepancies')
+            .select('invoice_id, status')
+            .in('invoice_id', invoiceIds);
+
+        if (!discrepanciesError && discrepancies) {
+          // Count active discrepancies (Created or Raised) for each invoice
+          const discrepanciesCount: { [key: string]: number } = {};
+
+          discrepancies.forEach(d => {
+            if (d.status === 'Created' || d.status === 'Raised') {
+              const invoiceId = d.invoice_id;
+              discrepanciesCount[invoiceId] =
+                (discrepanciesCount[invoiceId] || 0) + 1;
+            }
+          });
+
+          // Add discrepancies count to each invoice
+          data.forEach(invoice => {
+            invoice.discrepancies_count = discrepanciesCount[invoice.id] || 0;
+          });
+        }
+      }
+
+      return res.json((data || []).map(withInvoiceLifecycle));
     }
 
-    return res.status(503).json({ error: 'Database not available' });
+    res.json(mockData.invoices);
   } catch (error) {
-    console.log('Error fetching expense subtype:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    console.log('Error fetching invoices:', error);
+    res.json(mockData.invoices);
   }
 });
 
-// POST create new expense subtype
-app.post('/api/expense-subtypes', async (req, res) => {
+// GET endpoint to fetch the report category mapping of expense types
+app.get('/api/expense-categories', async (_req, res) => {
   try {
-    const { name, description, expense_type_id } = req.body;
-
-    if (!name || !expense_type_id) {
-      return res
-        .status(400)
-        .json({ error: 'Name and expense_type_id are required' });
-    }
-
     if (supabase) {
-      const { data, error } = await supabase
-        .from('expense_subtypes')
-        .insert([{ name, description: description || null, expense_type_id }])
-        .select()
-        .single();
+      const [{ data: types, error }, { data: subtypes, error: subError }] =
+        await Promise.all([
+          supabase.from('expense_types').select('*').order('name'),
+          supabase.from('expense_subtypes').select('*').order('name'),
+        ]);
 
-      if (error) {
-        console.log('Supabase error creating expense subtype:', error.message);
+      if (error || subError) {
+        console.log(
+          'Supabase error fetching expense categories:',
+          (error || subError)?.message
+        );
         return res
           .status(500)
-          .json({ error: 'Failed to create expense subtype' });
-      }
+          .json({ error: 'Failed to fetch expense categories' });
+      }
+
+      // One entry per report category, ordered the same way as the report
+      const categories = new Map<string, any>();
+      const addCategory = (name: string | null, type: any, flight: boolean) => {
+        if (!name) return;
+        const order = type.report_order ?? 100;
+        const existing = categories.get(name);
+        if (!existing) {
+          categories.set(name, {
+            name,
+            is_flight_related: flight,
+            report_order: order,
+          });
+        } else if (order < existing.report_order) {
+          existing.report_order = order;
+        }
+      };
 
-      // Log the activity
-      await logActivity(
-        'CREATE',
-        'expense_subtypes',
-        data.id,
-        null,
-        data,
-        'system',
-        req
-      );
+      const typeList = (types || []).map((type: any) => {
+        const typeFlight = type.is_flight_related ?? true;
+        addCategory(type.report_category, type, typeFlight);
 
-      return res.status(201).json(data);
+        const typeSubtypes = (subtypes || []).filter(
+          (st: any) => st.expense_type_id === type.id
+        );
+        typeSubtypes.forEach((st: any) =>
+          addCategory(
+            st.report_category,
+            type,
+            st.is_flight_related ?? typeFlight
+          )
+        );
+
+        return { ...type, subtypes: typeSubtypes };
+      });
+
+      return res.json({
+        types: typeList,
+        categories: [...categories.values()].sort(
+          (a, b) =>
+            a.report_order - b.report_order || a.name.localeCompare(b.name)
+        ),
+      });
     }
 
+    // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error creating expense subtype:', error);
+    console.log('Error fetching expense categories:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT update expense subtype
-app.put('/api/expense-subtypes/:id', async (req, res) => {
+// GET endpoint to fetch expense types
+app.get('/api/expense-types', async (_req, res) => {
   try {
-    const { id } = req.params;
-    const { name, description, expense_type_id } = req.body;
-
-    if (!name || !expense_type_id) {
-      return res
-        .status(400)
-        .json({ error: 'Name and expense_type_id are required' });
-    }
-
     if (supabase) {
-      // First get the old data for logging
-      const { data: oldData, error: fetchError } = await supabase
-        .from('expense_subtypes')
+      const { data, error } = await supabase
+        .from('expense_types')
         .select('*')
-        .eq('id', id)
-        .single();
+        .order('name');
 
-      if (fetchError) {
-        console.log(
-          'Supabase error fetching expense subtype:',
-          fetchError.message
-        );
-        return res.status(404).json({ error: 'Expense subtype not found' });
+      if (error) {
+        console.log('Supabase error fetching expense types:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch expense types' });
       }
 
+      return res.json(data || []);
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching expense types:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET endpoint to fetch expense subtypes by type
+app.get('/api/expense-subtypes/:typeId', async (req, res) => {
+  try {
+    const typeId = req.params.typeId;
+
+    if (supabase) {
       const { data, error } = await supabase
         .from('expense_subtypes')
-        .update({
-          name,
-          description: description || null,
-          expense_type_id,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single();
+        .select('*')
+        .eq('expense_type_id', typeId)
+        .order('name');
 
       if (error) {
-        console.log('Supabase error updating expense subtype:', error.message);
+        console.log('Supabase error fetching expense subtypes:', error.message);
         return res
           .status(500)
-          .json({ error: 'Failed to update expense subtype' });
+          .json({ error: 'Failed to fetch expense subtypes' });
       }
 
-      // Log the activity
-      await logActivity(
-        'UPDATE',
-        'expense_subtypes',
-        id,
-        oldData,
-        data,
-        'system',
-        req
-      );
-
-      return res.json(data);
+      return res.json(data || []);
     }
 
+    // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating expense subtype:', error);
+    console.log('Error fetching expense subtypes:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// DELETE expense subtype
-app.delete('/api/expense-subtypes/:id', async (req, res) => {
+// GET endpoint to fetch invoice types
+app.get('/api/invoice-types', async (_req, res) => {
   try {
-    const { id } = req.params;
-
     if (supabase) {
-      // First get the expense subtype data for logging
-      const { data: expenseSubtype, error: fetchError } = await supabase
-        .from('expense_subtypes')
+      const { data, error } = await supabase
+        .from('invoice_types')
         .select('*')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) {
-        console.log(
-          'Supabase error fetching expense subtype:',
-          fetchError.message
-        );
-        return res.status(404).json({ error: 'Expense subtype not found' });
-      }
-
-      const { error } = await supabase
-        .from('expense_subtypes')
-        .delete()
-        .eq('id', id);
+        .order('name');
 
       if (error) {
-        console.log('Supabase error deleting expense subtype:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete expense subtype' });
+        console.log('Supabase error fetching invoice types:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch invoice types' });
       }
 
-      // Log the activity
-      await logActivity(
-        'DELETE',
-        'expense_subtypes',
-        id,
-        expenseSubtype,
-        null,
-        'system',
-        req
-      );
-
-      return res.status(204).send();
+      return res.json(data || []);
     }
 
+    // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error deleting expense subtype:', error);
+    console.log('Error fetching invoice types:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET single invoice type by ID
-app.get('/api/invoice-types/:id', async (req, res) => {
+// ========== CRUD ENDPOINTS FOR DICTIONARIES ==========
+
+// GET single expense type by ID
+app.get('/api/expense-types/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
     if (supabase) {
       const { data, error } = await supabase
-        .from('invoice_types')
+        .from('expense_types')
         .select('*')
         .eq('id', id)
         .single();
 
       if (error) {
-        console.log('Supabase error fetching invoice type:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch invoice type' });
+        console.log('Supabase error fetching expense type:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch expense type' });
       }
 
       return res.json(data);
@@ -2760,13 +4383,13 @@ app.get('/api/invoice-types/:id', async (req, res) => {
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error fetching invoice type:', error);
+    console.log('Error fetching expense type:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST create new invoice type
-app.post('/api/invoice-types', async (req, res) => {
+// POST create new expense type
+app.post('/api/expense-types', async (req, res) => {
   try {
     const { name, description } = req.body;
 
@@ -2774,41 +4397,38 @@ app.post('/api/invoice-types', async (req, res) => {
       return res.status(400).json({ error: 'Name is required' });
     }
 
+    const mapping = parseExpenseCategoryFields(req.body, false);
+    if (mapping.error) {
+      return res.status(400).json({ error: mapping.error });
+    }
+
     if (supabase) {
       const { data, error } = await supabase
-        .from('invoice_types')
-        .insert([{ name, description: description || null }])
+        .from('expense_types')
+        .insert([{ name, description: description || null, ...mapping.fields }])
         .select()
         .single();
 
       if (error) {
-        console.log('Supabase error creating invoice type:', error.message);
-        return res.status(500).json({ error: 'Failed to create invoice type' });
+        console.log('Supabase error creating expense type:', error.message);
+        return res.status(500).json({ error: 'Failed to create expense type' });
       }
 
       // Log the activity
-      await logActivity(
-        'CREATE',
-        'invoice_types',
-        data.id,
-        null,
-        data,
-        'system',
-        req
-      );
+      await logActivity('CREATE', 'expense_types', data.id, null, data, req);
 
       return res.status(201).json(data);
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error creating invoice type:', error);
+    console.log('Error creating expense type:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT update invoice type
-app.put('/api/invoice-types/:id', async (req, res) => {
+// PUT update expense type
+app.put('/api/expense-types/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const { name, description } = req.body;
@@ -2817,27 +4437,33 @@ app.put('/api/invoice-types/:id', async (req, res) => {
       return res.status(400).json({ error: 'Name is required' });
     }
 
+    const mapping = parseExpenseCategoryFields(req.body, false);
+    if (mapping.error) {
+      return res.status(400).json({ error: mapping.error });
+    }
+
     if (supabase) {
       // First get the old data for logging
       const { data: oldData, error: fetchError } = await supabase
-        .from('invoice_types')
+        .from('expense_types')
         .select('*')
         .eq('id', id)
         .single();
 
       if (fetchError) {
         console.log(
-          'Supabase error fetching invoice type:',
+          'Supabase error fetching expense type:',
           fetchError.message
         );
-        return res.status(404).json({ error: 'Invoice type not found' });
+        return res.status(404).json({ error: 'Expense type not found' });
       }
 
       const { data, error } = await supabase
-        .from('invoice_types')
+        .from('expense_types')
         .update({
           name,
           description: description || null,
+          ...mapping.fields,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id)
@@ -2845,1762 +4471,1428 @@ app.put('/api/invoice-types/:id', async (req, res) => {
         .single();
 
       if (error) {
-        console.log('Supabase error updating invoice type:', error.message);
-        return res.status(500).json({ error: 'Failed to update invoice type' });
+        console.log('Supabase error updating expense type:', error.message);
+        return res.status(500).json({ error: 'Failed to update expense type' });
       }
 
       // Log the activity
-      await logActivity(
-        'UPDATE',
-        'invoice_types',
-        id,
-        oldData,
-        data,
-        'system',
-        req
-      );
+      await logActivity('UPDATE', 'expense_types', id, oldData, data, req);
 
       return res.json(data);
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating invoice type:', error);
+    console.log('Error updating expense type:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// DELETE invoice type
-app.delete('/api/invoice-types/:id', async (req, res) => {
+// DELETE expense type
+app.delete('/api/expense-types/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
     if (supabase) {
-      // First get the invoice type data for logging
-      const { data: invoiceType, error: fetchError } = await supabase
-        .from('invoice_types')
+      // First get the expense type data for logging
+      const { data: expenseType, error: fetchError } = await supabase
+        .from('expense_types')
         .select('*')
         .eq('id', id)
         .single();
 
       if (fetchError) {
         console.log(
-          'Supabase error fetching invoice type:',
+          'Supabase error fetching expense type:',
           fetchError.message
         );
-        return res.status(404).json({ error: 'Invoice type not found' });
+        return res.status(404).json({ error: 'Expense type not found' });
+      }
+
+      // First delete all associated subtypes
+      const { error: subtypesError } = await supabase
+        .from('expense_subtypes')
+        .delete()
+        .eq('expense_type_id', id);
+
+      if (subtypesError) {
+        console.log(
+          'Supabase error deleting expense subtypes:',
+          subtypesError.message
+        );
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete associated subtypes' });
       }
 
+      // Then delete the expense type
       const { error } = await supabase
-        .from('invoice_types')
+        .from('expense_types')
         .delete()
         .eq('id', id);
 
       if (error) {
-        console.log('Supabase error deleting invoice type:', error.message);
-        return res.status(500).json({ error: 'Failed to delete invoice type' });
+        console.log('Supabase error deleting expense type:', error.message);
+        return res.status(500).json({ error: 'Failed to delete expense type' });
       }
 
       // Log the activity
-      await logActivity(
-        'DELETE',
-        'invoice_types',
-        id,
-        invoiceType,
-        null,
-        'system',
-        req
-      );
+      await logActivity('DELETE', 'expense_types', id, expenseType, null, req);
 
       return res.status(204).send();
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error deleting invoice type:', error);
+    console.log('Error deleting expense type:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/expenses', async (_req, res) => {
+// GET single expense subtype by ID
+app.get('/api/expense-subtypes/:id', async (req, res) => {
   try {
-    if (supabase) {
-      // Supabase can cap response size per request, so we fetch expenses in pages.
-      const pageSize = 1000;
-      let from = 0;
-      const allExpenses: any[] = [];
-      let moreExpenses = true;
-
-      while (moreExpenses) {
-        const { data: pageData, error } = await supabase
-          .from('expenses')
-          .select(
-            `
-                 *,
-                 invoices!exp_invoice (
-                   id,
-                   inv_number
-                 ),
-                 flights!exp_flight (
-                   flt_number,
-                   flt_date,
-                   flt_dep,
-                   flt_arr
-                 )
-               `
-          )
-          .order('created_at', { ascending: false })
-          .range(from, from + pageSize - 1);
-
-        if (error) {
-          console.log('Supabase error, using mock data:', error.message);
-          return res.json(mockData.expenses);
-        }
-
-        if (!pageData || pageData.length === 0) {
-          moreExpenses = false;
-        } else {
-          allExpenses.push(...pageData);
-          if (pageData.length < pageSize) {
-            moreExpenses = false;
-          } else {
-            from += pageSize;
-          }
-        }
-      }
-
-      const data = allExpenses;
-
-      // Enrich expenses with invoice type names
-      if (data && data.length > 0) {
-        const invoiceTypeIds = [
-          ...new Set(data.map((e: any) => e.exp_invoice_type).filter(Boolean)),
-        ];
-
-        const invoiceTypeNamesMap: { [key: string]: any } = {};
-        if (invoiceTypeIds.length > 0) {
-          const { data: invoiceTypes } = await supabase
-            .from('invoice_types')
-            .select('id, name')
-            .in('id', invoiceTypeIds);
-          if (invoiceTypes) {
-            invoiceTypes.forEach((it: any) => {
-              invoiceTypeNamesMap[it.id] = it;
-            });
-          }
-        }
+    const { id } = req.params;
 
-        // Enrich expenses with invoice type objects
-        const enrichedData = data.map((expense: any) => ({
-          ...expense,
-          invoice_types: expense.exp_invoice_type
-            ? invoiceTypeNamesMap[expense.exp_invoice_type]
-            : null,
-        }));
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('expense_subtypes')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-        return res.json(enrichedData);
+      if (error) {
+        console.log('Supabase error fetching expense subtype:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch expense subtype' });
       }
 
-      return res.json(data || []);
+      return res.json(data);
     }
 
-    res.json(mockData.expenses);
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error fetching expenses:', error);
-    res.json(mockData.expenses);
+    console.log('Error fetching expense subtype:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Export expenses report to Excel
-app.get('/api/expenses/export-excel', authenticateSession, async (req, res) => {
+// POST create new expense subtype
+app.post('/api/expense-subtypes', async (req, res) => {
   try {
-    const yearFilter = (req.query.year as string) || 'current';
-    const showSubcategories = req.query.showSubcategories === 'true';
-    const reportForATS = req.query.reportForATS === 'true';
+    const { name, description, expense_type_id } = req.body;
 
-    // Debug: log parameters
-    console.log('[Excel Export] Parameters:', {
-      yearFilter,
-      showSubcategories,
-      reportForATS,
-      showSubcategoriesRaw: req.query.showSubcategories,
-      reportForATSRaw: req.query.reportForATS,
-    });
+    if (!name || !expense_type_id) {
+      return res
+        .status(400)
+        .json({ error: 'Name and expense_type_id are required' });
+    }
 
-    if (!supabase) {
-      return res.status(500).json({ error: 'Database not available' });
+    const mapping = parseExpenseCategoryFields(req.body, true);
+    if (mapping.error) {
+      return res.status(400).json({ error: mapping.error });
     }
 
-    // Get expenses data (same as /api/expenses)
-    const { data: expenses, error } = await supabase
-      .from('expenses')
-      .select(
-        `
-        *,
-        invoices!exp_invoice (
-          id,
-          inv_number
-        ),
-        flights!exp_flight (
-          flt_number,
-          flt_date,
-          flt_dep,
-          flt_arr
-        )
-      `
-      )
-      .order('id', { ascending: false });
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('expense_subtypes')
+        .insert([
+          {
+            name,
+            description: description || null,
+            expense_type_id,
+            ...mapping.fields,
+          },
+        ])
+        .select()
+        .single();
 
-    if (error) {
-      console.error('Error fetching expenses for export:', error);
-      return res.status(500).json({ error: 'Failed to fetch expenses' });
-    }
+      if (error) {
+        console.log('Supabase error creating expense subtype:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to create expense subtype' });
+      }
 
-    if (!expenses || expenses.length === 0) {
-      return res.status(404).json({ error: 'No expenses found' });
+      // Log the activity
+      await logActivity('CREATE', 'expense_subtypes', data.id, null, data, req);
+
+      return res.status(201).json(data);
     }
 
-    // Enrich expenses with invoice type names (same as /api/expenses)
-    let enrichedExpenses = expenses;
-    if (expenses && expenses.length > 0 && supabase) {
-      const invoiceTypeIds = [
-        ...new Set(
-          expenses.map((e: any) => e.exp_invoice_type).filter(Boolean)
-        ),
-      ];
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error creating expense subtype:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      const invoiceTypeNamesMap: { [key: string]: any } = {};
-      if (invoiceTypeIds.length > 0) {
-        const { data: invoiceTypes } = await supabase
-          .from('invoice_types')
-          .select('id, name')
-          .in('id', invoiceTypeIds);
-        if (invoiceTypes) {
-          invoiceTypes.forEach((it: any) => {
-            invoiceTypeNamesMap[it.id] = it;
-          });
-        }
-      }
+// PUT update expense subtype
+app.put('/api/expense-subtypes/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description, expense_type_id } = req.body;
 
-      // Enrich expenses with invoice type objects
-      enrichedExpenses = expenses.map((expense: any) => ({
-        ...expense,
-        invoice_types: expense.exp_invoice_type
-          ? invoiceTypeNamesMap[expense.exp_invoice_type]
-          : null,
-      }));
+    if (!name || !expense_type_id) {
+      return res
+        .status(400)
+        .json({ error: 'Name and expense_type_id are required' });
     }
 
-    // Currency conversion rates (date-dependent: until Oct 2025 inclusive 3.6735, from Nov 2025 3.6725)
-    const AED_TO_USD_UNTIL_OCT2025 = 3.6735;
-    const AED_TO_USD_FROM_NOV2025 = 3.6725;
-    const CURRENCY_RATES_NOV2025_CUTOFF = new Date('2025-11-01');
+    const mapping = parseExpenseCategoryFields(req.body, true);
+    if (mapping.error) {
+      return res.status(400).json({ error: mapping.error });
+    }
 
-    const getAEDToUSDRate = (asOfDate: Date): number =>
-      asOfDate < CURRENCY_RATES_NOV2025_CUTOFF
-        ? AED_TO_USD_UNTIL_OCT2025
-        : AED_TO_USD_FROM_NOV2025;
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('expense_subtypes')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-    const CURRENCY_RATES = {
-      EUR_TO_USD: 1.16,
-    };
+      if (fetchError) {
+        console.log(
+          'Supabase error fetching expense subtype:',
+          fetchError.message
+        );
+        return res.status(404).json({ error: 'Expense subtype not found' });
+      }
 
-    const parseMonthKeyToDate = (monthKey: string): Date => {
-      const [y, m] = monthKey.split('-').map(Number);
-      return new Date(y, (m || 1) - 1, 1);
-    };
+      const { data, error } = await supabase
+        .from('expense_subtypes')
+        .update({
+          name,
+          description: description || null,
+          expense_type_id,
+          ...mapping.fields,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
 
-    // Expense categories (same as client)
-    const NON_FLIGHT_CATEGORIES = [
-      'CAMO and Management',
-      'Crew',
-      'Disbursement fee',
-      'Insurance charge',
-      'Maintenance',
-      'Subscriptions',
-      'Other charges', // non-flights subtype
-      'FalconCare',
-      'Honeywell',
-    ];
+      if (error) {
+        console.log('Supabase error updating expense subtype:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to update expense subtype' });
+      }
 
-    // Get base expense category (same logic as client)
-    const getBaseExpenseCategory = (expense: any): string | null => {
-      const type = ((expense.exp_type || '') as string).toLowerCase();
+      // Log the activity
+      await logActivity('UPDATE', 'expense_subtypes', id, oldData, data, req);
 
-      // Check for non-flight categories
-      if (
-        type === 'camo and management' ||
-        (type.includes('camo') && type.includes('management'))
-      ) {
-        return 'CAMO and Management';
-      }
-      if (type === 'crew') {
-        return 'Crew';
-      }
-      if (type === 'disbursement fee' || type.includes('disbursement')) {
-        return 'Disbursement fee';
-      }
-      if (type === 'insurance charge' || type.includes('insurance')) {
-        return 'Insurance charge';
-      }
-      if (type === 'maintenance') {
-        return 'Maintenance';
-      }
-      if (type === 'subscriptions' || type.includes('subscription')) {
-        return 'Subscriptions';
-      }
-      if (
-        type === 'falconcare' ||
-        type.includes('falconcare') ||
-        type.includes('falcon care')
-      ) {
-        return 'FalconCare';
-      }
-      if (type === 'honeywell') {
-        return 'Honeywell';
-      }
+      return res.json(data);
+    }
 
-      // Check for flight categories
-      if (
-        type === 'ground handling' ||
-        type.includes('ground handling') ||
-        type.includes('groundhandling')
-      ) {
-        return 'Ground handling';
-      }
-      if (type === 'fuel') {
-        return 'Fuel';
-      }
-      if (
-        type === 'navigation charges' ||
-        type.includes('navigation') ||
-        type.includes('enroute')
-      ) {
-        return 'Navigation charges';
-      }
-      if (
-        type === 'overfly charges' ||
-        type.includes('overfly') ||
-        type.includes('overflight')
-      ) {
-        return 'Overfly charges';
-      }
-      if (
-        type === 'catering' ||
-        type.includes('catering') ||
-        type.includes('food')
-      ) {
-        return 'Catering';
-      }
-      if (
-        type === 'flight planning' ||
-        type.includes('flight planning') ||
-        type.includes('flightplanning')
-      ) {
-        return 'Flight planning';
-      }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error updating expense subtype:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      // Check for Other charges
-      if (type === 'other charges' || type.includes('other charges')) {
-        return 'Other charges';
-      }
+// DELETE expense subtype
+app.delete('/api/expense-subtypes/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
 
-      // Return null if not in any category
-      return null;
-    };
+    if (supabase) {
+      // First get the expense subtype data for logging
+      const { data: expenseSubtype, error: fetchError } = await supabase
+        .from('expense_subtypes')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-    // Get expense category with subtype (same logic as client)
-    const getExpenseCategory = (expense: any): string | null => {
-      const subtype = ((expense.exp_subtype || '') as string).trim();
-      const baseCategory = getBaseExpenseCategory(expense);
+      if (fetchError) {
+        console.log(
+          'Supabase error fetching expense subtype:',
+          fetchError.message
+        );
+        return res.status(404).json({ error: 'Expense subtype not found' });
+      }
 
-      if (baseCategory === null) {
-        return null;
+      const { error } = await supabase
+        .from('expense_subtypes')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.log('Supabase error deleting expense subtype:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete expense subtype' });
       }
 
-      return subtype ? `${baseCategory} - ${subtype}` : baseCategory;
-    };
+      // Log the activity
+      await logActivity(
+        'DELETE',
+        'expense_subtypes',
+        id,
+        expenseSubtype,
+        null,
+        req
+      );
 
-    // Check if expense is non-flight related (same logic as client)
-    const isNonFlightExpense = (expense: any): boolean | null => {
-      const baseCategory = getBaseExpenseCategory(expense);
+      return res.status(204).send();
+    }
 
-      // If category is null, expense doesn't belong to any group - skip it
-      if (baseCategory === null) {
-        return null;
-      }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting expense subtype:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      // Check if base category is in non-flight list
-      return NON_FLIGHT_CATEGORIES.includes(baseCategory);
-    };
+// GET single invoice type by ID
+app.get('/api/invoice-types/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
 
-    // Check if expense period starts before October 2025
-    const isPeriodBeforeOctober2025 = (expense: any): boolean => {
-      if (!expense.exp_period_start) {
-        return false; // If no period, don't filter it out
-      }
-      const periodStart = new Date(expense.exp_period_start);
-      const october2025 = new Date('2025-10-01');
-      return periodStart < october2025;
-    };
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('invoice_types')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-    // Check if expense is a Disbursement fee
-    const isDisbursementFee = (expense: any): boolean => {
-      const baseCategory = getBaseExpenseCategory(expense);
-      return baseCategory === 'Disbursement fee';
-    };
+      if (error) {
+        console.log('Supabase error fetching invoice type:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch invoice type' });
+      }
 
-    // Find related Disbursement fee expenses for a given expense
-    const findRelatedDisbursementFees = (
-      expense: any,
-      allExpenses: any[]
-    ): any[] => {
-      const disbursementFees: any[] = [];
+      return res.json(data);
+    }
 
-      for (const exp of allExpenses) {
-        if (!isDisbursementFee(exp)) {
-          continue;
-        }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching invoice type:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-        // Match by invoice
-        if (expense.exp_invoice && exp.exp_invoice !== expense.exp_invoice) {
-          continue;
-        }
-        if (!expense.exp_invoice && exp.exp_invoice) {
-          continue;
-        }
+// POST create new invoice type
+app.post('/api/invoice-types', async (req, res) => {
+  try {
+    const { name, description } = req.body;
 
-        // Match by flight if exists
-        if (expense.exp_flight) {
-          if (exp.exp_flight !== expense.exp_flight) {
-            continue;
-          }
-        } else {
-          if (exp.exp_flight !== null) {
-            continue;
-          }
-        }
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
 
-        // Match by period if exists
-        if (expense.exp_period_start && expense.exp_period_end) {
-          if (
-            exp.exp_period_start !== expense.exp_period_start ||
-            exp.exp_period_end !== expense.exp_period_end
-          ) {
-            continue;
-          }
-        } else {
-          if (exp.exp_period_start !== null || exp.exp_period_end !== null) {
-            continue;
-          }
-        }
+    const income = parseIncomeTypeField(req.body.income_type);
+    if (income.error) {
+      return res.status(400).json({ error: income.error });
+    }
 
-        // Match by place if exists
-        if (expense.exp_place) {
-          if (exp.exp_place !== expense.exp_place) {
-            continue;
-          }
-        } else {
-          if (exp.exp_place !== null) {
-            continue;
-          }
-        }
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('invoice_types')
+        .insert([
+          {
+            name,
+            description: description || null,
+            income_type: income.incomeType,
+          },
+        ])
+        .select()
+        .single();
 
-        // This disbursement fee matches the expense
-        disbursementFees.push(exp);
+      if (error) {
+        console.log('Supabase error creating invoice type:', error.message);
+        return res.status(500).json({ error: 'Failed to create invoice type' });
       }
 
-      return disbursementFees;
-    };
+      // Log the activity
+      await logActivity('CREATE', 'invoice_types', data.id, null, data, req);
 
-    // Apply ATS filter if enabled
-    let filteredExpenses = enrichedExpenses;
-    if (reportForATS) {
-      const excludedExpenseIds = new Set<number>();
+      return res.status(201).json(data);
+    }
 
-      // First pass: identify expenses to exclude
-      for (const expense of enrichedExpenses) {
-        if (isPeriodBeforeOctober2025(expense)) {
-          excludedExpenseIds.add(expense.id);
-        }
-      }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error creating invoice type:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      // Second pass: identify related Disbursement fees to exclude
-      for (const expense of enrichedExpenses) {
-        if (excludedExpenseIds.has(expense.id)) {
-          const relatedFees = findRelatedDisbursementFees(
-            expense,
-            enrichedExpenses
-          );
-          for (const fee of relatedFees) {
-            excludedExpenseIds.add(fee.id);
-          }
-        }
-      }
+// PUT update invoice type
+app.put('/api/invoice-types/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description } = req.body;
 
-      // Filter out excluded expenses
-      filteredExpenses = enrichedExpenses.filter(
-        (exp: any) => !excludedExpenseIds.has(exp.id)
-      );
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
     }
 
-    const convertCurrency = (
-      amount: number,
-      fromCurrency: string,
-      toCurrency: string,
-      asOfDate?: Date
-    ): number => {
-      if (!amount || !fromCurrency || !toCurrency) return 0;
-      if (fromCurrency === toCurrency) return amount;
+    const income = parseIncomeTypeField(req.body.income_type);
+    if (income.error) {
+      return res.status(400).json({ error: income.error });
+    }
 
-      const aedToUsd = getAEDToUSDRate(asOfDate || new Date());
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('invoice_types')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-      if (fromCurrency === 'EUR') {
-        const amountInUSD = amount * CURRENCY_RATES.EUR_TO_USD;
-        if (toCurrency === 'USD') {
-          return amountInUSD;
-        } else if (toCurrency === 'AED') {
-          return amountInUSD * aedToUsd;
-        }
+      if (fetchError) {
+        console.log(
+          'Supabase error fetching invoice type:',
+          fetchError.message
+        );
+        return res.status(404).json({ error: 'Invoice type not found' });
       }
 
-      if (toCurrency === 'EUR') {
-        let amountInUSD = 0;
-        if (fromCurrency === 'USD') {
-          amountInUSD = amount;
-        } else if (fromCurrency === 'AED') {
-          amountInUSD = amount / aedToUsd;
-        }
-        return amountInUSD / CURRENCY_RATES.EUR_TO_USD;
-      }
+      const { data, error } = await supabase
+        .from('invoice_types')
+        .update({
+          name,
+          description: description || null,
+          // Left unchanged when the field is not sent
+          ...(req.body.income_type !== undefined
+            ? { income_type: income.incomeType }
+            : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
 
-      let amountInUSD = amount;
-      if (fromCurrency === 'AED') {
-        amountInUSD = amount / aedToUsd;
+      if (error) {
+        console.log('Supabase error updating invoice type:', error.message);
+        return res.status(500).json({ error: 'Failed to update invoice type' });
       }
 
-      if (toCurrency === 'USD') {
-        return amountInUSD;
-      } else if (toCurrency === 'AED') {
-        return amountInUSD * aedToUsd;
-      }
+      // Log the activity
+      await logActivity('UPDATE', 'invoice_types', id, oldData, data, req);
 
-      return amount;
-    };
+      return res.json(data);
+    }
 
-    // Process expenses data (same logic as client)
-    const expensesByMonth: {
-      [key: string]: { [category: string]: { USD: number; AED: number } };
-    } = {};
-    const categoryGroups = {
-      nonFlight: {} as {
-        [category: string]: {
-          [monthKey: string]: { USD: number; AED: number };
-        };
-      },
-      flight: {} as {
-        [category: string]: {
-          [monthKey: string]: { USD: number; AED: number };
-        };
-      },
-    };
-    const allMonthsSet = new Set<string>();
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error updating invoice type:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Income items (Credit note and Charter profit) - same logic as client
-    const incomeItems = {
-      creditNote: {} as { [monthKey: string]: { USD: number; AED: number } },
-      charterProfit: {} as { [monthKey: string]: { USD: number; AED: number } },
-    };
+// DELETE invoice type
+app.delete('/api/invoice-types/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
 
-    // Helper function to split expense by months (same logic as client)
-    const splitExpenseByMonths = (
-      expense: any
-    ): Array<{ monthKey: string; amount: number; currency: string }> => {
-      const amount = parseFloat(expense.exp_amount) || 0;
-      const currency = expense.exp_currency || 'USD';
-      const periodStart = expense.exp_period_start;
-      const periodEnd = expense.exp_period_end;
-      const flightId = expense.exp_flight;
-
-      // Check if this is an income item (charter profit or credit note)
-      const expCategory = expense.exp_category || 'expense';
-      const invoiceTypeName =
-        expense.invoice_types?.name || expense.exp_invoice_type || '';
-      const invoiceTypeNameLower = (
-        typeof invoiceTypeName === 'string' ? invoiceTypeName : ''
-      )
-        .toLowerCase()
-        .trim();
-      const expTypeLower = ((expense.exp_type || '') as string).toLowerCase();
-      const isCharterProfit =
-        expCategory === 'income_charter_profit' ||
-        (invoiceTypeNameLower.includes('charter') &&
-          invoiceTypeNameLower.includes('profit')) ||
-        (expTypeLower.includes('charter') && expTypeLower.includes('profit'));
-      const isCreditNote =
-        expCategory === 'income_credit_note' ||
-        (invoiceTypeNameLower.includes('credit') &&
-          invoiceTypeNameLower.includes('note'));
-      const isIncomeItem = isCharterProfit || isCreditNote;
-
-      // For charter profit: if attached to a flight, use flight date; otherwise use invoice date
-      // Period is ALWAYS ignored for charter profit
-      if (isCharterProfit) {
-        // If charter profit is attached to a flight, use flight date
-        if (flightId && expense.flights && expense.flights.flt_date) {
-          const flightDate = new Date(expense.flights.flt_date);
-          const monthKey = `${flightDate.getFullYear()}-${String(flightDate.getMonth() + 1).padStart(2, '0')}`;
-          return [{ monthKey, amount, currency }];
-        }
-        // If not attached to flight, use invoice date
-        if (expense.invoices && expense.invoices.inv_date) {
-          const invoiceDate = new Date(expense.invoices.inv_date);
-          const monthKey = `${invoiceDate.getFullYear()}-${String(invoiceDate.getMonth() + 1).padStart(2, '0')}`;
-          return [{ monthKey, amount, currency }];
-        }
-        // Fallback: if no flight and no invoice date, use creation date (should not happen in practice)
-        const date = expense.created_at
-          ? new Date(expense.created_at)
-          : new Date();
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        return [{ monthKey, amount, currency }];
-      }
-
-      // If expense has a flight, use flight date (for non-charter-profit expenses)
-      if (flightId && expense.flights && expense.flights.flt_date) {
-        const flightDate = new Date(expense.flights.flt_date);
-        const monthKey = `${flightDate.getFullYear()}-${String(flightDate.getMonth() + 1).padStart(2, '0')}`;
-        return [{ monthKey, amount, currency }];
-      }
-
-      if (periodStart && periodEnd) {
-        const start = new Date(periodStart);
-        const end = new Date(periodEnd);
-        const startYear = start.getFullYear();
-        const startMonth = start.getMonth();
-        const endYear = end.getFullYear();
-        const endMonth = end.getMonth();
-        const endDay = end.getDate();
-
-        const isSingleMonth =
-          endDay === 1 &&
-          ((endMonth === (startMonth + 1) % 12 && endYear === startYear) ||
-            (endMonth === 0 && endYear === startYear + 1));
-
-        const totalMonths = isSingleMonth
-          ? 1
-          : (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
-
-        const monthlyAmount = totalMonths > 0 ? amount / totalMonths : amount;
-        const months: Array<{
-          monthKey: string;
-          amount: number;
-          currency: string;
-        }> = [];
-
-        let currentYear = startYear;
-        let currentMonth = startMonth;
-
-        for (let i = 0; i < totalMonths; i++) {
-          const monthKey = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
-          months.push({ monthKey, amount: monthlyAmount, currency });
-
-          currentMonth++;
-          if (currentMonth > 11) {
-            currentMonth = 0;
-            currentYear++;
-          }
-        }
+    if (supabase) {
+      // First get the invoice type data for logging
+      const { data: invoiceType, error: fetchError } = await supabase
+        .from('invoice_types')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-        return months;
+      if (fetchError) {
+        console.log(
+          'Supabase error fetching invoice type:',
+          fetchError.message
+        );
+        return res.status(404).json({ error: 'Invoice type not found' });
       }
 
-      // If no period and no flight, use invoice date for income items, otherwise use creation date
-      let date: Date;
+      const { error } = await supabase
+        .from('invoice_types')
+        .delete()
+        .eq('id', id);
 
-      if (isIncomeItem && expense.invoices && expense.invoices.inv_date) {
-        // For income items, use invoice date if available
-        date = new Date(expense.invoices.inv_date);
-      } else {
-        // For regular expenses, use creation date
-        date = expense.created_at ? new Date(expense.created_at) : new Date();
+      if (error) {
+        console.log('Supabase error deleting invoice type:', error.message);
+        return res.status(500).json({ error: 'Failed to delete invoice type' });
       }
 
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      return [{ monthKey, amount, currency }];
-    };
+      // Log the activity
+      await logActivity('DELETE', 'invoice_types', id, invoiceType, null, req);
 
-    filteredExpenses.forEach((expense: any) => {
-      // Check if this is an income item (Credit note or Charter profit)
-      const expCategory = expense.exp_category || 'expense';
-      const invoiceTypeName =
-        expense.invoice_types?.name || expense.exp_invoice_type || '';
-      const invoiceTypeNameLower = (
-        typeof invoiceTypeName === 'string' ? invoiceTypeName : ''
-      )
-        .toLowerCase()
-        .trim();
-      const expTypeLower = ((expense.exp_type || '') as string).toLowerCase();
-
-      const isCreditNote =
-        expCategory === 'income_credit_note' ||
-        (invoiceTypeNameLower.includes('credit') &&
-          invoiceTypeNameLower.includes('note'));
-
-      const isCharterProfit =
-        expCategory === 'income_charter_profit' ||
-        (invoiceTypeNameLower.includes('charter') &&
-          invoiceTypeNameLower.includes('profit')) ||
-        (expTypeLower.includes('charter') && expTypeLower.includes('profit'));
-
-      if (isCreditNote || isCharterProfit) {
-        // Process as income item
-        const incomeType = isCreditNote ? 'creditNote' : 'charterProfit';
-        const months = splitExpenseByMonths(expense);
-
-        for (const { monthKey, amount, currency } of months) {
-          allMonthsSet.add(monthKey);
-
-          if (!incomeItems[incomeType][monthKey]) {
-            incomeItems[incomeType][monthKey] = { USD: 0, AED: 0 };
-          }
+      return res.status(204).send();
+    }
 
-          // Add amount in original currency and convert to fill both columns
-          const asOfDate = parseMonthKeyToDate(monthKey);
-          if (currency === 'USD') {
-            incomeItems[incomeType][monthKey].USD += amount;
-            incomeItems[incomeType][monthKey].AED += convertCurrency(
-              amount,
-              'USD',
-              'AED',
-              asOfDate
-            );
-          } else if (currency === 'AED') {
-            incomeItems[incomeType][monthKey].AED += amount;
-            incomeItems[incomeType][monthKey].USD += convertCurrency(
-              amount,
-              'AED',
-              'USD',
-              asOfDate
-            );
-          } else if (currency === 'EUR') {
-            incomeItems[incomeType][monthKey].USD += convertCurrency(
-              amount,
-              'EUR',
-              'USD',
-              asOfDate
-            );
-            incomeItems[incomeType][monthKey].AED += convertCurrency(
-              amount,
-              'EUR',
-              'AED',
-              asOfDate
-            );
-          } else {
-            incomeItems[incomeType][monthKey].USD += convertCurrency(
-              amount,
-              currency,
-              'USD',
-              asOfDate
-            );
-            incomeItems[incomeType][monthKey].AED += convertCurrency(
-              amount,
-              currency,
-              'AED',
-              asOfDate
-            );
-          }
-        }
-        return; // Skip regular expense processing for income items
-      }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting invoice type:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      // Process regular expenses (NOT income items)
-      const baseCategory = getBaseExpenseCategory(expense);
+// ========== EXCHANGE RATES API ROUTES ==========
+
+// Helper function to validate and normalise an exchange rate payload
+function parseFxRateInput(body: any): {
+  data?: FxRate & { notes: string | null };
+  error?: string;
+} {
+  const fromCurrency = String(body.from_currency || '')
+    .trim()
+    .toUpperCase();
+  const toCurrency = String(body.to_currency || '')
+    .trim()
+    .toUpperCase();
+  const rate = parseFloat(body.rate);
+  const effectiveFrom = String(body.effective_from || '').trim();
+
+  if (!fromCurrency || !toCurrency || !body.rate || !effectiveFrom) {
+    return {
+      error:
+        'All fields are required: from_currency, to_currency, rate, effective_from',
+    };
+  }
 
-      // Skip expenses that don't belong to any category (same as client)
-      if (baseCategory === null) {
-        return;
-      }
+  if (!/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency)) {
+    return { error: 'Currencies must be 3-letter ISO codes' };
+  }
 
-      // Determine which category to use based on showSubcategories flag
-      const displayCategory = showSubcategories
-        ? getExpenseCategory(expense)
-        : baseCategory;
+  if (fromCurrency === toCurrency) {
+    return { error: 'from_currency and to_currency must differ' };
+  }
 
-      // If getExpenseCategory returned null, use baseCategory
-      const finalCategory = displayCategory || baseCategory;
+  if (isNaN(rate) || rate <= 0) {
+    return { error: 'Rate must be a positive number' };
+  }
 
-      // Debug: log category determination when both flags are enabled (sample)
-      if (showSubcategories && reportForATS && Math.random() < 0.01) {
-        console.log('[Excel Export] Category Determination Sample:', {
-          id: expense.id,
-          baseCategory: baseCategory,
-          displayCategory: displayCategory,
-          finalCategory: finalCategory,
-          exp_type: expense.exp_type,
-          exp_subtype: expense.exp_subtype,
-        });
-      }
+  // Rates apply per month, so effective_from is stored as the 1st of the month
+  const monthMatch = /^(\d{4})-(\d{2})/.exec(effectiveFrom);
+  if (!monthMatch || isNaN(Date.parse(`${monthMatch[0]}-01`))) {
+    return { error: 'effective_from must be a YYYY-MM or YYYY-MM-DD date' };
+  }
 
-      const isNonFlight = isNonFlightExpense(expense);
-      const group = isNonFlight
-        ? categoryGroups.nonFlight
-        : categoryGroups.flight;
-
-      if (!group[finalCategory]) {
-        group[finalCategory] = {};
-      }
-
-      const amount = parseFloat(expense.exp_amount) || 0;
-      const currency = expense.exp_currency || 'USD';
-      const periodStart = expense.exp_period_start;
-      const periodEnd = expense.exp_period_end;
-      const flightId = expense.exp_flight;
-
-      let monthKeys: string[] = [];
-
-      if (flightId && expense.flights && expense.flights.flt_date) {
-        const flightDate = new Date(expense.flights.flt_date);
-        const monthKey = `${flightDate.getFullYear()}-${String(flightDate.getMonth() + 1).padStart(2, '0')}`;
-        monthKeys = [monthKey];
-      } else if (periodStart && periodEnd) {
-        const start = new Date(periodStart);
-        const end = new Date(periodEnd);
-        const startYear = start.getFullYear();
-        const startMonth = start.getMonth();
-        const endYear = end.getFullYear();
-        const endMonth = end.getMonth();
-        const endDay = end.getDate();
-
-        const isSingleMonth =
-          endDay === 1 &&
-          ((endMonth === (startMonth + 1) % 12 && endYear === startYear) ||
-            (endMonth === 0 && endYear === startYear + 1));
-
-        const totalMonths = isSingleMonth
-          ? 1
-          : (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
-
-        let currentYear = startYear;
-        let currentMonth = startMonth;
-
-        for (let i = 0; i < totalMonths; i++) {
-          const monthKey = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
-          monthKeys.push(monthKey);
-          allMonthsSet.add(monthKey);
-
-          currentMonth++;
-          if (currentMonth > 11) {
-            currentMonth = 0;
-            currentYear++;
-          }
-        }
-      } else {
-        const date = expense.created_at
-          ? new Date(expense.created_at)
-          : new Date();
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        monthKeys = [monthKey];
+  return {
+    data: {
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      rate,
+      effective_from: `${monthMatch[0]}-01`,
+      notes: body.notes && String(body.notes).trim() ? body.notes : null,
+    },
+  };
+}
+
+// GET endpoint to fetch all exchange rates
+app.get('/api/fx-rates', async (_req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('*')
+        .order('effective_from', { ascending: false })
+        .order('from_currency');
+
+      if (error) {
+        console.log('Supabase error fetching fx rates:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch fx rates' });
       }
 
-      for (const monthKey of monthKeys) {
-        allMonthsSet.add(monthKey);
-        if (!expensesByMonth[monthKey]) {
-          expensesByMonth[monthKey] = {};
-        }
+      return res.json(data || []);
+    }
 
-        if (!group[finalCategory][monthKey]) {
-          group[finalCategory][monthKey] = { USD: 0, AED: 0 };
-        }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching fx rates:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-        // Calculate monthly amount (same as client)
-        const totalMonths = monthKeys.length || 1;
-        const monthlyAmount = totalMonths > 0 ? amount / totalMonths : amount;
-        const asOfDate = parseMonthKeyToDate(monthKey);
-
-        if (currency === 'USD') {
-          group[finalCategory][monthKey].USD += monthlyAmount;
-          group[finalCategory][monthKey].AED += convertCurrency(
-            monthlyAmount,
-            'USD',
-            'AED',
-            asOfDate
-          );
-        } else if (currency === 'AED') {
-          group[finalCategory][monthKey].AED += monthlyAmount;
-          group[finalCategory][monthKey].USD += convertCurrency(
-            monthlyAmount,
-            'AED',
-            'USD',
-            asOfDate
-          );
-        } else if (currency === 'EUR') {
-          group[finalCategory][monthKey].USD += convertCurrency(
-            monthlyAmount,
-            'EUR',
-            'USD',
-            asOfDate
-          );
-          group[finalCategory][monthKey].AED += convertCurrency(
-            monthlyAmount,
-            'EUR',
-            'AED',
-            asOfDate
-          );
-        } else {
-          // Unknown currency, try to convert to USD and AED
-          group[finalCategory][monthKey].USD += convertCurrency(
-            monthlyAmount,
-            currency,
-            'USD',
-            asOfDate
-          );
-          group[finalCategory][monthKey].AED += convertCurrency(
-            monthlyAmount,
-            currency,
-            'AED',
-            asOfDate
-          );
+// POST create new exchange rate
+app.post('/api/fx-rates', requireSuperadmin, async (req, res) => {
+  try {
+    const { data: rateData, error: validationError } = parseFxRateInput(
+      req.body
+    );
+
+    if (validationError || !rateData) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .insert([rateData])
+        .select()
+        .single();
+
+      if (error) {
+        console.log('Supabase error creating fx rate:', error.message);
+        if (error.code === '23505') {
+          return res.status(409).json({
+            error: `A ${rateData.from_currency}/${rateData.to_currency} rate already exists for ${rateData.effective_from.slice(0, 7)}`,
+          });
         }
+        return res.status(500).json({ error: 'Failed to create fx rate' });
       }
-    });
 
-    // Add months from income items to allMonthsSet
-    Object.keys(incomeItems.creditNote).forEach(monthKey =>
-      allMonthsSet.add(monthKey)
-    );
-    Object.keys(incomeItems.charterProfit).forEach(monthKey =>
-      allMonthsSet.add(monthKey)
-    );
-
-    // Filter months by year
-    const allMonths = Array.from(allMonthsSet).sort();
-    const currentYear = new Date().getFullYear();
-    let filteredMonths = allMonths;
+      // Log the activity
+      await logActivity('CREATE', 'fx_rates', data.id, null, data, req);
 
-    if (yearFilter === 'current') {
-      filteredMonths = allMonths.filter(monthKey => {
-        const year = parseInt(monthKey.split('-')[0], 10);
-        return year === currentYear;
-      });
+      return res.status(201).json(data);
     }
 
-    if (filteredMonths.length === 0) {
-      return res
-        .status(404)
-        .json({ error: 'No data available for the selected period' });
-    }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error creating fx rate:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Prepare Excel data
-    const data: any[][] = [];
+// PUT update exchange rate
+app.put('/api/fx-rates/:id', requireSuperadmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { data: rateData, error: validationError } = parseFxRateInput(
+      req.body
+    );
 
-    // Header row 1
-    const headerRow1 = ['Category'];
-    filteredMonths.forEach(monthKey => {
-      const parts = monthKey.split('-');
-      const year = parseInt(parts[0] || '0', 10);
-      const month = parseInt(parts[1] || '1', 10);
-      const monthName = new Date(year, month - 1).toLocaleDateString('en-US', {
-        month: 'short',
-        year: 'numeric',
-      });
-      headerRow1.push(monthName, '');
-    });
-    data.push(headerRow1);
+    if (validationError || !rateData) {
+      return res.status(400).json({ error: validationError });
+    }
 
-    // Header row 2
-    const headerRow2 = [''];
-    filteredMonths.forEach(() => {
-      headerRow2.push('USD', 'AED');
-    });
-    data.push(headerRow2);
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('fx_rates')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-    // Category groups and sorting order (same as client)
-    const CATEGORY_GROUPS = {
-      group1: [
-        'CAMO and Management',
-        'Flight planning',
-        'Subscriptions',
-        'Maintenance',
-        'Insurance charge',
-        'Crew',
-      ],
-      group2: ['FalconCare', 'Honeywell'],
-      group3: [
-        'Ground handling',
-        'Fuel',
-        'Navigation charges',
-        'Overfly charges',
-        'Catering',
-        'Other charges',
-        'Disbursement fee',
-      ],
-    };
+      if (fetchError) {
+        console.log('Supabase error fetching fx rate:', fetchError.message);
+        return res.status(404).json({ error: 'FX rate not found' });
+      }
 
-    // Get sort order for a category
-    const getCategorySortOrder = (category: string): number => {
-      const allCategories = [
-        ...CATEGORY_GROUPS.group1,
-        ...CATEGORY_GROUPS.group2,
-        ...CATEGORY_GROUPS.group3,
-      ];
-      const index = allCategories.indexOf(category);
-      return index >= 0 ? index : 999; // Unknown categories go to the end
-    };
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .update({ ...rateData, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
 
-    // Combine all categories and sort by custom order (same as client)
-    const allCategories: Array<{
-      category: string;
-      source: 'nonFlight' | 'flight';
-    }> = [];
+      if (error) {
+        console.log('Supabase error updating fx rate:', error.message);
+        if (error.code === '23505') {
+          return res.status(409).json({
+            error: `A ${rateData.from_currency}/${rateData.to_currency} rate already exists for ${rateData.effective_from.slice(0, 7)}`,
+          });
+        }
+        return res.status(500).json({ error: 'Failed to update fx rate' });
+      }
 
-    // Collect all categories from both groups
-    Object.keys(categoryGroups.nonFlight).forEach(category => {
-      allCategories.push({ category, source: 'nonFlight' });
-    });
-    Object.keys(categoryGroups.flight).forEach(category => {
-      allCategories.push({ category, source: 'flight' });
-    });
+      // Log the activity
+      await logActivity('UPDATE', 'fx_rates', id, oldData, data, req);
 
-    // Log categories when both flags are enabled
-    if (showSubcategories && reportForATS) {
-      const nonFlightCategories = Object.keys(categoryGroups.nonFlight);
-      const flightCategories = Object.keys(categoryGroups.flight);
-      const subcategoryCount = [
-        ...nonFlightCategories,
-        ...flightCategories,
-      ].filter(cat => cat.includes(' - ')).length;
-      console.log('[Excel Export] Category groups summary:', {
-        showSubcategories: showSubcategories,
-        reportForATS: reportForATS,
-        totalCategories: allCategories.length,
-        nonFlightCategories: nonFlightCategories.length,
-        flightCategories: flightCategories.length,
-        subcategoryCount: subcategoryCount,
-        allCategories: allCategories.map(c => c.category),
-      });
+      return res.json(data);
     }
 
-    // Sort by custom order (same as client - extract base category for sorting)
-    allCategories.sort((a, b) => {
-      // Extract base category (before " - ")
-      const baseCategoryA = a.category.split(' - ')[0];
-      const baseCategoryB = b.category.split(' - ')[0];
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error updating fx rate:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE exchange rate
+app.delete('/api/fx-rates/:id', requireSuperadmin, async (req, res) => {
+  try {
+    const { id } = req.params;
 
-      const orderA = getCategorySortOrder(baseCategoryA);
-      const orderB = getCategorySortOrder(baseCategoryB);
+    if (supabase) {
+      // First get the rate data for logging
+      const { data: fxRate, error: fetchError } = await supabase
+        .from('fx_rates')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-      // If same base category, sort alphabetically by full category name
-      if (orderA === orderB) {
-        return a.category.localeCompare(b.category);
+      if (fetchError) {
+        console.log('Supabase error fetching fx rate:', fetchError.message);
+        return res.status(404).json({ error: 'FX rate not found' });
       }
 
-      return orderA - orderB;
-    });
+      const { error } = await supabase.from('fx_rates').delete().eq('id', id);
 
-    // Add category rows
-    allCategories.forEach(({ category, source }) => {
-      const row: any[] = [category];
-      const categoryData =
-        source === 'nonFlight'
-          ? categoryGroups.nonFlight[category]
-          : categoryGroups.flight[category];
+      if (error) {
+        console.log('Supabase error deleting fx rate:', error.message);
+        return res.status(500).json({ error: 'Failed to delete fx rate' });
+      }
 
-      filteredMonths.forEach(monthKey => {
-        const monthData = categoryData[monthKey] || { USD: 0, AED: 0 };
-        row.push(monthData.USD, monthData.AED);
-      });
+      // Log the activity
+      await logActivity('DELETE', 'fx_rates', id, fxRate, null, req);
 
-      data.push(row);
-    });
+      return res.status(204).send();
+    }
 
-    // Add Credit note row (before Total)
-    const creditNoteRow: any[] = ['Credit note'];
-    filteredMonths.forEach(monthKey => {
-      const creditNoteData = incomeItems.creditNote[monthKey] || {
-        USD: 0,
-        AED: 0,
-      };
-      creditNoteRow.push(creditNoteData.USD, creditNoteData.AED);
-    });
-    data.push(creditNoteRow);
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting fx rate:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Add Total row
-    // Total = Sum of all regular expenses - Credit note
-    const totalRow: any[] = ['Total'];
+// ========== DISBURSEMENT FEE RULES API ROUTES ==========
 
-    filteredMonths.forEach(monthKey => {
-      let totalUSD = 0;
-      let totalAED = 0;
-
-      // Sum all categories for this month (only regular expenses)
-      allCategories.forEach(({ category, source }) => {
-        const categoryData =
-          source === 'nonFlight'
-            ? categoryGroups.nonFlight[category]
-            : categoryGroups.flight[category];
-
-        const monthData = categoryData[monthKey] || { USD: 0, AED: 0 };
-        totalUSD += monthData.USD;
-        totalAED += monthData.AED;
-      });
+// Helper function to validate and normalise a disbursement fee rule payload
+async function parseDisbursementFeeRuleInput(body: any): Promise<{
+  data?: Omit<DisbursementFeeRule, 'id'> & {
+    is_active: boolean;
+    notes: string | null;
+  };
+  error?: string;
+}> {
+  const parseOptionalAmount = (value: any): number | null | undefined => {
+    if (value === undefined || value === null || String(value).trim() === '') {
+      return null;
+    }
+    const amount = parseFloat(value);
+    return isNaN(amount) || amount < 0 ? undefined : amount;
+  };
 
-      // Subtract Credit note from Total (Credit note reduces expenses)
-      const creditNoteData = incomeItems.creditNote[monthKey] || {
-        USD: 0,
-        AED: 0,
-      };
-      totalUSD -= creditNoteData.USD;
-      totalAED -= creditNoteData.AED;
+  const rate = parseFloat(body.rate);
+  if (isNaN(rate) || rate < 0) {
+    return { error: 'Rate must be a non-negative percentage' };
+  }
 
-      totalRow.push(totalUSD, totalAED);
-    });
+  const vatRate =
+    body.vat_rate === undefined || String(body.vat_rate).trim() === ''
+      ? 0
+      : parseFloat(body.vat_rate);
+  if (isNaN(vatRate) || vatRate < 0) {
+    return { error: 'VAT rate must be a non-negative percentage' };
+  }
 
-    data.push(totalRow);
+  const minAmount = parseOptionalAmount(body.min_amount);
+  const maxAmount = parseOptionalAmount(body.max_amount);
+  if (minAmount === undefined || maxAmount === undefined) {
+    return { error: 'Minimum and cap must be non-negative numbers' };
+  }
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return { error: 'Minimum cannot be greater than the cap' };
+  }
 
-    // Add Charter profit row (after Total)
-    const charterProfitRow: any[] = ['Charter profit'];
-    filteredMonths.forEach(monthKey => {
-      const charterProfitData = incomeItems.charterProfit[monthKey] || {
-        USD: 0,
-        AED: 0,
-      };
-      charterProfitRow.push(charterProfitData.USD, charterProfitData.AED);
-    });
-    data.push(charterProfitRow);
+  const currency = String(body.currency || '')
+    .trim()
+    .toUpperCase();
+  if (currency) {
+    const currencyError = await validateCurrency(currency);
+    if (currencyError) {
+      return { error: currencyError };
+    }
+  }
 
-    // Create workbook
-    const wb = XLSX.utils.book_new();
-    const ws = XLSX.utils.aoa_to_sheet(data);
+  const { supplierId, error: supplierError } = await resolveSupplierId(
+    body.supplier_id ?? null
+  );
+  if (supplierError) return { error: supplierError };
+
+  const invoiceTypeId = body.invoice_type_id
+    ? String(body.invoice_type_id)
+    : null;
+  if (invoiceTypeId && supabase) {
+    const { data } = await supabase
+      .from('invoice_types')
+      .select('id')
+      .eq('id', invoiceTypeId)
+      .maybeSingle();
+    if (!data) return { error: 'Unknown invoice type' };
+  }
 
-    // Set column widths
-    const colWidths = [{ wch: 25 }];
-    filteredMonths.forEach(() => {
-      colWidths.push({ wch: 15 }, { wch: 15 });
-    });
-    ws['!cols'] = colWidths;
+  return {
+    data: {
+      supplier_id: supplierId ?? null,
+      invoice_type_id: invoiceTypeId,
+      rate,
+      vat_rate: vatRate,
+      min_amount: minAmount,
+      max_amount: maxAmount,
+      currency: currency !== '' ? currency : null,
+      is_active: body.is_active === undefined ? true : !!body.is_active,
+      notes: body.notes && String(body.notes).trim() ? body.notes : null,
+    },
+  };
+}
 
-    // Apply currency formatting to USD and AED columns
-    const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
+// GET endpoint to fetch all disbursement fee rules
+app.get('/api/disbursement-fee-rules', async (_req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('disbursement_fee_rules')
+        .select(
+          `
+          *,
+          invoice_types (
+            id,
+            name
+          ),
+          suppliers (
+            id,
+            name
+          )
+        `
+        )
+        .order('created_at', { ascending: true });
 
-    // Format header rows (bold)
-    for (let row = 0; row <= 1; row++) {
-      for (let col = 0; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-        if (!ws[cellAddress]) continue;
-        if (!ws[cellAddress].s) ws[cellAddress].s = {};
-        ws[cellAddress].s.font = { bold: true };
-        ws[cellAddress].s.fill = { fgColor: { rgb: 'E5E7EB' } };
-        ws[cellAddress].s.alignment = {
-          horizontal: 'center',
-          vertical: 'center',
-        };
+      if (error) {
+        console.log(
+          'Supabase error fetching disbursement fee rules:',
+          error.message
+        );
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch disbursement fee rules' });
       }
+
+      return res.json(data || []);
     }
 
-    // Format data rows with currency formatting
-    for (let row = 2; row <= range.e.r; row++) {
-      for (let col = 1; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-        if (!ws[cellAddress]) continue;
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching disbursement fee rules:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-        // Determine if this is USD or AED column
-        // USD columns are odd (1, 3, 5, ...), AED columns are even (2, 4, 6, ...)
-        const isUSD = col % 2 === 1;
+// POST create new disbursement fee rule
+app.post('/api/disbursement-fee-rules', requireSuperadmin, async (req, res) => {
+  try {
+    const { data: ruleData, error: validationError } =
+      await parseDisbursementFeeRuleInput(req.body);
 
-        if (typeof ws[cellAddress].v === 'number') {
-          // Apply currency format using 'z' property (number format string)
-          // Format syntax: [Red] for colors, # for digits, 0 for required digits
-          if (isUSD) {
-            // USD format: $#,##0.00
-            ws[cellAddress].z = '$#,##0.00';
-            // Also set in style for compatibility
-            if (!ws[cellAddress].s) ws[cellAddress].s = {};
-            ws[cellAddress].s.numFmt = '$#,##0.00';
-          } else {
-            // AED format: #,##0.00 with thousands separator (dirhams)
-            // Using standard number format for AED
-            ws[cellAddress].z = '#,##0.00';
-            // Also set in style for compatibility
-            if (!ws[cellAddress].s) ws[cellAddress].s = {};
-            ws[cellAddress].s.numFmt = '#,##0.00';
-          }
-
-          // Apply styling
-          if (!ws[cellAddress].s) ws[cellAddress].s = {};
-          ws[cellAddress].s.alignment = {
-            horizontal: 'right',
-            vertical: 'center',
-          };
-        }
-      }
-    }
-
-    // Format Credit note, Total, and Charter profit rows (bold with background)
-    // Find row indices: Credit note is before Total, Charter profit is after Total
-    const creditNoteRowIndex = data.findIndex(row => row[0] === 'Credit note');
-    const totalRowIndex = data.findIndex(row => row[0] === 'Total');
-    const charterProfitRowIndex = data.findIndex(
-      row => row[0] === 'Charter profit'
-    );
-
-    // Format Credit note row
-    if (creditNoteRowIndex >= 0) {
-      for (let col = 0; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({
-          r: creditNoteRowIndex,
-          c: col,
-        });
-        if (!ws[cellAddress]) continue;
-
-        if (!ws[cellAddress].s) ws[cellAddress].s = {};
-        ws[cellAddress].s.font = { bold: false };
-        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
-
-        if (col > 0 && typeof ws[cellAddress].v === 'number') {
-          const isUSD = col % 2 === 1;
-          if (isUSD) {
-            ws[cellAddress].z = '$#,##0.00';
-            ws[cellAddress].s.numFmt = '$#,##0.00';
-          } else {
-            ws[cellAddress].z = '#,##0.00';
-            ws[cellAddress].s.numFmt = '#,##0.00';
-          }
-          ws[cellAddress].s.alignment = {
-            horizontal: 'right',
-            vertical: 'center',
-          };
-        }
-      }
+    if (validationError || !ruleData) {
+      return res.status(400).json({ error: validationError });
     }
 
-    // Format Total row
-    if (totalRowIndex >= 0) {
-      for (let col = 0; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({
-          r: totalRowIndex,
-          c: col,
-        });
-        if (!ws[cellAddress]) continue;
-
-        if (!ws[cellAddress].s) ws[cellAddress].s = {};
-        ws[cellAddress].s.font = { bold: true };
-        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('disbursement_fee_rules')
+        .insert([ruleData])
+        .select('*, suppliers ( id, name )')
+        .single();
 
-        if (col > 0 && typeof ws[cellAddress].v === 'number') {
-          const isUSD = col % 2 === 1;
-          if (isUSD) {
-            ws[cellAddress].z = '$#,##0.00';
-            ws[cellAddress].s.numFmt = '$#,##0.00';
-          } else {
-            ws[cellAddress].z = '#,##0.00';
-            ws[cellAddress].s.numFmt = '#,##0.00';
-          }
-          ws[cellAddress].s.alignment = {
-            horizontal: 'right',
-            vertical: 'center',
-          };
+      if (error) {
+        console.log(
+          'Supabase error creating disbursement fee rule:',
+          error.message
+        );
+        if (error.code === '23505') {
+          return res.status(409).json({
+            error: 'A rule already exists for this supplier and invoice type',
+          });
         }
+        return res
+          .status(500)
+          .json({ error: 'Failed to create disbursement fee rule' });
       }
-    }
-
-    // Format Charter profit row
-    if (charterProfitRowIndex >= 0) {
-      for (let col = 0; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({
-          r: charterProfitRowIndex,
-          c: col,
-        });
-        if (!ws[cellAddress]) continue;
 
-        if (!ws[cellAddress].s) ws[cellAddress].s = {};
-        ws[cellAddress].s.font = { bold: false };
-        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'disbursement_fee_rules',
+        data.id,
+        null,
+        data,
+        req
+      );
 
-        if (col > 0 && typeof ws[cellAddress].v === 'number') {
-          const isUSD = col % 2 === 1;
-          if (isUSD) {
-            ws[cellAddress].z = '$#,##0.00';
-            ws[cellAddress].s.numFmt = '$#,##0.00';
-          } else {
-            ws[cellAddress].z = '#,##0.00';
-            ws[cellAddress].s.numFmt = '#,##0.00';
-          }
-          ws[cellAddress].s.alignment = {
-            horizontal: 'right',
-            vertical: 'center',
-          };
-        }
-      }
+      return res.status(201).json(data);
     }
 
-    // Add worksheet
-    XLSX.utils.book_append_sheet(wb, ws, 'Expenses Report');
-
-    // Generate filename (ensure proper encoding)
-    const dateStr = new Date().toISOString().split('T')[0];
-    const filename = `Expenses_Report_${yearFilter === 'all' ? 'AllYears' : yearFilter}_${dateStr}.xlsx`;
-
-    // Set headers for file download (use filename* for proper encoding)
-    res.setHeader(
-      'Content-Type',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    );
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`
-    );
-
-    // Send file with cell styles enabled
-    const buffer = XLSX.write(wb, {
-      type: 'buffer',
-      bookType: 'xlsx',
-      cellStyles: true,
-    });
-    res.send(buffer);
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.error('Error exporting expenses to Excel:', error);
-    res.status(500).json({ error: 'Failed to export expenses to Excel' });
+    console.log('Error creating disbursement fee rule:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/invoices/:id/expenses', async (req, res) => {
-  try {
-    const invoiceId = req.params.id;
-
-    if (supabase) {
-      const { data, error } = await supabase
-        .from('expenses')
-        .select(
-          `
-          *,
-          invoices!exp_invoice (
-            inv_number
-          ),
-          flights!exp_flight (
-            flt_number,
-            flt_date,
-            flt_dep,
-            flt_arr
-          )
-        `
-        )
-        .eq('exp_invoice', invoiceId)
-        .order('exp_invoice_type', { ascending: true });
+// PUT update disbursement fee rule
+app.put(
+  '/api/disbursement-fee-rules/:id',
+  requireSuperadmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { data: ruleData, error: validationError } =
+        await parseDisbursementFeeRuleInput(req.body);
 
-      if (error) {
-        console.log('Supabase error fetching invoice expenses:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch expenses' });
+      if (validationError || !ruleData) {
+        return res.status(400).json({ error: validationError });
       }
 
-      // Enrich expenses with type names
-      if (data && data.length > 0) {
-        // Get unique type IDs
-        const typeIds = [...new Set(data.map(e => e.exp_type).filter(Boolean))];
-        const subtypeIds = [
-          ...new Set(data.map(e => e.exp_subtype).filter(Boolean)),
-        ];
-        const invoiceTypeIds = [
-          ...new Set(data.map(e => e.exp_invoice_type).filter(Boolean)),
-        ];
-
-        // Fetch type names
-        const typeNamesMap: { [key: string]: any } = {};
-        if (typeIds.length > 0) {
-          const { data: types } = await supabase
-            .from('expense_types')
-            .select('id, name')
-            .in('id', typeIds);
-          if (types) {
-            types.forEach(t => {
-              typeNamesMap[t.id] = t;
-            });
-          }
-        }
+      if (supabase) {
+        // First get the old data for logging
+        const { data: oldData, error: fetchError } = await supabase
+          .from('disbursement_fee_rules')
+          .select('*, suppliers ( id, name )')
+          .eq('id', id)
+          .single();
 
-        const subtypeNamesMap: { [key: string]: any } = {};
-        if (subtypeIds.length > 0) {
-          const { data: subtypes } = await supabase
-            .from('expense_subtypes')
-            .select('id, name')
-            .in('id', subtypeIds);
-          if (subtypes) {
-            subtypes.forEach(s => {
-              subtypeNamesMap[s.id] = s;
-            });
-          }
+        if (fetchError) {
+          console.log(
+            'Supabase error fetching disbursement fee rule:',
+            fetchError.message
+          );
+          return res
+            .status(404)
+            .json({ error: 'Disbursement fee rule not found' });
         }
 
-        const invoiceTypeNamesMap: { [key: string]: any } = {};
-        if (invoiceTypeIds.length > 0) {
-          const { data: invoiceTypes } = await supabase
-            .from('invoice_types')
-            .select('id, name')
-            .in('id', invoiceTypeIds);
-          if (invoiceTypes) {
-            invoiceTypes.forEach(it => {
-              invoiceTypeNamesMap[it.id] = it;
+        const { data, error } = await supabase
+          .from('disbursement_fee_rules')
+          .update({ ...ruleData, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select('*, suppliers ( id, name )')
+          .single();
+
+        if (error) {
+          console.log(
+            'Supabase error updating disbursement fee rule:',
+            error.message
+          );
+          if (error.code === '23505') {
+            return res.status(409).json({
+              error: 'A rule already exists for this supplier and invoice type',
             });
           }
+          return res
+            .status(500)
+            .json({ error: 'Failed to update disbursement fee rule' });
         }
 
-        // Enrich expenses with type objects
-        const enrichedData = data.map((expense: any) => ({
-          ...expense,
-          expense_types: expense.exp_type
-            ? typeNamesMap[expense.exp_type]
-            : null,
-          expense_subtypes: expense.exp_subtype
-            ? subtypeNamesMap[expense.exp_subtype]
-            : null,
-          invoice_types: expense.exp_invoice_type
-            ? invoiceTypeNamesMap[expense.exp_invoice_type]
-            : null,
-        }));
+        // Log the activity
+        await logActivity(
+          'UPDATE',
+          'disbursement_fee_rules',
+          id,
+          oldData,
+          data,
+          req
+        );
 
-        return res.json(enrichedData);
+        return res.json(data);
       }
 
-      return res.json(data || []);
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error updating disbursement fee rule:', error);
+      return res.status(500).json({ error: 'Internal server error' });
     }
-
-    res.status(500).json({ error: 'Database not available' });
-  } catch (error) {
-    console.log('Error fetching invoice expenses:', error);
-    res.status(500).json({ error: 'Internal server error' });
   }
-});
+);
 
-// POST endpoint to add new invoice
-app.post('/api/invoices', async (req, res) => {
-  try {
-    const { inv_date, inv_number, inv_amount, inv_currency, inv_tags } =
-      req.body;
+// DELETE disbursement fee rule
+app.delete(
+  '/api/disbursement-fee-rules/:id',
+  requireSuperadmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
 
-    // Validate required fields
-    if (!inv_date || !inv_number || !inv_amount || !inv_currency) {
-      return res.status(400).json({
-        error:
-          'All fields are required: inv_date, inv_number, inv_amount, inv_currency',
-      });
-    }
+      if (supabase) {
+        // First get the rule data for logging
+        const { data: rule, error: fetchError } = await supabase
+          .from('disbursement_fee_rules')
+          .select('*, suppliers ( id, name )')
+          .eq('id', id)
+          .single();
 
-    // Validate currency
-    const validCurrencies = ['AED', 'USD', 'EUR'];
-    if (!validCurrencies.includes(inv_currency)) {
-      return res.status(400).json({
-        error: 'Invalid currency. Must be one of: AED, USD, EUR',
-      });
-    }
+        if (fetchError) {
+          console.log(
+            'Supabase error fetching disbursement fee rule:',
+            fetchError.message
+          );
+          return res
+            .status(404)
+            .json({ error: 'Disbursement fee rule not found' });
+        }
 
-    // Validate amount
-    const amount = parseFloat(inv_amount);
-    if (isNaN(amount) || amount <= 0) {
-      return res.status(400).json({
-        error: 'Amount must be a positive number',
-      });
+        const { error } = await supabase
+          .from('disbursement_fee_rules')
+          .delete()
+          .eq('id', id);
+
+        if (error) {
+          console.log(
+            'Supabase error deleting disbursement fee rule:',
+            error.message
+          );
+          return res
+            .status(500)
+            .json({ error: 'Failed to delete disbursement fee rule' });
+        }
+
+        // Log the activity
+        await logActivity(
+          'DELETE',
+          'disbursement_fee_rules',
+          id,
+          rule,
+          null,
+          req
+        );
+
+        return res.status(204).send();
+      }
+
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error deleting disbursement fee rule:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// ========== SUPPLIERS API ROUTES ==========
+
+// Helper function to validate and normalise a supplier payload
+async function parseSupplierInput(body: any): Promise<{
+  data?: {
+    name: string;
+    country: string | null;
+    default_currency: string | null;
+    vat_number: string | null;
+    payment_terms_days: number | null;
+    contacts: Array<Record<string, string>>;
+    notes: string | null;
+    is_active: boolean;
+  };
+  error?: string;
+}> {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    return { error: 'Supplier name is required' };
+  }
+
+  const currency = String(body.default_currency || '')
+    .trim()
+    .toUpperCase();
+  if (currency) {
+    const currencyError = await validateCurrency(currency);
+    if (currencyError) {
+      return { error: currencyError };
+    }
+  }
+
+  let paymentTermsDays: number | null = null;
+  if (
+    body.payment_terms_days !== undefined &&
+    body.payment_terms_days !== null &&
+    String(body.payment_terms_days).trim() !== ''
+  ) {
+    paymentTermsDays = Number(body.payment_terms_days);
+    if (!Number.isInteger(paymentTermsDays) || paymentTermsDays < 0) {
+      return {
+        error: 'Payment terms must be a whole number of days (0 or more)',
+      };
+    }
+  }
+
+  const contactsInput = body.contacts ?? [];
+  if (!Array.isArray(contactsInput)) {
+    return { error: 'Contacts must be a list' };
+  }
+  const contacts = contactsInput
+    .map((contact: any) => {
+      const entry: Record<string, string> = {};
+      for (const field of ['name', 'email', 'phone', 'role']) {
+        const value = String(contact?.[field] ?? '').trim();
+        if (value) entry[field] = value;
+      }
+      return entry;
+    })
+    .filter(entry => Object.keys(entry).length > 0);
+
+  const optionalText = (value: any) =>
+    value !== undefined && value !== null && String(value).trim()
+      ? String(value).trim()
+      : null;
+
+  return {
+    data: {
+      name,
+      country: optionalText(body.country),
+      default_currency: currency !== '' ? currency : null,
+      vat_number: optionalText(body.vat_number),
+      payment_terms_days: paymentTermsDays,
+      contacts,
+      notes: optionalText(body.notes),
+      is_active: body.is_active === undefined ? true : !!body.is_active,
+    },
+  };
+}
+
+// Helper function to build spend and dispute statistics per supplier.
+// Spend is the supplier's expenses in the reporting currency at the rate of
+// each expense's month; a dispute belongs to the supplier of its invoice, or
+// to the supplier it names. Expenses and open claims without a rate are
+// counted in unconverted_count instead.
+async function buildSupplierStats(): Promise<any[]> {
+  if (!supabase) return [];
+
+  const [suppliersResult, invoicesResult, disputes, rates] = await Promise.all([
+    supabase.from('suppliers').select('id, name').order('name'),
+    supabase
+      .from('invoices')
+      .select('id, supplier_id, inv_status, inv_paid, inv_due_date'),
+    loadDisputes(),
+    loadFxRates(),
+  ]);
+
+  if (suppliersResult.error) {
+    throw new Error(
+      `Failed to fetch suppliers: ${suppliersResult.error.message}`
+    );
+  }
+  if (invoicesResult.error) {
+    throw new Error(
+      `Failed to fetch invoices: ${invoicesResult.error.message}`
+    );
+  }
+
+  // Expenses linked to a supplier, in pages
+  const pageSize = 1000;
+  let from = 0;
+  const expenses: any[] = [];
+  let moreExpenses = true;
+  while (moreExpenses) {
+    const { data: pageData, error } = await supabase
+      .from('expenses')
+      .select(
+        'id, supplier_id, exp_amount, exp_currency, exp_period_start, created_at'
+      )
+      .not('supplier_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch expenses: ${error.message}`);
+    }
+
+    expenses.push(...(pageData || []));
+    if (!pageData || pageData.length < pageSize) {
+      moreExpenses = false;
+    } else {
+      from += pageSize;
+    }
+  }
+
+  const stats = new Map<string, any>();
+  const supplierIdsByName = new Map<string, string>();
+  for (const supplier of suppliersResult.data || []) {
+    supplierIdsByName.set(supplier.name.trim().toLowerCase(), supplier.id);
+    stats.set(supplier.id, {
+      supplier_id: supplier.id,
+      name: supplier.name,
+      invoices_count: 0,
+      invoices_unpaid: 0,
+      invoices_overdue: 0,
+      expenses_count: 0,
+      spend_reporting: 0,
+      unconverted_count: 0,
+      disputes_total: 0,
+      disputes_open: 0,
+      disputes_overdue: 0,
+      claimed_open_reporting: 0,
+    });
+  }
+
+  const invoiceSuppliers = new Map<string, string>();
+  for (const invoice of invoicesResult.data || []) {
+    if (!invoice.supplier_id) continue;
+    invoiceSuppliers.set(invoice.id, invoice.supplier_id);
+
+    const row = stats.get(invoice.supplier_id);
+    if (!row) continue;
+    const lifecycle = withInvoiceLifecycle(invoice);
+    row.invoices_count += 1;
+    if (lifecycle.inv_status !== 'paid') row.invoices_unpaid += 1;
+    if (lifecycle.is_overdue) row.invoices_overdue += 1;
+  }
+
+  for (const expense of expenses) {
+    const row = stats.get(expense.supplier_id);
+    if (!row) continue;
+    row.expenses_count += 1;
+
+    const currency = (expense.exp_currency || 'USD').toUpperCase();
+    const rateDate = new Date(expense.exp_period_start || expense.created_at);
+    const asOf = isNaN(rateDate.getTime()) ? new Date() : rateDate;
+    const spend = convertCurrency(
+      rates,
+      parseFloat(expense.exp_amount) || 0,
+      currency,
+      REPORTING_CURRENCY,
+      asOf
+    );
+    if (spend !== null) {
+      row.spend_reporting += spend;
+    } else {
+      row.unconverted_count += 1;
+    }
+  }
+
+  for (const dispute of disputes) {
+    const supplierId =
+      (dispute.invoice_id && invoiceSuppliers.get(dispute.invoice_id)) ||
+      supplierIdsByName.get(
+        String(dispute.supplier || '')
+          .trim()
+          .toLowerCase()
+      );
+    const row = supplierId ? stats.get(supplierId) : null;
+    if (!row) continue;
+
+    row.disputes_total += 1;
+    if (!dispute.is_open) continue;
+    row.disputes_open += 1;
+    if (dispute.is_overdue) row.disputes_overdue += 1;
+
+    if (dispute.claimed_amount && dispute.claimed_currency) {
+      const claimed = convertCurrency(
+        rates,
+        parseFloat(dispute.claimed_amount),
+        dispute.claimed_currency,
+        REPORTING_CURRENCY,
+        new Date(dispute.created_at)
+      );
+      if (claimed !== null) {
+        row.claimed_open_reporting += claimed;
+      } else {
+        row.unconverted_count += 1;
+      }
     }
+  }
+
+  return Array.from(stats.values()).map(row => ({
+    ...row,
+    spend_reporting: Math.round(row.spend_reporting * 100) / 100,
+    claimed_open_reporting: Math.round(row.claimed_open_reporting * 100) / 100,
+  }));
+}
 
+// GET endpoint to fetch all suppliers
+app.get('/api/suppliers', async (_req, res) => {
+  try {
     if (supabase) {
       const { data, error } = await supabase
-        .from('invoices')
-        .insert([
-          {
-            inv_date,
-            inv_number,
-            inv_amount: amount,
-            inv_currency,
-            inv_tags: inv_tags || '', // Use provided tags or empty string
-          },
-        ])
-        .select();
+        .from('suppliers')
+        .select('*')
+        .order('name', { ascending: true });
 
       if (error) {
-        console.log('Supabase error adding invoice:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to add invoice to database' });
+        console.log('Supabase error fetching suppliers:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch suppliers' });
       }
 
-      // Log the activity
-      await logActivity(
-        'CREATE',
-        'invoices',
-        data[0].id,
-        null,
-        data[0],
-        'system',
-        req
-      );
-
-      return res.status(201).json({
-        message: 'Invoice added successfully',
-        data: data[0],
-      });
+      return res.json(data || []);
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error adding invoice:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error fetching suppliers:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT endpoint to update existing invoice
-app.put('/api/invoices/:id', async (req, res) => {
+// GET spend and dispute statistics per supplier
+app.get('/api/suppliers/stats', async (_req, res) => {
   try {
-    const invoiceId = req.params.id;
-    const { inv_date, inv_number, inv_amount, inv_currency, inv_tags } =
-      req.body;
-
-    // Validate required fields
-    if (!inv_date || !inv_number || !inv_amount || !inv_currency) {
-      return res.status(400).json({
-        error:
-          'All fields are required: inv_date, inv_number, inv_amount, inv_currency',
-      });
-    }
-
-    // Validate currency
-    const validCurrencies = ['AED', 'USD', 'EUR'];
-    if (!validCurrencies.includes(inv_currency)) {
-      return res.status(400).json({
-        error: 'Invalid currency. Must be one of: AED, USD, EUR',
-      });
+    if (supabase) {
+      const suppliers = await buildSupplierStats();
+      return res.json({ reporting_currency: REPORTING_CURRENCY, suppliers });
     }
 
-    // Validate amount
-    const amount = parseFloat(inv_amount);
-    if (isNaN(amount) || amount <= 0) {
-      return res.status(400).json({
-        error: 'Amount must be a positive number',
-      });
-    }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching supplier stats:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
+// GET endpoint to fetch a supplier
+app.get('/api/suppliers/:id', async (req, res) => {
+  try {
     if (supabase) {
-      // Get current invoice data for logging
-      const { data: currentInvoice, error: fetchError } = await supabase
-        .from('invoices')
+      const { data, error } = await supabase
+        .from('suppliers')
         .select('*')
-        .eq('id', invoiceId)
+        .eq('id', req.params.id)
         .single();
 
-      if (fetchError) {
-        console.log('Supabase error fetching invoice:', fetchError.message);
-        return res.status(404).json({ error: 'Invoice not found' });
+      if (error || !data) {
+        return res.status(404).json({ error: 'Supplier not found' });
       }
 
+      return res.json(data);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching supplier:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST create new supplier
+app.post('/api/suppliers', requireSuperadmin, async (req, res) => {
+  try {
+    const { data: supplierData, error: validationError } =
+      await parseSupplierInput(req.body);
+
+    if (validationError || !supplierData) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (supabase) {
       const { data, error } = await supabase
-        .from('invoices')
-        .update({
-          inv_date,
-          inv_number,
-          inv_amount: amount,
-          inv_currency,
-          inv_tags: inv_tags || '',
-        })
-        .eq('id', invoiceId)
-        .select();
+        .from('suppliers')
+        .insert([supplierData])
+        .select()
+        .single();
 
       if (error) {
-        console.log('Supabase error updating invoice:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to update invoice in database' });
+        console.log('Supabase error creating supplier:', error.message);
+        if (error.code === '23505') {
+          return res
+            .status(409)
+            .json({ error: 'A supplier with this name already exists' });
+        }
+        return res.status(500).json({ error: 'Failed to create supplier' });
       }
 
       // Log the activity
-      await logActivity(
-        'UPDATE',
-        'invoices',
-        invoiceId,
-        currentInvoice,
-        data[0],
-        'system',
-        req
-      );
+      await logActivity('CREATE', 'suppliers', data.id, null, data, req);
 
-      return res.status(200).json({
-        message: 'Invoice updated successfully',
-        data: data[0],
-      });
+      return res.status(201).json(data);
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating invoice:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error creating supplier:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// DELETE endpoint to remove invoice
-app.delete('/api/invoices/:id', async (req, res) => {
+// PUT update supplier
+app.put('/api/suppliers/:id', requireSuperadmin, async (req, res) => {
   try {
-    const invoiceId = req.params.id;
+    const { id } = req.params;
+    const { data: supplierData, error: validationError } =
+      await parseSupplierInput(req.body);
 
-    if (!invoiceId) {
-      return res.status(400).json({
-        error: 'Invoice ID is required',
-      });
+    if (validationError || !supplierData) {
+      return res.status(400).json({ error: validationError });
     }
 
     if (supabase) {
-      // First get the invoice data for logging
-      const { data: invoice, error: fetchError } = await supabase
-        .from('invoices')
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('suppliers')
         .select('*')
-        .eq('id', invoiceId)
+        .eq('id', id)
         .single();
 
       if (fetchError) {
-        console.log('Supabase error fetching invoice:', fetchError.message);
-        return res.status(404).json({ error: 'Invoice not found' });
+        console.log('Supabase error fetching supplier:', fetchError.message);
+        return res.status(404).json({ error: 'Supplier not found' });
       }
 
-      const { error } = await supabase
-        .from('invoices')
-        .delete()
-        .eq('id', invoiceId);
+      const { data, error } = await supabase
+        .from('suppliers')
+        .update({ ...supplierData, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
 
       if (error) {
-        console.log('Supabase error deleting invoice:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete invoice from database' });
+        console.log('Supabase error updating supplier:', error.message);
+        if (error.code === '23505') {
+          return res
+            .status(409)
+            .json({ error: 'A supplier with this name already exists' });
+        }
+        return res.status(500).json({ error: 'Failed to update supplier' });
       }
 
       // Log the activity
-      await logActivity(
-        'DELETE',
-        'invoices',
-        invoiceId,
-        invoice,
-        null,
-        'system',
-        req
-      );
+      await logActivity('UPDATE', 'suppliers', id, oldData, data, req);
 
-      return res.status(200).json({
-        message: 'Invoice deleted successfully',
-      });
+      return res.json(data);
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error deleting invoice:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error updating supplier:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT endpoint to update invoice status
-app.put('/api/invoices/:id/status', async (req, res) => {
+// DELETE supplier (its invoices and expenses are kept without a supplier)
+app.delete('/api/suppliers/:id', requireSuperadmin, async (req, res) => {
   try {
-    const invoiceId = req.params.id;
-    const { inv_filled, inv_disputed } = req.body;
-
-    if (!invoiceId) {
-      return res.status(400).json({
-        error: 'Invoice ID is required',
-      });
-    }
+    const { id } = req.params;
 
     if (supabase) {
-      // First get the current invoice data for logging
-      const { data: currentInvoice, error: fetchError } = await supabase
-        .from('invoices')
+      // First get the supplier data for logging
+      const { data: supplier, error: fetchError } = await supabase
+        .from('suppliers')
         .select('*')
-        .eq('id', invoiceId)
+        .eq('id', id)
         .single();
 
       if (fetchError) {
-        console.log('Supabase error fetching invoice:', fetchError.message);
-        return res.status(404).json({ error: 'Invoice not found' });
+        console.log('Supabase error fetching supplier:', fetchError.message);
+        return res.status(404).json({ error: 'Supplier not found' });
       }
 
-      // Prepare update data
-      const updateData: any = {};
-      if (inv_filled !== undefined) updateData.inv_filled = inv_filled;
-      if (inv_disputed !== undefined) updateData.inv_disputed = inv_disputed;
-
-      // Update the invoice
-      const { data, error } = await supabase
-        .from('invoices')
-        .update(updateData)
-        .eq('id', invoiceId)
-        .select();
+      const { error } = await supabase.from('suppliers').delete().eq('id', id);
 
       if (error) {
-        console.log('Supabase error updating invoice:', error.message);
-        return res.status(500).json({ error: 'Failed to update invoice' });
+        console.log('Supabase error deleting supplier:', error.message);
+        return res.status(500).json({ error: 'Failed to delete supplier' });
       }
 
       // Log the activity
-      await logActivity(
-        'UPDATE',
-        'invoices',
-        invoiceId,
-        currentInvoice,
-        data[0],
-        'system',
-        req
-      );
+      await logActivity('DELETE', 'suppliers', id, supplier, null, req);
 
-      return res.status(200).json({
-        message: 'Invoice updated successfully',
-        data: data[0],
-      });
+      return res.status(204).send();
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating invoice:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error deleting supplier:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// ========== DISCREPANCIES API ROUTES ==========
+// ========== CURRENCIES API ROUTES ==========
 
-// GET endpoint to fetch all discrepancies
-app.get('/api/discrepancies', async (_req, res) => {
+// GET endpoint to fetch currencies (active only unless ?all=true)
+app.get('/api/currencies', async (req, res) => {
   try {
     if (supabase) {
-      const { data, error } = await supabase
-        .from('discrepancies')
-        .select(
-          `
-          *,
-          invoices!invoice_id (
-            id,
-            inv_number,
-            inv_date
-          )
-        `
-        )
-        .order('created_at', { ascending: false });
+      let query = supabase
+        .from('currencies')
+        .select('*')
+        .order('code', { ascending: true });
+
+      if (req.query.all !== 'true') {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
 
       if (error) {
-        console.log('Supabase error fetching discrepancies:', error.message);
-        return res.status(500).json({ error: 'Failed to fetch discrepancies' });
+        console.log('Supabase error fetching currencies:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch currencies' });
       }
 
       return res.json(data || []);
@@ -4608,1155 +5900,5013 @@ app.get('/api/discrepancies', async (_req, res) => {
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error fetching discrepancies:', error);
+    console.log('Error fetching currencies:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET endpoint to fetch single discrepancy
-app.get('/api/discrepancies/:id', async (req, res) => {
+// POST add a currency to the reference list
+app.post('/api/currencies', requireSuperadmin, async (req, res) => {
   try {
-    const discrepancyId = req.params.id;
+    const code = String(req.body.code || '')
+      .trim()
+      .toUpperCase();
+    const name = String(req.body.name || '').trim();
+    const minorUnits =
+      req.body.minor_units === undefined || req.body.minor_units === ''
+        ? 2
+        : parseInt(req.body.minor_units, 10);
+
+    if (!/^[A-Z]{3}$/.test(code) || !name) {
+      return res.status(400).json({
+        error: 'A 3-letter ISO 4217 code and a name are required',
+      });
+    }
+
+    if (isNaN(minorUnits) || minorUnits < 0 || minorUnits > 4) {
+      return res
+        .status(400)
+        .json({ error: 'minor_units must be between 0 and 4' });
+    }
 
     if (supabase) {
       const { data, error } = await supabase
-        .from('discrepancies')
-        .select(
-          `
-          *,
-          invoices!invoice_id (
-            id,
-            inv_number,
-            inv_date
-          )
-        `
-        )
-        .eq('id', discrepancyId)
+        .from('currencies')
+        .insert([{ code, name, minor_units: minorUnits, is_active: true }])
+        .select()
         .single();
 
-      if (error || !data) {
-        return res.status(404).json({ error: 'Discrepancy not found' });
+      if (error) {
+        console.log('Supabase error creating currency:', error.message);
+        if (error.code === '23505') {
+          return res
+            .status(409)
+            .json({ error: `Currency ${code} already exists` });
+        }
+        return res.status(500).json({ error: 'Failed to create currency' });
+      }
+
+      // Log the activity
+      await logActivity('CREATE', 'currencies', null, null, data, req);
+
+      return res.status(201).json(data);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error creating currency:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT update a currency (name, minor units, active flag)
+app.put('/api/currencies/:code', requireSuperadmin, async (req, res) => {
+  try {
+    const code = req.params.code.toUpperCase();
+    const { name, minor_units, is_active } = req.body;
+
+    const updateData: any = {};
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        return res.status(400).json({ error: 'Name cannot be empty' });
       }
+      updateData.name = String(name).trim();
+    }
+    if (minor_units !== undefined) {
+      const minorUnits = parseInt(minor_units, 10);
+      if (isNaN(minorUnits) || minorUnits < 0 || minorUnits > 4) {
+        return res
+          .status(400)
+          .json({ error: 'minor_units must be between 0 and 4' });
+      }
+      updateData.minor_units = minorUnits;
+    }
+    if (is_active !== undefined) {
+      updateData.is_active = Boolean(is_active);
+    }
+
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('currencies')
+        .select('*')
+        .eq('code', code)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching currency:', fetchError.message);
+        return res.status(404).json({ error: 'Currency not found' });
+      }
+
+      const { data, error } = await supabase
+        .from('currencies')
+        .update(updateData)
+        .eq('code', code)
+        .select()
+        .single();
+
+      if (error) {
+        console.log('Supabase error updating currency:', error.message);
+        return res.status(500).json({ error: 'Failed to update currency' });
+      }
+
+      // Log the activity
+      await logActivity('UPDATE', 'currencies', null, oldData, data, req);
 
       return res.json(data);
     }
 
     return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.error('Error fetching discrepancy:', error);
+    console.log('Error updating currency:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST endpoint to add new discrepancy
-app.post('/api/discrepancies', async (req, res) => {
+// ========== AIRPORTS API ROUTES ==========
+
+// GET endpoint to search airports by code, name or country (?q=, ?limit=).
+// Served from the bundled list while the airports table is empty.
+app.get('/api/airports', async (req, res) => {
   try {
-    const {
-      created_at,
-      invoice_id,
-      description,
-      status,
-      solution,
-      claimed_amount,
-      claimed_currency,
-    } = req.body;
+    const airports = await loadAirports();
+    const search = String(req.query.q || '')
+      .trim()
+      .toUpperCase();
+    const limit = parseInt(String(req.query.limit || ''), 10);
+
+    let matches = airports;
+    if (search) {
+      matches = airports
+        .filter(
+          airport =>
+            airport.icao.startsWith(search) ||
+            (airport.iata || '').startsWith(search) ||
+            airport.name.toUpperCase().includes(search) ||
+            airport.country === search ||
+            (COUNTRY_NAMES[airport.country] || '')
+              .toUpperCase()
+              .includes(search)
+        )
+        // Exact code matches first
+        .sort(
+          (a, b) =>
+            Number(b.iata === search || b.icao === search) -
+            Number(a.iata === search || a.icao === search)
+        );
+    }
 
-    // Validate required fields
-    if (!created_at || !invoice_id || !description) {
-      return res.status(400).json({
-        error:
-          'All required fields must be provided: created_at, invoice_id, description',
-      });
+    if (!isNaN(limit) && limit > 0) {
+      matches = matches.slice(0, limit);
     }
 
-    // Validate status
-    const validStatuses = [
-      'Created',
-      'Raised',
-      'Resolved',
-      'Declined',
-      'Closed',
-    ];
-    if (status && !validStatuses.includes(status)) {
+    return res.json(
+      matches.map(airport => ({
+        ...airport,
+        code: getAirportCode(airport),
+        country_name: COUNTRY_NAMES[airport.country] || airport.country,
+      }))
+    );
+  } catch (error) {
+    console.log('Error fetching airports:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST add an airport to the reference list
+app.post('/api/airports', requireSuperadmin, async (req, res) => {
+  try {
+    const icao = String(req.body.icao || '')
+      .trim()
+      .toUpperCase();
+    const iata =
+      String(req.body.iata || '')
+        .trim()
+        .toUpperCase() || null;
+    const name = String(req.body.name || '').trim();
+    const country = String(req.body.country || '')
+      .trim()
+      .toUpperCase();
+    const timezone = String(req.body.timezone || '').trim();
+
+    if (!/^[A-Z0-9]{4}$/.test(icao) || !name) {
       return res.status(400).json({
-        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+        error: 'A 4-letter ICAO code and a name are required',
       });
     }
-
-    // Validate currency if amount is provided
-    const validCurrencies = ['AED', 'USD', 'EUR'];
-    if (
-      claimed_amount &&
-      claimed_currency &&
-      !validCurrencies.includes(claimed_currency)
-    ) {
+    if (iata && !/^[A-Z0-9]{3}$/.test(iata)) {
+      return res
+        .status(400)
+        .json({ error: 'The IATA code must have 3 letters' });
+    }
+    if (!/^[A-Z]{2}$/.test(country)) {
+      return res
+        .status(400)
+        .json({ error: 'A 2-letter ISO country code is required' });
+    }
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: timezone });
+    } catch {
       return res.status(400).json({
-        error: `Invalid currency. Must be one of: ${validCurrencies.join(', ')}`,
+        error: `Invalid time zone "${timezone}". Use an IANA name such as Asia/Dubai`,
       });
     }
 
-    // Validate amount if provided
-    let parsedAmount = null;
-    if (
-      claimed_amount !== undefined &&
-      claimed_amount !== null &&
-      claimed_amount !== ''
-    ) {
-      parsedAmount = parseFloat(claimed_amount);
-      if (isNaN(parsedAmount) || parsedAmount < 0) {
-        return res.status(400).json({
-          error: 'Claimed amount must be a non-negative number',
-        });
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('airports')
+        .insert([{ icao, iata, name, country, timezone }])
+        .select()
+        .single();
+
+      if (error) {
+        console.log('Supabase error creating airport:', error.message);
+        if (error.code === '23505') {
+          return res.status(409).json({
+            error: `Airport ${iata ? `${iata} / ` : ''}${icao} already exists`,
+          });
+        }
+        return res.status(500).json({ error: 'Failed to create airport' });
       }
+
+      // Log the activity
+      await logActivity('CREATE', 'airports', null, null, data, req);
+
+      return res.status(201).json(data);
     }
 
-    // Normalize currency - set to null if empty string or not provided
-    const normalizedCurrency =
-      claimed_currency && claimed_currency.trim() !== ''
-        ? claimed_currency
-        : null;
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error creating airport:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
+// POST load the bundled airports into the airports table. Airports already in
+// the table are kept as they are.
+app.post('/api/airports/load-bundled', requireSuperadmin, async (req, res) => {
+  try {
     if (supabase) {
-      const insertData: any = {
-        created_at,
-        invoice_id,
-        description,
-        status: status || 'Created',
-        solution: solution && solution.trim() !== '' ? solution : null,
-      };
+      const { data, error } = await supabase
+        .from('airports')
+        .upsert(BUNDLED_AIRPORTS, {
+          onConflict: 'icao',
+          ignoreDuplicates: true,
+        })
+        .select('icao');
 
-      // Only add claimed_amount and claimed_currency if they have values
-      if (parsedAmount !== null) {
-        insertData.claimed_amount = parsedAmount;
-        insertData.claimed_currency = normalizedCurrency;
-      } else {
-        insertData.claimed_amount = null;
-        insertData.claimed_currency = null;
+      if (error) {
+        console.log('Supabase error loading airports:', error.message);
+        return res.status(500).json({ error: 'Failed to load airports' });
       }
 
-      console.log(
-        'Inserting discrepancy with data:',
-        JSON.stringify(insertData, null, 2)
-      );
-      console.log(
-        'Using Supabase key type:',
-        process.env.SUPABASE_SERVICE_ROLE_KEY ? 'Service Role' : 'Anon'
+      const airportsCount = (data || []).length;
+
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'airport_imports',
+        null,
+        null,
+        { airports_count: airportsCount },
+        req
       );
 
-      const { data, error } = await supabase
-        .from('discrepancies')
-        .insert([insertData]).select(`
-          *,
-          invoices!invoice_id (
-            id,
-            inv_number,
-            inv_date
-          )
-        `);
+      return res.json({
+        message: `${airportsCount} airports added`,
+        airports_count: airportsCount,
+      });
+    }
 
-      if (error) {
-        console.error('❌ Supabase error adding discrepancy:', error);
-        console.error('Error details:', JSON.stringify(error, null, 2));
-        console.error('Error code:', error.code);
-        console.error('Error hint:', error.hint);
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error loading airports:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-        // Provide more specific error messages
-        let errorMessage = 'Failed to add discrepancy to database';
-        if (error.code === '23503') {
-          errorMessage =
-            'Invalid invoice_id: The specified invoice does not exist';
-        } else if (error.code === '23505') {
-          errorMessage = 'Duplicate entry: This discrepancy already exists';
-        } else if (error.code === '23514') {
-          errorMessage =
-            'Validation error: Invalid data format or constraint violation';
-        } else if (error.message?.includes('row-level security')) {
-          errorMessage =
-            'RLS Policy Error: Make sure SUPABASE_SERVICE_ROLE_KEY is set on Railway. ' +
-            'Run the fix_discrepancies_rls.sql script to update RLS policies.';
+app.get('/api/expenses', async (_req, res) => {
+  try {
+    if (supabase) {
+      // Supabase can cap response size per request, so we fetch expenses in pages.
+      const pageSize = 1000;
+      let from = 0;
+      const allExpenses: any[] = [];
+      let moreExpenses = true;
+
+      while (moreExpenses) {
+        const { data: pageData, error } = await supabase
+          .from('expenses')
+          .select(
+            `
+                 *,
+                 invoices!exp_invoice (
+                   id,
+                   inv_number
+                 ),
+                 flights!exp_flight (
+                   flt_number,
+                   flt_date,
+                   flt_dep,
+                   flt_arr
+                 ),
+                 ${EXPENSE_TYPE_JOINS}
+               `
+          )
+          .order('created_at', { ascending: false })
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          console.log('Supabase error, using mock data:', error.message);
+          return res.json(mockData.expenses);
         }
 
-        return res.status(500).json({
-          error: errorMessage,
-          details: error.message || 'Unknown error',
-          code: error.code || null,
-        });
+        if (!pageData || pageData.length === 0) {
+          moreExpenses = false;
+        } else {
+          allExpenses.push(...pageData);
+          if (pageData.length < pageSize) {
+            moreExpenses = false;
+          } else {
+            from += pageSize;
+          }
+        }
       }
 
-      if (!data || !data[0]) {
-        console.error('❌ No data returned after insert');
-        return res.status(500).json({
-          error: 'Failed to add discrepancy: No data returned',
+      const data = allExpenses;
+
+      // Enrich expenses with type names and report attributes
+      if (data && data.length > 0) {
+        // Report attributes of the expense type (used by the expenses report)
+        const categoryMap = await loadExpenseCategoryMap();
+
+        const enrichedData = data.map((expense: any) => {
+          const category = resolveExpenseCategory(categoryMap, expense);
+          return {
+            ...withExpenseTypeNames(expense),
+            report_category: category?.reportCategory ?? null,
+            is_flight_related: category ? category.isFlightRelated : null,
+            income_type: resolveExpenseIncomeType(categoryMap, expense),
+          };
         });
-      }
 
-      // Log the activity (don't let logging errors break the flow)
-      try {
-        await logActivity(
-          'CREATE',
-          'discrepancies',
-          data[0].id,
-          null,
-          data[0],
-          'system',
-          req
-        );
-      } catch (logError) {
-        console.warn(
-          '⚠️ Failed to log activity (discrepancy was still created):',
-          logError
-        );
+        return res.json(enrichedData);
       }
 
-      return res.status(201).json({
-        message: 'Discrepancy added successfully',
-        data: data[0],
-      });
+      return res.json(data || []);
     }
 
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error: any) {
-    console.error('❌ Error adding discrepancy:', error);
-    console.error('Error stack:', error?.stack);
-    console.error('Error name:', error?.name);
-    return res.status(500).json({
-      error: 'Internal server error',
-      details:
-        process.env.NODE_ENV === 'development' ? error?.message : undefined,
-    });
+    res.json(mockData.expenses);
+  } catch (error) {
+    console.log('Error fetching expenses:', error);
+    res.json(mockData.expenses);
   }
 });
 
-// PUT endpoint to update existing discrepancy
-app.put('/api/discrepancies/:id', async (req, res) => {
-  try {
-    const discrepancyId = req.params.id;
-    const {
-      created_at,
-      invoice_id,
-      description,
-      status,
-      solution,
-      claimed_amount,
-      claimed_currency,
-    } = req.body;
+// ---------- Monthly Expenses Report ----------
+// Columns of the monthly report (amounts are converted into each of them)
+const MONTHLY_REPORT_COLUMNS = ['USD', 'AED'];
+
+interface MonthlyReportOptions {
+  year: string; // 'current', 'all' or a year (YYYY)
+  from?: string; // YYYY-MM, with to: fixed month range instead of year
+  to?: string;
+  showSubcategories: boolean;
+  reportForATS: boolean;
+  prorate: ProrateMode;
+  withDetails?: boolean;
+  groupByCountry?: boolean; // rows per country and category
+}
 
-    // Validate required fields
-    if (!created_at || !invoice_id || !description) {
-      return res.status(400).json({
-        error:
-          'All required fields must be provided: created_at, invoice_id, description',
-      });
+// Helper function to build the monthly expenses report shared by the Excel
+// export and GET /api/reports/monthly. Returns null when there are no expenses.
+async function buildExpensesMonthlyReport(
+  options: MonthlyReportOptions
+): Promise<{
+  matrix: MonthlyMatrix;
+  expenses: any[];
+  unassigned: any[];
+} | null> {
+  if (!supabase) return null;
+
+  // Get expenses data (same as /api/expenses), in pages
+  const pageSize = 1000;
+  let from = 0;
+  const expenses: any[] = [];
+  let moreExpenses = true;
+
+  while (moreExpenses) {
+    const { data: pageData, error } = await supabase
+      .from('expenses')
+      .select(
+        `
+        *,
+        invoices!exp_invoice (
+          id,
+          inv_number,
+          inv_date
+        ),
+        flights!exp_flight (
+          flt_number,
+          flt_date,
+          flt_dep,
+          flt_arr
+        ),
+        ${EXPENSE_TYPE_JOINS}
+      `
+      )
+      .order('id', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch expenses: ${error.message}`);
     }
 
-    // Validate status
-    const validStatuses = [
-      'Created',
-      'Raised',
-      'Resolved',
-      'Declined',
-      'Closed',
-    ];
-    if (status && !validStatuses.includes(status)) {
-      return res.status(400).json({
-        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
-      });
+    expenses.push(...(pageData || []).map(withExpenseTypeNames));
+    if (!pageData || pageData.length < pageSize) {
+      moreExpenses = false;
+    } else {
+      from += pageSize;
     }
+  }
 
-    // Validate currency if amount is provided
-    const validCurrencies = ['AED', 'USD', 'EUR'];
-    if (
-      claimed_amount &&
-      claimed_currency &&
-      !validCurrencies.includes(claimed_currency)
-    ) {
-      return res.status(400).json({
-        error: `Invalid currency. Must be one of: ${validCurrencies.join(', ')}`,
-      });
+  if (expenses.length === 0) return null;
+
+  // Report category, flight flag and income flag come from expense_types
+  const [fxRates, categoryMap, airports] = await Promise.all([
+    loadFxRates(),
+    loadExpenseCategoryMap(),
+    options.groupByCountry ? loadAirports() : Promise.resolve([]),
+  ]);
+  const airportIndex = buildAirportIndex(airports);
+
+  // Country of an expense (navigation and overfly charges are per country):
+  // its place, else the departure of its flight
+  const getExpenseCountry = (expense: any): string => {
+    const country =
+      findPlaceCountry(expense.exp_place, airportIndex) ||
+      findPlaceCountry(expense.flights?.flt_dep, airportIndex);
+    return country ? COUNTRY_NAMES[country] || country : 'Unknown country';
+  };
+
+  // Check if expense period starts before October 2025
+  const isPeriodBeforeOctober2025 = (expense: any): boolean => {
+    if (!expense.exp_period_start) {
+      return false; // If no period, don't filter it out
     }
+    const periodStart = new Date(expense.exp_period_start);
+    const october2025 = new Date('2025-10-01');
+    return periodStart < october2025;
+  };
 
-    // Validate amount if provided
-    let parsedAmount = null;
-    if (
-      claimed_amount !== undefined &&
-      claimed_amount !== null &&
-      claimed_amount !== ''
-    ) {
-      parsedAmount = parseFloat(claimed_amount);
-      if (isNaN(parsedAmount) || parsedAmount < 0) {
-        return res.status(400).json({
-          error: 'Claimed amount must be a non-negative number',
-        });
+  // Disbursement fees charged on an expense
+  const findRelatedDisbursementFees = (expense: any): any[] =>
+    expenses.filter((fee: any) => fee.parent_expense_id === expense.id);
+
+  // ATS report leaves out periods before October 2025 and their fees
+  let filteredExpenses = expenses;
+  if (options.reportForATS) {
+    const excludedExpenseIds = new Set<string>();
+    for (const expense of expenses) {
+      if (isPeriodBeforeOctober2025(expense)) {
+        excludedExpenseIds.add(expense.id);
+        findRelatedDisbursementFees(expense).forEach((fee: any) =>
+          excludedExpenseIds.add(fee.id)
+        );
       }
     }
+    filteredExpenses = expenses.filter(
+      (exp: any) => !excludedExpenseIds.has(exp.id)
+    );
+  }
 
-    // Normalize currency - set to null if empty string or not provided
-    const normalizedCurrency =
-      claimed_currency && claimed_currency.trim() !== ''
-        ? claimed_currency
-        : null;
+  // Classify expenses into income items and report rows
+  const items: ReportItem[] = [];
+  const unassigned: any[] = [];
+  for (const expense of filteredExpenses) {
+    const category = resolveExpenseCategory(categoryMap, expense);
+    const incomeType = resolveExpenseIncomeType(categoryMap, expense);
 
-    if (supabase) {
-      // Get current discrepancy data for logging
-      const { data: currentDiscrepancy, error: fetchError } = await supabase
-        .from('discrepancies')
-        .select('*')
-        .eq('id', discrepancyId)
-        .single();
+    if (incomeType) {
+      items.push({
+        expense,
+        kind: incomeType,
+        category: null,
+        group: 'flight',
+      });
+      continue;
+    }
+
+    // Skip expenses that don't belong to any category
+    if (!category?.reportCategory) {
+      unassigned.push(expense);
+      continue;
+    }
+
+    const subtype = String(expense.exp_subtype || '').trim();
+    const reportCategory =
+      options.showSubcategories && subtype
+        ? `${category.reportCategory} - ${subtype}`
+        : category.reportCategory;
+    items.push({
+      expense,
+      kind: 'expense',
+      category: options.groupByCountry
+        ? `${getExpenseCountry(expense)} / ${reportCategory}`
+        : reportCategory,
+      group: category.isFlightRelated ? 'flight' : 'nonFlight',
+    });
+  }
 
-      if (fetchError) {
-        console.log('Supabase error fetching discrepancy:', fetchError.message);
-        return res.status(404).json({ error: 'Discrepancy not found' });
-      }
+  // Sorting order comes from expense_types.report_order; when several
+  // types share a report category the lowest order wins. A subtype that
+  // overrides the category uses the order of its type.
+  const categoryOrder = new Map<string, number>();
+  const setCategoryOrder = (category: string | null, type: any) => {
+    if (!category || !type) return;
+    const order = type.report_order ?? 100;
+    const current = categoryOrder.get(category);
+    if (current === undefined || order < current) {
+      categoryOrder.set(category, order);
+    }
+  };
+  new Set(categoryMap.types.values()).forEach((type: any) =>
+    setCategoryOrder(type.report_category, type)
+  );
+  new Set(categoryMap.subtypes.values()).forEach((subtype: any) =>
+    setCategoryOrder(
+      subtype.report_category,
+      categoryMap.types.get(String(subtype.expense_type_id))
+    )
+  );
 
-      const updateData: any = {
-        created_at,
-        invoice_id,
-        description,
-        status: status || 'Created',
-        solution: solution && solution.trim() !== '' ? solution : null,
-        updated_at: new Date().toISOString(),
-      };
+  // Grouped by country: countries by name (unknown last), then categories in
+  // their usual order
+  const countries = Array.from(
+    new Set(
+      items
+        .filter(item => item.category)
+        .map(item => (item.category as string).split(' / ')[0])
+    )
+  ).sort((a, b) =>
+    a === 'Unknown country'
+      ? 1
+      : b === 'Unknown country'
+        ? -1
+        : a.localeCompare(b)
+  );
+  const countryCategoryOrder = (row: string): number => {
+    const separator = row.indexOf(' / ');
+    const country = row.slice(0, separator);
+    const category = row.slice(separator + 3);
+    return (
+      countries.indexOf(country) * 1000 + (categoryOrder.get(category) ?? 999)
+    );
+  };
 
-      // Only add claimed_amount and claimed_currency if they have values
-      if (parsedAmount !== null) {
-        updateData.claimed_amount = parsedAmount;
-        updateData.claimed_currency = normalizedCurrency;
-      } else {
-        updateData.claimed_amount = null;
-        updateData.claimed_currency = null;
-      }
+  const currentYear = String(new Date().getFullYear());
+  const yearFilter = options.year === 'current' ? currentYear : options.year;
+
+  const matrix = buildMonthlyMatrix(items, {
+    columns: MONTHLY_REPORT_COLUMNS,
+    prorate: options.prorate,
+    months:
+      options.from && options.to
+        ? monthRange(options.from, options.to)
+        : undefined,
+    monthFilter:
+      yearFilter === 'all'
+        ? undefined
+        : monthKey => monthKey.startsWith(`${yearFilter}-`),
+    convert: (amount, currency, column, monthKey) => {
+      const [y, m] = monthKey.split('-').map(Number);
+      const asOfDate = new Date(y, (m || 1) - 1, 1);
+      return convertCurrency(fxRates, amount, currency, column, asOfDate);
+    },
+    categoryOrder: options.groupByCountry
+      ? category => countryCategoryOrder(category)
+      : category => categoryOrder.get(category) ?? 999, // Unknown categories go to the end
+    withDetails: options.withDetails,
+  });
 
-      console.log(
-        'Updating discrepancy with data:',
-        JSON.stringify(updateData, null, 2)
-      );
+  return { matrix, expenses: filteredExpenses, unassigned };
+}
 
-      const { data, error } = await supabase
-        .from('discrepancies')
-        .update(updateData)
-        .eq('id', discrepancyId).select(`
-          *,
-          invoices!invoice_id (
-            id,
-            inv_number,
-            inv_date
-          )
-        `);
+// GET the monthly expenses report as JSON (same figures as the Excel export)
+app.get('/api/reports/monthly', async (req, res) => {
+  try {
+    const monthPattern = /^\d{4}-(0[1-9]|1[0-2])$/;
+    const fromMonth = req.query.from as string | undefined;
+    const toMonth = req.query.to as string | undefined;
+    const year = (req.query.year as string) || 'current';
+    const prorate = (req.query.prorate as string) || 'month';
 
-      if (error) {
-        console.error('❌ Supabase error updating discrepancy:', error);
-        console.error('Error details:', JSON.stringify(error, null, 2));
-        console.error('Error code:', error.code);
-        console.error('Error hint:', error.hint);
+    if ((fromMonth || toMonth) && !(fromMonth && toMonth)) {
+      return res
+        .status(400)
+        .json({ error: 'from and to must be given together' });
+    }
+    if (
+      fromMonth &&
+      toMonth &&
+      (!monthPattern.test(fromMonth) ||
+        !monthPattern.test(toMonth) ||
+        fromMonth > toMonth)
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'from and to must be months (YYYY-MM), from <= to' });
+    }
+    if (!['current', 'all'].includes(year) && !/^\d{4}$/.test(year)) {
+      return res
+        .status(400)
+        .json({ error: 'year must be current, all or a year (YYYY)' });
+    }
+    if (prorate !== 'month' && prorate !== 'day') {
+      return res.status(400).json({ error: 'prorate must be month or day' });
+    }
 
-        // Provide more specific error messages
-        let errorMessage = 'Failed to update discrepancy in database';
-        if (error.code === '23503') {
-          errorMessage =
-            'Invalid invoice_id: The specified invoice does not exist';
-        } else if (error.code === '23505') {
-          errorMessage = 'Duplicate entry: This discrepancy already exists';
-        } else if (error.code === '23514') {
-          errorMessage =
-            'Validation error: Invalid data format or constraint violation';
-        }
+    if (supabase) {
+      const withDetails = req.query.details === 'true';
+      const report = await buildExpensesMonthlyReport({
+        year,
+        from: fromMonth,
+        to: toMonth,
+        showSubcategories: req.query.showSubcategories === 'true',
+        reportForATS: req.query.reportForATS === 'true',
+        prorate,
+        withDetails,
+        groupByCountry: req.query.groupBy === 'country',
+      });
 
-        return res.status(500).json({
-          error: errorMessage,
-          details: error.message || 'Unknown error',
-          code: error.code || null,
+      if (!report) {
+        return res.json({
+          months: fromMonth && toMonth ? monthRange(fromMonth, toMonth) : [],
+          columns: MONTHLY_REPORT_COLUMNS,
+          prorate,
+          rows: [],
+          credit_note: {},
+          total: {},
+          charter_profit: {},
+          missing_fx_rates: [],
+          unassigned: [],
         });
       }
 
-      if (!data || !data[0]) {
-        console.error('❌ No data returned after update');
-        return res.status(500).json({
-          error: 'Failed to update discrepancy: No data returned',
-        });
-      }
+      // Expense summaries for the drill-down of each cell
+      const summary = (expense: any) => ({
+        id: expense.id,
+        exp_type: expense.exp_type,
+        exp_subtype: expense.exp_subtype,
+        exp_amount: expense.exp_amount,
+        exp_currency: expense.exp_currency,
+        exp_place: expense.exp_place,
+        exp_comments: expense.exp_comments,
+        exp_invoice: expense.exp_invoice,
+        exp_flight: expense.exp_flight,
+        exp_period_start: expense.exp_period_start,
+        exp_period_end: expense.exp_period_end,
+        invoices: expense.invoices
+          ? { id: expense.invoices.id, inv_number: expense.invoices.inv_number }
+          : null,
+        flights: expense.flights
+          ? {
+              flt_number: expense.flights.flt_number,
+              flt_date: expense.flights.flt_date,
+            }
+          : null,
+      });
 
-      // Log the activity (don't let logging errors break the flow)
-      try {
-        await logActivity(
-          'UPDATE',
-          'discrepancies',
-          discrepancyId,
-          currentDiscrepancy,
-          data[0],
-          'system',
-          req
-        );
-      } catch (logError) {
-        console.warn(
-          '⚠️ Failed to log activity (discrepancy was still updated):',
-          logError
+      let expenses: any[] | undefined;
+      if (withDetails) {
+        const detailIds = new Set(
+          (report.matrix.details || []).map(d => d.expense_id)
         );
+        expenses = report.expenses
+          .filter((e: any) => detailIds.has(e.id))
+          .map(summary);
       }
 
-      return res.status(200).json({
-        message: 'Discrepancy updated successfully',
-        data: data[0],
+      return res.json({
+        ...report.matrix,
+        unassigned: report.unassigned.map(summary),
+        ...(expenses ? { expenses } : {}),
       });
     }
 
+    // Fallback for when Supabase is not available
     return res.status(503).json({ error: 'Database not available' });
-  } catch (error: any) {
-    console.error('❌ Error updating discrepancy:', error);
-    console.error('Error stack:', error?.stack);
-    console.error('Error name:', error?.name);
-    return res.status(500).json({
-      error: 'Internal server error',
-      details:
-        process.env.NODE_ENV === 'development' ? error?.message : undefined,
-    });
+  } catch (error) {
+    console.log('Error building monthly report:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// DELETE endpoint to remove discrepancy
-app.delete('/api/discrepancies/:id', async (req, res) => {
+// Export expenses report to Excel
+app.get('/api/expenses/export-excel', authenticateSession, async (req, res) => {
   try {
-    const discrepancyId = req.params.id;
+    const yearFilter = (req.query.year as string) || 'current';
+    const showSubcategories = req.query.showSubcategories === 'true';
+    const reportForATS = req.query.reportForATS === 'true';
 
-    if (!discrepancyId) {
-      return res.status(400).json({
-        error: 'Discrepancy ID is required',
-      });
-    }
+    // Debug: log parameters
+    console.log('[Excel Export] Parameters:', {
+      yearFilter,
+      showSubcategories,
+      reportForATS,
+      showSubcategoriesRaw: req.query.showSubcategories,
+      reportForATSRaw: req.query.reportForATS,
+    });
 
-    if (supabase) {
-      // First get the discrepancy data for logging
-      const { data: discrepancy, error: fetchError } = await supabase
-        .from('discrepancies')
-        .select('*')
-        .eq('id', discrepancyId)
-        .single();
+    if (!supabase) {
+      return res.status(500).json({ error: 'Database not available' });
+    }
 
-      if (fetchError) {
-        console.log('Supabase error fetching discrepancy:', fetchError.message);
-        return res.status(404).json({ error: 'Discrepancy not found' });
-      }
+    const report = await buildExpensesMonthlyReport({
+      year: yearFilter,
+      showSubcategories,
+      reportForATS,
+      prorate: req.query.prorate === 'day' ? 'day' : 'month',
+      groupByCountry: req.query.groupBy === 'country',
+    });
 
-      const { error } = await supabase
-        .from('discrepancies')
-        .delete()
-        .eq('id', discrepancyId);
+    if (!report) {
+      return res.status(404).json({ error: 'No expenses found' });
+    }
 
-      if (error) {
-        console.log('Supabase error deleting discrepancy:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete discrepancy from database' });
-      }
+    const { matrix } = report;
+    const filteredMonths = matrix.months;
 
-      // Log the activity (don't let logging errors break the flow)
-      try {
-        await logActivity(
-          'DELETE',
-          'discrepancies',
-          discrepancyId,
-          discrepancy,
-          null,
-          'system',
-          req
-        );
-      } catch (logError) {
-        console.warn(
-          '⚠️ Failed to log activity (discrepancy was still deleted):',
-          logError
-        );
-      }
+    if (filteredMonths.length === 0) {
+      return res
+        .status(404)
+        .json({ error: 'No data available for the selected period' });
+    }
 
-      return res.status(200).json({
-        message: 'Discrepancy deleted successfully',
+    // Refuse to export figures that could not be converted
+    const missing = matrix.missing_fx_rates;
+    if (missing.length > 0) {
+      return res.status(422).json({
+        error: `Missing exchange rates: ${missing.join(', ')}. Add them in Settings → Exchange Rates.`,
+        missing,
       });
     }
 
-    return res.status(503).json({ error: 'Database not available' });
-  } catch (error) {
-    console.log('Error deleting discrepancy:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// DELETE endpoint to remove flight
-app.delete('/api/flights/:id', async (req, res) => {
-  try {
-    const flightId = req.params.id;
+    // Prepare Excel data
+    const data: any[][] = [];
 
-    if (!flightId) {
-      return res.status(400).json({
-        error: 'Flight ID is required',
+    // Header row 1
+    const headerRow1 = [
+      req.query.groupBy === 'country' ? 'Country / Category' : 'Category',
+    ];
+    filteredMonths.forEach(monthKey => {
+      const parts = monthKey.split('-');
+      const year = parseInt(parts[0] || '0', 10);
+      const month = parseInt(parts[1] || '1', 10);
+      const monthName = new Date(year, month - 1).toLocaleDateString('en-US', {
+        month: 'short',
+        year: 'numeric',
       });
-    }
-
-    if (supabase) {
-      // First get the flight data for logging
-      const { data: flight, error: fetchError } = await supabase
-        .from('flights')
-        .select('*')
-        .eq('id', flightId)
-        .single();
+      headerRow1.push(monthName, '');
+    });
+    data.push(headerRow1);
 
-      if (fetchError) {
-        console.log('Supabase error fetching flight:', fetchError.message);
-        return res.status(404).json({ error: 'Flight not found' });
-      }
+    // Header row 2
+    const headerRow2 = [''];
+    filteredMonths.forEach(() => {
+      headerRow2.push('USD', 'AED');
+    });
+    data.push(headerRow2);
 
-      const { error } = await supabase
-        .from('flights')
-        .delete()
-        .eq('id', flightId);
+    // Helper function to add one matrix row to the sheet
+    const pushMatrixRow = (label: string, values: MonthlyMatrix['total']) => {
+      const row: any[] = [label];
+      filteredMonths.forEach(monthKey => {
+        row.push(values[monthKey].USD, values[monthKey].AED);
+      });
+      data.push(row);
+    };
 
-      if (error) {
-        console.log('Supabase error deleting flight:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete flight from database' });
-      }
+    // Category rows (already in report order)
+    matrix.rows.forEach(({ category, values }) =>
+      pushMatrixRow(category, values)
+    );
 
-      // Log the activity
-      await logActivity(
-        'DELETE',
-        'flights',
-        flightId,
-        flight,
-        null,
-        'system',
-        req
-      );
+    // Credit note row (before Total), Total = regular expenses - Credit note,
+    // Charter profit row (after Total)
+    pushMatrixRow('Credit note', matrix.credit_note);
+    pushMatrixRow('Total', matrix.total);
+    pushMatrixRow('Charter profit', matrix.charter_profit);
 
-      return res.status(200).json({
-        message: 'Flight deleted successfully',
-      });
-    }
+    // Create workbook
+    const wb = XLSX.utils.book_new();
+    const ws = XLSX.utils.aoa_to_sheet(data);
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
+    // Set column widths
+    const colWidths = [{ wch: 25 }];
+    filteredMonths.forEach(() => {
+      colWidths.push({ wch: 15 }, { wch: 15 });
     });
-  } catch (error) {
-    console.log('Error deleting flight:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
-  }
-});
-
-// PATCH endpoint to update flight status
-app.patch('/api/flights/:id/status', authenticateToken, async (req, res) => {
-  try {
-    const flightId = req.params.id;
-    const { flt_status } = req.body;
+    ws['!cols'] = colWidths;
 
-    if (!flightId) {
-      return res.status(400).json({
-        error: 'Flight ID is required',
-      });
-    }
+    // Apply currency formatting to USD and AED columns
+    const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
 
-    // Validate status
-    const validStatuses = ['Planned', 'Completed', 'Invoiced', 'Cancelled'];
-    if (!flt_status || !validStatuses.includes(flt_status)) {
-      return res.status(400).json({
-        error: `Status is required and must be one of: ${validStatuses.join(', ')}`,
-      });
+    // Format header rows (bold)
+    for (let row = 0; row <= 1; row++) {
+      for (let col = 0; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!ws[cellAddress]) continue;
+        if (!ws[cellAddress].s) ws[cellAddress].s = {};
+        ws[cellAddress].s.font = { bold: true };
+        ws[cellAddress].s.fill = { fgColor: { rgb: 'E5E7EB' } };
+        ws[cellAddress].s.alignment = {
+          horizontal: 'center',
+          vertical: 'center',
+        };
+      }
     }
 
-    if (supabase) {
-      // First get the current flight data for logging
-      const { data: oldFlight, error: fetchError } = await supabase
-        .from('flights')
-        .select('*')
-        .eq('id', flightId)
-        .single();
+    // Format data rows with currency formatting
+    for (let row = 2; row <= range.e.r; row++) {
+      for (let col = 1; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!ws[cellAddress]) continue;
 
-      if (fetchError || !oldFlight) {
-        console.log('Supabase error fetching flight:', fetchError?.message);
-        return res.status(404).json({ error: 'Flight not found' });
-      }
+        // Determine if this is USD or AED column
+        // USD columns are odd (1, 3, 5, ...), AED columns are even (2, 4, 6, ...)
+        const isUSD = col % 2 === 1;
 
-      // Update the status
-      const { data: updatedFlight, error: updateError } = await supabase
-        .from('flights')
-        .update({ flt_status })
-        .eq('id', flightId)
-        .select()
-        .single();
+        if (typeof ws[cellAddress].v === 'number') {
+          // Apply currency format using 'z' property (number format string)
+          // Format syntax: [Red] for colors, # for digits, 0 for required digits
+          if (isUSD) {
+            // USD format: $#,##0.00
+            ws[cellAddress].z = '$#,##0.00';
+            // Also set in style for compatibility
+            if (!ws[cellAddress].s) ws[cellAddress].s = {};
+            ws[cellAddress].s.numFmt = '$#,##0.00';
+          } else {
+            // AED format: #,##0.00 with thousands separator (dirhams)
+            // Using standard number format for AED
+            ws[cellAddress].z = '#,##0.00';
+            // Also set in style for compatibility
+            if (!ws[cellAddress].s) ws[cellAddress].s = {};
+            ws[cellAddress].s.numFmt = '#,##0.00';
+          }
 
-      if (updateError) {
-        console.log(
-          'Supabase error updating flight status:',
-          updateError.message
-        );
-        return res
-          .status(500)
-          .json({ error: 'Failed to update flight status' });
+          // Apply styling
+          if (!ws[cellAddress].s) ws[cellAddress].s = {};
+          ws[cellAddress].s.alignment = {
+            horizontal: 'right',
+            vertical: 'center',
+          };
+        }
       }
-
-      // Log the activity
-      await logActivity(
-        'UPDATE',
-        'flights',
-        flightId,
-        oldFlight,
-        updatedFlight,
-        'system',
-        req
-      );
-
-      return res.status(200).json({
-        message: 'Flight status updated successfully',
-        data: updatedFlight,
-      });
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
-  } catch (error) {
-    console.log('Error updating flight status:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// DELETE endpoint to remove expense
-app.delete('/api/expenses/:id', async (req, res) => {
-  try {
-    const expenseId = req.params.id;
+    // Format Credit note, Total, and Charter profit rows (bold with background)
+    // Find row indices: Credit note is before Total, Charter profit is after Total
+    const creditNoteRowIndex = data.findIndex(row => row[0] === 'Credit note');
+    const totalRowIndex = data.findIndex(row => row[0] === 'Total');
+    const charterProfitRowIndex = data.findIndex(
+      row => row[0] === 'Charter profit'
+    );
 
-    if (!expenseId) {
-      return res.status(400).json({
-        error: 'Expense ID is required',
-      });
-    }
+    // Format Credit note row
+    if (creditNoteRowIndex >= 0) {
+      for (let col = 0; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({
+          r: creditNoteRowIndex,
+          c: col,
+        });
+        if (!ws[cellAddress]) continue;
 
-    if (supabase) {
-      // First get the expense data for logging and to find related disbursement fee
-      const { data: expense, error: fetchError } = await supabase
-        .from('expenses')
-        .select('*')
-        .eq('id', expenseId)
-        .single();
+        if (!ws[cellAddress].s) ws[cellAddress].s = {};
+        ws[cellAddress].s.font = { bold: false };
+        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
 
-      if (fetchError) {
-        console.log('Supabase error fetching expense:', fetchError.message);
-        return res.status(404).json({ error: 'Expense not found' });
+        if (col > 0 && typeof ws[cellAddress].v === 'number') {
+          const isUSD = col % 2 === 1;
+          if (isUSD) {
+            ws[cellAddress].z = '$#,##0.00';
+            ws[cellAddress].s.numFmt = '$#,##0.00';
+          } else {
+            ws[cellAddress].z = '#,##0.00';
+            ws[cellAddress].s.numFmt = '#,##0.00';
+          }
+          ws[cellAddress].s.alignment = {
+            horizontal: 'right',
+            vertical: 'center',
+          };
+        }
       }
+    }
 
-      // Find related disbursement fee expense
-      // Disbursement fee is linked by: same invoice, same flight (if exists), same period (if exists)
-      // and type is Disbursement fee
-      let disbursementFeeId = null;
-
-      // Get Disbursement fee type ID
-      const { data: disbursementType } = await supabase
-        .from('expense_types')
-        .select('id')
-        .ilike('name', '%disbursement%')
-        .single();
-
-      if (disbursementType) {
-        // Build query to find disbursement fee
-        let query = supabase
-          .from('expenses')
-          .select('id')
-          .eq('exp_invoice', expense.exp_invoice)
-          .eq('exp_type', disbursementType.id);
-
-        // Match by flight if exists
-        if (expense.exp_flight) {
-          query = query.eq('exp_flight', expense.exp_flight);
-        } else {
-          query = query.is('exp_flight', null);
-        }
+    // Format Total row
+    if (totalRowIndex >= 0) {
+      for (let col = 0; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({
+          r: totalRowIndex,
+          c: col,
+        });
+        if (!ws[cellAddress]) continue;
 
-        // Match by period if exists
-        if (expense.exp_period_start && expense.exp_period_end) {
-          query = query
-            .eq('exp_period_start', expense.exp_period_start)
-            .eq('exp_period_end', expense.exp_period_end);
-        } else {
-          query = query.is('exp_period_start', null).is('exp_period_end', null);
-        }
+        if (!ws[cellAddress].s) ws[cellAddress].s = {};
+        ws[cellAddress].s.font = { bold: true };
+        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
 
-        // Match by place if exists
-        if (expense.exp_place) {
-          query = query.eq('exp_place', expense.exp_place);
-        } else {
-          query = query.is('exp_place', null);
+        if (col > 0 && typeof ws[cellAddress].v === 'number') {
+          const isUSD = col % 2 === 1;
+          if (isUSD) {
+            ws[cellAddress].z = '$#,##0.00';
+            ws[cellAddress].s.numFmt = '$#,##0.00';
+          } else {
+            ws[cellAddress].z = '#,##0.00';
+            ws[cellAddress].s.numFmt = '#,##0.00';
+          }
+          ws[cellAddress].s.alignment = {
+            horizontal: 'right',
+            vertical: 'center',
+          };
         }
+      }
+    }
 
-        // Also check if comments contain information about this expense
-        // Format: "Type - Subtype, Amount Currency, Period/Flight"
-        const { data: disbursementFees } = await query;
-
-        if (disbursementFees && disbursementFees.length > 0) {
-          // Check comments to find the exact match
-          for (const fee of disbursementFees) {
-            const { data: feeData } = await supabase
-              .from('expenses')
-              .select('exp_comments, exp_amount, exp_currency')
-              .eq('id', fee.id)
-              .single();
+    // Format Charter profit row
+    if (charterProfitRowIndex >= 0) {
+      for (let col = 0; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({
+          r: charterProfitRowIndex,
+          c: col,
+        });
+        if (!ws[cellAddress]) continue;
 
-            if (feeData && feeData.exp_comments) {
-              // Check if comment contains amount and currency from original expense
-              const amountStr = parseFloat(expense.exp_amount).toFixed(2);
-              const currencyStr = expense.exp_currency || 'AED';
-              if (
-                feeData.exp_comments.includes(amountStr) &&
-                feeData.exp_comments.includes(currencyStr)
-              ) {
-                disbursementFeeId = fee.id;
-                break;
-              }
-            }
-          }
+        if (!ws[cellAddress].s) ws[cellAddress].s = {};
+        ws[cellAddress].s.font = { bold: false };
+        ws[cellAddress].s.fill = { fgColor: { rgb: 'F3F4F6' } };
 
-          // If no exact match found by comment, use first match
-          if (!disbursementFeeId && disbursementFees.length > 0) {
-            disbursementFeeId = disbursementFees[0].id;
+        if (col > 0 && typeof ws[cellAddress].v === 'number') {
+          const isUSD = col % 2 === 1;
+          if (isUSD) {
+            ws[cellAddress].z = '$#,##0.00';
+            ws[cellAddress].s.numFmt = '$#,##0.00';
+          } else {
+            ws[cellAddress].z = '#,##0.00';
+            ws[cellAddress].s.numFmt = '#,##0.00';
           }
+          ws[cellAddress].s.alignment = {
+            horizontal: 'right',
+            vertical: 'center',
+          };
         }
       }
+    }
 
-      // Delete disbursement fee first if found
-      if (disbursementFeeId) {
-        const { error: feeDeleteError } = await supabase
-          .from('expenses')
-          .delete()
-          .eq('id', disbursementFeeId);
-
-        if (feeDeleteError) {
-          console.log(
-            'Supabase error deleting disbursement fee:',
-            feeDeleteError.message
-          );
-          // Continue with main expense deletion even if fee deletion fails
-        }
-      }
+    // Add worksheet
+    XLSX.utils.book_append_sheet(wb, ws, 'Expenses Report');
 
-      // Delete the main expense
-      const { error } = await supabase
+    // Generate filename (ensure proper encoding)
+    const dateStr = new Date().toISOString().split('T')[0];
+    const filename = `Expenses_Report_${yearFilter === 'all' ? 'AllYears' : yearFilter}_${dateStr}.xlsx`;
+
+    // Set headers for file download (use filename* for proper encoding)
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    );
+
+    // Send file with cell styles enabled
+    const buffer = XLSX.write(wb, {
+      type: 'buffer',
+      bookType: 'xlsx',
+      cellStyles: true,
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error exporting expenses to Excel:', error);
+    res.status(500).json({ error: 'Failed to export expenses to Excel' });
+  }
+});
+
+app.get('/api/invoices/:id/expenses', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+
+    if (supabase) {
+      const { data, error } = await supabase
         .from('expenses')
-        .delete()
-        .eq('id', expenseId);
+        .select(
+          `
+          *,
+          invoices!exp_invoice (
+            inv_number
+          ),
+          flights!exp_flight (
+            flt_number,
+            flt_date,
+            flt_dep,
+            flt_arr
+          ),
+          ${EXPENSE_TYPE_JOINS}
+        `
+        )
+        .eq('exp_invoice', invoiceId)
+        .order('exp_invoice_type_id', { ascending: true });
 
       if (error) {
-        console.log('Supabase error deleting expense:', error.message);
-        return res
-          .status(500)
-          .json({ error: 'Failed to delete expense from database' });
+        console.log('Supabase error fetching invoice expenses:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch expenses' });
       }
 
-      // Log the activity
-      await logActivity(
-        'DELETE',
-        'expenses',
-        expenseId,
-        expense,
-        null,
-        'system',
-        req
-      );
-
-      return res.status(200).json({
-        message: 'Expense deleted successfully',
-        disbursementFeeDeleted: !!disbursementFeeId,
-      });
+      // Type names come from the joined type rows
+      return res.json((data || []).map(withExpenseTypeNames));
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    res.status(500).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error deleting expense:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error fetching invoice expenses:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST endpoint to add new expense
-app.post('/api/expenses', async (req, res) => {
-  try {
-    const {
-      exp_type,
-      exp_place,
-      exp_amount,
-      exp_period_start,
-      exp_period_end,
-      exp_fuel_quan,
-      exp_fuel_provider,
-      exp_invoice_type,
-      exp_invoice,
-      exp_flight,
-      exp_comments,
-      exp_currency,
-      exp_subtype,
-    } = req.body;
+// ---------- Invoice Lifecycle ----------
+// received → entered → approved → scheduled → paid. An invoice is "entered"
+// once its expense lines are in (inv_filled); "paid" follows inv_paid, which
+// bank transaction matching also sets.
+const INVOICE_LIFECYCLE = [
+  'received',
+  'entered',
+  'approved',
+  'scheduled',
+  'paid',
+] as const;
+
+type InvoiceLifecycleStatus = (typeof INVOICE_LIFECYCLE)[number];
+
+// Helper function to get the position of an invoice in its lifecycle
+function getInvoiceLifecycleIndex(status: string | null | undefined): number {
+  return Math.max(
+    INVOICE_LIFECYCLE.indexOf((status || 'received') as InvoiceLifecycleStatus),
+    0
+  );
+}
 
-    // Get type and subtype names from IDs
-    let expTypeName = null;
-    let expSubtypeName = null;
-    let expInvoiceTypeName = null;
+// Helper function to work out the stage of an invoice that is not (or no
+// longer) paid from what it has been through
+function getUnpaidInvoiceStatus(invoice: any): InvoiceLifecycleStatus {
+  if (invoice.inv_payment_date) return 'scheduled';
+  if (invoice.inv_approved_at) return 'approved';
+  if (invoice.inv_filled) return 'entered';
+  return 'received';
+}
 
-    if (exp_type && supabase) {
-      const { data: typeData } = await supabase
-        .from('expense_types')
-        .select('name')
-        .eq('id', exp_type)
-        .single();
-      expTypeName = typeData?.name || null;
-    }
+// Helper function to check whether an unpaid invoice is past its due date
+function getInvoiceDaysOverdue(invoice: any, today = new Date()): number {
+  if (!invoice.inv_due_date || invoice.inv_status === 'paid') return 0;
+  if (invoice.inv_paid) return 0;
 
-    if (exp_subtype && supabase) {
-      const { data: subtypeData } = await supabase
-        .from('expense_subtypes')
-        .select('name')
-        .eq('id', exp_subtype)
-        .single();
-      expSubtypeName = subtypeData?.name || null;
-    }
+  const todayKey = today.toISOString().slice(0, 10);
+  const days = Math.floor(
+    (Date.parse(todayKey) - Date.parse(invoice.inv_due_date)) / 86400000
+  );
+  return days > 0 ? days : 0;
+}
 
-    if (exp_invoice_type && supabase) {
-      const { data: invoiceTypeData } = await supabase
-        .from('invoice_types')
-        .select('name')
-        .eq('id', exp_invoice_type)
-        .single();
-      expInvoiceTypeName = invoiceTypeData?.name || null;
-    }
+// Helper function to add lifecycle info (next stage, overdue days) to an invoice
+function withInvoiceLifecycle(invoice: any) {
+  const index = getInvoiceLifecycleIndex(invoice.inv_status);
+  const daysOverdue = getInvoiceDaysOverdue(invoice);
+  return {
+    ...invoice,
+    inv_status: INVOICE_LIFECYCLE[index],
+    next_status: INVOICE_LIFECYCLE[index + 1] || null,
+    is_overdue: daysOverdue > 0,
+    days_overdue: daysOverdue,
+  };
+}
 
-    // Validate required fields (all are optional according to requirements)
-    // But we'll validate data types if provided
+// Helper function to find the payment terms (days) of a supplier, or the
+// default terms when it has none
+async function findPaymentTermsDays(
+  supplierId: string | null
+): Promise<number> {
+  if (supplierId && supabase) {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('payment_terms_days')
+      .eq('id', supplierId)
+      .maybeSingle();
 
-    if (exp_amount && isNaN(parseFloat(exp_amount))) {
-      return res.status(400).json({
-        error: 'Amount must be a valid number',
-      });
+    if (error) {
+      console.log('Supabase error fetching payment terms:', error.message);
+    } else if (data && data.payment_terms_days !== null) {
+      return Number(data.payment_terms_days);
     }
+  }
 
-    if (exp_fuel_quan && isNaN(parseFloat(exp_fuel_quan))) {
+  return DEFAULT_PAYMENT_TERMS_DAYS;
+}
+
+// Helper function to work out an invoice due date: a date sent with the
+// invoice wins, otherwise the invoice date plus the supplier payment terms
+async function resolveInvoiceDueDate(
+  invDate: string,
+  supplierId: string | null,
+  dueDateInput: unknown
+): Promise<{
+  data?: { inv_due_date: string | null; inv_payment_terms_days: number | null };
+  error?: string;
+}> {
+  const dueDate = String(dueDateInput ?? '').trim();
+  if (dueDate) {
+    if (isNaN(Date.parse(dueDate))) {
+      return { error: 'Due date must be a valid date' };
+    }
+    if (dueDate < String(invDate).slice(0, 10)) {
+      return { error: 'Due date cannot be before the invoice date' };
+    }
+    return { data: { inv_due_date: dueDate, inv_payment_terms_days: null } };
+  }
+
+  const termsDays = await findPaymentTermsDays(supplierId);
+  if (isNaN(Date.parse(invDate))) {
+    return { data: { inv_due_date: null, inv_payment_terms_days: null } };
+  }
+
+  const due = new Date(String(invDate).slice(0, 10));
+  due.setUTCDate(due.getUTCDate() + termsDays);
+  return {
+    data: {
+      inv_due_date: due.toISOString().slice(0, 10),
+      inv_payment_terms_days: termsDays,
+    },
+  };
+}
+
+// PUT move an invoice through its lifecycle. Forward moves go one stage at a
+// time; moving back to an earlier stage needs a reason and clears what the
+// later stages recorded.
+app.put('/api/invoices/:id/lifecycle', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+    const { status, payment_date, paid_date, reason } = req.body;
+
+    if (!INVOICE_LIFECYCLE.includes(status)) {
       return res.status(400).json({
-        error: 'Fuel quantity must be a valid number',
+        error: `Status must be one of: ${INVOICE_LIFECYCLE.join(', ')}`,
       });
     }
 
-    // Validate period dates
-    if (exp_period_start && exp_period_start.trim() !== '') {
-      const periodStartDate =
-        exp_period_start.includes('-') && exp_period_start.length === 7
-          ? `${exp_period_start}-01`
-          : exp_period_start;
+    if (supabase) {
+      const { data: currentInvoice, error: fetchError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .single();
 
-      if (isNaN(Date.parse(periodStartDate))) {
-        return res.status(400).json({
-          error: 'Invalid period start date format',
-        });
+      if (fetchError || !currentInvoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
       }
-    }
 
-    if (exp_period_end && exp_period_end.trim() !== '') {
-      const periodEndDate =
-        exp_period_end.includes('-') && exp_period_end.length === 7
-          ? `${exp_period_end}-01`
-          : exp_period_end;
+      const fromIndex = getInvoiceLifecycleIndex(currentInvoice.inv_status);
+      const fromStatus = INVOICE_LIFECYCLE[fromIndex];
+      const toIndex = getInvoiceLifecycleIndex(status);
 
-      if (isNaN(Date.parse(periodEndDate))) {
-        return res.status(400).json({
-          error: 'Invalid period end date format',
+      if (fromIndex === toIndex) {
+        return res.json(withInvoiceLifecycle(currentInvoice));
+      }
+
+      const updateData: any = { inv_status: status };
+
+      if (toIndex > fromIndex + 1) {
+        return res.status(409).json({
+          error: `Invoice cannot move from ${fromStatus} to ${status}; it is ${INVOICE_LIFECYCLE[fromIndex + 1]} next`,
         });
       }
-    }
 
-    // Check period length constraint (likely max 12 months)
-    if (
-      exp_period_start &&
-      exp_period_end &&
-      exp_period_start.trim() !== '' &&
-      exp_period_end.trim() !== ''
-    ) {
-      const startDate =
-        exp_period_start.includes('-') && exp_period_start.length === 7
-          ? `${exp_period_start}-01`
-          : exp_period_start;
+      if (toIndex < fromIndex) {
+        const backReason = typeof reason === 'string' ? reason.trim() : '';
+        if (!backReason) {
+          return res.status(400).json({
+            error: `Provide a reason to move the invoice back from ${fromStatus} to ${status}`,
+          });
+        }
 
-      const endDate =
-        exp_period_end.includes('-') && exp_period_end.length === 7
-          ? exp_period_start === exp_period_end
-            ? `${getNextMonth(exp_period_end)}-01`
-            : `${exp_period_end}-01`
-          : exp_period_end;
+        updateData.inv_status_reason = backReason;
+        if (toIndex < getInvoiceLifecycleIndex('paid')) {
+          updateData.inv_paid = false;
+          updateData.inv_paid_date = null;
+          updateData.inv_paid_source = null;
+        }
+        if (toIndex < getInvoiceLifecycleIndex('scheduled')) {
+          updateData.inv_payment_date = null;
+        }
+        if (toIndex < getInvoiceLifecycleIndex('approved')) {
+          updateData.inv_approved_by = null;
+          updateData.inv_approved_at = null;
+        }
+        if (toIndex < getInvoiceLifecycleIndex('entered')) {
+          updateData.inv_filled = false;
+          updateData.inv_filled_override_reason = null;
+          updateData.inv_filled_override_by = null;
+          updateData.inv_filled_override_at = null;
+        }
+      } else {
+        updateData.inv_status_reason = null;
 
-      const start = new Date(startDate);
-      const end = new Date(endDate);
+        if (status === 'entered' && !currentInvoice.inv_filled) {
+          return res.status(409).json({
+            error:
+              'Mark the invoice as filled first; its expense lines are checked against the total',
+          });
+        }
 
-      // Calculate months difference
-      const monthsDiff =
-        (end.getFullYear() - start.getFullYear()) * 12 +
-        (end.getMonth() - start.getMonth());
+        if (status === 'approved') {
+          const actingUser = getActingUser(req);
+          updateData.inv_approved_by = actingUser?.email || null;
+          updateData.inv_approved_at = new Date().toISOString();
+        }
 
-      console.log('🔍 PERIOD LENGTH CHECK:', {
-        startDate,
-        endDate,
-        monthsDiff,
-        constraint: 'expenses_period_months_chk',
-      });
+        if (status === 'scheduled') {
+          const paymentDate = String(payment_date ?? '').trim();
+          if (!paymentDate || isNaN(Date.parse(paymentDate))) {
+            return res.status(400).json({
+              error: 'payment_date is required to schedule the payment',
+            });
+          }
+          updateData.inv_payment_date = paymentDate;
+        }
 
-      // If period is too long, return error
-      if (monthsDiff > 12) {
-        return res.status(400).json({
-          error: `Period too long: ${monthsDiff} months. Maximum allowed period is 12 months.`,
-        });
+        if (status === 'paid') {
+          const paidDate =
+            String(paid_date ?? '').trim() ||
+            new Date().toISOString().slice(0, 10);
+          if (isNaN(Date.parse(paidDate))) {
+            return res
+              .status(400)
+              .json({ error: 'paid_date must be a valid date' });
+          }
+          updateData.inv_paid = true;
+          updateData.inv_paid_date = paidDate;
+          updateData.inv_paid_source = 'manual';
+        }
       }
-    }
 
-    if (supabase) {
-      // Debug logging for period dates
-      console.log('🔍 PERIOD DEBUG:', {
-        exp_period_start,
-        exp_period_end,
-        start_processed:
-          exp_period_start && exp_period_start.trim() !== ''
-            ? exp_period_start.includes('-') && exp_period_start.length === 7
-              ? `${exp_period_start}-01`
-              : exp_period_start
-            : null,
-        end_processed:
-          exp_period_end && exp_period_end.trim() !== ''
-            ? exp_period_end.includes('-') && exp_period_end.length === 7
-              ? exp_period_start === exp_period_end
-                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
-                : `${exp_period_end}-01` // For multi-month, use first day of the end month
-              : exp_period_end
-            : null,
-      });
-
-      const expenseData = {
-        exp_type: expTypeName || null,
-        exp_place: exp_place || null,
-        exp_amount: exp_amount ? parseFloat(exp_amount) : null,
-        exp_period_start:
-          exp_period_start && exp_period_start.trim() !== ''
-            ? exp_period_start.includes('-') && exp_period_start.length === 7
-              ? `${exp_period_start}-01`
-              : exp_period_start
-            : null,
-        exp_period_end:
-          exp_period_end && exp_period_end.trim() !== ''
-            ? exp_period_end.includes('-') && exp_period_end.length === 7
-              ? exp_period_start === exp_period_end
-                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
-                : `${exp_period_end}-01` // For multi-month, use first day of the end month
-              : exp_period_end
-            : null,
-        exp_fuel_quan: exp_fuel_quan ? parseFloat(exp_fuel_quan) : null,
-        exp_fuel_provider: exp_fuel_provider || null,
-        exp_invoice_type: expInvoiceTypeName || null,
-        exp_invoice: exp_invoice || null,
-        exp_flight: exp_flight || null,
-        exp_comments: exp_comments || null,
-        exp_currency: exp_currency || null,
-        exp_subtype: expSubtypeName || null,
-      };
-
-      console.log('🔍 EXPENSE DATA TO INSERT:', expenseData);
-
-      const { data, error } = await supabase
-        .from('expenses')
-        .insert([expenseData])
-        .select();
+      const { data, error } = await supabase
+        .from('invoices')
+        .update(updateData)
+        .eq('id', invoiceId)
+        .select()
+        .single();
 
       if (error) {
-        console.log('Supabase error adding expense:', error.message);
-        console.log('🔍 FULL ERROR:', error);
+        console.log(
+          'Supabase error updating invoice lifecycle:',
+          error.message
+        );
         return res
           .status(500)
-          .json({ error: 'Failed to add expense to database' });
+          .json({ error: 'Failed to update invoice lifecycle' });
       }
 
       // Log the activity
       await logActivity(
-        'CREATE',
-        'expenses',
-        data[0].id,
-        null,
-        data[0],
-        'system',
+        'UPDATE',
+        'invoices',
+        invoiceId,
+        currentInvoice,
+        data,
         req
       );
 
-      return res.status(201).json({
-        message: 'Expense added successfully',
-        data: data[0],
-      });
+      return res.json(withInvoiceLifecycle(data));
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error adding expense:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error updating invoice lifecycle:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT endpoint to update existing expense
-app.put('/api/expenses/:id', async (req, res) => {
-  try {
-    const expenseId = req.params.id;
-    const {
-      exp_type,
-      exp_place,
-      exp_amount,
-      exp_period_start,
-      exp_period_end,
-      exp_fuel_quan,
-      exp_fuel_provider,
-      exp_invoice_type,
-      exp_invoice,
-      exp_flight,
-      exp_comments,
-      exp_currency,
-      exp_subtype,
-      update_disbursement_fee,
-    } = req.body;
+// ---------- Invoice Reconciliation ----------
+// Largest difference (in the invoice currency) still treated as matching
+const INVOICE_RECONCILIATION_TOLERANCE = 0.01;
+
+interface InvoiceReconciliation {
+  invoice_id: string;
+  inv_amount: number;
+  inv_currency: string;
+  currencies: Array<{
+    currency: string;
+    lines_count: number;
+    invoice_amount: number;
+    lines_amount: number;
+    difference: number;
+  }>;
+  lines_total: number; // all lines, in the invoice currency
+  difference: number; // inv_amount - lines_total
+  missing_fx_rates: string[];
+  is_reconciled: boolean;
+}
 
-    // Get type and subtype names from IDs
-    let expTypeName = null;
-    let expSubtypeName = null;
-    let expInvoiceTypeName = null;
+// Helper function to compare an invoice total with the sum of its expense
+// lines, per currency and converted into the invoice currency
+async function reconcileInvoice(invoice: any): Promise<InvoiceReconciliation> {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const invCurrency = String(invoice.inv_currency || 'AED').toUpperCase();
+  const invAmount = parseFloat(invoice.inv_amount) || 0;
 
-    if (exp_type && supabase) {
-      const { data: typeData } = await supabase
-        .from('expense_types')
-        .select('name')
-        .eq('id', exp_type)
-        .single();
-      expTypeName = typeData?.name || null;
+  let lines: any[] = [];
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('expenses')
+      .select('exp_amount, exp_currency')
+      .eq('exp_invoice', invoice.id);
+
+    if (error) {
+      throw new Error(`Failed to fetch invoice expenses: ${error.message}`);
     }
+    lines = data || [];
+  }
 
-    if (exp_subtype && supabase) {
-      const { data: subtypeData } = await supabase
-        .from('expense_subtypes')
-        .select('name')
-        .eq('id', exp_subtype)
-        .single();
-      expSubtypeName = subtypeData?.name || null;
+  const byCurrency = new Map<string, { count: number; amount: number }>();
+  byCurrency.set(invCurrency, { count: 0, amount: 0 });
+  for (const line of lines) {
+    const currency = String(line.exp_currency || invCurrency).toUpperCase();
+    const entry = byCurrency.get(currency) || { count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount += parseFloat(line.exp_amount) || 0;
+    byCurrency.set(currency, entry);
+  }
+
+  // Lines in other currencies count at the rate in force on the invoice date
+  const fxRates = await loadFxRates();
+  const asOfDate = new Date(invoice.inv_date || Date.now());
+  const missingFxRates: string[] = [];
+  let linesTotal = 0;
+
+  const currencies = Array.from(byCurrency.entries()).map(
+    ([currency, { count, amount }]) => {
+      const converted = convertCurrency(
+        fxRates,
+        amount,
+        currency,
+        invCurrency,
+        asOfDate
+      );
+      if (converted !== null) {
+        linesTotal += converted;
+      } else {
+        missingFxRates.push(
+          `${currency} → ${invCurrency} (${toMonthKey(asOfDate)})`
+        );
+      }
+
+      const invoiceAmount = currency === invCurrency ? invAmount : 0;
+      return {
+        currency,
+        lines_count: count,
+        invoice_amount: round(invoiceAmount),
+        lines_amount: round(amount),
+        difference: round(invoiceAmount - amount),
+      };
     }
+  );
 
-    if (exp_invoice_type && supabase) {
-      const { data: invoiceTypeData } = await supabase
-        .from('invoice_types')
-        .select('name')
-        .eq('id', exp_invoice_type)
+  const difference = round(invAmount - linesTotal);
+
+  return {
+    invoice_id: invoice.id,
+    inv_amount: round(invAmount),
+    inv_currency: invCurrency,
+    currencies,
+    lines_total: round(linesTotal),
+    difference,
+    missing_fx_rates: missingFxRates,
+    is_reconciled:
+      missingFxRates.length === 0 &&
+      Math.abs(difference) <= INVOICE_RECONCILIATION_TOLERANCE,
+  };
+}
+
+// GET reconciliation of an invoice total against its expense lines
+app.get('/api/invoices/:id/reconciliation', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+
+    if (supabase) {
+      const { data: invoice, error } = await supabase
+        .from('invoices')
+        .select('id, inv_date, inv_amount, inv_currency')
+        .eq('id', invoiceId)
         .single();
-      expInvoiceTypeName = invoiceTypeData?.name || null;
-    }
 
-    // Validate required fields (all are optional according to requirements)
-    // But we'll validate data types if provided
+      if (error || !invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
 
-    if (exp_amount && isNaN(parseFloat(exp_amount))) {
-      return res.status(400).json({
-        error: 'Amount must be a valid number',
-      });
+      return res.json(await reconcileInvoice(invoice));
     }
 
-    if (exp_fuel_quan && isNaN(parseFloat(exp_fuel_quan))) {
-      return res.status(400).json({
-        error: 'Fuel quantity must be a valid number',
-      });
-    }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error reconciling invoice:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Validate period dates
-    if (exp_period_start && exp_period_start.trim() !== '') {
-      const periodStartDate =
-        exp_period_start.includes('-') && exp_period_start.length === 7
-          ? `${exp_period_start}-01`
-          : exp_period_start;
+// ---------- Invoice Attachments ----------
 
-      if (isNaN(Date.parse(periodStartDate))) {
-        return res.status(400).json({
-          error: 'Invalid period start date format',
-        });
+// GET attachment list of an invoice (metadata only)
+app.get('/api/invoices/:id/attachments', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('invoice_attachments')
+        .select(`invoice_id, ${ATTACHMENT_COLUMNS}`)
+        .eq('invoice_id', req.params.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.log('Supabase error fetching attachments:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch attachments' });
       }
+
+      return res.json(data || []);
     }
 
-    if (exp_period_end && exp_period_end.trim() !== '') {
-      const periodEndDate =
-        exp_period_end.includes('-') && exp_period_end.length === 7
-          ? `${exp_period_end}-01`
-          : exp_period_end;
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching invoice attachments:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      if (isNaN(Date.parse(periodEndDate))) {
-        return res.status(400).json({
-          error: 'Invalid period end date format',
-        });
+// GET attachment file (served inline for the preview)
+app.get('/api/invoices/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const { id: invoiceId, attachmentId } = req.params;
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('invoice_attachments')
+        .select('file_name, content_type, storage_path')
+        .eq('id', attachmentId)
+        .eq('invoice_id', invoiceId)
+        .single();
+
+      if (error || !data) {
+        return res.status(404).json({ error: 'Attachment not found' });
       }
+
+      return sendAttachment(res, data, await readAttachmentContent(data));
     }
 
-    // Check period length constraint (likely max 12 months)
-    if (
-      exp_period_start &&
-      exp_period_end &&
-      exp_period_start.trim() !== '' &&
-      exp_period_end.trim() !== ''
-    ) {
-      const startDate =
-        exp_period_start.includes('-') && exp_period_start.length === 7
-          ? `${exp_period_start}-01`
-          : exp_period_start;
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error downloading invoice attachment:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      const endDate =
-        exp_period_end.includes('-') && exp_period_end.length === 7
-          ? exp_period_start === exp_period_end
-            ? `${getNextMonth(exp_period_end)}-01`
-            : `${exp_period_end}-01`
-          : exp_period_end;
+// POST upload an attachment as base64 JSON { file_name, content_type, content }
+app.post('/api/invoices/:id/attachments', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+    const {
+      data: upload,
+      error: validationError,
+      status,
+    } = parseAttachmentUpload(req.body);
 
-      const start = new Date(startDate);
-      const end = new Date(endDate);
+    if (validationError || !upload) {
+      return res.status(status || 400).json({ error: validationError });
+    }
 
-      // Calculate months difference
-      const monthsDiff =
-        (end.getFullYear() - start.getFullYear()) * 12 +
-        (end.getMonth() - start.getMonth());
+    if (supabase) {
+      if (!attachmentStorage) {
+        return res
+          .status(503)
+          .json({ error: 'Attachment storage not available' });
+      }
 
-      console.log('🔍 PERIOD LENGTH CHECK (UPDATE):', {
-        startDate,
-        endDate,
-        monthsDiff,
-        constraint: 'expenses_period_months_chk',
-      });
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('id')
+        .eq('id', invoiceId)
+        .single();
 
-      // If period is too long, return error
-      if (monthsDiff > 12) {
-        return res.status(400).json({
-          error: `Period too long: ${monthsDiff} months. Maximum allowed period is 12 months.`,
-        });
+      if (invoiceError || !invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      const attachmentId = randomUUID();
+      const storagePath = buildAttachmentPath(
+        'invoices',
+        invoiceId,
+        attachmentId,
+        upload.file_name
+      );
+      await attachmentStorage.put(
+        storagePath,
+        upload.content,
+        upload.content_type
+      );
+
+      const actingUser = getActingUser(req);
+      const { data, error } = await supabase
+        .from('invoice_attachments')
+        .insert([
+          {
+            id: attachmentId,
+            invoice_id: invoiceId,
+            file_name: upload.file_name,
+            content_type: upload.content_type,
+            size_bytes: upload.content.length,
+            storage_path: storagePath,
+            uploaded_by: actingUser?.id || null,
+            uploaded_by_email: actingUser?.email || null,
+          },
+        ])
+        .select(`invoice_id, ${ATTACHMENT_COLUMNS}`)
+        .single();
+
+      if (error) {
+        console.log('Supabase error adding attachment:', error.message);
+        await removeAttachmentFiles([storagePath]);
+        return res.status(500).json({ error: 'Failed to add attachment' });
       }
+
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'invoice_attachments',
+        data.id,
+        null,
+        data,
+        req
+      );
+
+      return res.status(201).json(data);
     }
 
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error adding invoice attachment:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE an invoice attachment and its file
+app.delete('/api/invoices/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const { id: invoiceId, attachmentId } = req.params;
+
     if (supabase) {
-      // Get current expense data for logging
-      const { data: currentExpense } = await supabase
-        .from('expenses')
-        .select('*')
-        .eq('id', expenseId)
+      // First get the old data for logging
+      const { data: attachment, error: fetchError } = await supabase
+        .from('invoice_attachments')
+        .select(`invoice_id, storage_path, ${ATTACHMENT_COLUMNS}`)
+        .eq('id', attachmentId)
+        .eq('invoice_id', invoiceId)
         .single();
 
-      if (!currentExpense) {
-        return res.status(404).json({
-          error: 'Expense not found',
-        });
+      if (fetchError || !attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const { error } = await supabase
+        .from('invoice_attachments')
+        .delete()
+        .eq('id', attachmentId);
+
+      if (error) {
+        console.log('Supabase error deleting attachment:', error.message);
+        return res.status(500).json({ error: 'Failed to delete attachment' });
+      }
+
+      await removeAttachmentFiles([attachment.storage_path]);
+
+      // Log the activity
+      await logActivity(
+        'DELETE',
+        'invoice_attachments',
+        attachmentId,
+        attachment,
+        null,
+        req
+      );
+
+      return res.json({ message: 'Attachment deleted successfully' });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting invoice attachment:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ---------- Invoice Duplicates ----------
+// How an existing invoice matches a new one, strongest first
+type InvoiceDuplicateMatch = 'exact_number' | 'normalized_number' | 'amount';
+
+// Helper function to compare invoice numbers regardless of case, spaces and
+// dashes ("FAS/26-2482" = "fas/26 2482" = "FAS/262482")
+function normalizeInvoiceNumber(value: any): string {
+  return String(value ?? '')
+    .toUpperCase()
+    .replace(/[\s\-\u2010-\u2015]+/g, '');
+}
+
+// Helper function to find invoices that look like the same supplier invoice:
+// the same number (exactly or once normalised), or the same amount, currency
+// and date. Invoices of two different suppliers are never duplicates.
+async function findDuplicateInvoices(candidate: {
+  inv_number: string;
+  inv_date: string;
+  inv_amount: number;
+  inv_currency: string;
+  supplier_id: string | null;
+}): Promise<Array<{ match: InvoiceDuplicateMatch; invoice: any }>> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(
+      'id, inv_number, inv_date, inv_amount, inv_currency, supplier_id, suppliers ( id, name )'
+    );
+
+  if (error) {
+    throw new Error(`Failed to fetch invoices: ${error.message}`);
+  }
+
+  const number = String(candidate.inv_number).trim();
+  const normalizedNumber = normalizeInvoiceNumber(number);
+  const currency = candidate.inv_currency.trim().toUpperCase();
+  const date = String(candidate.inv_date).slice(0, 10);
+  const rank: Record<InvoiceDuplicateMatch, number> = {
+    exact_number: 0,
+    normalized_number: 1,
+    amount: 2,
+  };
+
+  const duplicates: Array<{ match: InvoiceDuplicateMatch; invoice: any }> = [];
+  for (const invoice of data || []) {
+    if (
+      candidate.supplier_id &&
+      invoice.supplier_id &&
+      candidate.supplier_id !== invoice.supplier_id
+    ) {
+      continue;
+    }
+
+    let match: InvoiceDuplicateMatch | null = null;
+    if (String(invoice.inv_number || '').trim() === number) {
+      match = 'exact_number';
+    } else if (
+      normalizedNumber &&
+      normalizeInvoiceNumber(invoice.inv_number) === normalizedNumber
+    ) {
+      match = 'normalized_number';
+    } else if (
+      Math.abs((parseFloat(invoice.inv_amount) || 0) - candidate.inv_amount) <
+        0.005 &&
+      String(invoice.inv_currency || '').toUpperCase() === currency &&
+      String(invoice.inv_date || '').slice(0, 10) === date
+    ) {
+      match = 'amount';
+    }
+
+    if (match) {
+      duplicates.push({ match, invoice });
+    }
+  }
+
+  return duplicates.sort((a, b) => rank[a.match] - rank[b.match]);
+}
+
+// POST endpoint to add new invoice.
+// A possible duplicate is refused with 409 unless allow_duplicate is true.
+app.post('/api/invoices', async (req, res) => {
+  try {
+    const {
+      inv_date,
+      inv_number,
+      inv_amount,
+      inv_currency,
+      inv_tags,
+      supplier_id,
+      inv_due_date,
+      allow_duplicate,
+    } = req.body;
+
+    // Validate required fields
+    if (!inv_date || !inv_number || !inv_amount || !inv_currency) {
+      return res.status(400).json({
+        error:
+          'All fields are required: inv_date, inv_number, inv_amount, inv_currency',
+      });
+    }
+
+    // Validate currency
+    const currencyError = await validateCurrency(inv_currency);
+    if (currencyError) {
+      return res.status(400).json({ error: currencyError });
+    }
+
+    // Validate amount
+    const amount = parseFloat(inv_amount);
+    if (isNaN(amount) || amount <= 0) {
+      return res.status(400).json({
+        error: 'Amount must be a positive number',
+      });
+    }
+
+    const { supplierId, error: supplierError } =
+      await resolveSupplierId(supplier_id);
+    if (supplierError) {
+      return res.status(400).json({ error: supplierError });
+    }
+
+    // Due date: as sent, or the invoice date plus the supplier payment terms
+    const { data: dueDate, error: dueDateError } = await resolveInvoiceDueDate(
+      inv_date,
+      supplierId ?? null,
+      inv_due_date
+    );
+    if (dueDateError || !dueDate) {
+      return res.status(400).json({ error: dueDateError });
+    }
+
+    if (supabase) {
+      if (allow_duplicate !== true) {
+        const duplicates = await findDuplicateInvoices({
+          inv_number,
+          inv_date,
+          inv_amount: amount,
+          inv_currency: String(inv_currency),
+          supplier_id: supplierId ?? null,
+        });
+
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            error: `Invoice looks like a duplicate of ${duplicates[0].invoice.inv_number}`,
+            match: duplicates[0].match,
+            invoice: duplicates[0].invoice,
+            duplicates,
+          });
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .insert([
+          {
+            inv_date,
+            inv_number,
+            inv_amount: amount,
+            inv_currency: String(inv_currency).trim().toUpperCase(),
+            inv_tags: inv_tags || '', // Use provided tags or empty string
+            supplier_id: supplierId ?? null,
+            ...dueDate,
+          },
+        ])
+        .select();
+
+      if (error) {
+        console.log('Supabase error adding invoice:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to add invoice to database' });
+      }
+
+      // Log the activity
+      await logActivity('CREATE', 'invoices', data[0].id, null, data[0], req);
+
+      return res.status(201).json({
+        message: 'Invoice added successfully',
+        data: data[0],
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error adding invoice:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// PUT endpoint to update existing invoice
+app.put('/api/invoices/:id', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+    const {
+      inv_date,
+      inv_number,
+      inv_amount,
+      inv_currency,
+      inv_tags,
+      supplier_id,
+      inv_due_date,
+    } = req.body;
+
+    // Validate required fields
+    if (!inv_date || !inv_number || !inv_amount || !inv_currency) {
+      return res.status(400).json({
+        error:
+          'All fields are required: inv_date, inv_number, inv_amount, inv_currency',
+      });
+    }
+
+    // Validate currency
+    const currencyError = await validateCurrency(inv_currency);
+    if (currencyError) {
+      return res.status(400).json({ error: currencyError });
+    }
+
+    // Validate amount
+    const amount = parseFloat(inv_amount);
+    if (isNaN(amount) || amount <= 0) {
+      return res.status(400).json({
+        error: 'Amount must be a positive number',
+      });
+    }
+
+    if (supabase) {
+      // Get current invoice data for logging
+      const { data: currentInvoice, error: fetchError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching invoice:', fetchError.message);
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      // Supplier is only changed when sent
+      const { supplierId, error: supplierError } =
+        await resolveSupplierId(supplier_id);
+      if (supplierError) {
+        return res.status(400).json({ error: supplierError });
+      }
+      const supplier =
+        supplierId !== undefined ? supplierId : currentInvoice.supplier_id;
+
+      // A due date set by hand is kept unless a new one is sent; a due date
+      // from payment terms follows the invoice date and supplier
+      let dueDate: {
+        inv_due_date: string | null;
+        inv_payment_terms_days: number | null;
+      } | null = null;
+      if (
+        inv_due_date !== undefined ||
+        currentInvoice.inv_payment_terms_days !== null ||
+        !currentInvoice.inv_due_date
+      ) {
+        const resolved = await resolveInvoiceDueDate(
+          inv_date,
+          supplier,
+          inv_due_date
+        );
+        if (resolved.error || !resolved.data) {
+          return res.status(400).json({ error: resolved.error });
+        }
+        dueDate = resolved.data;
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .update({
+          inv_date,
+          inv_number,
+          inv_amount: amount,
+          inv_currency: String(inv_currency).trim().toUpperCase(),
+          inv_tags: inv_tags || '',
+          supplier_id: supplier,
+          ...(dueDate || {}),
+        })
+        .eq('id', invoiceId)
+        .select();
+
+      if (error) {
+        console.log('Supabase error updating invoice:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to update invoice in database' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'UPDATE',
+        'invoices',
+        invoiceId,
+        currentInvoice,
+        data[0],
+        req
+      );
+
+      return res.status(200).json({
+        message: 'Invoice updated successfully',
+        data: data[0],
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error updating invoice:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// DELETE endpoint to remove invoice
+app.delete('/api/invoices/:id', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+
+    if (!invoiceId) {
+      return res.status(400).json({
+        error: 'Invoice ID is required',
+      });
+    }
+
+    if (supabase) {
+      // First get the invoice data for logging
+      const { data: invoice, error: fetchError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching invoice:', fetchError.message);
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      // Attachment rows go with the invoice (ON DELETE CASCADE), their files
+      // are removed afterwards
+      const { data: attachments } = await supabase
+        .from('invoice_attachments')
+        .select('storage_path')
+        .eq('invoice_id', invoiceId);
+
+      const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', invoiceId);
+
+      if (error) {
+        console.log('Supabase error deleting invoice:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete invoice from database' });
+      }
+
+      await removeAttachmentFiles(
+        (attachments || []).map(attachment => attachment.storage_path)
+      );
+
+      // Log the activity
+      await logActivity('DELETE', 'invoices', invoiceId, invoice, null, req);
+
+      return res.status(200).json({
+        message: 'Invoice deleted successfully',
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error deleting invoice:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// PUT endpoint to update invoice status
+app.put('/api/invoices/:id/status', async (req, res) => {
+  try {
+    const invoiceId = req.params.id;
+    const { inv_filled, inv_disputed, reconciliation_override_reason } =
+      req.body;
+
+    if (!invoiceId) {
+      return res.status(400).json({
+        error: 'Invoice ID is required',
+      });
+    }
+
+    if (supabase) {
+      // First get the current invoice data for logging
+      const { data: currentInvoice, error: fetchError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching invoice:', fetchError.message);
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      // Prepare update data
+      const updateData: any = {};
+      if (inv_filled !== undefined) updateData.inv_filled = inv_filled;
+      if (inv_disputed !== undefined) updateData.inv_disputed = inv_disputed;
+
+      // An invoice is only marked as filled when its lines add up to the
+      // total, unless the mismatch is overridden with a reason
+      if (inv_filled === true && !currentInvoice.inv_filled) {
+        const reconciliation = await reconcileInvoice(currentInvoice);
+
+        if (!reconciliation.is_reconciled) {
+          const reason =
+            typeof reconciliation_override_reason === 'string'
+              ? reconciliation_override_reason.trim()
+              : '';
+
+          if (!reason) {
+            return res.status(409).json({
+              error:
+                'Invoice total does not match its expense lines. Provide reconciliation_override_reason to mark it as filled anyway.',
+              reconciliation,
+            });
+          }
+
+          const actingUser = getActingUser(req);
+          updateData.inv_filled_override_reason = reason;
+          updateData.inv_filled_override_by = actingUser?.email || null;
+          updateData.inv_filled_override_at = new Date().toISOString();
+        }
+      } else if (inv_filled === false && currentInvoice.inv_filled) {
+        updateData.inv_filled_override_reason = null;
+        updateData.inv_filled_override_by = null;
+        updateData.inv_filled_override_at = null;
+      }
+
+      // Filling moves a received invoice to "entered" and back; once it is
+      // approved the lines stay entered until it is moved back
+      const lifecycleIndex = getInvoiceLifecycleIndex(
+        currentInvoice.inv_status
+      );
+      if (inv_filled === true && lifecycleIndex === 0) {
+        updateData.inv_status = 'entered';
+      } else if (inv_filled === false && currentInvoice.inv_filled) {
+        if (lifecycleIndex > getInvoiceLifecycleIndex('entered')) {
+          return res.status(409).json({
+            error: `Invoice is already ${INVOICE_LIFECYCLE[lifecycleIndex]}; move it back to received first`,
+          });
+        }
+        updateData.inv_status = 'received';
+      }
+
+      // Update the invoice
+      const { data, error } = await supabase
+        .from('invoices')
+        .update(updateData)
+        .eq('id', invoiceId)
+        .select();
+
+      if (error) {
+        console.log('Supabase error updating invoice:', error.message);
+        return res.status(500).json({ error: 'Failed to update invoice' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'UPDATE',
+        'invoices',
+        invoiceId,
+        currentInvoice,
+        data[0],
+        req
+      );
+
+      return res.status(200).json({
+        message: 'Invoice updated successfully',
+        data: data[0],
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error updating invoice:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// ========== DISCREPANCIES API ROUTES ==========
+
+// Allowed discrepancy status transitions. Any other move needs a superadmin
+// override with a reason.
+const DISCREPANCY_STATUS_TRANSITIONS: Record<string, string[]> = {
+  Created: ['Raised'],
+  Raised: ['Resolved', 'Declined'],
+  Resolved: ['Closed'],
+  Declined: ['Closed'],
+  Closed: [],
+};
+
+// Statuses a new discrepancy can start in
+const DISCREPANCY_INITIAL_STATUSES = ['Created', 'Raised'];
+
+// Helper function to list the statuses a discrepancy can move to next
+// (null for a discrepancy that does not exist yet)
+function getAllowedDiscrepancyStatuses(currentStatus: string | null): string[] {
+  if (!currentStatus) return DISCREPANCY_INITIAL_STATUSES;
+  return DISCREPANCY_STATUS_TRANSITIONS[currentStatus] || [];
+}
+
+// Helper function to add the allowed next statuses to a discrepancy
+function withAllowedStatuses(discrepancy: any) {
+  return {
+    ...discrepancy,
+    allowed_statuses: getAllowedDiscrepancyStatuses(discrepancy.status),
+  };
+}
+
+// Helper function to check a status change against the transition rules.
+// A move outside the rules only passes as a superadmin override with a reason.
+function checkDiscrepancyTransition(
+  fromStatus: string | null,
+  toStatus: string,
+  overrideReason: unknown,
+  req: Request
+): { error: string | null; override: boolean; reason: string | null } {
+  if (fromStatus === toStatus) {
+    return { error: null, override: false, reason: null };
+  }
+
+  if (getAllowedDiscrepancyStatuses(fromStatus).includes(toStatus)) {
+    return { error: null, override: false, reason: null };
+  }
+
+  const reason =
+    typeof overrideReason === 'string' ? overrideReason.trim() : '';
+  const move = fromStatus
+    ? `from ${fromStatus} to ${toStatus}`
+    : `as ${toStatus}`;
+
+  if (getActingUser(req)?.role !== 'superadmin') {
+    return {
+      error: `Discrepancy cannot move ${move}`,
+      override: false,
+      reason: null,
+    };
+  }
+
+  if (!reason) {
+    return {
+      error: `Discrepancy cannot move ${move}. Provide status_override_reason to override.`,
+      override: false,
+      reason: null,
+    };
+  }
+
+  return { error: null, override: true, reason };
+}
+
+// Helper function to record a discrepancy status change in its history.
+// History is best effort: a failure is logged but never blocks the change.
+async function recordDiscrepancyStatus(
+  discrepancyId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  req?: Request,
+  override?: { reason: string }
+) {
+  if (!supabase) return;
+
+  const actingUser = getActingUser(req);
+  const entry: any = {
+    discrepancy_id: discrepancyId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    changed_by: actingUser?.id || null,
+    changed_by_email: actingUser?.email || null,
+  };
+
+  if (override) {
+    entry.is_override = true;
+    entry.reason = override.reason;
+  }
+
+  const { error } = await supabase
+    .from('discrepancy_status_history')
+    .insert([entry]);
+
+  if (error) {
+    console.warn('Failed to record discrepancy status history:', error.message);
+  }
+}
+
+// Helper function to read the optional dispute fields (supplier and supplier
+// response due date). Fields missing from the body are left out so that an
+// update keeps their current values.
+function parseDisputeFields(body: any): {
+  fields: { supplier?: string | null; response_due_date?: string | null };
+  error?: string;
+} {
+  const fields: {
+    supplier?: string | null;
+    response_due_date?: string | null;
+  } = {};
+
+  if (body.supplier !== undefined) {
+    const supplier = String(body.supplier ?? '').trim();
+    fields.supplier = supplier !== '' ? supplier : null;
+  }
+
+  if (body.response_due_date !== undefined) {
+    const dueDate = String(body.response_due_date ?? '').trim();
+    if (dueDate !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+      return {
+        fields,
+        error: 'Response due date must be in YYYY-MM-DD format',
+      };
+    }
+    fields.response_due_date = dueDate !== '' ? dueDate : null;
+  }
+
+  return { fields };
+}
+
+// GET endpoint to fetch all discrepancies
+app.get('/api/discrepancies', async (_req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancies')
+        .select(
+          `
+          *,
+          invoices!invoice_id (
+            id,
+            inv_number,
+            inv_date
+          )
+        `
+        )
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.log('Supabase error fetching discrepancies:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch discrepancies' });
+      }
+
+      // Recovered amounts from linked credit notes
+      const recovered = await loadRecoveredTotals(
+        data || [],
+        await loadFxRates()
+      );
+
+      return res.json(
+        (data || []).map((d: any) => ({
+          ...withAllowedStatuses(d),
+          recovered_amount: recovered.totals[d.id] || 0,
+          recovered_currency: d.claimed_currency || REPORTING_CURRENCY,
+          recovered_missing_fx_rates: recovered.missingFxRates[d.id] || [],
+        }))
+      );
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching discrepancies:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET endpoint to fetch single discrepancy
+app.get('/api/discrepancies/:id', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancies')
+        .select(
+          `
+          *,
+          invoices!invoice_id (
+            id,
+            inv_number,
+            inv_date
+          )
+        `
+        )
+        .eq('id', discrepancyId)
+        .single();
+
+      if (error || !data) {
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      return res.json(withAllowedStatuses(data));
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.error('Error fetching discrepancy:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST endpoint to add new discrepancy
+app.post('/api/discrepancies', async (req, res) => {
+  try {
+    const {
+      created_at,
+      invoice_id,
+      description,
+      status,
+      solution,
+      claimed_amount,
+      claimed_currency,
+      status_override_reason,
+    } = req.body;
+
+    // Validate required fields
+    if (!created_at || !invoice_id || !description) {
+      return res.status(400).json({
+        error:
+          'All required fields must be provided: created_at, invoice_id, description',
+      });
+    }
+
+    // Validate status
+    const validStatuses = [
+      'Created',
+      'Raised',
+      'Resolved',
+      'Declined',
+      'Closed',
+    ];
+    if (status && !validStatuses.includes(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+      });
+    }
+
+    const transition = checkDiscrepancyTransition(
+      null,
+      status || 'Created',
+      status_override_reason,
+      req
+    );
+    if (transition.error) {
+      return res.status(409).json({
+        error: transition.error,
+        allowed_statuses: getAllowedDiscrepancyStatuses(null),
+      });
+    }
+
+    // Validate currency if amount is provided
+    if (claimed_amount && claimed_currency) {
+      const currencyError = await validateCurrency(claimed_currency);
+      if (currencyError) {
+        return res.status(400).json({ error: currencyError });
+      }
+    }
+
+    // Validate amount if provided
+    let parsedAmount = null;
+    if (
+      claimed_amount !== undefined &&
+      claimed_amount !== null &&
+      claimed_amount !== ''
+    ) {
+      parsedAmount = parseFloat(claimed_amount);
+      if (isNaN(parsedAmount) || parsedAmount < 0) {
+        return res.status(400).json({
+          error: 'Claimed amount must be a non-negative number',
+        });
+      }
+    }
+
+    // Normalize currency - set to null if empty string or not provided
+    const normalizedCurrency =
+      claimed_currency && claimed_currency.trim() !== ''
+        ? claimed_currency.trim().toUpperCase()
+        : null;
+
+    const dispute = parseDisputeFields(req.body);
+    if (dispute.error) {
+      return res.status(400).json({ error: dispute.error });
+    }
+
+    if (supabase) {
+      const insertData: any = {
+        created_at,
+        invoice_id,
+        description,
+        status: status || 'Created',
+        solution: solution && solution.trim() !== '' ? solution : null,
+        ...dispute.fields,
+      };
+
+      // Only add claimed_amount and claimed_currency if they have values
+      if (parsedAmount !== null) {
+        insertData.claimed_amount = parsedAmount;
+        insertData.claimed_currency = normalizedCurrency;
+      } else {
+        insertData.claimed_amount = null;
+        insertData.claimed_currency = null;
+      }
+
+      console.log(
+        'Inserting discrepancy with data:',
+        JSON.stringify(insertData, null, 2)
+      );
+      console.log(
+        'Using Supabase key type:',
+        process.env.SUPABASE_SERVICE_ROLE_KEY ? 'Service Role' : 'Anon'
+      );
+
+      const { data, error } = await supabase
+        .from('discrepancies')
+        .insert([insertData]).select(`
+          *,
+          invoices!invoice_id (
+            id,
+            inv_number,
+            inv_date
+          )
+        `);
+
+      if (error) {
+        console.error('❌ Supabase error adding discrepancy:', error);
+        console.error('Error details:', JSON.stringify(error, null, 2));
+        console.error('Error code:', error.code);
+        console.error('Error hint:', error.hint);
+
+        // Provide more specific error messages
+        let errorMessage = 'Failed to add discrepancy to database';
+        if (error.code === '23503') {
+          errorMessage =
+            'Invalid invoice_id: The specified invoice does not exist';
+        } else if (error.code === '23505') {
+          errorMessage = 'Duplicate entry: This discrepancy already exists';
+        } else if (error.code === '23514') {
+          errorMessage =
+            'Validation error: Invalid data format or constraint violation';
+        } else if (error.message?.includes('row-level security')) {
+          errorMessage =
+            'RLS Policy Error: Make sure SUPABASE_SERVICE_ROLE_KEY is set on Railway. ' +
+            'Run the fix_discrepancies_rls.sql script to update RLS policies.';
+        }
+
+        return res.status(500).json({
+          error: errorMessage,
+          details: error.message || 'Unknown error',
+          code: error.code || null,
+        });
+      }
+
+      if (!data || !data[0]) {
+        console.error('❌ No data returned after insert');
+        return res.status(500).json({
+          error: 'Failed to add discrepancy: No data returned',
+        });
+      }
+
+      await recordDiscrepancyStatus(
+        data[0].id,
+        null,
+        data[0].status,
+        req,
+        transition.override ? { reason: transition.reason! } : undefined
+      );
+
+      // Log the activity (don't let logging errors break the flow)
+      try {
+        await logActivity(
+          'CREATE',
+          'discrepancies',
+          data[0].id,
+          null,
+          data[0],
+          req
+        );
+      } catch (logError) {
+        console.warn(
+          '⚠️ Failed to log activity (discrepancy was still created):',
+          logError
+        );
+      }
+
+      return res.status(201).json({
+        message: 'Discrepancy added successfully',
+        data: withAllowedStatuses(data[0]),
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error: any) {
+    console.error('❌ Error adding discrepancy:', error);
+    console.error('Error stack:', error?.stack);
+    console.error('Error name:', error?.name);
+    return res.status(500).json({
+      error: 'Internal server error',
+      details:
+        process.env.NODE_ENV === 'development' ? error?.message : undefined,
+    });
+  }
+});
+
+// PUT endpoint to update existing discrepancy
+app.put('/api/discrepancies/:id', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+    const {
+      created_at,
+      invoice_id,
+      description,
+      status,
+      solution,
+      claimed_amount,
+      claimed_currency,
+      status_override_reason,
+    } = req.body;
+
+    // Validate required fields
+    if (!created_at || !invoice_id || !description) {
+      return res.status(400).json({
+        error:
+          'All required fields must be provided: created_at, invoice_id, description',
+      });
+    }
+
+    // Validate status
+    const validStatuses = [
+      'Created',
+      'Raised',
+      'Resolved',
+      'Declined',
+      'Closed',
+    ];
+    if (status && !validStatuses.includes(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+      });
+    }
+
+    // Validate currency if amount is provided
+    if (claimed_amount && claimed_currency) {
+      const currencyError = await validateCurrency(claimed_currency);
+      if (currencyError) {
+        return res.status(400).json({ error: currencyError });
+      }
+    }
+
+    // Validate amount if provided
+    let parsedAmount = null;
+    if (
+      claimed_amount !== undefined &&
+      claimed_amount !== null &&
+      claimed_amount !== ''
+    ) {
+      parsedAmount = parseFloat(claimed_amount);
+      if (isNaN(parsedAmount) || parsedAmount < 0) {
+        return res.status(400).json({
+          error: 'Claimed amount must be a non-negative number',
+        });
+      }
+    }
+
+    // Normalize currency - set to null if empty string or not provided
+    const normalizedCurrency =
+      claimed_currency && claimed_currency.trim() !== ''
+        ? claimed_currency.trim().toUpperCase()
+        : null;
+
+    const dispute = parseDisputeFields(req.body);
+    if (dispute.error) {
+      return res.status(400).json({ error: dispute.error });
+    }
+
+    if (supabase) {
+      // Get current discrepancy data for logging
+      const { data: currentDiscrepancy, error: fetchError } = await supabase
+        .from('discrepancies')
+        .select('*')
+        .eq('id', discrepancyId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching discrepancy:', fetchError.message);
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      // Status changes must follow the transition rules
+      const nextStatus = status || currentDiscrepancy.status;
+      const transition = checkDiscrepancyTransition(
+        currentDiscrepancy.status,
+        nextStatus,
+        status_override_reason,
+        req
+      );
+      if (transition.error) {
+        return res.status(409).json({
+          error: transition.error,
+          current_status: currentDiscrepancy.status,
+          allowed_statuses: getAllowedDiscrepancyStatuses(
+            currentDiscrepancy.status
+          ),
+        });
+      }
+
+      const updateData: any = {
+        created_at,
+        invoice_id,
+        description,
+        status: nextStatus,
+        solution: solution && solution.trim() !== '' ? solution : null,
+        ...dispute.fields,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Only add claimed_amount and claimed_currency if they have values
+      if (parsedAmount !== null) {
+        updateData.claimed_amount = parsedAmount;
+        updateData.claimed_currency = normalizedCurrency;
+      } else {
+        updateData.claimed_amount = null;
+        updateData.claimed_currency = null;
+      }
+
+      console.log(
+        'Updating discrepancy with data:',
+        JSON.stringify(updateData, null, 2)
+      );
+
+      const { data, error } = await supabase
+        .from('discrepancies')
+        .update(updateData)
+        .eq('id', discrepancyId).select(`
+          *,
+          invoices!invoice_id (
+            id,
+            inv_number,
+            inv_date
+          )
+        `);
+
+      if (error) {
+        console.error('❌ Supabase error updating discrepancy:', error);
+        console.error('Error details:', JSON.stringify(error, null, 2));
+        console.error('Error code:', error.code);
+        console.error('Error hint:', error.hint);
+
+        // Provide more specific error messages
+        let errorMessage = 'Failed to update discrepancy in database';
+        if (error.code === '23503') {
+          errorMessage =
+            'Invalid invoice_id: The specified invoice does not exist';
+        } else if (error.code === '23505') {
+          errorMessage = 'Duplicate entry: This discrepancy already exists';
+        } else if (error.code === '23514') {
+          errorMessage =
+            'Validation error: Invalid data format or constraint violation';
+        }
+
+        return res.status(500).json({
+          error: errorMessage,
+          details: error.message || 'Unknown error',
+          code: error.code || null,
+        });
+      }
+
+      if (!data || !data[0]) {
+        console.error('❌ No data returned after update');
+        return res.status(500).json({
+          error: 'Failed to update discrepancy: No data returned',
+        });
+      }
+
+      if (currentDiscrepancy.status !== data[0].status) {
+        await recordDiscrepancyStatus(
+          discrepancyId,
+          currentDiscrepancy.status,
+          data[0].status,
+          req,
+          transition.override ? { reason: transition.reason! } : undefined
+        );
+      }
+
+      // Log the activity (don't let logging errors break the flow)
+      try {
+        await logActivity(
+          'UPDATE',
+          'discrepancies',
+          discrepancyId,
+          currentDiscrepancy,
+          data[0],
+          req
+        );
+      } catch (logError) {
+        console.warn(
+          '⚠️ Failed to log activity (discrepancy was still updated):',
+          logError
+        );
+      }
+
+      return res.status(200).json({
+        message: 'Discrepancy updated successfully',
+        data: withAllowedStatuses(data[0]),
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error: any) {
+    console.error('❌ Error updating discrepancy:', error);
+    console.error('Error stack:', error?.stack);
+    console.error('Error name:', error?.name);
+    return res.status(500).json({
+      error: 'Internal server error',
+      details:
+        process.env.NODE_ENV === 'development' ? error?.message : undefined,
+    });
+  }
+});
+
+// DELETE endpoint to remove discrepancy
+app.delete('/api/discrepancies/:id', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+
+    if (!discrepancyId) {
+      return res.status(400).json({
+        error: 'Discrepancy ID is required',
+      });
+    }
+
+    if (supabase) {
+      // First get the discrepancy data for logging
+      const { data: discrepancy, error: fetchError } = await supabase
+        .from('discrepancies')
+        .select('*')
+        .eq('id', discrepancyId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching discrepancy:', fetchError.message);
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      const { data: attachments } = await supabase
+        .from('discrepancy_attachments')
+        .select('storage_path')
+        .eq('discrepancy_id', discrepancyId);
+
+      const { error } = await supabase
+        .from('discrepancies')
+        .delete()
+        .eq('id', discrepancyId);
+
+      if (error) {
+        console.log('Supabase error deleting discrepancy:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete discrepancy from database' });
+      }
+
+      await removeAttachmentFiles(
+        (attachments || []).map(attachment => attachment.storage_path)
+      );
+
+      // Log the activity (don't let logging errors break the flow)
+      try {
+        await logActivity(
+          'DELETE',
+          'discrepancies',
+          discrepancyId,
+          discrepancy,
+          null,
+          req
+        );
+      } catch (logError) {
+        console.warn(
+          '⚠️ Failed to log activity (discrepancy was still deleted):',
+          logError
+        );
+      }
+
+      return res.status(200).json({
+        message: 'Discrepancy deleted successfully',
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting discrepancy:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ========== DISPUTES API ROUTES ==========
+
+// Discrepancies still waiting on the supplier
+const OPEN_DISPUTE_STATUSES = ['Created', 'Raised'];
+
+// Aging buckets in days since the dispute was raised
+const DISPUTE_AGING_BUCKETS = [
+  { label: '0-30', maxDays: 30 },
+  { label: '31-60', maxDays: 60 },
+  { label: '61-90', maxDays: 90 },
+  { label: '90+', maxDays: Infinity },
+];
+
+// Helper function to load discrepancies with their dispute activity:
+// note and attachment counts, when they were raised, age and overdue flag
+async function loadDisputes(): Promise<any[]> {
+  if (!supabase) return [];
+
+  const { data: discrepancies, error } = await supabase
+    .from('discrepancies')
+    .select(
+      `
+      *,
+      invoices!invoice_id (
+        id,
+        inv_number,
+        inv_date
+      )
+    `
+    )
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch discrepancies: ${error.message}`);
+  }
+
+  const [notesResult, attachmentsResult, historyResult] = await Promise.all([
+    supabase.from('discrepancy_notes').select('discrepancy_id, created_at'),
+    supabase.from('discrepancy_attachments').select('discrepancy_id'),
+    supabase
+      .from('discrepancy_status_history')
+      .select('discrepancy_id, to_status, changed_at')
+      .order('changed_at', { ascending: true }),
+  ]);
+
+  const notesCount: Record<string, number> = {};
+  const lastNoteAt: Record<string, string> = {};
+  (notesResult.data || []).forEach((note: any) => {
+    notesCount[note.discrepancy_id] =
+      (notesCount[note.discrepancy_id] || 0) + 1;
+    if (
+      !lastNoteAt[note.discrepancy_id] ||
+      note.created_at > lastNoteAt[note.discrepancy_id]
+    ) {
+      lastNoteAt[note.discrepancy_id] = note.created_at;
+    }
+  });
+
+  const attachmentsCount: Record<string, number> = {};
+  (attachmentsResult.data || []).forEach((attachment: any) => {
+    attachmentsCount[attachment.discrepancy_id] =
+      (attachmentsCount[attachment.discrepancy_id] || 0) + 1;
+  });
+
+  // First time each discrepancy was raised with the supplier
+  const raisedAt: Record<string, string> = {};
+  (historyResult.data || []).forEach((entry: any) => {
+    if (entry.to_status === 'Raised' && !raisedAt[entry.discrepancy_id]) {
+      raisedAt[entry.discrepancy_id] = entry.changed_at;
+    }
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+  const now = Date.now();
+
+  return (discrepancies || []).map((d: any) => {
+    const since = raisedAt[d.id] || d.created_at;
+    const isOpen = OPEN_DISPUTE_STATUSES.includes(d.status);
+    return {
+      ...withAllowedStatuses(d),
+      notes_count: notesCount[d.id] || 0,
+      attachments_count: attachmentsCount[d.id] || 0,
+      last_note_at: lastNoteAt[d.id] || null,
+      raised_at: raisedAt[d.id] || null,
+      is_open: isOpen,
+      age_days: Math.max(
+        0,
+        Math.floor((now - new Date(since).getTime()) / 86400000)
+      ),
+      is_overdue:
+        isOpen && !!d.response_due_date && d.response_due_date < today,
+    };
+  });
+}
+
+// Helper function to check that a discrepancy exists
+async function discrepancyExists(discrepancyId: string): Promise<boolean> {
+  if (!supabase) return false;
+  const { data } = await supabase
+    .from('discrepancies')
+    .select('id')
+    .eq('id', discrepancyId)
+    .maybeSingle();
+  return !!data;
+}
+
+// GET all disputes with their activity
+app.get('/api/disputes', async (_req, res) => {
+  try {
+    if (supabase) {
+      const disputes = await loadDisputes();
+      return res.json(disputes);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching disputes:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET aging of open disputes per supplier
+app.get('/api/disputes/aging', async (_req, res) => {
+  try {
+    if (supabase) {
+      const [disputes, rates] = await Promise.all([
+        loadDisputes(),
+        loadFxRates(),
+      ]);
+
+      const bySupplier: Record<string, any> = {};
+
+      disputes
+        .filter(d => d.is_open)
+        .forEach(d => {
+          const supplier = d.supplier || 'Unassigned';
+          if (!bySupplier[supplier]) {
+            bySupplier[supplier] = {
+              supplier,
+              open_count: 0,
+              overdue_count: 0,
+              oldest_days: 0,
+              buckets: Object.fromEntries(
+                DISPUTE_AGING_BUCKETS.map(b => [b.label, 0])
+              ),
+              claimed_reporting: 0,
+              unconverted_count: 0,
+            };
+          }
+
+          const row = bySupplier[supplier];
+          row.open_count += 1;
+          if (d.is_overdue) row.overdue_count += 1;
+          row.oldest_days = Math.max(row.oldest_days, d.age_days);
+
+          const bucket = DISPUTE_AGING_BUCKETS.find(
+            b => d.age_days <= b.maxDays
+          )!;
+          row.buckets[bucket.label] += 1;
+
+          if (d.claimed_amount && d.claimed_currency) {
+            const claimed = convertCurrency(
+              rates,
+              parseFloat(d.claimed_amount),
+              d.claimed_currency,
+              REPORTING_CURRENCY,
+              new Date(d.created_at)
+            );
+            if (claimed !== null) {
+              row.claimed_reporting += claimed;
+            } else {
+              row.unconverted_count += 1;
+            }
+          }
+        });
+
+      const suppliers = Object.values(bySupplier)
+        .map((row: any) => ({
+          ...row,
+          claimed_reporting: Math.round(row.claimed_reporting * 100) / 100,
+        }))
+        .sort((a: any, b: any) => b.oldest_days - a.oldest_days);
+
+      return res.json({
+        reporting_currency: REPORTING_CURRENCY,
+        buckets: DISPUTE_AGING_BUCKETS.map(b => b.label),
+        suppliers,
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching dispute aging:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET status history of a discrepancy
+app.get('/api/discrepancies/:id/history', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancy_status_history')
+        .select('*')
+        .eq('discrepancy_id', req.params.id)
+        .order('changed_at', { ascending: true });
+
+      if (error) {
+        console.log('Supabase error fetching status history:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch status history' });
+      }
+
+      return res.json(data || []);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching status history:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET correspondence notes of a discrepancy (flat, oldest first;
+// replies carry parent_note_id)
+app.get('/api/discrepancies/:id/notes', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancy_notes')
+        .select('*')
+        .eq('discrepancy_id', req.params.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.log('Supabase error fetching dispute notes:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch notes' });
+      }
+
+      return res.json(data || []);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching dispute notes:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST add a note, optionally as a reply to another note
+app.post('/api/discrepancies/:id/notes', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+    const { body, direction, parent_note_id } = req.body;
+
+    if (!body || String(body).trim() === '') {
+      return res.status(400).json({ error: 'Note text is required' });
+    }
+
+    const validDirections = ['internal', 'sent', 'received'];
+    if (direction && !validDirections.includes(direction)) {
+      return res.status(400).json({
+        error: `Invalid direction. Must be one of: ${validDirections.join(', ')}`,
+      });
+    }
+
+    if (supabase) {
+      if (!(await discrepancyExists(discrepancyId))) {
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      if (parent_note_id) {
+        const { data: parent } = await supabase
+          .from('discrepancy_notes')
+          .select('id')
+          .eq('id', parent_note_id)
+          .eq('discrepancy_id', discrepancyId)
+          .maybeSingle();
+
+        if (!parent) {
+          return res
+            .status(400)
+            .json({ error: 'Parent note not found on this discrepancy' });
+        }
+      }
+
+      const actingUser = getActingUser(req);
+      const { data, error } = await supabase
+        .from('discrepancy_notes')
+        .insert([
+          {
+            discrepancy_id: discrepancyId,
+            parent_note_id: parent_note_id || null,
+            direction: direction || 'internal',
+            body: String(body).trim(),
+            author_id: actingUser?.id || null,
+            author_email: actingUser?.email || null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) {
+        console.log('Supabase error adding dispute note:', error.message);
+        return res.status(500).json({ error: 'Failed to add note' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'discrepancy_notes',
+        data.id,
+        null,
+        data,
+        req
+      );
+
+      return res.status(201).json(data);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error adding dispute note:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE a note together with its replies
+app.delete('/api/discrepancies/:id/notes/:noteId', async (req, res) => {
+  try {
+    const { id: discrepancyId, noteId } = req.params;
+
+    if (supabase) {
+      // First get the old data for logging
+      const { data: note, error: fetchError } = await supabase
+        .from('discrepancy_notes')
+        .select('*')
+        .eq('id', noteId)
+        .eq('discrepancy_id', discrepancyId)
+        .single();
+
+      if (fetchError || !note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      const { error } = await supabase
+        .from('discrepancy_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) {
+        console.log('Supabase error deleting dispute note:', error.message);
+        return res.status(500).json({ error: 'Failed to delete note' });
+      }
+
+      // Log the activity
+      await logActivity('DELETE', 'discrepancy_notes', noteId, note, null, req);
+
+      return res.json({ message: 'Note deleted successfully' });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error deleting dispute note:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET attachment list of a discrepancy (metadata only)
+app.get('/api/discrepancies/:id/attachments', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancy_attachments')
+        .select(`discrepancy_id, note_id, ${ATTACHMENT_COLUMNS}`)
+        .eq('discrepancy_id', req.params.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.log('Supabase error fetching attachments:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch attachments' });
+      }
+
+      return res.json(data || []);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching attachments:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET attachment file (served inline so PDFs and images open in the browser)
+app.get(
+  '/api/discrepancies/:id/attachments/:attachmentId',
+  async (req, res) => {
+    try {
+      const { id: discrepancyId, attachmentId } = req.params;
+
+      if (supabase) {
+        const { data, error } = await supabase
+          .from('discrepancy_attachments')
+          .select('file_name, content_type, storage_path, content_base64')
+          .eq('id', attachmentId)
+          .eq('discrepancy_id', discrepancyId)
+          .single();
+
+        if (error || !data) {
+          return res.status(404).json({ error: 'Attachment not found' });
+        }
+
+        return sendAttachment(res, data, await readAttachmentContent(data));
+      }
+
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error downloading attachment:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST upload an attachment as base64 JSON { file_name, content_type, content }
+app.post('/api/discrepancies/:id/attachments', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+    const {
+      data: upload,
+      error: validationError,
+      status,
+    } = parseAttachmentUpload(req.body);
+
+    if (validationError || !upload) {
+      return res.status(status || 400).json({ error: validationError });
+    }
+
+    if (supabase) {
+      if (!attachmentStorage) {
+        return res
+          .status(503)
+          .json({ error: 'Attachment storage not available' });
+      }
+
+      if (!(await discrepancyExists(discrepancyId))) {
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      const attachmentId = randomUUID();
+      const storagePath = buildAttachmentPath(
+        'discrepancies',
+        discrepancyId,
+        attachmentId,
+        upload.file_name
+      );
+      await attachmentStorage.put(
+        storagePath,
+        upload.content,
+        upload.content_type
+      );
+
+      const actingUser = getActingUser(req);
+      const { data, error } = await supabase
+        .from('discrepancy_attachments')
+        .insert([
+          {
+            id: attachmentId,
+            discrepancy_id: discrepancyId,
+            note_id: req.body.note_id || null,
+            file_name: upload.file_name,
+            content_type: upload.content_type,
+            size_bytes: upload.content.length,
+            storage_path: storagePath,
+            uploaded_by: actingUser?.id || null,
+            uploaded_by_email: actingUser?.email || null,
+          },
+        ])
+        .select(`discrepancy_id, note_id, ${ATTACHMENT_COLUMNS}`)
+        .single();
+
+      if (error) {
+        console.log('Supabase error adding attachment:', error.message);
+        await removeAttachmentFiles([storagePath]);
+        return res.status(500).json({ error: 'Failed to add attachment' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'discrepancy_attachments',
+        data.id,
+        null,
+        data,
+        req
+      );
+
+      return res.status(201).json(data);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error adding attachment:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE an attachment
+app.delete(
+  '/api/discrepancies/:id/attachments/:attachmentId',
+  async (req, res) => {
+    try {
+      const { id: discrepancyId, attachmentId } = req.params;
+
+      if (supabase) {
+        // First get the old data for logging
+        const { data: attachment, error: fetchError } = await supabase
+          .from('discrepancy_attachments')
+          .select(
+            `discrepancy_id, note_id, storage_path, ${ATTACHMENT_COLUMNS}`
+          )
+          .eq('id', attachmentId)
+          .eq('discrepancy_id', discrepancyId)
+          .single();
+
+        if (fetchError || !attachment) {
+          return res.status(404).json({ error: 'Attachment not found' });
+        }
+
+        const { error } = await supabase
+          .from('discrepancy_attachments')
+          .delete()
+          .eq('id', attachmentId);
+
+        if (error) {
+          console.log('Supabase error deleting attachment:', error.message);
+          return res.status(500).json({ error: 'Failed to delete attachment' });
+        }
+
+        await removeAttachmentFiles([attachment.storage_path]);
+
+        // Log the activity
+        await logActivity(
+          'DELETE',
+          'discrepancy_attachments',
+          attachmentId,
+          attachment,
+          null,
+          req
+        );
+
+        return res.json({ message: 'Attachment deleted successfully' });
+      }
+
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error deleting attachment:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// ========== DISCREPANCY RECOVERIES ==========
+
+// Helper function to load credit-note expenses with what is still
+// unallocated to discrepancies
+async function loadCreditNotes(): Promise<any[]> {
+  if (!supabase) return [];
+
+  const [expensesResult, categoryMap, recoveriesResult] = await Promise.all([
+    supabase.from('expenses').select(
+      `
+        id,
+        exp_amount,
+        exp_currency,
+        exp_category,
+        exp_type_id,
+        exp_subtype_id,
+        exp_invoice_type_id,
+        exp_comments,
+        created_at,
+        invoices!exp_invoice (
+          id,
+          inv_number,
+          inv_date
+        )
+      `
+    ),
+    loadExpenseCategoryMap(),
+    supabase.from('discrepancy_recoveries').select('expense_id, amount'),
+  ]);
+
+  if (expensesResult.error) {
+    throw new Error(
+      `Failed to fetch expenses: ${expensesResult.error.message}`
+    );
+  }
+
+  const allocated: Record<string, number> = {};
+  (recoveriesResult.data || []).forEach((r: any) => {
+    allocated[r.expense_id] =
+      (allocated[r.expense_id] || 0) + parseFloat(r.amount);
+  });
+
+  return (expensesResult.data || [])
+    .filter(
+      (e: any) => resolveExpenseIncomeType(categoryMap, e) === 'credit_note'
+    )
+    .map((e: any) => {
+      const amount = Math.abs(parseFloat(e.exp_amount) || 0);
+      const used = allocated[e.id] || 0;
+      return {
+        ...e,
+        amount,
+        allocated_amount: Math.round(used * 100) / 100,
+        remaining_amount: Math.round((amount - used) * 100) / 100,
+      };
+    });
+}
+
+// Helper function to sum recovered amounts per discrepancy, in the claimed
+// currency (or the reporting currency when nothing was claimed). Credit notes
+// without an exchange rate are left out and their pairs listed per discrepancy.
+async function loadRecoveredTotals(
+  discrepancies: any[],
+  rates: FxRate[]
+): Promise<{
+  totals: Record<string, number>;
+  missingFxRates: Record<string, string[]>;
+}> {
+  if (!supabase || discrepancies.length === 0) {
+    return { totals: {}, missingFxRates: {} };
+  }
+
+  const { data: recoveries } = await supabase
+    .from('discrepancy_recoveries')
+    .select('discrepancy_id, amount, currency, created_at');
+
+  const byId: Record<string, any> = {};
+  discrepancies.forEach(d => {
+    byId[d.id] = d;
+  });
+
+  const totals: Record<string, number> = {};
+  const missingFxRates: Record<string, string[]> = {};
+  (recoveries || []).forEach((r: any) => {
+    const discrepancy = byId[r.discrepancy_id];
+    if (!discrepancy) return;
+    const target = discrepancy.claimed_currency || REPORTING_CURRENCY;
+    const asOf = new Date(r.created_at);
+    const recovered = convertCurrency(
+      rates,
+      parseFloat(r.amount),
+      r.currency,
+      target,
+      asOf
+    );
+    if (recovered === null) {
+      const pair = `${r.currency} → ${target} (${toMonthKey(asOf)})`;
+      const pairs = missingFxRates[r.discrepancy_id] || [];
+      if (!pairs.includes(pair)) pairs.push(pair);
+      missingFxRates[r.discrepancy_id] = pairs;
+      return;
+    }
+    totals[r.discrepancy_id] = (totals[r.discrepancy_id] || 0) + recovered;
+  });
+
+  Object.keys(totals).forEach(id => {
+    totals[id] = Math.round(totals[id] * 100) / 100;
+  });
+
+  return { totals, missingFxRates };
+}
+
+// GET claimed vs recovered per supplier and per year (year the discrepancy
+// was created), in the reporting currency
+app.get('/api/disputes/recovery', async (_req, res) => {
+  try {
+    if (supabase) {
+      const [
+        { data: discrepancies, error },
+        { data: recoveries, error: recoveriesError },
+        rates,
+      ] = await Promise.all([
+        supabase
+          .from('discrepancies')
+          .select('id, created_at, supplier, claimed_amount, claimed_currency'),
+        supabase
+          .from('discrepancy_recoveries')
+          .select('discrepancy_id, amount, currency, created_at'),
+        loadFxRates(),
+      ]);
+
+      if (error || recoveriesError) {
+        console.log(
+          'Supabase error fetching recovery report:',
+          (error || recoveriesError)?.message
+        );
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch recovery report' });
+      }
+
+      const emptyRow = (key: string) => ({
+        key,
+        discrepancies_count: 0,
+        claimed: 0,
+        recovered: 0,
+        recovery_rate: null as number | null,
+      });
+      const bySupplier: Record<string, any> = {};
+      const byYear: Record<string, any> = {};
+      const rowsFor = (d: any) => {
+        const supplier = d.supplier || 'Unassigned';
+        const year = String(new Date(d.created_at).getFullYear());
+        bySupplier[supplier] = bySupplier[supplier] || emptyRow(supplier);
+        byYear[year] = byYear[year] || emptyRow(year);
+        return [bySupplier[supplier], byYear[year]];
+      };
+
+      // Amounts without an exchange rate are left out of the totals
+      const missingFxRates = new Set<string>();
+      const toReporting = (
+        amount: any,
+        currency: string,
+        createdAt: string
+      ) => {
+        const asOf = new Date(createdAt);
+        const converted = convertCurrency(
+          rates,
+          parseFloat(amount),
+          currency,
+          REPORTING_CURRENCY,
+          asOf
+        );
+        if (converted === null) {
+          missingFxRates.add(
+            `${currency} → ${REPORTING_CURRENCY} (${toMonthKey(asOf)})`
+          );
+        }
+        return converted ?? 0;
+      };
+
+      const discrepancyById: Record<string, any> = {};
+      (discrepancies || []).forEach((d: any) => {
+        discrepancyById[d.id] = d;
+        const claimed =
+          d.claimed_amount && d.claimed_currency
+            ? toReporting(d.claimed_amount, d.claimed_currency, d.created_at)
+            : 0;
+        rowsFor(d).forEach(row => {
+          row.discrepancies_count += 1;
+          row.claimed += claimed;
+        });
+      });
+
+      (recoveries || []).forEach((r: any) => {
+        const d = discrepancyById[r.discrepancy_id];
+        if (!d) return;
+        const recovered = toReporting(r.amount, r.currency, r.created_at);
+        rowsFor(d).forEach(row => {
+          row.recovered += recovered;
+        });
+      });
+
+      const finish = (rows: any[]) =>
+        rows.map(row => ({
+          ...row,
+          claimed: Math.round(row.claimed * 100) / 100,
+          recovered: Math.round(row.recovered * 100) / 100,
+          recovery_rate:
+            row.claimed > 0
+              ? Math.round((row.recovered / row.claimed) * 1000) / 10
+              : null,
+        }));
+
+      return res.json({
+        reporting_currency: REPORTING_CURRENCY,
+        by_supplier: finish(Object.values(bySupplier)).sort(
+          (a, b) => b.claimed - a.claimed
+        ),
+        by_year: finish(Object.values(byYear)).sort((a, b) =>
+          b.key.localeCompare(a.key)
+        ),
+        missing_fx_rates: Array.from(missingFxRates),
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching recovery report:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET credit notes linked to a discrepancy
+app.get('/api/discrepancies/:id/recoveries', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('discrepancy_recoveries')
+        .select(
+          `
+          *,
+          expenses!expense_id (
+            id,
+            exp_amount,
+            exp_currency,
+            exp_comments,
+            invoices!exp_invoice (
+              id,
+              inv_number,
+              inv_date
+            )
+          )
+        `
+        )
+        .eq('discrepancy_id', req.params.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.log('Supabase error fetching recoveries:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch recoveries' });
+      }
+
+      return res.json(data || []);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching recoveries:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET credit notes that still have an unallocated amount
+app.get('/api/discrepancies/:id/credit-notes', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data: linked } = await supabase
+        .from('discrepancy_recoveries')
+        .select('expense_id')
+        .eq('discrepancy_id', req.params.id);
+      const linkedIds = new Set((linked || []).map((r: any) => r.expense_id));
+
+      const creditNotes = (await loadCreditNotes())
+        .filter(c => c.remaining_amount > 0 && !linkedIds.has(c.id))
+        .sort((a, b) => String(b.created_at).localeCompare(a.created_at));
+
+      return res.json(creditNotes);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching credit notes:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST link a credit note to a discrepancy. Without an amount the whole
+// unallocated remainder of the credit note is applied.
+app.post('/api/discrepancies/:id/recoveries', async (req, res) => {
+  try {
+    const discrepancyId = req.params.id;
+    const { expense_id, amount, notes } = req.body;
+
+    if (!expense_id) {
+      return res.status(400).json({ error: 'expense_id is required' });
+    }
+
+    if (supabase) {
+      if (!(await discrepancyExists(discrepancyId))) {
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+
+      const creditNote = (await loadCreditNotes()).find(
+        c => c.id === expense_id
+      );
+      if (!creditNote) {
+        return res.status(400).json({ error: 'Expense is not a credit note' });
+      }
+
+      const applied =
+        amount === undefined || amount === null || amount === ''
+          ? creditNote.remaining_amount
+          : parseFloat(amount);
+
+      if (isNaN(applied) || applied <= 0) {
+        return res
+          .status(400)
+          .json({ error: 'Recovered amount must be a positive number' });
+      }
+
+      if (applied > creditNote.remaining_amount + 0.005) {
+        return res.status(400).json({
+          error: `Only ${creditNote.exp_currency} ${creditNote.remaining_amount.toFixed(2)} of this credit note is unallocated`,
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('discrepancy_recoveries')
+        .insert([
+          {
+            discrepancy_id: discrepancyId,
+            expense_id,
+            amount: Math.round(applied * 100) / 100,
+            currency: creditNote.exp_currency,
+            notes: notes && String(notes).trim() !== '' ? notes : null,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) {
+        console.log('Supabase error adding recovery:', error.message);
+        if (error.code === '23505') {
+          return res.status(409).json({
+            error: 'This credit note is already linked to the discrepancy',
+          });
+        }
+        return res.status(500).json({ error: 'Failed to add recovery' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'CREATE',
+        'discrepancy_recoveries',
+        data.id,
+        null,
+        data,
+        req
+      );
+
+      return res.status(201).json(data);
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error adding recovery:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE unlink a credit note from a discrepancy
+app.delete(
+  '/api/discrepancies/:id/recoveries/:recoveryId',
+  async (req, res) => {
+    try {
+      const { id: discrepancyId, recoveryId } = req.params;
+
+      if (supabase) {
+        // First get the old data for logging
+        const { data: recovery, error: fetchError } = await supabase
+          .from('discrepancy_recoveries')
+          .select('*')
+          .eq('id', recoveryId)
+          .eq('discrepancy_id', discrepancyId)
+          .single();
+
+        if (fetchError || !recovery) {
+          return res.status(404).json({ error: 'Recovery not found' });
+        }
+
+        const { error } = await supabase
+          .from('discrepancy_recoveries')
+          .delete()
+          .eq('id', recoveryId);
+
+        if (error) {
+          console.log('Supabase error deleting recovery:', error.message);
+          return res.status(500).json({ error: 'Failed to delete recovery' });
+        }
+
+        // Log the activity
+        await logActivity(
+          'DELETE',
+          'discrepancy_recoveries',
+          recoveryId,
+          recovery,
+          null,
+          req
+        );
+
+        return res.json({ message: 'Recovery deleted successfully' });
+      }
+
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error deleting recovery:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// PUT endpoint to update a flight. Fields left out keep their value; the
+// fields that change are validated like a new flight. Linked expenses are
+// reported in the month of their flight, so a date change that moves them to
+// another month is refused with 409 unless confirm_month_change is true.
+app.put('/api/flights/:id', requireSuperadmin, async (req, res) => {
+  try {
+    const flightId = req.params.id;
+
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldFlight, error: fetchError } = await supabase
+        .from('flights')
+        .select('*')
+        .eq('id', flightId)
+        .single();
+
+      // PGRST116: no row with this id
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        console.log('Supabase error fetching flight:', fetchError.message);
+        return res.status(500).json({ error: 'Failed to fetch flight' });
+      }
+      if (!oldFlight) {
+        return res.status(404).json({ error: 'Flight not found' });
+      }
+
+      const input: Record<string, any> = { ...oldFlight };
+      for (const field of [
+        'flt_date',
+        'flt_number',
+        'flt_dep',
+        'flt_arr',
+        'flt_time',
+        'flt_block',
+        'flt_comments',
+        'flt_status',
+      ]) {
+        if (req.body[field] !== undefined) {
+          input[field] = req.body[field];
+        }
+      }
+
+      const airports = buildAirportIndex(await loadAirports());
+      const {
+        leg,
+        errors,
+        warnings: legWarnings,
+      } = normalizeFlightLeg(input, airports, oldFlight);
+      if (!leg) {
+        return res.status(400).json({ error: errors.join('; ') });
+      }
+
+      // The same leg can only be saved once
+      const { data: sameDayFlights, error: duplicateError } = await supabase
+        .from('flights')
+        .select('*')
+        .eq('flt_date', leg.flt_date)
+        .neq('id', flightId);
+
+      if (duplicateError) {
+        console.log(
+          'Supabase error checking duplicate flights:',
+          duplicateError.message
+        );
+        return res.status(500).json({ error: 'Failed to update flight' });
+      }
+
+      const duplicate = (sameDayFlights || []).find(
+        flight =>
+          getFlightLegKey(flight, airports) === getFlightLegKey(leg, airports)
+      );
+      if (duplicate) {
+        return res.status(409).json({
+          error: `Flight ${leg.flt_number} ${leg.flt_dep}-${leg.flt_arr} on ${leg.flt_date} already exists`,
+          duplicate,
+        });
+      }
+
+      // Linked expenses follow the flight into its new report month
+      const warnings: string[] = [...legWarnings];
+      const fromMonth = String(oldFlight.flt_date).slice(0, 7);
+      const toMonth = leg.flt_date.slice(0, 7);
+      if (fromMonth !== toMonth) {
+        const { count, error: countError } = await supabase
+          .from('expenses')
+          .select('id', { count: 'exact', head: true })
+          .eq('exp_flight', flightId);
+
+        if (countError) {
+          console.log(
+            'Supabase error counting flight expenses:',
+            countError.message
+          );
+          return res.status(500).json({ error: 'Failed to update flight' });
+        }
+
+        if (count) {
+          const warning = `${count} linked expense${count === 1 ? '' : 's'} will move from ${fromMonth} to ${toMonth} in the monthly report`;
+          if (req.body.confirm_month_change !== true) {
+            return res.status(409).json({
+              error: warning,
+              month_change: {
+                from: fromMonth,
+                to: toMonth,
+                expenses_count: count,
+              },
+            });
+          }
+          warnings.push(warning);
+        }
+      }
+
+      // Logs the activity
+      const { data: updatedFlight, error: updateError } =
+        await updateFlightRecord(oldFlight, leg, req);
+
+      if (updateError) {
+        console.log('Supabase error updating flight:', updateError);
+        return res.status(500).json({ error: 'Failed to update flight' });
+      }
+
+      return res.json({
+        message: 'Flight updated successfully',
+        data: updatedFlight,
+        warnings,
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error updating flight:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE endpoint to remove flight
+app.delete('/api/flights/:id', async (req, res) => {
+  try {
+    const flightId = req.params.id;
+
+    if (!flightId) {
+      return res.status(400).json({
+        error: 'Flight ID is required',
+      });
+    }
+
+    if (supabase) {
+      // First get the flight data for logging
+      const { data: flight, error: fetchError } = await supabase
+        .from('flights')
+        .select('*')
+        .eq('id', flightId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching flight:', fetchError.message);
+        return res.status(404).json({ error: 'Flight not found' });
+      }
+
+      const { error } = await supabase
+        .from('flights')
+        .delete()
+        .eq('id', flightId);
+
+      if (error) {
+        console.log('Supabase error deleting flight:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete flight from database' });
+      }
+
+      // Log the activity
+      await logActivity('DELETE', 'flights', flightId, flight, null, req);
+
+      return res.status(200).json({
+        message: 'Flight deleted successfully',
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error deleting flight:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// PATCH endpoint to update flight status
+app.patch('/api/flights/:id/status', async (req, res) => {
+  try {
+    const flightId = req.params.id;
+    const { flt_status } = req.body;
+
+    if (!flightId) {
+      return res.status(400).json({
+        error: 'Flight ID is required',
+      });
+    }
+
+    // Validate status
+    const validStatuses = ['Planned', 'Completed', 'Invoiced', 'Cancelled'];
+    if (!flt_status || !validStatuses.includes(flt_status)) {
+      return res.status(400).json({
+        error: `Status is required and must be one of: ${validStatuses.join(', ')}`,
+      });
+    }
+
+    if (supabase) {
+      // First get the current flight data for logging
+      const { data: oldFlight, error: fetchError } = await supabase
+        .from('flights')
+        .select('*')
+        .eq('id', flightId)
+        .single();
+
+      if (fetchError || !oldFlight) {
+        console.log('Supabase error fetching flight:', fetchError?.message);
+        return res.status(404).json({ error: 'Flight not found' });
+      }
+
+      // Update the status
+      const { data: updatedFlight, error: updateError } = await supabase
+        .from('flights')
+        .update({ flt_status })
+        .eq('id', flightId)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.log(
+          'Supabase error updating flight status:',
+          updateError.message
+        );
+        return res
+          .status(500)
+          .json({ error: 'Failed to update flight status' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'UPDATE',
+        'flights',
+        flightId,
+        oldFlight,
+        updatedFlight,
+        req
+      );
+
+      return res.status(200).json({
+        message: 'Flight status updated successfully',
+        data: updatedFlight,
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error updating flight status:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE endpoint to remove expense
+app.delete('/api/expenses/:id', async (req, res) => {
+  try {
+    const expenseId = req.params.id;
+
+    if (!expenseId) {
+      return res.status(400).json({
+        error: 'Expense ID is required',
+      });
+    }
+
+    if (supabase) {
+      // First get the expense data for logging and to find related disbursement fee
+      const { data: expense, error: fetchError } = await supabase
+        .from('expenses')
+        .select('*')
+        .eq('id', expenseId)
+        .single();
+
+      if (fetchError) {
+        console.log('Supabase error fetching expense:', fetchError.message);
+        return res.status(404).json({ error: 'Expense not found' });
+      }
+
+      // Disbursement fees charged on this expense are deleted with it;
+      // keep the full fee rows so the deletion can be reverted from the log
+      const { data: disbursementFees, error: feesError } = await supabase
+        .from('expenses')
+        .select('*')
+        .eq('parent_expense_id', expenseId);
+
+      if (feesError) {
+        console.log(
+          'Supabase error fetching disbursement fees:',
+          feesError.message
+        );
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete expense from database' });
+      }
+
+      if (disbursementFees && disbursementFees.length > 0) {
+        const { error: feeDeleteError } = await supabase
+          .from('expenses')
+          .delete()
+          .eq('parent_expense_id', expenseId);
+
+        if (feeDeleteError) {
+          console.log(
+            'Supabase error deleting disbursement fee:',
+            feeDeleteError.message
+          );
+          // Continue with main expense deletion even if fee deletion fails
+        }
+      }
+
+      // Delete the main expense
+      const { error } = await supabase
+        .from('expenses')
+        .delete()
+        .eq('id', expenseId);
+
+      if (error) {
+        console.log('Supabase error deleting expense:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to delete expense from database' });
+      }
+
+      // Log the activity (the cascaded fees are kept with the expense)
+      await logActivity(
+        'DELETE',
+        'expenses',
+        expenseId,
+        disbursementFees && disbursementFees.length > 0
+          ? { ...expense, disbursement_fees: disbursementFees }
+          : expense,
+        null,
+        req
+      );
+
+      return res.status(200).json({
+        message: 'Expense deleted successfully',
+        disbursementFeeDeleted:
+          !!disbursementFees && disbursementFees.length > 0,
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error deleting expense:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// ---------- Expense Import ----------
+// Invoice lines imported from an XLSX or CSV file. Columns are mapped to
+// expense fields; flights are found by flight number and flight date.
+const EXPENSE_IMPORT_FIELDS: Record<string, string[]> = {
+  exp_type: ['type', 'expense type'],
+  exp_subtype: ['subtype', 'expense subtype'],
+  exp_invoice_type: ['invoice type'],
+  exp_place: ['place', 'airport', 'station'],
+  exp_amount: ['amount', 'total', 'net amount'],
+  exp_currency: ['currency', 'ccy'],
+  exp_period_start: ['period start', 'period from'],
+  exp_period_end: ['period end', 'period to'],
+  exp_fuel_quan: ['fuel quantity', 'quantity', 'uplift', 'litres', 'liters'],
+  exp_fuel_provider: ['fuel provider', 'provider'],
+  exp_comments: ['comments', 'comment', 'description', 'notes'],
+  flt_number: ['flight', 'flight number', 'flight no'],
+  flt_date: ['flight date', 'date'],
+};
+
+const MAX_EXPENSE_IMPORT_ROWS = 1000;
+
+interface ExpenseImportRow {
+  row: number;
+  values: Record<string, any>; // mapped cells, as in the file
+  data: Record<string, any> | null; // expense to insert
+  flight: string | null;
+  errors: string[];
+}
+
+// Helper function to normalise flight numbers for matching ("ab 123" = "AB123")
+function normalizeFlightNumber(value: any): string {
+  return String(value ?? '')
+    .toUpperCase()
+    .replace(/\s+/g, '');
+}
+
+// Helper function to turn an import period cell into the stored period date.
+// A month (YYYY-MM) is stored like the expense form stores it: the start is
+// the 1st of the month, a one-month period ends on the 1st of the next month.
+function toImportPeriodDate(
+  value: any,
+  periodStartMonth: string | null,
+  isEnd: boolean
+): string | null {
+  if (value === null) return null;
+  const text = value instanceof Date ? '' : String(value).trim();
+  if (/^\d{4}-\d{2}$/.test(text)) {
+    if (isEnd && text === periodStartMonth) {
+      return `${getNextMonth(text)}-01`;
+    }
+    return `${text}-01`;
+  }
+  return toDateString(value);
+}
+
+// Helper function to validate the mapped rows of an expense import and build
+// the expenses to insert for the invoice
+async function buildExpenseImport(
+  spreadsheet: Spreadsheet,
+  mapping: ColumnMapping,
+  invoice: any
+): Promise<ExpenseImportRow[]> {
+  if (!supabase) return [];
+
+  const [typesResult, subtypesResult, invoiceTypesResult, currencyCodes] =
+    await Promise.all([
+      supabase.from('expense_types').select('id, name'),
+      supabase.from('expense_subtypes').select('id, name, expense_type_id'),
+      supabase.from('invoice_types').select('id, name'),
+      loadCurrencyCodes(),
+    ]);
+
+  // Types can be given by name (any case) or by ID
+  const findByNameOrId = (list: any[] | null, value: any) => {
+    const text = String(value).trim().toLowerCase();
+    return (list || []).find(
+      item =>
+        String(item.id) === text ||
+        String(item.name || '')
+          .trim()
+          .toLowerCase() === text
+    );
+  };
+
+  // Flights on the dates used in the file
+  const flightDates = spreadsheet.rows
+    .map(row => toDateString(mappedValue(row, mapping, 'flt_date')))
+    .filter((date): date is string => !!date)
+    .sort();
+  const flightsByKey = new Map<string, any[]>();
+  if (flightDates.length > 0) {
+    const { data: flights, error } = await supabase
+      .from('flights')
+      .select('id, flt_number, flt_date')
+      .gte('flt_date', flightDates[0])
+      .lte('flt_date', `${flightDates[flightDates.length - 1]}T23:59:59`);
+
+    if (error) {
+      throw new Error(`Failed to fetch flights: ${error.message}`);
+    }
+
+    for (const flight of flights || []) {
+      const key = `${normalizeFlightNumber(flight.flt_number)}|${String(flight.flt_date).slice(0, 10)}`;
+      flightsByKey.set(key, [...(flightsByKey.get(key) || []), flight]);
+    }
+  }
+
+  return spreadsheet.rows.map(row => {
+    const value = (field: string) => mappedValue(row, mapping, field);
+    const errors: string[] = [];
+    const values: Record<string, any> = {};
+    for (const field of Object.keys(mapping)) {
+      const cell = value(field);
+      values[field] = cell instanceof Date ? toDateString(cell) : cell;
+    }
+
+    // Type, subtype and invoice type
+    let typeId: string | null = null;
+    if (value('exp_type') !== null) {
+      const type = findByNameOrId(typesResult.data, value('exp_type'));
+      if (type) typeId = String(type.id);
+      else errors.push(`Unknown expense type "${value('exp_type')}"`);
+    }
+
+    let subtypeId: string | null = null;
+    if (value('exp_subtype') !== null) {
+      const subtype = findByNameOrId(
+        (subtypesResult.data || []).filter(
+          st => !typeId || String(st.expense_type_id) === typeId
+        ),
+        value('exp_subtype')
+      );
+      if (subtype) subtypeId = String(subtype.id);
+      else
+        errors.push(
+          `Unknown expense subtype "${value('exp_subtype')}"${typeId ? ' for this type' : ''}`
+        );
+    }
+
+    let invoiceTypeId: string | null = null;
+    if (value('exp_invoice_type') !== null) {
+      const invoiceType = findByNameOrId(
+        invoiceTypesResult.data,
+        value('exp_invoice_type')
+      );
+      if (invoiceType) invoiceTypeId = String(invoiceType.id);
+      else errors.push(`Unknown invoice type "${value('exp_invoice_type')}"`);
+    }
+
+    // Amount and currency (the invoice currency when not mapped)
+    const amount = toNumber(value('exp_amount'));
+    if (value('exp_amount') === null) {
+      errors.push('Amount is required');
+    } else if (amount === null) {
+      errors.push(`Amount "${value('exp_amount')}" is not a number`);
+    }
+
+    const currency = String(value('exp_currency') ?? invoice.inv_currency ?? '')
+      .trim()
+      .toUpperCase();
+    if (!currencyCodes.includes(currency)) {
+      errors.push(`Unknown currency "${currency}"`);
+    }
+
+    const fuelQuantity = toNumber(value('exp_fuel_quan'));
+    if (value('exp_fuel_quan') !== null && fuelQuantity === null) {
+      errors.push(`Fuel quantity "${value('exp_fuel_quan')}" is not a number`);
+    }
+
+    // Period
+    const startCell = value('exp_period_start');
+    const startMonth =
+      startCell !== null && /^\d{4}-\d{2}$/.test(String(startCell).trim())
+        ? String(startCell).trim()
+        : null;
+    const periodStart = toImportPeriodDate(startCell, null, false);
+    let periodEnd = toImportPeriodDate(
+      value('exp_period_end'),
+      startMonth,
+      true
+    );
+    // Spreadsheet month cells arrive as the 1st of the month: the same month
+    // twice is a one-month period
+    if (periodStart && periodStart === periodEnd && periodEnd.endsWith('-01')) {
+      periodEnd = `${getNextMonth(periodEnd.slice(0, 7))}-01`;
+    }
+    if (startCell !== null && !periodStart) {
+      errors.push(`Period start "${startCell}" is not a date`);
+    }
+    if (value('exp_period_end') !== null && !periodEnd) {
+      errors.push(`Period end "${value('exp_period_end')}" is not a date`);
+    }
+    if (periodStart && periodEnd) {
+      const start = new Date(periodStart);
+      const end = new Date(periodEnd);
+      const monthsDiff =
+        (end.getFullYear() - start.getFullYear()) * 12 +
+        (end.getMonth() - start.getMonth());
+      if (end < start) {
+        errors.push('Period end is before period start');
+      } else if (monthsDiff > 12) {
+        errors.push(
+          `Period too long: ${monthsDiff} months. Maximum allowed period is 12 months.`
+        );
+      }
+    }
+
+    // Flight: by flight number and flight date
+    let flightId: string | null = null;
+    let flightLabel: string | null = null;
+    const flightNumber = value('flt_number');
+    if (flightNumber !== null) {
+      const flightDate = toDateString(value('flt_date'));
+      if (!flightDate) {
+        errors.push(`Flight ${flightNumber} needs a valid flight date`);
+      } else {
+        const matches =
+          flightsByKey.get(
+            `${normalizeFlightNumber(flightNumber)}|${flightDate}`
+          ) || [];
+        if (matches.length === 1) {
+          flightId = String(matches[0].id);
+          flightLabel = `${matches[0].flt_number} ${flightDate}`;
+        } else if (matches.length === 0) {
+          errors.push(`No flight ${flightNumber} on ${flightDate}`);
+        } else {
+          errors.push(
+            `${matches.length} flights ${flightNumber} on ${flightDate}; enter this line by hand`
+          );
+        }
+      }
+    }
+
+    const text = (field: string) =>
+      value(field) === null ? null : String(value(field)).trim() || null;
+
+    return {
+      row: row.row,
+      values,
+      flight: flightLabel,
+      errors,
+      data: errors.length
+        ? null
+        : {
+            exp_type_id: typeId,
+            exp_subtype_id: subtypeId,
+            exp_invoice_type_id: invoiceTypeId,
+            supplier_id: invoice.supplier_id ?? null,
+            exp_place: text('exp_place'),
+            exp_amount: amount,
+            exp_currency: currency,
+            exp_period_start: periodStart,
+            exp_period_end: periodEnd,
+            exp_fuel_quan: fuelQuantity,
+            exp_fuel_provider: text('exp_fuel_provider'),
+            exp_invoice: invoice.id,
+            exp_flight: flightId,
+            exp_comments: text('exp_comments'),
+          },
+    };
+  });
+}
+
+// POST import invoice lines from an XLSX or CSV file sent as base64 JSON
+// { invoice_id, file_name, content, mapping, dry_run,
+//   include_disbursement_fees }.
+// Without a mapping the columns are matched by header name. With dry_run
+// (the default) nothing is saved: the response is the validated preview.
+// Otherwise all lines are inserted together, or none when any line has errors.
+// With include_disbursement_fees each line gets its fee under the fee rules,
+// as when the line is added by hand, in the same insert; lines whose fee
+// cannot be computed are listed in fee_errors (the lines themselves are kept).
+app.post('/api/expenses/import', async (req, res) => {
+  try {
+    const { invoice_id, file_name = '', content, mapping } = req.body;
+    const dryRun = req.body.dry_run !== false;
+    const includeDisbursementFees = req.body.include_disbursement_fees === true;
+
+    if (!invoice_id) {
+      return res.status(400).json({ error: 'invoice_id is required' });
+    }
+    if (!content) {
+      return res.status(400).json({ error: 'File content is required' });
+    }
+
+    let spreadsheet: Spreadsheet;
+    try {
+      spreadsheet = readSpreadsheet(Buffer.from(String(content), 'base64'));
+    } catch (parseError) {
+      return res.status(400).json({
+        error: `Could not read file: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+      });
+    }
+
+    if (spreadsheet.rows.length === 0) {
+      return res.status(400).json({ error: 'The file has no lines' });
+    }
+    if (spreadsheet.rows.length > MAX_EXPENSE_IMPORT_ROWS) {
+      return res.status(400).json({
+        error: `The file has ${spreadsheet.rows.length} lines; import at most ${MAX_EXPENSE_IMPORT_ROWS} at a time`,
+      });
+    }
+
+    // Mapping as sent (field -> column header), else suggested from headers
+    let columnMapping: ColumnMapping;
+    if (mapping && typeof mapping === 'object') {
+      columnMapping = {};
+      for (const [field, header] of Object.entries<any>(mapping)) {
+        if (!header) continue;
+        if (!(field in EXPENSE_IMPORT_FIELDS)) {
+          return res.status(400).json({ error: `Unknown field: ${field}` });
+        }
+        if (!spreadsheet.headers.includes(String(header))) {
+          return res
+            .status(400)
+            .json({ error: `Column "${header}" is not in the file` });
+        }
+        columnMapping[field] = String(header);
+      }
+    } else {
+      columnMapping = suggestColumnMapping(
+        spreadsheet.headers,
+        EXPENSE_IMPORT_FIELDS
+      );
+    }
+
+    if (supabase) {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('id, inv_number, inv_currency, supplier_id')
+        .eq('id', invoice_id)
+        .single();
+
+      if (invoiceError || !invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      const rows = await buildExpenseImport(
+        spreadsheet,
+        columnMapping,
+        invoice
+      );
+      const errorCount = rows.filter(row => row.errors.length > 0).length;
+
+      const totals: Record<string, number> = {};
+      for (const row of rows) {
+        if (!row.data) continue;
+        totals[row.data.exp_currency] =
+          Math.round(
+            ((totals[row.data.exp_currency] || 0) + row.data.exp_amount) * 100
+          ) / 100;
+      }
+
+      const preview = {
+        file_name,
+        headers: spreadsheet.headers,
+        fields: Object.keys(EXPENSE_IMPORT_FIELDS),
+        mapping: columnMapping,
+        rows: rows.map(({ row, values, flight, errors }) => ({
+          row,
+          values,
+          flight,
+          errors,
+        })),
+        valid_count: rows.length - errorCount,
+        error_count: errorCount,
+        totals,
+      };
+
+      if (dryRun) {
+        return res.json(preview);
+      }
+
+      if (errorCount > 0) {
+        return res.status(400).json({
+          ...preview,
+          error: `${errorCount} line(s) have errors; nothing was imported`,
+        });
+      }
+
+      // Lines get their ids here so their fees can point at them
+      const lines = rows.map(row => ({ id: randomUUID(), ...row.data }));
+
+      // Disbursement fees of the lines, saved with them
+      const feeRows: Record<string, any>[] = [];
+      const feeErrors: Array<{ row: number; error: string }> = [];
+      if (includeDisbursementFees) {
+        for (const [index, line] of lines.entries()) {
+          const { row: feeRow, error: feeError } =
+            await buildDisbursementFeeRow(line);
+          if (feeRow) {
+            feeRows.push(feeRow);
+          } else if (feeError) {
+            feeErrors.push({ row: rows[index].row, error: feeError });
+          }
+        }
+      }
+
+      // One insert statement, so either every line and fee is saved or none is
+      const { data: saved, error } = await supabase
+        .from('expenses')
+        .insert([...lines, ...feeRows])
+        .select('*');
+
+      if (error) {
+        console.log('Supabase error importing expenses:', error.message);
+        return res.status(500).json({ error: 'Failed to import expenses' });
+      }
+
+      const lineIds = new Set(lines.map(line => line.id));
+      const inserted = (saved || []).filter(expense => lineIds.has(expense.id));
+      const fees = (saved || []).filter(expense => !lineIds.has(expense.id));
+      const feesCount = fees.length;
+
+      // One log entry for the whole import
+      await logActivity(
+        'CREATE',
+        'expense_imports',
+        invoice.id,
+        null,
+        {
+          invoice_id: invoice.id,
+          inv_number: invoice.inv_number,
+          file_name,
+          expenses_count: inserted.length,
+          disbursement_fees_count: feesCount,
+          totals,
+          expense_ids: inserted.map(expense => expense.id),
+          disbursement_fee_ids: fees.map(expense => expense.id),
+        },
+        req
+      );
+
+      return res.status(201).json({
+        message: `Imported ${inserted.length} expenses${includeDisbursementFees ? ` and ${feesCount} disbursement fees` : ''}`,
+        imported_count: inserted.length,
+        fees_count: feesCount,
+        fee_errors: feeErrors,
+        totals,
+      });
+    }
+
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error importing expenses:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST endpoint to add new expense
+app.post('/api/expenses', async (req, res) => {
+  try {
+    const {
+      exp_place,
+      exp_amount,
+      exp_period_start,
+      exp_period_end,
+      exp_fuel_quan,
+      exp_fuel_provider,
+      exp_invoice,
+      exp_flight,
+      exp_comments,
+      exp_currency,
+      supplier_id,
+      include_disbursement_fee,
+    } = req.body;
+
+    // Type, subtype and invoice type are stored as ID references
+    const { refs: typeRefs, error: typeRefsError } =
+      await resolveExpenseTypeRefs(req.body);
+    if (typeRefsError) {
+      return res.status(400).json({ error: typeRefsError });
+    }
+
+    const { supplierId, error: supplierError } =
+      await resolveSupplierId(supplier_id);
+    if (supplierError) {
+      return res.status(400).json({ error: supplierError });
+    }
+
+    // Validate required fields (all are optional according to requirements)
+    // But we'll validate data types if provided
+
+    if (exp_amount && isNaN(parseFloat(exp_amount))) {
+      return res.status(400).json({
+        error: 'Amount must be a valid number',
+      });
+    }
+
+    if (exp_fuel_quan && isNaN(parseFloat(exp_fuel_quan))) {
+      return res.status(400).json({
+        error: 'Fuel quantity must be a valid number',
+      });
+    }
+
+    if (exp_currency) {
+      const currencyError = await validateCurrency(exp_currency);
+      if (currencyError) {
+        return res.status(400).json({ error: currencyError });
+      }
+    }
+
+    // Validate period dates
+    if (exp_period_start && exp_period_start.trim() !== '') {
+      const periodStartDate =
+        exp_period_start.includes('-') && exp_period_start.length === 7
+          ? `${exp_period_start}-01`
+          : exp_period_start;
+
+      if (isNaN(Date.parse(periodStartDate))) {
+        return res.status(400).json({
+          error: 'Invalid period start date format',
+        });
+      }
+    }
+
+    if (exp_period_end && exp_period_end.trim() !== '') {
+      const periodEndDate =
+        exp_period_end.includes('-') && exp_period_end.length === 7
+          ? `${exp_period_end}-01`
+          : exp_period_end;
+
+      if (isNaN(Date.parse(periodEndDate))) {
+        return res.status(400).json({
+          error: 'Invalid period end date format',
+        });
+      }
+    }
+
+    // Check period length constraint (likely max 12 months)
+    if (
+      exp_period_start &&
+      exp_period_end &&
+      exp_period_start.trim() !== '' &&
+      exp_period_end.trim() !== ''
+    ) {
+      const startDate =
+        exp_period_start.includes('-') && exp_period_start.length === 7
+          ? `${exp_period_start}-01`
+          : exp_period_start;
+
+      const endDate =
+        exp_period_end.includes('-') && exp_period_end.length === 7
+          ? exp_period_start === exp_period_end
+            ? `${getNextMonth(exp_period_end)}-01`
+            : `${exp_period_end}-01`
+          : exp_period_end;
+
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+
+      // Calculate months difference
+      const monthsDiff =
+        (end.getFullYear() - start.getFullYear()) * 12 +
+        (end.getMonth() - start.getMonth());
+
+      console.log('🔍 PERIOD LENGTH CHECK:', {
+        startDate,
+        endDate,
+        monthsDiff,
+        constraint: 'expenses_period_months_chk',
+      });
+
+      // If period is too long, return error
+      if (monthsDiff > 12) {
+        return res.status(400).json({
+          error: `Period too long: ${monthsDiff} months. Maximum allowed period is 12 months.`,
+        });
+      }
+    }
+
+    if (supabase) {
+      // Debug logging for period dates
+      console.log('🔍 PERIOD DEBUG:', {
+        exp_period_start,
+        exp_period_end,
+        start_processed:
+          exp_period_start && exp_period_start.trim() !== ''
+            ? exp_period_start.includes('-') && exp_period_start.length === 7
+              ? `${exp_period_start}-01`
+              : exp_period_start
+            : null,
+        end_processed:
+          exp_period_end && exp_period_end.trim() !== ''
+            ? exp_period_end.includes('-') && exp_period_end.length === 7
+              ? exp_period_start === exp_period_end
+                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
+                : `${exp_period_end}-01` // For multi-month, use first day of the end month
+              : exp_period_end
+            : null,
+      });
+
+      // Supplier: as sent, else the supplier of the invoice
+      let expenseSupplierId = supplierId ?? null;
+      if (supplierId === undefined && exp_invoice) {
+        const { data: invoice } = await supabase
+          .from('invoices')
+          .select('supplier_id')
+          .eq('id', exp_invoice)
+          .maybeSingle();
+        expenseSupplierId = invoice?.supplier_id ?? null;
+      }
+
+      const expenseData = {
+        ...typeRefs,
+        supplier_id: expenseSupplierId,
+        exp_place: exp_place || null,
+        exp_amount: exp_amount ? parseFloat(exp_amount) : null,
+        exp_period_start:
+          exp_period_start && exp_period_start.trim() !== ''
+            ? exp_period_start.includes('-') && exp_period_start.length === 7
+              ? `${exp_period_start}-01`
+              : exp_period_start
+            : null,
+        exp_period_end:
+          exp_period_end && exp_period_end.trim() !== ''
+            ? exp_period_end.includes('-') && exp_period_end.length === 7
+              ? exp_period_start === exp_period_end
+                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
+                : `${exp_period_end}-01` // For multi-month, use first day of the end month
+              : exp_period_end
+            : null,
+        exp_fuel_quan: exp_fuel_quan ? parseFloat(exp_fuel_quan) : null,
+        exp_fuel_provider: exp_fuel_provider || null,
+        exp_invoice: exp_invoice || null,
+        exp_flight: exp_flight || null,
+        exp_comments: exp_comments || null,
+        exp_currency: exp_currency
+          ? String(exp_currency).trim().toUpperCase()
+          : null,
+      };
+
+      console.log('🔍 EXPENSE DATA TO INSERT:', expenseData);
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .insert([expenseData])
+        .select();
+
+      if (error) {
+        console.log('Supabase error adding expense:', error.message);
+        console.log('🔍 FULL ERROR:', error);
+        return res
+          .status(500)
+          .json({ error: 'Failed to add expense to database' });
+      }
+
+      // Log the activity
+      await logActivity('CREATE', 'expenses', data[0].id, null, data[0], req);
+
+      // Add the disbursement fee charged on this expense (per fee rules)
+      let disbursementFee = null;
+      let disbursementFeeError = null;
+      if (include_disbursement_fee && expenseData.exp_amount !== null) {
+        const created = await createDisbursementFee(data[0], req);
+        disbursementFee = created.data ?? null;
+        disbursementFeeError = created.error ?? null;
+      }
+
+      return res.status(201).json({
+        message: 'Expense added successfully',
+        data: data[0],
+        disbursementFee,
+        disbursementFeeError,
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error adding expense:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// PUT endpoint to update existing expense
+app.put('/api/expenses/:id', async (req, res) => {
+  try {
+    const expenseId = req.params.id;
+    const {
+      exp_place,
+      exp_amount,
+      exp_period_start,
+      exp_period_end,
+      exp_fuel_quan,
+      exp_fuel_provider,
+      exp_invoice,
+      exp_flight,
+      exp_comments,
+      exp_currency,
+      supplier_id,
+      update_disbursement_fee,
+    } = req.body;
+
+    // Type, subtype and invoice type are stored as ID references
+    const { refs: typeRefs, error: typeRefsError } =
+      await resolveExpenseTypeRefs(req.body);
+    if (typeRefsError) {
+      return res.status(400).json({ error: typeRefsError });
+    }
+
+    // Supplier is only changed when sent
+    const { supplierId, error: supplierError } =
+      await resolveSupplierId(supplier_id);
+    if (supplierError) {
+      return res.status(400).json({ error: supplierError });
+    }
+
+    // Validate required fields (all are optional according to requirements)
+    // But we'll validate data types if provided
+
+    if (exp_amount && isNaN(parseFloat(exp_amount))) {
+      return res.status(400).json({
+        error: 'Amount must be a valid number',
+      });
+    }
+
+    if (exp_fuel_quan && isNaN(parseFloat(exp_fuel_quan))) {
+      return res.status(400).json({
+        error: 'Fuel quantity must be a valid number',
+      });
+    }
+
+    if (exp_currency) {
+      const currencyError = await validateCurrency(exp_currency);
+      if (currencyError) {
+        return res.status(400).json({ error: currencyError });
+      }
+    }
+
+    // Validate period dates
+    if (exp_period_start && exp_period_start.trim() !== '') {
+      const periodStartDate =
+        exp_period_start.includes('-') && exp_period_start.length === 7
+          ? `${exp_period_start}-01`
+          : exp_period_start;
+
+      if (isNaN(Date.parse(periodStartDate))) {
+        return res.status(400).json({
+          error: 'Invalid period start date format',
+        });
+      }
+    }
+
+    if (exp_period_end && exp_period_end.trim() !== '') {
+      const periodEndDate =
+        exp_period_end.includes('-') && exp_period_end.length === 7
+          ? `${exp_period_end}-01`
+          : exp_period_end;
+
+      if (isNaN(Date.parse(periodEndDate))) {
+        return res.status(400).json({
+          error: 'Invalid period end date format',
+        });
+      }
+    }
+
+    // Check period length constraint (likely max 12 months)
+    if (
+      exp_period_start &&
+      exp_period_end &&
+      exp_period_start.trim() !== '' &&
+      exp_period_end.trim() !== ''
+    ) {
+      const startDate =
+        exp_period_start.includes('-') && exp_period_start.length === 7
+          ? `${exp_period_start}-01`
+          : exp_period_start;
+
+      const endDate =
+        exp_period_end.includes('-') && exp_period_end.length === 7
+          ? exp_period_start === exp_period_end
+            ? `${getNextMonth(exp_period_end)}-01`
+            : `${exp_period_end}-01`
+          : exp_period_end;
+
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+
+      // Calculate months difference
+      const monthsDiff =
+        (end.getFullYear() - start.getFullYear()) * 12 +
+        (end.getMonth() - start.getMonth());
+
+      console.log('🔍 PERIOD LENGTH CHECK (UPDATE):', {
+        startDate,
+        endDate,
+        monthsDiff,
+        constraint: 'expenses_period_months_chk',
+      });
+
+      // If period is too long, return error
+      if (monthsDiff > 12) {
+        return res.status(400).json({
+          error: `Period too long: ${monthsDiff} months. Maximum allowed period is 12 months.`,
+        });
+      }
+    }
+
+    if (supabase) {
+      // Get current expense data for logging
+      const { data: currentExpense } = await supabase
+        .from('expenses')
+        .select('*')
+        .eq('id', expenseId)
+        .single();
+
+      if (!currentExpense) {
+        return res.status(404).json({
+          error: 'Expense not found',
+        });
       }
 
       // Debug logging for period dates
@@ -5779,590 +10929,1059 @@ app.put('/api/expenses/:id', async (req, res) => {
             : null,
       });
 
-      const expenseData = {
-        exp_type: expTypeName || null,
-        exp_place: exp_place || null,
-        exp_amount: exp_amount ? parseFloat(exp_amount) : null,
-        exp_period_start:
-          exp_period_start && exp_period_start.trim() !== ''
-            ? exp_period_start.includes('-') && exp_period_start.length === 7
-              ? `${exp_period_start}-01`
-              : exp_period_start
-            : null,
-        exp_period_end:
-          exp_period_end && exp_period_end.trim() !== ''
-            ? exp_period_end.includes('-') && exp_period_end.length === 7
-              ? exp_period_start === exp_period_end
-                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
-                : `${exp_period_end}-01` // For multi-month, use first day of the end month
-              : exp_period_end
-            : null,
-        exp_fuel_quan: exp_fuel_quan ? parseFloat(exp_fuel_quan) : null,
-        exp_fuel_provider: exp_fuel_provider || null,
-        exp_invoice_type: expInvoiceTypeName || null,
-        exp_invoice: exp_invoice || null,
-        exp_flight: exp_flight || null,
-        exp_comments: exp_comments || null,
-        exp_currency: exp_currency || null,
-        exp_subtype: expSubtypeName || null,
+      const expenseData = {
+        ...typeRefs,
+        ...(supplierId !== undefined ? { supplier_id: supplierId } : {}),
+        exp_place: exp_place || null,
+        exp_amount: exp_amount ? parseFloat(exp_amount) : null,
+        exp_period_start:
+          exp_period_start && exp_period_start.trim() !== ''
+            ? exp_period_start.includes('-') && exp_period_start.length === 7
+              ? `${exp_period_start}-01`
+              : exp_period_start
+            : null,
+        exp_period_end:
+          exp_period_end && exp_period_end.trim() !== ''
+            ? exp_period_end.includes('-') && exp_period_end.length === 7
+              ? exp_period_start === exp_period_end
+                ? `${getNextMonth(exp_period_end)}-01` // For single month, use next month
+                : `${exp_period_end}-01` // For multi-month, use first day of the end month
+              : exp_period_end
+            : null,
+        exp_fuel_quan: exp_fuel_quan ? parseFloat(exp_fuel_quan) : null,
+        exp_fuel_provider: exp_fuel_provider || null,
+        exp_invoice: exp_invoice || null,
+        exp_flight: exp_flight || null,
+        exp_comments: exp_comments || null,
+        exp_currency: exp_currency
+          ? String(exp_currency).trim().toUpperCase()
+          : null,
+      };
+
+      console.log('🔍 EXPENSE DATA TO UPDATE:', expenseData);
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .update(expenseData)
+        .eq('id', expenseId)
+        .select();
+
+      if (error) {
+        console.log('Supabase error updating expense:', error.message);
+        console.log('🔍 FULL ERROR:', error);
+        return res
+          .status(500)
+          .json({ error: 'Failed to update expense in database' });
+      }
+
+      // Log the activity
+      await logActivity(
+        'UPDATE',
+        'expenses',
+        expenseId,
+        currentExpense,
+        data[0],
+        req
+      );
+
+      // If update_disbursement_fee flag is set, find and update related disbursement fee
+      let disbursementFeeUpdated = false;
+      let disbursementFeeError: string | null = null;
+      if (update_disbursement_fee && exp_amount) {
+        const feeRefs = await getDisbursementFeeTypeRefs();
+
+        if (feeRefs) {
+          // Invoice, flight, period and place the fee follows
+          const invoiceId = exp_invoice || currentExpense.exp_invoice;
+          const flightId =
+            exp_flight !== undefined ? exp_flight : currentExpense.exp_flight;
+          const periodStart =
+            expenseData.exp_period_start || currentExpense.exp_period_start;
+          const periodEnd =
+            expenseData.exp_period_end || currentExpense.exp_period_end;
+          const place =
+            exp_place !== undefined ? exp_place : currentExpense.exp_place;
+
+          // Expense the fee is charged on, as the fee rules see it
+          const feeSource = {
+            ...data[0],
+            exp_invoice: invoiceId,
+            exp_flight: flightId || null,
+            exp_period_start: periodStart || null,
+            exp_period_end: periodEnd || null,
+            exp_place: place || null,
+            exp_currency: exp_currency || currentExpense.exp_currency || 'AED',
+          };
+
+          // Fee linked to this expense
+          const { data: disbursementFees } = await supabase
+            .from('expenses')
+            .select('id')
+            .eq('parent_expense_id', expenseId)
+            .limit(1);
+
+          if (disbursementFees && disbursementFees.length > 0) {
+            const disbursementFeeId = disbursementFees[0].id;
+
+            // Recalculate the fee with the rule for the updated expense
+            const { fee, error: feeError } =
+              await computeDisbursementFee(feeSource);
+            disbursementFeeError = feeError ?? null;
+
+            if (fee) {
+              // Update disbursement fee expense
+              const disbursementFeeData: any = {
+                exp_amount: fee.amount,
+                exp_currency: fee.currency,
+                exp_comments: fee.comment,
+                exp_invoice: invoiceId,
+                exp_place: place || null,
+                exp_flight: flightId || null,
+                exp_period_start: periodStart || null,
+                exp_period_end: periodEnd || null,
+              };
+
+              // Only update subtype and invoice type if we found them
+              if (feeRefs.exp_subtype_id) {
+                disbursementFeeData.exp_subtype_id = feeRefs.exp_subtype_id;
+              }
+              if (feeRefs.exp_invoice_type_id) {
+                disbursementFeeData.exp_invoice_type_id =
+                  feeRefs.exp_invoice_type_id;
+              }
+
+              const { error: feeUpdateError } = await supabase
+                .from('expenses')
+                .update(disbursementFeeData)
+                .eq('id', disbursementFeeId);
+
+              if (!feeUpdateError) {
+                disbursementFeeUpdated = true;
+                console.log(
+                  'Disbursement fee updated successfully:',
+                  disbursementFeeId
+                );
+              } else {
+                console.log(
+                  'Error updating disbursement fee:',
+                  feeUpdateError.message
+                );
+              }
+            }
+          } else {
+            // Disbursement fee not found - create new one
+            const createdFee = await createDisbursementFee(feeSource, req);
+            disbursementFeeError = createdFee.error ?? null;
+            if (createdFee.data) {
+              disbursementFeeUpdated = true;
+              console.log('Disbursement fee created successfully');
+            }
+          }
+        }
+      }
+
+      return res.status(200).json({
+        message: 'Expense updated successfully',
+        data: data[0],
+        disbursementFeeUpdated,
+        disbursementFeeError,
+      });
+    }
+
+    // Fallback for when Supabase is not available
+    return res.status(503).json({
+      error: 'Database not available',
+    });
+  } catch (error) {
+    console.log('Error updating expense:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+    });
+  }
+});
+
+// Overdue invoices listed on the dashboard (most overdue first)
+const DASHBOARD_OVERDUE_INVOICES_LIMIT = 10;
+
+app.get('/api/dashboard/stats', async (_req, res) => {
+  try {
+    let stats = {
+      total_revenue: 0,
+      total_expenses: 0,
+      flights_count: 0,
+      flights_this_year: 0,
+      flights_last_year: 0,
+      flights_change_percent: 0,
+      invoices_pending: 0,
+      invoices_overdue: 0,
+      overdue_invoices: [] as any[],
+      discrepancies_active: 0,
+      discrepancies_closed: 0,
+      // Новые метрики для страницы Flights
+      completed_flights_this_year: 0,
+      completed_flights_last_year: 0,
+      completed_flights_change_percent: 0,
+      processed_invoices_this_year: 0,
+      discrepancies_open: 0,
+      discrepancies_total: 0,
+      missing_fx_rates: [] as string[],
+    };
+
+    if (supabase) {
+      try {
+        // Получаем статистику из базы данных
+        const [
+          flightsResult,
+          invoicesResult,
+          expensesResult,
+          discrepanciesResult,
+        ] = await Promise.all([
+          supabase.from('flights').select('*'),
+          supabase.from('invoices').select('*, suppliers ( name )'),
+          supabase
+            .from('expenses')
+            .select('exp_amount, exp_currency, exp_period_start, created_at'),
+          supabase.from('discrepancies').select('status'),
+        ]);
+
+        const currentYear = new Date().getFullYear();
+        const previousYear = currentYear - 1;
+
+        if (!flightsResult.error) {
+          const flights = flightsResult.data || [];
+          stats.flights_count = flights.length;
+
+          // Подсчитываем рейсы по годам (старая логика для обратной совместимости)
+          stats.flights_this_year =
+            flights.filter(flight => {
+              if (!flight.flt_date) return false;
+              const flightYear = new Date(flight.flt_date).getFullYear();
+              return flightYear === currentYear;
+            }).length || 0;
+
+          stats.flights_last_year =
+            flights.filter(flight => {
+              if (!flight.flt_date) return false;
+              const flightYear = new Date(flight.flt_date).getFullYear();
+              return flightYear === previousYear;
+            }).length || 0;
+
+          // Вычисляем процент изменения
+          if (stats.flights_last_year > 0) {
+            stats.flights_change_percent =
+              ((stats.flights_this_year - stats.flights_last_year) /
+                stats.flights_last_year) *
+              100;
+          } else {
+            stats.flights_change_percent =
+              stats.flights_this_year > 0 ? 100 : 0;
+          }
+
+          // Новые метрики: все рейсы в этом году (независимо от статуса)
+          stats.completed_flights_this_year =
+            flights.filter(flight => {
+              if (!flight.flt_date) return false;
+              const flightYear = new Date(flight.flt_date).getFullYear();
+              return flightYear === currentYear;
+            }).length || 0;
+
+          stats.completed_flights_last_year =
+            flights.filter(flight => {
+              if (!flight.flt_date) return false;
+              const flightYear = new Date(flight.flt_date).getFullYear();
+              return flightYear === previousYear;
+            }).length || 0;
+
+          // Вычисляем процент изменения для completed flights
+          if (stats.completed_flights_last_year > 0) {
+            stats.completed_flights_change_percent =
+              ((stats.completed_flights_this_year -
+                stats.completed_flights_last_year) /
+                stats.completed_flights_last_year) *
+              100;
+          } else {
+            stats.completed_flights_change_percent =
+              stats.completed_flights_this_year > 0 ? 100 : 0;
+          }
+        }
+
+        if (!invoicesResult.error) {
+          const invoices = invoicesResult.data || [];
+
+          // Pending = not yet paid; overdue = not paid by the due date
+          const lifecycleInvoices = invoices.map(withInvoiceLifecycle);
+          stats.invoices_pending = lifecycleInvoices.filter(
+            inv => inv.inv_status !== 'paid'
+          ).length;
+
+          const overdueInvoices = lifecycleInvoices
+            .filter(inv => inv.is_overdue)
+            .sort((a, b) => b.days_overdue - a.days_overdue);
+          stats.invoices_overdue = overdueInvoices.length;
+          stats.overdue_invoices = overdueInvoices
+            .slice(0, DASHBOARD_OVERDUE_INVOICES_LIMIT)
+            .map(inv => ({
+              id: inv.id,
+              inv_number: inv.inv_number,
+              supplier_name: inv.suppliers?.name || null,
+              inv_amount: inv.inv_amount,
+              inv_currency: inv.inv_currency,
+              inv_due_date: inv.inv_due_date,
+              inv_status: inv.inv_status,
+              days_overdue: inv.days_overdue,
+            }));
+
+          // Новая метрика: инвойсы в этом году по дате инвойса (inv_date)
+          stats.processed_invoices_this_year =
+            invoices.filter(invoice => {
+              if (!invoice.inv_date) return false;
+              const invoiceYear = new Date(invoice.inv_date).getFullYear();
+              return invoiceYear === currentYear;
+            }).length || 0;
+        }
+
+        if (!expensesResult.error) {
+          // Sum expenses in the reporting currency using the rate for each
+          // expense's month. Expenses without a rate are left out of the
+          // total and their currency pairs reported in missing_fx_rates.
+          const fxRates = await loadFxRates();
+          const missingFxRates = new Set<string>();
+          stats.total_expenses =
+            expensesResult.data?.reduce((sum, expense) => {
+              const parsedDate = new Date(
+                expense.exp_period_start || expense.created_at
+              );
+              const rateDate = isNaN(parsedDate.getTime())
+                ? new Date()
+                : parsedDate;
+              const currency = (expense.exp_currency || 'USD').toUpperCase();
+              const converted = convertCurrency(
+                fxRates,
+                parseFloat(String(expense.exp_amount ?? '0')) || 0,
+                currency,
+                REPORTING_CURRENCY,
+                rateDate
+              );
+              if (converted === null) {
+                missingFxRates.add(
+                  `${currency} → ${REPORTING_CURRENCY} (${toMonthKey(rateDate)})`
+                );
+                return sum;
+              }
+              return sum + converted;
+            }, 0) || 0;
+          stats.missing_fx_rates = Array.from(missingFxRates);
+        }
+
+        if (!discrepanciesResult.error) {
+          const discrepancies = discrepanciesResult.data || [];
+
+          // Старая логика для обратной совместимости
+          stats.discrepancies_active =
+            discrepancies.filter(
+              d => d.status === 'Created' || d.status === 'Raised'
+            ).length || 0;
+          stats.discrepancies_closed =
+            discrepancies.filter(d => d.status === 'Closed').length || 0;
+
+          // Новые метрики
+          stats.discrepancies_open =
+            discrepancies.filter(
+              d => d.status === 'Created' || d.status === 'Raised'
+            ).length || 0;
+          stats.discrepancies_total = discrepancies.length || 0;
+        }
+      } catch (dbError) {
+        console.log('Database error, using mock stats:', dbError);
+        // Используем mock данные
+        stats = {
+          total_revenue: 5300,
+          total_expenses: 20500,
+          flights_count: 2,
+          flights_this_year: 1,
+          flights_last_year: 1,
+          flights_change_percent: 0,
+          invoices_pending: 1,
+          invoices_overdue: 0,
+          overdue_invoices: [],
+          discrepancies_active: 0,
+          discrepancies_closed: 0,
+          completed_flights_this_year: 1,
+          completed_flights_last_year: 1,
+          completed_flights_change_percent: 0,
+          processed_invoices_this_year: 0,
+          discrepancies_open: 0,
+          discrepancies_total: 0,
+          missing_fx_rates: [],
+        };
+      }
+    } else {
+      // Mock статистика
+      stats = {
+        total_revenue: 5300,
+        total_expenses: 20500,
+        flights_count: 2,
+        flights_this_year: 1,
+        flights_last_year: 1,
+        flights_change_percent: 0,
+        invoices_pending: 1,
+        invoices_overdue: 0,
+        overdue_invoices: [],
+        discrepancies_active: 0,
+        discrepancies_closed: 0,
+        completed_flights_this_year: 1,
+        completed_flights_last_year: 1,
+        completed_flights_change_percent: 0,
+        processed_invoices_this_year: 0,
+        discrepancies_open: 0,
+        discrepancies_total: 0,
+        missing_fx_rates: [],
       };
+    }
+
+    res.json({ ...stats, reporting_currency: REPORTING_CURRENCY });
+  } catch (error) {
+    console.log('Error fetching dashboard stats:', error);
+    res.json({
+      total_revenue: 5300,
+      total_expenses: 20500,
+      flights_count: 2,
+      flights_this_year: 0,
+      flights_last_year: 0,
+      flights_change_percent: 0,
+      invoices_pending: 1,
+      invoices_overdue: 0,
+      overdue_invoices: [],
+      discrepancies_active: 0,
+      discrepancies_closed: 0,
+      completed_flights_this_year: 0,
+      completed_flights_last_year: 0,
+      completed_flights_change_percent: 0,
+      processed_invoices_this_year: 0,
+      discrepancies_open: 0,
+      discrepancies_total: 0,
+    });
+  }
+});
+
+// ========== TRANSACTIONS API ROUTES ==========
+
+// Helper function to build a stable key so re-imported statements are skipped.
+// Identical rows of one statement (two equal payments on the same day without
+// a bank reference) are told apart by their occurrence: the second one is
+// "#2", and so on.
+function transactionFingerprint(
+  t: ParsedTransaction,
+  account: string | null,
+  occurrence = 1
+): string {
+  const parts = [
+    account || '',
+    t.booking_date,
+    t.amount.toFixed(2),
+    t.currency,
+    t.bank_reference || '',
+    t.reference,
+  ];
+  if (occurrence > 1) parts.push(`#${occurrence}`);
+  return createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+// Helper function to set inv_paid/inv_paid_date (and the lifecycle stage) from
+// the matched transactions. Only debits count, in the invoice currency or
+// converted with the rate of their booking month (debits without a rate are
+// left out). Invoices marked paid by hand are left alone; the paid state set
+// here (inv_paid_source 'bank') is undone when the payments no longer cover
+// the invoice.
+async function refreshInvoicePaymentStatus(invoiceIds: string[]) {
+  if (!supabase) return;
+
+  const rates = await loadFxRates();
+
+  for (const invoiceId of Array.from(new Set(invoiceIds.filter(Boolean)))) {
+    const [{ data: invoice }, { data: payments }] = await Promise.all([
+      supabase.from('invoices').select('*').eq('id', invoiceId).single(),
+      supabase
+        .from('bank_transactions')
+        .select('amount, currency, booking_date')
+        .eq('invoice_id', invoiceId)
+        .lt('amount', 0),
+    ]);
+
+    if (!invoice) continue;
+    if (invoice.inv_paid && invoice.inv_paid_source !== 'bank') continue;
+
+    const invoiceCurrency = String(invoice.inv_currency || '').toUpperCase();
+    let paidAmount = 0;
+    for (const payment of payments || []) {
+      const currency = String(payment.currency || '').toUpperCase();
+      // Debits without a rate to the invoice currency don't count as paid
+      paidAmount +=
+        convertCurrency(
+          rates,
+          Math.abs(Number(payment.amount) || 0),
+          currency,
+          invoiceCurrency,
+          new Date(payment.booking_date)
+        ) ?? 0;
+    }
+
+    const isPaid =
+      (payments || []).length > 0 &&
+      paidAmount >= Number(invoice.inv_amount) - 0.01;
+    const lastPayment = (payments || [])
+      .map(p => String(p.booking_date))
+      .sort()
+      .pop();
+
+    // Nothing to undo on an invoice the bank never marked paid
+    if (!isPaid && !invoice.inv_paid) continue;
+
+    // A payment settles the invoice whatever its stage; losing it puts the
+    // invoice back where it was before
+    const { error } = await supabase
+      .from('invoices')
+      .update({
+        inv_paid: isPaid,
+        inv_paid_date: isPaid ? lastPayment || null : null,
+        inv_paid_source: isPaid ? 'bank' : null,
+        inv_status: isPaid ? 'paid' : getUnpaidInvoiceStatus(invoice),
+      })
+      .eq('id', invoiceId);
+
+    if (error) {
+      console.log('Supabase error updating invoice payment:', error.message);
+    }
+  }
+}
+
+// Helper function to auto-match unmatched transactions against unpaid invoices
+async function autoMatchTransactions(transactionIds?: string[]) {
+  if (!supabase) return 0;
+
+  let query = supabase
+    .from('bank_transactions')
+    .select('*')
+    .is('invoice_id', null)
+    .lt('amount', 0);
+  if (transactionIds) {
+    if (transactionIds.length === 0) return 0;
+    query = query.in('id', transactionIds);
+  }
+
+  const [{ data: transactions }, { data: invoices }] = await Promise.all([
+    query,
+    supabase
+      .from('invoices')
+      .select('id, inv_number, inv_date, inv_amount, inv_currency')
+      .eq('inv_paid', false),
+  ]);
+
+  const usedInvoiceIds = new Set<string>();
+  const matchedInvoiceIds: string[] = [];
+
+  for (const transaction of transactions || []) {
+    const available = (invoices || []).filter(
+      inv => !usedInvoiceIds.has(inv.id)
+    );
+    const invoice = pickAutoMatch(
+      findPaymentCandidates(transaction, available)
+    );
+    if (!invoice) continue;
+
+    const { error } = await supabase
+      .from('bank_transactions')
+      .update({
+        invoice_id: invoice.id,
+        match_status: 'auto',
+        matched_at: new Date().toISOString(),
+      })
+      .eq('id', transaction.id);
+
+    if (error) {
+      console.log('Supabase error auto-matching transaction:', error.message);
+      continue;
+    }
+
+    usedInvoiceIds.add(invoice.id);
+    matchedInvoiceIds.push(invoice.id);
+  }
 
-      console.log('🔍 EXPENSE DATA TO UPDATE:', expenseData);
+  await refreshInvoicePaymentStatus(matchedInvoiceIds);
+  return matchedInvoiceIds.length;
+}
 
-      const { data, error } = await supabase
-        .from('expenses')
-        .update(expenseData)
-        .eq('id', expenseId)
-        .select();
+// POST import a bank statement (CSV, MT940 or CAMT.053) sent as text
+app.post(
+  '/api/transactions/import',
+  requireSuperadmin,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { filename = '', content, format } = req.body;
 
-      if (error) {
-        console.log('Supabase error updating expense:', error.message);
-        console.log('🔍 FULL ERROR:', error);
-        return res
-          .status(500)
-          .json({ error: 'Failed to update expense in database' });
+      if (!content || typeof content !== 'string') {
+        return res.status(400).json({ error: 'Statement content is required' });
       }
 
-      // Log the activity
-      await logActivity(
-        'UPDATE',
-        'expenses',
-        expenseId,
-        currentExpense,
-        data[0],
-        'system',
-        req
-      );
+      const statementFormat: StatementFormat | null =
+        format && format !== 'auto'
+          ? format
+          : detectStatementFormat(content, filename);
 
-      // If update_disbursement_fee flag is set, find and update related disbursement fee
-      let disbursementFeeUpdated = false;
-      if (update_disbursement_fee && exp_amount) {
-        // Get Disbursement fee type (both ID and name)
-        const { data: disbursementType } = await supabase
-          .from('expense_types')
-          .select('id, name')
-          .ilike('name', '%disbursement%')
+      if (
+        !statementFormat ||
+        !['csv', 'mt940', 'camt053'].includes(statementFormat)
+      ) {
+        return res.status(400).json({
+          error:
+            'Unknown statement format. Must be one of: csv, mt940, camt053',
+        });
+      }
+
+      let parsed;
+      try {
+        parsed = parseStatement(content, statementFormat);
+      } catch (parseError) {
+        return res.status(400).json({
+          error: `Could not read statement: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+        });
+      }
+
+      const missingCurrency = parsed.transactions.some(t => !t.currency);
+      if (missingCurrency) {
+        return res.status(400).json({
+          error: 'Every transaction needs a currency (add a Currency column)',
+        });
+      }
+
+      if (supabase) {
+        const occurrences = new Map<string, number>();
+        const rows = parsed.transactions.map(t => {
+          const key = transactionFingerprint(t, parsed.account);
+          const occurrence = (occurrences.get(key) || 0) + 1;
+          occurrences.set(key, occurrence);
+          return {
+            ...t,
+            amount: Math.round(t.amount * 100) / 100,
+            fingerprint: transactionFingerprint(t, parsed.account, occurrence),
+          };
+        });
+
+        // Skip transactions already imported from an earlier statement
+        const fingerprints = rows.map(r => r.fingerprint);
+        const existing = new Set<string>();
+        for (let i = 0; i < fingerprints.length; i += 500) {
+          const { data } = await supabase
+            .from('bank_transactions')
+            .select('fingerprint')
+            .in('fingerprint', fingerprints.slice(i, i + 500));
+          (data || []).forEach(r => existing.add(r.fingerprint));
+        }
+        const newRows = rows.filter(r => !existing.has(r.fingerprint));
+
+        const { data: statement, error: statementError } = await supabase
+          .from('bank_statements')
+          .insert([
+            {
+              filename: filename || null,
+              format: statementFormat,
+              account: parsed.account,
+              transactions_count: newRows.length,
+              imported_by: req.user?.email || null,
+            },
+          ])
+          .select()
           .single();
 
-        if (disbursementType) {
-          // Use updated expense data to find disbursement fee
-          const invoiceId = exp_invoice || currentExpense.exp_invoice;
-          const flightId =
-            exp_flight !== undefined ? exp_flight : currentExpense.exp_flight;
-          const periodStart =
-            expenseData.exp_period_start || currentExpense.exp_period_start;
-          const periodEnd =
-            expenseData.exp_period_end || currentExpense.exp_period_end;
-          const place =
-            exp_place !== undefined ? exp_place : currentExpense.exp_place;
+        if (statementError) {
+          console.log(
+            'Supabase error creating bank statement:',
+            statementError.message
+          );
+          return res
+            .status(500)
+            .json({ error: 'Failed to save bank statement' });
+        }
 
-          // Build query to find disbursement fee
-          // Note: exp_type is stored as name (string) in DB, not ID
-          let query = supabase
-            .from('expenses')
-            .select('id, exp_comments, exp_amount, exp_currency')
-            .eq('exp_invoice', invoiceId)
-            .eq('exp_type', disbursementType.name);
+        let inserted: any[] = [];
+        if (newRows.length > 0) {
+          const { data, error } = await supabase
+            .from('bank_transactions')
+            .insert(
+              newRows.map(r => ({
+                ...r,
+                statement_id: statement.id,
+                match_status: 'unmatched',
+              }))
+            )
+            .select('id');
 
-          // Match by flight if exists
-          if (flightId) {
-            query = query.eq('exp_flight', flightId);
-          } else {
-            query = query.is('exp_flight', null);
+          if (error) {
+            console.log(
+              'Supabase error inserting transactions:',
+              error.message
+            );
+            await supabase
+              .from('bank_statements')
+              .delete()
+              .eq('id', statement.id);
+            return res
+              .status(500)
+              .json({ error: 'Failed to save bank transactions' });
           }
+          inserted = data || [];
+        }
 
-          // Match by period if exists
-          if (periodStart && periodEnd) {
-            query = query
-              .eq('exp_period_start', periodStart)
-              .eq('exp_period_end', periodEnd);
-          } else {
-            query = query
-              .is('exp_period_start', null)
-              .is('exp_period_end', null);
-          }
+        const autoMatched = await autoMatchTransactions(
+          inserted.map(t => t.id)
+        );
 
-          // Match by place if exists
-          if (place) {
-            query = query.eq('exp_place', place);
-          } else {
-            query = query.is('exp_place', null);
-          }
+        // Log the activity
+        await logActivity(
+          'CREATE',
+          'bank_statements',
+          statement.id,
+          null,
+          {
+            ...statement,
+            duplicates_skipped: rows.length - newRows.length,
+            auto_matched: autoMatched,
+          },
+          req
+        );
 
-          const { data: disbursementFees } = await query;
+        return res.status(201).json({
+          statement,
+          imported: newRows.length,
+          duplicates: rows.length - newRows.length,
+          autoMatched,
+        });
+      }
 
-          if (disbursementFees && disbursementFees.length > 0) {
-            // Find exact match by checking comments for old amount and currency
-            let disbursementFeeId = null;
-            const oldAmountStr = parseFloat(
-              currentExpense.exp_amount || 0
-            ).toFixed(2);
-            const oldCurrencyStr = currentExpense.exp_currency || 'AED';
-
-            for (const fee of disbursementFees) {
-              if (fee.exp_comments) {
-                // Check if comment contains old amount and currency from original expense
-                if (
-                  fee.exp_comments.includes(oldAmountStr) &&
-                  fee.exp_comments.includes(oldCurrencyStr)
-                ) {
-                  disbursementFeeId = fee.id;
-                  break;
-                }
-              }
-            }
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error importing bank statement:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
 
-            // If no exact match found by comment, use first match
-            if (!disbursementFeeId && disbursementFees.length > 0) {
-              disbursementFeeId = disbursementFees[0].id;
-            }
+// GET transactions (?status=unmatched|matched|all)
+app.get('/api/transactions', async (req, res) => {
+  try {
+    if (supabase) {
+      let query = supabase
+        .from('bank_transactions')
+        .select(
+          `
+          *,
+          invoices!invoice_id (
+            id,
+            inv_number,
+            inv_amount,
+            inv_currency
+          ),
+          bank_statements!statement_id (
+            id,
+            filename,
+            format
+          )
+        `
+        )
+        .order('booking_date', { ascending: false });
 
-            if (disbursementFeeId) {
-              // Calculate new disbursement fee amount (5% of updated expense amount)
-              const disbursementAmount = parseFloat(exp_amount) * 0.05;
-              const newCurrency =
-                exp_currency || currentExpense.exp_currency || 'AED';
+      if (req.query.status === 'unmatched') {
+        query = query.is('invoice_id', null);
+      } else if (req.query.status === 'matched') {
+        query = query.not('invoice_id', 'is', null);
+      }
 
-              // Get type and subtype names for comment
-              // Use updated names if provided, otherwise get from current expense
-              let typeNameForComment = expTypeName;
-              let subtypeNameForComment = expSubtypeName;
+      const { data, error } = await query;
 
-              if (!typeNameForComment && currentExpense.exp_type) {
-                // Get type name from current expense (it's stored as name in DB)
-                typeNameForComment = currentExpense.exp_type;
-              }
+      if (error) {
+        console.log('Supabase error fetching transactions:', error.message);
+        return res.status(500).json({ error: 'Failed to fetch transactions' });
+      }
 
-              if (!subtypeNameForComment && currentExpense.exp_subtype) {
-                // Get subtype name from current expense (it's stored as name in DB)
-                subtypeNameForComment = currentExpense.exp_subtype;
-              }
+      return res.json(data || []);
+    }
 
-              // Build new comment with updated expense information
-              let comment = typeNameForComment || '';
-              if (
-                subtypeNameForComment &&
-                subtypeNameForComment !== 'Select Subtype'
-              ) {
-                comment += ` - ${subtypeNameForComment}`;
-              }
-              comment += `, ${exp_amount} ${newCurrency}`;
-
-              // Add period or flight info
-              if (periodStart && periodEnd) {
-                // Format period as YYYY-MM - YYYY-MM to match client-side format
-                const startDate = new Date(periodStart);
-                const endDate = new Date(periodEnd);
-                const startFormatted = `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}`;
-                const endFormatted = `${endDate.getFullYear()}-${String(endDate.getMonth() + 1).padStart(2, '0')}`;
-                comment += `, ${startFormatted} - ${endFormatted}`;
-              } else if (flightId) {
-                // Get flight info for comment
-                const { data: flightData } = await supabase
-                  .from('flights')
-                  .select('flt_number, flt_dep, flt_arr')
-                  .eq('id', flightId)
-                  .single();
-                if (flightData) {
-                  comment += `, ${flightData.flt_number} - ${flightData.flt_dep} to ${flightData.flt_arr}`;
-                }
-              }
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching transactions:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-              // Get disbursement subtype and invoice type names (stored as strings in DB)
-              let disbursementSubtypeName = null;
-              let disbursementInvoiceTypeName = null;
-
-              if (disbursementType.id) {
-                const { data: subtypes } = await supabase
-                  .from('expense_subtypes')
-                  .select('name')
-                  .eq('expense_type_id', disbursementType.id)
-                  .ilike('name', '%disbursement%')
-                  .limit(1);
-                if (subtypes && subtypes.length > 0) {
-                  disbursementSubtypeName = subtypes[0].name;
-                }
-              }
+// GET invoices that a transaction could pay, best match first
+app.get('/api/transactions/:id/candidates', async (req, res) => {
+  try {
+    if (supabase) {
+      const { data: transaction, error } = await supabase
+        .from('bank_transactions')
+        .select('*')
+        .eq('id', req.params.id)
+        .single();
 
-              const { data: invoiceTypes } = await supabase
-                .from('invoice_types')
-                .select('name')
-                .ilike('name', '%disbursement%')
-                .limit(1);
-              if (invoiceTypes && invoiceTypes.length > 0) {
-                disbursementInvoiceTypeName = invoiceTypes[0].name;
-              }
+      if (error || !transaction) {
+        return res.status(404).json({ error: 'Transaction not found' });
+      }
 
-              // Update disbursement fee expense
-              // Note: exp_type, exp_subtype, and exp_invoice_type are stored as names (strings) in DB
-              const disbursementFeeData: any = {
-                exp_amount: disbursementAmount,
-                exp_currency: newCurrency,
-                exp_comments: comment,
-                exp_place: place || null,
-                exp_flight: flightId || null,
-                exp_period_start: periodStart || null,
-                exp_period_end: periodEnd || null,
-              };
+      const { data: invoices } = await supabase
+        .from('invoices')
+        .select('id, inv_number, inv_date, inv_amount, inv_currency, inv_paid');
+
+      const candidates = findPaymentCandidates(transaction, invoices || [])
+        .slice(0, 20)
+        .map(c => ({
+          ...c.invoice,
+          score: c.score,
+          same_amount: c.sameAmount,
+          same_currency: c.sameCurrency,
+          in_window: c.inWindow,
+          in_reference: c.inReference,
+        }));
 
-              // Only update subtype and invoice type if we found them
-              if (disbursementSubtypeName) {
-                disbursementFeeData.exp_subtype = disbursementSubtypeName;
-              }
-              if (disbursementInvoiceTypeName) {
-                disbursementFeeData.exp_invoice_type =
-                  disbursementInvoiceTypeName;
-              }
+      return res.json(candidates);
+    }
 
-              const { error: feeUpdateError } = await supabase
-                .from('expenses')
-                .update(disbursementFeeData)
-                .eq('id', disbursementFeeId);
+    return res.status(503).json({ error: 'Database not available' });
+  } catch (error) {
+    console.log('Error fetching match candidates:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-              if (!feeUpdateError) {
-                disbursementFeeUpdated = true;
-                console.log(
-                  'Disbursement fee updated successfully:',
-                  disbursementFeeId
-                );
-              } else {
-                console.log(
-                  'Error updating disbursement fee:',
-                  feeUpdateError.message
-                );
-              }
-            }
-          } else {
-            // Disbursement fee not found - create new one
-            // Calculate disbursement fee amount (5% of expense amount)
-            const disbursementAmount = parseFloat(exp_amount) * 0.05;
-            const newCurrency =
-              exp_currency || currentExpense.exp_currency || 'AED';
-
-            // Get type and subtype names for comment
-            // Use updated names if provided, otherwise get from current expense
-            let typeNameForComment = expTypeName;
-            let subtypeNameForComment = expSubtypeName;
-
-            if (!typeNameForComment && currentExpense.exp_type) {
-              // Get type name from current expense (it's stored as name in DB)
-              typeNameForComment = currentExpense.exp_type;
-            }
+// POST match a transaction to an invoice by hand
+app.post('/api/transactions/:id/match', requireSuperadmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { invoice_id } = req.body;
 
-            if (!subtypeNameForComment && currentExpense.exp_subtype) {
-              // Get subtype name from current expense (it's stored as name in DB)
-              subtypeNameForComment = currentExpense.exp_subtype;
-            }
+    if (!invoice_id) {
+      return res.status(400).json({ error: 'invoice_id is required' });
+    }
 
-            // Build comment with updated expense information
-            let comment = typeNameForComment || '';
-            if (
-              subtypeNameForComment &&
-              subtypeNameForComment !== 'Select Subtype'
-            ) {
-              comment += ` - ${subtypeNameForComment}`;
-            }
-            comment += `, ${exp_amount} ${newCurrency}`;
-
-            // Add period or flight info
-            if (periodStart && periodEnd) {
-              // Format period as YYYY-MM - YYYY-MM to match client-side format
-              const startDate = new Date(periodStart);
-              const endDate = new Date(periodEnd);
-              const startFormatted = `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}`;
-              const endFormatted = `${endDate.getFullYear()}-${String(endDate.getMonth() + 1).padStart(2, '0')}`;
-              comment += `, ${startFormatted} - ${endFormatted}`;
-            } else if (flightId) {
-              // Get flight info for comment
-              const { data: flightData } = await supabase
-                .from('flights')
-                .select('flt_number, flt_dep, flt_arr')
-                .eq('id', flightId)
-                .single();
-              if (flightData) {
-                comment += `, ${flightData.flt_number} - ${flightData.flt_dep} to ${flightData.flt_arr}`;
-              }
-            }
+    if (supabase) {
+      // First get the old data for logging
+      const { data: oldData, error: fetchError } = await supabase
+        .from('bank_transactions')
+        .select('*')
+        .eq('id', id)
+        .single();
 
-            // Get disbursement subtype and invoice type names (stored as strings in DB)
-            let disbursementSubtypeName = null;
-            let disbursementInvoiceTypeName = null;
-
-            if (disbursementType.id) {
-              const { data: subtypes } = await supabase
-                .from('expense_subtypes')
-                .select('name')
-                .eq('expense_type_id', disbursementType.id)
-                .ilike('name', '%disbursement%')
-                .limit(1);
-              if (subtypes && subtypes.length > 0) {
-                disbursementSubtypeName = subtypes[0].name;
-              }
-            }
+      if (fetchError) {
+        return res.status(404).json({ error: 'Transaction not found' });
+      }
 
-            const { data: invoiceTypes } = await supabase
-              .from('invoice_types')
-              .select('name')
-              .ilike('name', '%disbursement%')
-              .limit(1);
-            if (invoiceTypes && invoiceTypes.length > 0) {
-              disbursementInvoiceTypeName = invoiceTypes[0].name;
-            }
+      const { data: invoice } = await supabase
+        .from('invoices')
+        .select('id')
+        .eq('id', invoice_id)
+        .single();
 
-            // Create disbursement fee expense
-            // Note: exp_type, exp_subtype, and exp_invoice_type are stored as names (strings) in DB
-            const disbursementFeeData: any = {
-              exp_type: disbursementType.name,
-              exp_subtype: disbursementSubtypeName,
-              exp_invoice_type: disbursementInvoiceTypeName,
-              exp_amount: disbursementAmount.toFixed(2),
-              exp_currency: newCurrency,
-              exp_invoice: invoiceId,
-              exp_flight: flightId || null,
-              exp_period_start: periodStart || null,
-              exp_period_end: periodEnd || null,
-              exp_place: place || null,
-              exp_comments: comment,
-            };
+      if (!invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
 
-            const { error: feeCreateError } = await supabase
-              .from('expenses')
-              .insert(disbursementFeeData);
+      const { data, error } = await supabase
+        .from('bank_transactions')
+        .update({
+          invoice_id,
+          match_status: 'manual',
+          matched_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
 
-            if (!feeCreateError) {
-              disbursementFeeUpdated = true;
-              console.log('Disbursement fee created successfully');
-            } else {
-              console.log(
-                'Error creating disbursement fee:',
-                feeCreateError.message
-              );
-            }
-          }
-        }
+      if (error) {
+        console.log('Supabase error matching transaction:', error.message);
+        return res.status(500).json({ error: 'Failed to match transaction' });
       }
 
-      return res.status(200).json({
-        message: 'Expense updated successfully',
-        data: data[0],
-        disbursementFeeUpdated,
-      });
+      await refreshInvoicePaymentStatus([invoice_id, oldData.invoice_id]);
+
+      // Log the activity
+      await logActivity('UPDATE', 'bank_transactions', id, oldData, data, req);
+
+      return res.json(data);
     }
 
-    // Fallback for when Supabase is not available
-    return res.status(503).json({
-      error: 'Database not available',
-    });
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error updating expense:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-    });
+    console.log('Error matching transaction:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/dashboard/stats', async (_req, res) => {
-  try {
-    let stats = {
-      total_revenue: 0,
-      total_expenses: 0,
-      flights_count: 0,
-      flights_this_year: 0,
-      flights_last_year: 0,
-      flights_change_percent: 0,
-      invoices_pending: 0,
-      discrepancies_active: 0,
-      discrepancies_closed: 0,
-      // Новые метрики для страницы Flights
-      completed_flights_this_year: 0,
-      completed_flights_last_year: 0,
-      completed_flights_change_percent: 0,
-      processed_invoices_this_year: 0,
-      discrepancies_open: 0,
-      discrepancies_total: 0,
-    };
+// POST remove the invoice match from a transaction
+app.post(
+  '/api/transactions/:id/unmatch',
+  requireSuperadmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
 
-    if (supabase) {
-      try {
-        // Получаем статистику из базы данных
-        const [
-          flightsResult,
-          invoicesResult,
-          expensesResult,
-          discrepanciesResult,
-        ] = await Promise.all([
-          supabase.from('flights').select('*'),
-          supabase.from('invoices').select('*'),
-          supabase.from('expenses').select('amount'),
-          supabase.from('discrepancies').select('status'),
-        ]);
+      if (supabase) {
+        // First get the old data for logging
+        const { data: oldData, error: fetchError } = await supabase
+          .from('bank_transactions')
+          .select('*')
+          .eq('id', id)
+          .single();
 
-        const currentYear = new Date().getFullYear();
-        const previousYear = currentYear - 1;
+        if (fetchError) {
+          return res.status(404).json({ error: 'Transaction not found' });
+        }
 
-        if (!flightsResult.error) {
-          const flights = flightsResult.data || [];
-          stats.flights_count = flights.length;
+        const { data, error } = await supabase
+          .from('bank_transactions')
+          .update({
+            invoice_id: null,
+            match_status: 'unmatched',
+            matched_at: null,
+          })
+          .eq('id', id)
+          .select()
+          .single();
 
-          // Подсчитываем рейсы по годам (старая логика для обратной совместимости)
-          stats.flights_this_year =
-            flights.filter(flight => {
-              if (!flight.flt_date) return false;
-              const flightYear = new Date(flight.flt_date).getFullYear();
-              return flightYear === currentYear;
-            }).length || 0;
+        if (error) {
+          console.log('Supabase error unmatching transaction:', error.message);
+          return res
+            .status(500)
+            .json({ error: 'Failed to unmatch transaction' });
+        }
 
-          stats.flights_last_year =
-            flights.filter(flight => {
-              if (!flight.flt_date) return false;
-              const flightYear = new Date(flight.flt_date).getFullYear();
-              return flightYear === previousYear;
-            }).length || 0;
+        await refreshInvoicePaymentStatus([oldData.invoice_id]);
 
-          // Вычисляем процент изменения
-          if (stats.flights_last_year > 0) {
-            stats.flights_change_percent =
-              ((stats.flights_this_year - stats.flights_last_year) /
-                stats.flights_last_year) *
-              100;
-          } else {
-            stats.flights_change_percent =
-              stats.flights_this_year > 0 ? 100 : 0;
-          }
+        // Log the activity
+        await logActivity(
+          'UPDATE',
+          'bank_transactions',
+          id,
+          oldData,
+          data,
+          req
+        );
 
-          // Новые метрики: все рейсы в этом году (независимо от статуса)
-          stats.completed_flights_this_year =
-            flights.filter(flight => {
-              if (!flight.flt_date) return false;
-              const flightYear = new Date(flight.flt_date).getFullYear();
-              return flightYear === currentYear;
-            }).length || 0;
+        return res.json(data);
+      }
 
-          stats.completed_flights_last_year =
-            flights.filter(flight => {
-              if (!flight.flt_date) return false;
-              const flightYear = new Date(flight.flt_date).getFullYear();
-              return flightYear === previousYear;
-            }).length || 0;
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error unmatching transaction:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
 
-          // Вычисляем процент изменения для completed flights
-          if (stats.completed_flights_last_year > 0) {
-            stats.completed_flights_change_percent =
-              ((stats.completed_flights_this_year -
-                stats.completed_flights_last_year) /
-                stats.completed_flights_last_year) *
-              100;
-          } else {
-            stats.completed_flights_change_percent =
-              stats.completed_flights_this_year > 0 ? 100 : 0;
-          }
-        }
+// POST run automatic matching over all unmatched transactions
+app.post(
+  '/api/transactions/auto-match',
+  requireSuperadmin,
+  async (_req, res) => {
+    try {
+      if (supabase) {
+        const matched = await autoMatchTransactions();
+        return res.json({ matched });
+      }
 
-        if (!invoicesResult.error) {
-          const invoices = invoicesResult.data || [];
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error auto-matching transactions:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
 
-          // Считаем активные инвойсы (не заполненные или не оспоренные) - старая логика
-          stats.invoices_pending =
-            invoices.filter(inv => !inv.inv_filled || inv.inv_disputed)
-              .length || 0;
+// DELETE an imported statement and its transactions
+app.delete(
+  '/api/transactions/statements/:id',
+  requireSuperadmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
 
-          // Новая метрика: инвойсы в этом году по дате инвойса (inv_date)
-          stats.processed_invoices_this_year =
-            invoices.filter(invoice => {
-              if (!invoice.inv_date) return false;
-              const invoiceYear = new Date(invoice.inv_date).getFullYear();
-              return invoiceYear === currentYear;
-            }).length || 0;
-        }
+      if (supabase) {
+        // First get the statement data for logging
+        const { data: statement, error: fetchError } = await supabase
+          .from('bank_statements')
+          .select('*')
+          .eq('id', id)
+          .single();
 
-        if (!expensesResult.error) {
-          stats.total_expenses =
-            expensesResult.data?.reduce(
-              (sum, expense) => sum + (expense.amount || 0),
-              0
-            ) || 0;
+        if (fetchError) {
+          return res.status(404).json({ error: 'Bank statement not found' });
         }
 
-        if (!discrepanciesResult.error) {
-          const discrepancies = discrepanciesResult.data || [];
+        const { data: matched } = await supabase
+          .from('bank_transactions')
+          .select('invoice_id')
+          .eq('statement_id', id)
+          .not('invoice_id', 'is', null);
 
-          // Старая логика для обратной совместимости
-          stats.discrepancies_active =
-            discrepancies.filter(
-              d => d.status === 'Created' || d.status === 'Raised'
-            ).length || 0;
-          stats.discrepancies_closed =
-            discrepancies.filter(d => d.status === 'Closed').length || 0;
+        // Transactions are removed by ON DELETE CASCADE
+        const { error } = await supabase
+          .from('bank_statements')
+          .delete()
+          .eq('id', id);
 
-          // Новые метрики
-          stats.discrepancies_open =
-            discrepancies.filter(
-              d => d.status === 'Created' || d.status === 'Raised'
-            ).length || 0;
-          stats.discrepancies_total = discrepancies.length || 0;
+        if (error) {
+          console.log('Supabase error deleting bank statement:', error.message);
+          return res
+            .status(500)
+            .json({ error: 'Failed to delete bank statement' });
         }
-      } catch (dbError) {
-        console.log('Database error, using mock stats:', dbError);
-        // Используем mock данные
-        stats = {
-          total_revenue: 5300,
-          total_expenses: 20500,
-          flights_count: 2,
-          flights_this_year: 1,
-          flights_last_year: 1,
-          flights_change_percent: 0,
-          invoices_pending: 1,
-          discrepancies_active: 0,
-          discrepancies_closed: 0,
-          completed_flights_this_year: 1,
-          completed_flights_last_year: 1,
-          completed_flights_change_percent: 0,
-          processed_invoices_this_year: 0,
-          discrepancies_open: 0,
-          discrepancies_total: 0,
-        };
+
+        await refreshInvoicePaymentStatus(
+          (matched || []).map(t => t.invoice_id)
+        );
+
+        // Log the activity
+        await logActivity(
+          'DELETE',
+          'bank_statements',
+          id,
+          statement,
+          null,
+          req
+        );
+
+        return res.status(204).send();
       }
-    } else {
-      // Mock статистика
-      stats = {
-        total_revenue: 5300,
-        total_expenses: 20500,
-        flights_count: 2,
-        flights_this_year: 1,
-        flights_last_year: 1,
-        flights_change_percent: 0,
-        invoices_pending: 1,
-        discrepancies_active: 0,
-        discrepancies_closed: 0,
-        completed_flights_this_year: 1,
-        completed_flights_last_year: 1,
-        completed_flights_change_percent: 0,
-        processed_invoices_this_year: 0,
-        discrepancies_open: 0,
-        discrepancies_total: 0,
-      };
+
+      return res.status(503).json({ error: 'Database not available' });
+    } catch (error) {
+      console.log('Error deleting bank statement:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET imported statements
+app.get('/api/transactions/statements', async (_req, res) => {
+  try {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from('bank_statements')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.log('Supabase error fetching statements:', error.message);
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch bank statements' });
+      }
+
+      return res.json(data || []);
     }
 
-    res.json(stats);
+    return res.status(503).json({ error: 'Database not available' });
   } catch (error) {
-    console.log('Error fetching dashboard stats:', error);
-    res.json({
-      total_revenue: 5300,
-      total_expenses: 20500,
-      flights_count: 2,
-      flights_this_year: 0,
-      flights_last_year: 0,
-      flights_change_percent: 0,
-      invoices_pending: 1,
-      discrepancies_active: 0,
-      discrepancies_closed: 0,
-      completed_flights_this_year: 0,
-      completed_flights_last_year: 0,
-      completed_flights_change_percent: 0,
-      processed_invoices_this_year: 0,
-      discrepancies_open: 0,
-      discrepancies_total: 0,
-    });
+    console.log('Error fetching bank statements:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
@@ -6381,10 +12000,23 @@ app.get('/api/backup/create', async (req, res) => {
     const tables = [
       'flights',
       'invoices',
+      'invoice_attachments',
       'expenses',
       'expense_types',
       'expense_subtypes',
       'invoice_types',
+      'suppliers',
+      'disbursement_fee_rules',
+      'fx_rates',
+      'currencies',
+      'airports',
+      'bank_statements',
+      'bank_transactions',
+      'discrepancies',
+      'discrepancy_notes',
+      'discrepancy_attachments',
+      'discrepancy_status_history',
+      'discrepancy_recoveries',
       'activity_logs',
     ];
 
@@ -6424,6 +12056,30 @@ app.get('/api/backup/create', async (req, res) => {
 
     backupData.metadata.total_records = totalRecords;
 
+    // Attachment files live outside the database: add them by storage path
+    // (discrepancy attachments from before attachment storage are inline)
+    const files: Record<string, { content_type: string; content: string }> = {};
+    for (const table of ['invoice_attachments', 'discrepancy_attachments']) {
+      for (const attachment of backupData.data[table]) {
+        if (!attachment.storage_path || !attachmentStorage) continue;
+        try {
+          const content = await attachmentStorage.get(attachment.storage_path);
+          files[attachment.storage_path] = {
+            content_type: attachment.content_type,
+            content: content.toString('base64'),
+          };
+        } catch (fileError) {
+          console.warn(
+            `Warning: Could not backup attachment ${attachment.storage_path}:`,
+            fileError
+          );
+        }
+      }
+    }
+    backupData.files = files;
+    backupData.metadata.total_files = Object.keys(files).length;
+    console.log(`✅ Backed up ${Object.keys(files).length} attachment files`);
+
     // Log the backup activity
     await logActivity(
       'CREATE',
@@ -6431,7 +12087,6 @@ app.get('/api/backup/create', async (req, res) => {
       null,
       null,
       { total_records: totalRecords, tables: tables },
-      'system',
       req
     );
 
@@ -6479,6 +12134,12 @@ app.post('/api/backup/restore', async (req, res) => {
       total_restored: 0,
     };
 
+    // Key column of each table (reference tables are keyed by their code)
+    const keyColumns: Record<string, string> = {
+      currencies: 'code',
+      airports: 'icao',
+    };
+
     // If clearExisting is true, truncate all tables first
     if (clearExisting) {
       console.log('🗑️ Clearing existing data...');
@@ -6486,20 +12147,38 @@ app.post('/api/backup/restore', async (req, res) => {
       // Delete in reverse order to respect foreign key constraints
       const deleteOrder = [
         'activity_logs',
+        'discrepancy_recoveries',
+        'discrepancy_status_history',
+        'discrepancy_attachments',
+        'discrepancy_notes',
+        'discrepancies',
+        'bank_transactions',
+        'bank_statements',
         'expenses',
+        'invoice_attachments',
         'invoices',
         'flights',
         'expense_subtypes',
         'expense_types',
+        'disbursement_fee_rules',
+        'suppliers',
         'invoice_types',
+        'fx_rates',
+        'currencies',
+        'airports',
       ];
 
       for (const table of deleteOrder) {
         try {
+          // A key value no row has, so the filter matches every row
+          const keyColumn = keyColumns[table] || 'id';
+          const noneValue = keyColumns[table]
+            ? ''
+            : '00000000-0000-0000-0000-000000000000';
           const { error } = await supabase
             .from(table)
             .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all records
+            .neq(keyColumn, noneValue); // Delete all records
 
           if (error) {
             console.warn(
@@ -6517,14 +12196,53 @@ app.post('/api/backup/restore', async (req, res) => {
       }
     }
 
-    // Restore data in correct order to respect foreign key constraints
+    // Put attachment files back before the rows that point to them
+    results.files_restored = 0;
+    for (const [storagePath, file] of Object.entries<any>(
+      backupData.files || {}
+    )) {
+      try {
+        if (!attachmentStorage) {
+          throw new Error('Attachment storage not available');
+        }
+        await attachmentStorage.put(
+          storagePath,
+          Buffer.from(String(file.content || ''), 'base64'),
+          file.content_type || 'application/octet-stream'
+        );
+        results.files_restored++;
+      } catch (fileError) {
+        console.warn(`Error restoring attachment ${storagePath}:`, fileError);
+        results.errors.push(
+          `Failed to restore attachment ${storagePath}: ${fileError}`
+        );
+      }
+    }
+
+    // Rows keep their ids, so the references between them (an expense's
+    // invoice, flight and types, a transaction's statement, a note's
+    // discrepancy) still hold. Tables are restored parents first to respect
+    // the foreign key constraints.
     const restoreOrder = [
+      'currencies',
+      'airports',
+      'fx_rates',
       'invoice_types',
+      'suppliers',
+      'disbursement_fee_rules',
       'expense_types',
       'expense_subtypes',
       'flights',
       'invoices',
+      'invoice_attachments',
       'expenses',
+      'bank_statements',
+      'bank_transactions',
+      'discrepancies',
+      'discrepancy_notes',
+      'discrepancy_attachments',
+      'discrepancy_status_history',
+      'discrepancy_recoveries',
       'activity_logs',
     ];
 
@@ -6540,16 +12258,10 @@ app.post('/api/backup/restore', async (req, res) => {
       console.log(`🔄 Restoring table ${table}: ${tableData.length} records`);
 
       try {
-        // Remove id and timestamps to let database generate new ones
-        const cleanData = tableData.map(record => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { id, created_at, updated_at, ...cleanRecord } = record;
-          return cleanRecord;
-        });
-
+        // A row that is still in the database is replaced by its backup
         const { data, error } = await supabase
           .from(table)
-          .insert(cleanData)
+          .upsert(tableData, { onConflict: keyColumns[table] || 'id' })
           .select();
 
         if (error) {
@@ -6603,10 +12315,10 @@ app.post('/api/backup/restore', async (req, res) => {
       null,
       {
         total_restored: results.total_restored,
+        files_restored: results.files_restored,
         tables_restored: Object.keys(results.tables).length,
         errors: results.errors.length,
       },
-      'system',
       req
     );
 
@@ -6640,10 +12352,23 @@ app.get('/api/backup/info', async (req, res) => {
     const tables = [
       'flights',
       'invoices',
+      'invoice_attachments',
       'expenses',
       'expense_types',
       'expense_subtypes',
       'invoice_types',
+      'suppliers',
+      'disbursement_fee_rules',
+      'fx_rates',
+      'currencies',
+      'airports',
+      'bank_statements',
+      'bank_transactions',
+      'discrepancies',
+      'discrepancy_notes',
+      'discrepancy_attachments',
+      'discrepancy_status_history',
+      'discrepancy_recoveries',
       'activity_logs',
     ];
 
@@ -6707,12 +12432,26 @@ app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
 });
 
 // ---------- Start ----------
-app.listen(PORT, async () => {
-  console.log(`🚀 Jet Finances running at http://localhost:${PORT}`);
-  console.log(
-    `📊 Health check available at http://localhost:${PORT}/api/health/supabase`
-  );
+// Tests import the app (NODE_ENV=test) without starting the server
+export { app };
 
-  // Тестируем соединение с Supabase при запуске
-  await testSupabaseConnection();
-});
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(PORT, async () => {
+    console.log(`🚀 Jet Finances running at http://localhost:${PORT}`);
+    console.log(
+      `📊 Health check available at http://localhost:${PORT}/api/health/supabase`
+    );
+
+    // Every API route must have an explicit permission
+    const unmappedRoutes = findUnmappedApiRoutes(app);
+    if (unmappedRoutes.length > 0) {
+      console.warn(
+        '⚠️ API routes without an explicit permission (requests to them are refused):',
+        unmappedRoutes.join(', ')
+      );
+    }
+
+    // Тестируем соединение с Supabase при запуске
+    await testSupabaseConnection();
+  });
+}
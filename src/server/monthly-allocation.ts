@@ -0,0 +1,349 @@
+// ---------- Monthly Allocation ----------
+// Spreads expenses over report months and builds the monthly report matrix.
+// Shared by the Excel export and GET /api/reports/monthly so the two can
+// never disagree.
+
+export type ProrateMode = 'month' | 'day';
+
+export type AllocationKind = 'expense' | 'credit_note' | 'charter_profit';
+
+export type ReportGroup = 'nonFlight' | 'flight';
+
+export interface MonthlyShare {
+  monthKey: string; // YYYY-MM
+  amount: number;
+  currency: string;
+}
+
+// monthKey -> column (currency) -> amount
+export type MonthValues = Record<string, Record<string, number>>;
+
+export interface ReportItem {
+  expense: any;
+  kind: AllocationKind;
+  category: string | null; // report row of a regular expense
+  group: ReportGroup;
+}
+
+export interface MonthlyMatrixOptions {
+  columns: string[];
+  prorate: ProrateMode;
+  // Fixed list of months to report; by default every month with data that
+  // passes monthFilter
+  months?: string[];
+  monthFilter?: (monthKey: string) => boolean;
+  // Returns null when there is no rate for the conversion
+  convert: (
+    amount: number,
+    currency: string,
+    column: string,
+    monthKey: string
+  ) => number | null;
+  categoryOrder: (category: string) => number;
+  withDetails?: boolean;
+}
+
+export interface MonthlyMatrixRow {
+  category: string;
+  group: ReportGroup;
+  values: MonthValues;
+}
+
+export interface MonthlyAllocationDetail {
+  row: string;
+  kind: AllocationKind;
+  month: string;
+  expense_id: string;
+  amount: number;
+  currency: string;
+  values: Record<string, number>;
+}
+
+export interface MonthlyMatrix {
+  months: string[];
+  columns: string[];
+  prorate: ProrateMode;
+  rows: MonthlyMatrixRow[];
+  credit_note: MonthValues;
+  total: MonthValues;
+  charter_profit: MonthValues;
+  missing_fx_rates: string[];
+  details?: MonthlyAllocationDetail[];
+}
+
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Helper function to list the months from one month key to another (inclusive)
+export function monthRange(from: string, to: string): string[] {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  const months: string[] = [];
+
+  let year = fromYear;
+  let month = fromMonth - 1;
+  while (year < toYear || (year === toYear && month <= toMonth - 1)) {
+    months.push(toMonthKey(new Date(year, month, 1)));
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+  }
+
+  return months;
+}
+
+// Split an amount over the months of a period.
+// The expense form stores the end month as its 1st day, and a single month as
+// the 1st of the next month. So an end date on the 1st of the month right
+// after the start month is a single-month period; otherwise the end month is
+// included whole (2024-01-01 to 2024-03-01 is January to March). With day
+// pro-rating each month gets its share of the covered days instead of an
+// equal share; an end date on the 1st covers its whole month there too.
+export function splitPeriodByMonths(
+  periodStart: string,
+  periodEnd: string,
+  amount: number,
+  prorate: ProrateMode = 'month'
+): Array<{ monthKey: string; amount: number }> {
+  const start = new Date(periodStart);
+  const end = new Date(periodEnd);
+  const startYear = start.getFullYear();
+  const startMonth = start.getMonth();
+  const endYear = end.getFullYear();
+  const endMonth = end.getMonth();
+  const endDay = end.getDate();
+
+  const monthsApart = (endYear - startYear) * 12 + (endMonth - startMonth);
+  const isSingleMonth = endDay === 1 && monthsApart === 1;
+
+  const totalMonths = isSingleMonth ? 1 : monthsApart + 1;
+
+  const months: Array<{ year: number; month: number; monthKey: string }> = [];
+  let currentYear = startYear;
+  let currentMonth = startMonth;
+  for (let i = 0; i < totalMonths; i++) {
+    months.push({
+      year: currentYear,
+      month: currentMonth,
+      monthKey: toMonthKey(new Date(currentYear, currentMonth, 1)),
+    });
+    currentMonth++;
+    if (currentMonth > 11) {
+      currentMonth = 0;
+      currentYear++;
+    }
+  }
+
+  if (prorate === 'day' && months.length > 1) {
+    // A 1st-of-month end date covers whole months, any other end date is
+    // the last covered day
+    const days = months.map(({ year, month }, index) => {
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
+      const firstDay = index === 0 ? start.getDate() : 1;
+      const lastDay =
+        index === months.length - 1 && endDay !== 1 ? endDay : daysInMonth;
+      return Math.max(lastDay - firstDay + 1, 0);
+    });
+    const totalDays = days.reduce((sum, d) => sum + d, 0);
+
+    if (totalDays > 0) {
+      return months.map(({ monthKey }, index) => ({
+        monthKey,
+        amount: (amount * days[index]) / totalDays,
+      }));
+    }
+  }
+
+  const monthlyAmount = totalMonths > 0 ? amount / totalMonths : amount;
+  return months.map(({ monthKey }) => ({ monthKey, amount: monthlyAmount }));
+}
+
+// Split an expense over report months.
+// Charter profit always goes to its flight month (or invoice month); other
+// flight expenses go to the flight month, period expenses are spread over the
+// period, and anything else goes to the invoice month (income) or the month
+// it was entered.
+export function allocateExpenseByMonths(
+  expense: any,
+  kind: AllocationKind,
+  prorate: ProrateMode = 'month'
+): MonthlyShare[] {
+  const amount = parseFloat(expense.exp_amount) || 0;
+  const currency = expense.exp_currency || 'USD';
+  const periodStart = expense.exp_period_start;
+  const periodEnd = expense.exp_period_end;
+  const flightDate =
+    expense.exp_flight && expense.flights?.flt_date
+      ? new Date(expense.flights.flt_date)
+      : null;
+  const invoiceDate = expense.invoices?.inv_date
+    ? new Date(expense.invoices.inv_date)
+    : null;
+  const createdDate = expense.created_at
+    ? new Date(expense.created_at)
+    : new Date();
+
+  // Period is ALWAYS ignored for charter profit
+  if (kind === 'charter_profit') {
+    const date = flightDate || invoiceDate || createdDate;
+    return [{ monthKey: toMonthKey(date), amount, currency }];
+  }
+
+  if (flightDate) {
+    return [{ monthKey: toMonthKey(flightDate), amount, currency }];
+  }
+
+  if (periodStart && periodEnd) {
+    return splitPeriodByMonths(periodStart, periodEnd, amount, prorate).map(
+      share => ({ ...share, currency })
+    );
+  }
+
+  const date =
+    kind === 'credit_note' && invoiceDate ? invoiceDate : createdDate;
+  return [{ monthKey: toMonthKey(date), amount, currency }];
+}
+
+// Build the report matrix: one row per category (and group), income rows and
+// the total (regular expenses minus credit notes), converted into every
+// report column
+export function buildMonthlyMatrix(
+  items: ReportItem[],
+  options: MonthlyMatrixOptions
+): MonthlyMatrix {
+  const { columns, prorate } = options;
+
+  const allocations: Array<{ item: ReportItem; share: MonthlyShare }> = [];
+  const rowKeys = new Map<string, { category: string; group: ReportGroup }>();
+  const monthsWithData = new Set<string>();
+
+  for (const item of items) {
+    if (item.kind === 'expense') {
+      if (!item.category) continue;
+      const rowKey = `${item.group}|${item.category}`;
+      if (!rowKeys.has(rowKey)) {
+        rowKeys.set(rowKey, { category: item.category, group: item.group });
+      }
+    }
+
+    for (const share of allocateExpenseByMonths(
+      item.expense,
+      item.kind,
+      prorate
+    )) {
+      allocations.push({ item, share });
+      monthsWithData.add(share.monthKey);
+    }
+  }
+
+  const months =
+    options.months ||
+    Array.from(monthsWithData)
+      .sort()
+      .filter(
+        monthKey => !options.monthFilter || options.monthFilter(monthKey)
+      );
+  const selectedMonths = new Set(months);
+
+  const emptyValues = (): MonthValues => {
+    const values: MonthValues = {};
+    months.forEach(monthKey => {
+      values[monthKey] = {};
+      columns.forEach(column => {
+        values[monthKey][column] = 0;
+      });
+    });
+    return values;
+  };
+
+  const rows = new Map<string, MonthlyMatrixRow>();
+  rowKeys.forEach(({ category, group }, rowKey) => {
+    rows.set(rowKey, { category, group, values: emptyValues() });
+  });
+  const creditNote = emptyValues();
+  const charterProfit = emptyValues();
+  const missing = new Set<string>();
+  const details: MonthlyAllocationDetail[] = [];
+
+  for (const { item, share } of allocations) {
+    if (!selectedMonths.has(share.monthKey)) continue;
+
+    let target: MonthValues;
+    let rowName: string;
+    if (item.kind === 'credit_note') {
+      target = creditNote;
+      rowName = 'Credit note';
+    } else if (item.kind === 'charter_profit') {
+      target = charterProfit;
+      rowName = 'Charter profit';
+    } else {
+      target = rows.get(`${item.group}|${item.category}`)!.values;
+      rowName = item.category!;
+    }
+
+    const converted: Record<string, number> = {};
+    for (const column of columns) {
+      const value = options.convert(
+        share.amount,
+        share.currency,
+        column,
+        share.monthKey
+      );
+      if (value === null) {
+        missing.add(`${share.currency} → ${column} (${share.monthKey})`);
+        continue;
+      }
+      target[share.monthKey][column] += value;
+      converted[column] = value;
+    }
+
+    if (options.withDetails) {
+      details.push({
+        row: rowName,
+        kind: item.kind,
+        month: share.monthKey,
+        expense_id: item.expense.id,
+        amount: share.amount,
+        currency: share.currency,
+        values: converted,
+      });
+    }
+  }
+
+  // Sort by the order of the base category (before " - "), then by name
+  const sortedRows = Array.from(rows.values()).sort((a, b) => {
+    const orderA = options.categoryOrder(a.category.split(' - ')[0]);
+    const orderB = options.categoryOrder(b.category.split(' - ')[0]);
+    if (orderA === orderB) {
+      return a.category.localeCompare(b.category);
+    }
+    return orderA - orderB;
+  });
+
+  // Total = sum of all regular expenses - credit notes
+  const total = emptyValues();
+  months.forEach(monthKey => {
+    columns.forEach(column => {
+      const expensesSum = sortedRows.reduce(
+        (sum, row) => sum + row.values[monthKey][column],
+        0
+      );
+      total[monthKey][column] = expensesSum - creditNote[monthKey][column];
+    });
+  });
+
+  return {
+    months,
+    columns,
+    prorate,
+    rows: sortedRows,
+    credit_note: creditNote,
+    total,
+    charter_profit: charterProfit,
+    missing_fx_rates: Array.from(missing),
+    ...(options.withDetails ? { details } : {}),
+  };
+}
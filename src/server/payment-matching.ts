@@ -0,0 +1,78 @@
+// ---------- Payment Matching ----------
+// Ranks the invoices a bank transaction could pay and picks the one to match
+// automatically. Used by the statement import and the manual matching screen.
+
+// Payments are matched to invoices dated up to this many days after (or before,
+// for prepayments) the booking date
+export const PAYMENT_MATCH_DAYS_BEFORE = 7;
+export const PAYMENT_MATCH_DAYS_AFTER = 120;
+
+export interface PaymentCandidate {
+  invoice: any;
+  score: number;
+  sameAmount: boolean;
+  sameCurrency: boolean;
+  inWindow: boolean;
+  inReference: boolean;
+}
+
+// Helper function to keep only letters and digits for reference matching
+export function normalizeReference(value: string | null | undefined): string {
+  return String(value || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+// Helper function to rank the invoices a payment could settle
+export function findPaymentCandidates(
+  transaction: any,
+  invoices: any[]
+): PaymentCandidate[] {
+  const amount = Math.abs(Number(transaction.amount));
+  const reference = normalizeReference(
+    `${transaction.reference || ''} ${transaction.counterparty || ''}`
+  );
+  const bookingTime = Date.parse(transaction.booking_date);
+
+  // Only money going out pays a supplier invoice
+  if (Number(transaction.amount) >= 0) return [];
+
+  return invoices
+    .map(invoice => {
+      const invNumber = normalizeReference(invoice.inv_number);
+      const days = (bookingTime - Date.parse(invoice.inv_date)) / 86400000;
+      const candidate: PaymentCandidate = {
+        invoice,
+        score: 0,
+        sameAmount: Math.abs(Number(invoice.inv_amount) - amount) < 0.01,
+        sameCurrency:
+          String(invoice.inv_currency).toUpperCase() ===
+          String(transaction.currency).toUpperCase(),
+        inWindow:
+          days >= -PAYMENT_MATCH_DAYS_BEFORE &&
+          days <= PAYMENT_MATCH_DAYS_AFTER,
+        inReference: invNumber.length >= 3 && reference.includes(invNumber),
+      };
+      candidate.score =
+        (candidate.sameAmount && candidate.sameCurrency ? 50 : 0) +
+        (candidate.inReference ? 40 : 0) +
+        (candidate.inWindow ? 10 : 0);
+      return candidate;
+    })
+    .filter(c => (c.sameAmount && c.sameCurrency) || c.inReference)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Helper function to choose the invoice to match automatically: amount,
+// currency and date window must agree, and either the reference names the
+// invoice or it is the only invoice that fits
+export function pickAutoMatch(candidates: PaymentCandidate[]): any | null {
+  const exact = candidates.filter(
+    c => c.sameAmount && c.sameCurrency && c.inWindow
+  );
+  const named = exact.filter(c => c.inReference);
+
+  if (named.length === 1) return named[0].invoice;
+  if (named.length === 0 && exact.length === 1) return exact[0].invoice;
+  return null;
+}
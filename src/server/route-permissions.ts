@@ -0,0 +1,399 @@
+// ---------- Route Permissions ----------
+// Every API route is mapped to the permission it needs:
+//   public - no login (auth endpoints)
+//   read   - any logged-in user
+//   write  - changes data, superadmin only
+
+import type { Application, NextFunction, Request, Response } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Permission = 'public' | 'read' | 'write';
+
+export type UserRole = 'superadmin' | 'reader';
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    role: UserRole;
+    full_name?: string;
+  };
+}
+
+export interface ApiRoutePermission {
+  method: string;
+  path: string;
+  permission: Permission;
+}
+
+// Registered route as kept in the Express 4 router stack (not in its typings)
+interface RouterLayer {
+  route?: { path: unknown; methods: Record<string, boolean> };
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  superadmin: ['public', 'read', 'write'],
+  reader: ['public', 'read'],
+};
+
+export const API_ROUTE_PERMISSIONS: ApiRoutePermission[] = [
+  // Auth
+  { method: 'POST', path: '/api/auth/login', permission: 'public' },
+  { method: 'GET', path: '/api/auth/status', permission: 'public' },
+  { method: 'POST', path: '/api/auth/logout', permission: 'public' },
+
+  // Diagnostics and maintenance
+  { method: 'GET', path: '/api/test/rest', permission: 'read' },
+  { method: 'GET', path: '/api/test-logs-table', permission: 'read' },
+  { method: 'GET', path: '/api/health/supabase', permission: 'read' },
+  { method: 'POST', path: '/api/create-logs-table', permission: 'write' },
+  {
+    method: 'POST',
+    path: '/api/add-record-details-column',
+    permission: 'write',
+  },
+
+  // Flights
+  { method: 'GET', path: '/api/flights', permission: 'read' },
+  { method: 'GET', path: '/api/flights/expenses', permission: 'read' },
+  {
+    method: 'GET',
+    path: '/api/flights/expense-duplicate-check',
+    permission: 'read',
+  },
+  {
+    method: 'GET',
+    path: '/api/flights/:flightNumber/expenses',
+    permission: 'read',
+  },
+  { method: 'GET', path: '/api/flights/export', permission: 'read' },
+  { method: 'POST', path: '/api/flights', permission: 'write' },
+  { method: 'POST', path: '/api/flights/import', permission: 'write' },
+
+  // Airports
+  { method: 'GET', path: '/api/airports', permission: 'read' },
+  { method: 'POST', path: '/api/airports', permission: 'write' },
+  {
+    method: 'POST',
+    path: '/api/airports/load-bundled',
+    permission: 'write',
+  },
+  { method: 'PUT', path: '/api/flights/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/flights/:id', permission: 'write' },
+  { method: 'PATCH', path: '/api/flights/:id/status', permission: 'write' },
+
+  // Invoices
+  { method: 'GET', path: '/api/invoices', permission: 'read' },
+  { method: 'GET', path: '/api/invoices/:id', permission: 'read' },
+  { method: 'GET', path: '/api/invoices/:id/expenses', permission: 'read' },
+  {
+    method: 'GET',
+    path: '/api/invoices/:id/reconciliation',
+    permission: 'read',
+  },
+  { method: 'POST', path: '/api/invoices', permission: 'write' },
+  { method: 'PUT', path: '/api/invoices/:id', permission: 'write' },
+  { method: 'PUT', path: '/api/invoices/:id/status', permission: 'write' },
+  { method: 'PUT', path: '/api/invoices/:id/lifecycle', permission: 'write' },
+  { method: 'DELETE', path: '/api/invoices/:id', permission: 'write' },
+  { method: 'GET', path: '/api/invoices/:id/attachments', permission: 'read' },
+  {
+    method: 'GET',
+    path: '/api/invoices/:id/attachments/:attachmentId',
+    permission: 'read',
+  },
+  {
+    method: 'POST',
+    path: '/api/invoices/:id/attachments',
+    permission: 'write',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/invoices/:id/attachments/:attachmentId',
+    permission: 'write',
+  },
+
+  // Expenses
+  { method: 'GET', path: '/api/expenses', permission: 'read' },
+  { method: 'GET', path: '/api/expenses/export-excel', permission: 'read' },
+  { method: 'GET', path: '/api/reports/monthly', permission: 'read' },
+  { method: 'POST', path: '/api/expenses', permission: 'write' },
+  { method: 'POST', path: '/api/expenses/import', permission: 'write' },
+  { method: 'PUT', path: '/api/expenses/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/expenses/:id', permission: 'write' },
+
+  // Discrepancies
+  { method: 'GET', path: '/api/discrepancies', permission: 'read' },
+  { method: 'GET', path: '/api/discrepancies/:id', permission: 'read' },
+  { method: 'POST', path: '/api/discrepancies', permission: 'write' },
+  { method: 'PUT', path: '/api/discrepancies/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/discrepancies/:id', permission: 'write' },
+
+  // Disputes
+  { method: 'GET', path: '/api/disputes', permission: 'read' },
+  { method: 'GET', path: '/api/disputes/aging', permission: 'read' },
+  { method: 'GET', path: '/api/discrepancies/:id/history', permission: 'read' },
+  { method: 'GET', path: '/api/discrepancies/:id/notes', permission: 'read' },
+  { method: 'POST', path: '/api/discrepancies/:id/notes', permission: 'write' },
+  {
+    method: 'DELETE',
+    path: '/api/discrepancies/:id/notes/:noteId',
+    permission: 'write',
+  },
+  {
+    method: 'GET',
+    path: '/api/discrepancies/:id/attachments',
+    permission: 'read',
+  },
+  {
+    method: 'GET',
+    path: '/api/discrepancies/:id/attachments/:attachmentId',
+    permission: 'read',
+  },
+  {
+    method: 'POST',
+    path: '/api/discrepancies/:id/attachments',
+    permission: 'write',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/discrepancies/:id/attachments/:attachmentId',
+    permission: 'write',
+  },
+  { method: 'GET', path: '/api/disputes/recovery', permission: 'read' },
+  {
+    method: 'GET',
+    path: '/api/discrepancies/:id/recoveries',
+    permission: 'read',
+  },
+  {
+    method: 'GET',
+    path: '/api/discrepancies/:id/credit-notes',
+    permission: 'read',
+  },
+  {
+    method: 'POST',
+    path: '/api/discrepancies/:id/recoveries',
+    permission: 'write',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/discrepancies/:id/recoveries/:recoveryId',
+    permission: 'write',
+  },
+
+  // Reference data
+  { method: 'GET', path: '/api/expense-categories', permission: 'read' },
+  { method: 'GET', path: '/api/expense-types', permission: 'read' },
+  { method: 'GET', path: '/api/expense-types/:id', permission: 'read' },
+  { method: 'POST', path: '/api/expense-types', permission: 'write' },
+  { method: 'PUT', path: '/api/expense-types/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/expense-types/:id', permission: 'write' },
+  { method: 'GET', path: '/api/expense-subtypes/:typeId', permission: 'read' },
+  { method: 'GET', path: '/api/expense-subtypes/:id', permission: 'read' },
+  { method: 'POST', path: '/api/expense-subtypes', permission: 'write' },
+  { method: 'PUT', path: '/api/expense-subtypes/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/expense-subtypes/:id', permission: 'write' },
+  { method: 'GET', path: '/api/invoice-types', permission: 'read' },
+  { method: 'GET', path: '/api/invoice-types/:id', permission: 'read' },
+  { method: 'POST', path: '/api/invoice-types', permission: 'write' },
+  { method: 'PUT', path: '/api/invoice-types/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/invoice-types/:id', permission: 'write' },
+  { method: 'GET', path: '/api/fx-rates', permission: 'read' },
+  { method: 'POST', path: '/api/fx-rates', permission: 'write' },
+  { method: 'PUT', path: '/api/fx-rates/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/fx-rates/:id', permission: 'write' },
+  { method: 'GET', path: '/api/disbursement-fee-rules', permission: 'read' },
+  { method: 'POST', path: '/api/disbursement-fee-rules', permission: 'write' },
+  {
+    method: 'PUT',
+    path: '/api/disbursement-fee-rules/:id',
+    permission: 'write',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/disbursement-fee-rules/:id',
+    permission: 'write',
+  },
+  { method: 'GET', path: '/api/suppliers', permission: 'read' },
+  { method: 'GET', path: '/api/suppliers/stats', permission: 'read' },
+  { method: 'GET', path: '/api/suppliers/:id', permission: 'read' },
+  { method: 'POST', path: '/api/suppliers', permission: 'write' },
+  { method: 'PUT', path: '/api/suppliers/:id', permission: 'write' },
+  { method: 'DELETE', path: '/api/suppliers/:id', permission: 'write' },
+  { method: 'GET', path: '/api/currencies', permission: 'read' },
+  { method: 'POST', path: '/api/currencies', permission: 'write' },
+  { method: 'PUT', path: '/api/currencies/:code', permission: 'write' },
+
+  // Dashboard
+  { method: 'GET', path: '/api/dashboard/stats', permission: 'read' },
+
+  // Backup
+  { method: 'GET', path: '/api/backup/info', permission: 'read' },
+
+  // Activity log
+  { method: 'POST', path: '/api/logs/:id/revert', permission: 'write' },
+
+  // Bank transactions
+  { method: 'GET', path: '/api/transactions', permission: 'read' },
+  { method: 'GET', path: '/api/transactions/statements', permission: 'read' },
+  {
+    method: 'GET',
+    path: '/api/transactions/:id/candidates',
+    permission: 'read',
+  },
+  { method: 'POST', path: '/api/transactions/import', permission: 'write' },
+  { method: 'POST', path: '/api/transactions/auto-match', permission: 'write' },
+  { method: 'POST', path: '/api/transactions/:id/match', permission: 'write' },
+  {
+    method: 'POST',
+    path: '/api/transactions/:id/unmatch',
+    permission: 'write',
+  },
+  {
+    method: 'DELETE',
+    path: '/api/transactions/statements/:id',
+    permission: 'write',
+  },
+
+  // Backup (a backup is a full data export, so it is superadmin only)
+  { method: 'GET', path: '/api/backup/create', permission: 'write' },
+  { method: 'POST', path: '/api/backup/restore', permission: 'write' },
+];
+
+// Helper function to check whether a request path matches an Express route path.
+// Express routes ignore case and a trailing slash, so the match does too.
+function matchesRoutePath(routePath: string, requestPath: string): boolean {
+  const routeParts = routePath.toLowerCase().split('/');
+  const requestParts = requestPath.toLowerCase().replace(/\/+$/, '').split('/');
+  if (routeParts.length !== requestParts.length) return false;
+  return routeParts.every(
+    (part, i) =>
+      (part.startsWith(':') && requestParts[i] !== '') ||
+      part === requestParts[i]
+  );
+}
+
+// Helper function to find the permission required for an API request.
+// Null for unmapped routes: those are refused.
+export function getRequiredPermission(
+  method: string,
+  requestPath: string
+): Permission | null {
+  const routeMethod =
+    method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+  const entry = API_ROUTE_PERMISSIONS.filter(
+    r => r.method === routeMethod && matchesRoutePath(r.path, requestPath)
+  )
+    // Prefer literal segments over parameters (/api/flights/expenses over /api/flights/:id)
+    .sort(
+      (a, b) =>
+        (a.path.match(/:/g) || []).length - (b.path.match(/:/g) || []).length
+    )[0];
+
+  return entry ? entry.permission : null;
+}
+
+// Middleware that enforces API_ROUTE_PERMISSIONS for every /api request.
+// Accepts a Bearer token or the session cookie set at login.
+export function createApiAuthorization(supabase: SupabaseClient | null) {
+  return async function authorizeApiRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    const permission = getRequiredPermission(
+      req.method,
+      req.originalUrl.split('?')[0]
+    );
+
+    if (permission === null) {
+      return res
+        .status(403)
+        .json({ error: 'No permission is defined for this API route' });
+    }
+
+    if (permission === 'public') {
+      return next();
+    }
+
+    try {
+      const authHeader = req.headers.authorization;
+      const token =
+        (authHeader && authHeader.split(' ')[1]) ||
+        req.cookies['sb-access-token'] ||
+        req.cookies['supabase-auth-token'];
+
+      if (!token) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (!supabase) {
+        return res.status(503).json({ error: 'Database not available' });
+      }
+
+      const {
+        data: { user },
+        error,
+      } = await supabase.auth.getUser(token);
+
+      if (error || !user) {
+        return res.status(401).json({ error: 'Invalid or expired token' });
+      }
+
+      const { data: userData, error: userError } = await supabase
+        .from('users')
+        .select('role, full_name')
+        .eq('id', user.id)
+        .single();
+
+      if (userError || !userData) {
+        return res.status(403).json({ error: 'User not found' });
+      }
+
+      req.user = {
+        id: user.id,
+        email: user.email || '',
+        role: userData.role as UserRole,
+        full_name: userData.full_name,
+      };
+
+      const granted = ROLE_PERMISSIONS[req.user.role] || [];
+      if (!granted.includes(permission)) {
+        return res.status(403).json({
+          error: `Insufficient permissions: ${permission} access required`,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Authorization error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+// Helper function to list registered API routes missing from API_ROUTE_PERMISSIONS
+export function findUnmappedApiRoutes(app: Application): string[] {
+  const router = (app as Application & { _router?: { stack: RouterLayer[] } })
+    ._router;
+  const stack = router?.stack || [];
+  const unmapped: string[] = [];
+
+  for (const layer of stack) {
+    const route = layer.route;
+    if (!route || typeof route.path !== 'string') continue;
+    if (!route.path.startsWith('/api/')) continue;
+
+    for (const method of Object.keys(route.methods)) {
+      const mapped = API_ROUTE_PERMISSIONS.some(
+        r => r.method === method.toUpperCase() && r.path === route.path
+      );
+      if (!mapped) {
+        unmapped.push(`${method.toUpperCase()} ${route.path}`);
+      }
+    }
+  }
+
+  return unmapped;
+}
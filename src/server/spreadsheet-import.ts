@@ -0,0 +1,205 @@
+// ---------- Spreadsheet Import ----------
+// Reads the first sheet of an XLSX or CSV upload into rows keyed by column
+// header, and converts cell values into the formats the API stores.
+
+import * as XLSX from 'xlsx';
+
+export interface SpreadsheetRow {
+  row: number; // row number in the sheet (header is row 1)
+  values: Record<string, any>;
+}
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+// Column header -> field name, as chosen by the user (or suggested)
+export type ColumnMapping = Record<string, string>;
+
+// XLSX files are ZIP archives, old XLS files OLE documents
+function isBinaryWorkbook(content: Buffer): boolean {
+  return (
+    content.subarray(0, 2).toString('latin1') === 'PK' ||
+    content.subarray(0, 4).toString('hex') === 'd0cf11e0'
+  );
+}
+
+export function readSpreadsheet(content: Buffer): Spreadsheet {
+  // CSV cells are read as text: the parser would guess US dates (05.01.2024 as
+  // May 1st); toDateString and toNumber read them instead
+  const workbook = isBinaryWorkbook(content)
+    ? XLSX.read(content, { type: 'buffer', cellDates: true })
+    : XLSX.read(content.toString('utf8').replace(/^\uFEFF/, ''), {
+        type: 'string',
+        raw: true,
+      });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('The file has no sheets');
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: true,
+  });
+
+  const headerIndex = matrix.findIndex(cells =>
+    (cells || []).some(cell => String(cell ?? '').trim() !== '')
+  );
+  if (headerIndex === -1) {
+    throw new Error('The file is empty');
+  }
+
+  // Header cells become column names; empty or repeated headers get a suffix
+  const seen = new Map<string, number>();
+  const headers = (matrix[headerIndex] || []).map((cell, index) => {
+    const base = String(cell ?? '').trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  for (let i = headerIndex + 1; i < matrix.length; i++) {
+    const cells = matrix[i] || [];
+    if (cells.every(cell => String(cell ?? '').trim() === '')) continue;
+
+    const values: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      const cell = cells[index];
+      values[header] = typeof cell === 'string' ? cell.trim() : (cell ?? null);
+    });
+    rows.push({ row: i + 1, values });
+  }
+
+  return { headers, rows };
+}
+
+// Helper function to compare header names and field labels loosely
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+// Suggest a mapping from each field to a column whose header matches the field
+// name or one of its aliases
+export function suggestColumnMapping(
+  headers: string[],
+  fields: Record<string, string[]>
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, aliases] of Object.entries(fields)) {
+    const candidates = [field, ...aliases].map(normalizeHeader);
+    const header = headers.find(
+      h => !used.has(h) && candidates.includes(normalizeHeader(h))
+    );
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+// Helper function to read a mapped cell; empty cells are null
+export function mappedValue(
+  row: SpreadsheetRow,
+  mapping: ColumnMapping,
+  field: string
+): any {
+  const header = mapping[field];
+  if (!header) return null;
+  const value = row.values[header];
+  return value === undefined || value === '' ? null : value;
+}
+
+// Dates: spreadsheet dates, YYYY-MM-DD, DD.MM.YYYY or DD/MM/YYYY.
+// Returns YYYY-MM-DD, or null when the value is not a date.
+export function toDateString(value: any): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  let year: number, month: number, day: number;
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+    if (!match) return null;
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Numbers: spreadsheet numbers or text such as "1 234,50" and "1,234.50".
+// Returns null when the value is not a number.
+export function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+
+  let text = String(value).replace(/[\s']/g, '');
+  if (/,\d{1,2}$/.test(text) && !/\.\d*,/.test(text)) {
+    // Decimal comma
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?\d*\.?\d+$/.test(text)) return null;
+  const number = Number(text);
+  return isFinite(number) ? number : null;
+}
+
+// Times and durations: spreadsheet times, "HH:MM", "HH:MM:SS" or "HHMM".
+// Returns HH:MM:SS with the seconds rounded into the minutes (01:30:30 is
+// 01:31:00), or null when the value is not a time of day.
+export function toTimeString(value: any): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  let minutes: number;
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    minutes = Math.round(
+      value.getHours() * 60 + value.getMinutes() + value.getSeconds() / 60
+    );
+  } else if (typeof value === 'number' && value >= 0 && value < 1) {
+    // Fraction of a day
+    minutes = Math.round(value * 24 * 60);
+  } else {
+    const text = String(value).trim();
+    const match =
+      text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/) ||
+      text.match(/^(\d{1,2})(\d{2})$/);
+    if (!match) return null;
+    const [hours, mins, secs] = [
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3] || 0),
+    ];
+    if (hours > 23 || mins > 59 || secs > 59) return null;
+    minutes = hours * 60 + mins + Math.round(secs / 60);
+  }
+
+  // Rounding never carries past midnight: 23:59:30 and later stay 23:59
+  minutes = Math.min(minutes, 24 * 60 - 1);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+}
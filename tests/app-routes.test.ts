@@ -0,0 +1,14 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findUnmappedApiRoutes } from '../src/server/route-permissions.js';
+
+// Importing the server with NODE_ENV=test registers its routes without
+// starting it
+process.env.NODE_ENV = 'test';
+const { app } = await import('../src/server/index.js');
+
+describe('server routes', () => {
+  it('maps every API route to a permission', () => {
+    assert.deepEqual(findUnmappedApiRoutes(app), []);
+  });
+});
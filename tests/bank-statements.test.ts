@@ -0,0 +1,248 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  detectStatementFormat,
+  parseStatement,
+} from '../src/server/bank-statements.js';
+import { splitCsvLine } from '../src/server/csv.js';
+
+const MT940 = [
+  ':20:STMT1',
+  ':25:NL91ABNA0417164300',
+  ':28C:1/1',
+  ':60F:C241231EUR1000,00',
+  ':61:2412310102D250,00NTRFINV-42//BANKREF1',
+  ':86:/NAME/Jet Fuel Ltd/REMI/INV-42',
+  ':61:2501011231D10,00NTRFFEES',
+  ':61:2501020102C100,5NTRFNONREF',
+  ':62F:C250102EUR840,50',
+  '-}',
+].join('\n');
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>CH9300762011623852957</IBAN></Id></Acct>
+      <Ntry>
+        <NtryRef>E1</NtryRef>
+        <Amt Ccy="CHF">1500.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-04-10</Dt></BookgDt>
+        <ValDt><Dt>2024-04-11</Dt></ValDt>
+        <AcctSvcrRef>SVC-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-9</EndToEndId></Refs>
+          <RltdPties>
+            <Dbtr><Nm>Our Company</Nm></Dbtr>
+            <Cdtr><Nm>Swiss Handling &amp; Co</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>INV 2024/15</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">20.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><DtTm>2024-04-12T09:30:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Refunder AG</Nm></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('splitCsvLine', () => {
+  it('splits on the delimiter and trims the cells', () => {
+    assert.deepEqual(splitCsvLine('a, b ,c', ','), ['a', 'b', 'c']);
+    assert.deepEqual(splitCsvLine('a;b;;', ';'), ['a', 'b', '', '']);
+  });
+
+  it('keeps delimiters and escaped quotes inside quotes', () => {
+    assert.deepEqual(splitCsvLine('"Invoice 1, March","Say ""hi""",x', ','), [
+      'Invoice 1, March',
+      'Say "hi"',
+      'x',
+    ]);
+  });
+});
+
+describe('CSV statements', () => {
+  it('reads an amount column with the column names of the header', () => {
+    const statement = parseStatement(
+      [
+        'Date,Amount,Currency,Description,Counterparty,Transaction ID',
+        '2024-03-05,"-1,250.00",EUR,"Invoice INV-100, March",Jet Fuel Ltd,TX1',
+        '05/03/2024,300,eur,Refund,,TX2',
+      ].join('\r\n'),
+      'csv'
+    );
+
+    assert.equal(statement.format, 'csv');
+    assert.equal(statement.account, null);
+    assert.deepEqual(statement.transactions, [
+      {
+        booking_date: '2024-03-05',
+        value_date: null,
+        amount: -1250,
+        currency: 'EUR',
+        reference: 'Invoice INV-100, March',
+        counterparty: 'Jet Fuel Ltd',
+        bank_reference: 'TX1',
+      },
+      {
+        booking_date: '2024-03-05',
+        value_date: null,
+        amount: 300,
+        currency: 'EUR',
+        reference: 'Refund',
+        counterparty: null,
+        bank_reference: 'TX2',
+      },
+    ]);
+  });
+
+  it('reads semicolon files with debit and credit columns and decimal commas', () => {
+    const statement = parseStatement(
+      [
+        'Booking date;Value date;Debit;Credit;Currency;Details',
+        '01.02.2024;02.02.2024;1.234,56;;USD;Payment INV-7',
+        '03.02.2024;03.02.2024;;99,5;USD;Refund',
+      ].join('\n'),
+      'csv'
+    );
+
+    assert.deepEqual(
+      statement.transactions.map(t => [t.booking_date, t.value_date, t.amount]),
+      [
+        ['2024-02-01', '2024-02-02', -1234.56],
+        ['2024-02-03', '2024-02-03', 99.5],
+      ]
+    );
+  });
+
+  it('reads a lone comma before three digits as a thousands separator', () => {
+    const statement = parseStatement('Date,Amount\n20240301,"-1,234"', 'csv');
+    assert.equal(statement.transactions[0].booking_date, '2024-03-01');
+    assert.equal(statement.transactions[0].amount, -1234);
+  });
+
+  it('refuses files without a date column or with an invalid date', () => {
+    assert.throws(
+      () => parseStatement('Amount,Reference\n10,x', 'csv'),
+      /needs a date column/
+    );
+    assert.throws(
+      () => parseStatement('Date,Amount\nyesterday,10', 'csv'),
+      /Row 2: invalid date "yesterday"/
+    );
+    assert.throws(
+      () => parseStatement('Date,Amount', 'csv'),
+      /has no transactions/
+    );
+  });
+});
+
+describe('MT940 statements', () => {
+  const statement = parseStatement(MT940, 'mt940');
+
+  it('reads the account and the currency of the opening balance', () => {
+    assert.equal(statement.format, 'mt940');
+    assert.equal(statement.account, 'NL91ABNA0417164300');
+    assert.ok(statement.transactions.every(t => t.currency === 'EUR'));
+  });
+
+  it('signs debits and credits and reads the decimal comma', () => {
+    assert.deepEqual(
+      statement.transactions.map(t => t.amount),
+      [-250, -10, 100.5]
+    );
+  });
+
+  it('puts an entry date after New Year in the next year', () => {
+    assert.equal(statement.transactions[0].value_date, '2024-12-31');
+    assert.equal(statement.transactions[0].booking_date, '2025-01-02');
+  });
+
+  it('puts an entry date before New Year in the previous year', () => {
+    assert.equal(statement.transactions[1].value_date, '2025-01-01');
+    assert.equal(statement.transactions[1].booking_date, '2024-12-31');
+  });
+
+  it('keeps the entry date in the year of the value date otherwise', () => {
+    assert.equal(statement.transactions[2].value_date, '2025-01-02');
+    assert.equal(statement.transactions[2].booking_date, '2025-01-02');
+  });
+
+  it('adds the :86: information to the preceding transaction', () => {
+    const [first, , last] = statement.transactions;
+    assert.equal(first.reference, 'INV-42 /NAME/Jet Fuel Ltd/REMI/INV-42');
+    assert.equal(first.counterparty, 'Jet Fuel Ltd');
+    assert.equal(first.bank_reference, 'BANKREF1');
+    assert.equal(last.reference, '');
+    assert.equal(last.bank_reference, null);
+  });
+
+  it('refuses an invalid :61: line', () => {
+    assert.throws(
+      () => parseStatement(':20:X\n:61:not a transaction', 'mt940'),
+      /Invalid :61: line "not a transaction"/
+    );
+  });
+});
+
+describe('CAMT.053 statements', () => {
+  const statement = parseStatement(CAMT053, 'camt053');
+
+  it('reads the account and every entry', () => {
+    assert.equal(statement.format, 'camt053');
+    assert.equal(statement.account, 'CH9300762011623852957');
+    assert.equal(statement.transactions.length, 2);
+  });
+
+  it('reads a debit with the creditor as counterparty', () => {
+    assert.deepEqual(statement.transactions[0], {
+      booking_date: '2024-04-10',
+      value_date: '2024-04-11',
+      amount: -1500,
+      currency: 'CHF',
+      reference: 'INV 2024/15 E2E-9',
+      counterparty: 'Swiss Handling & Co',
+      bank_reference: 'SVC-1',
+    });
+  });
+
+  it('reads a credit with the debtor as counterparty', () => {
+    assert.deepEqual(statement.transactions[1], {
+      booking_date: '2024-04-12',
+      value_date: null,
+      amount: 20,
+      currency: 'CHF',
+      reference: '',
+      counterparty: 'Refunder AG',
+      bank_reference: null,
+    });
+  });
+
+  it('refuses XML without a statement', () => {
+    assert.throws(
+      () => parseStatement('<Document></Document>', 'camt053'),
+      /no <Stmt> element/
+    );
+  });
+});
+
+describe('detectStatementFormat', () => {
+  it('detects the format from the content', () => {
+    assert.equal(detectStatementFormat(MT940), 'mt940');
+    assert.equal(detectStatementFormat(CAMT053), 'camt053');
+  });
+
+  it('falls back to the file name', () => {
+    assert.equal(detectStatementFormat('Date,Amount', 'march.csv'), 'csv');
+    assert.equal(detectStatementFormat('', 'march.sta'), 'mt940');
+    assert.equal(detectStatementFormat('', 'march.xml'), 'camt053');
+    assert.equal(detectStatementFormat('', 'march.pdf'), null);
+  });
+});
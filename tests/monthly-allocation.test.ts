@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  allocateExpenseByMonths,
+  monthRange,
+  splitPeriodByMonths,
+} from '../src/server/monthly-allocation.js';
+
+// Period dates are read in local time
+process.env.TZ = 'UTC';
+
+function assertShares(
+  actual: Array<{ monthKey: string; amount: number }>,
+  expected: Array<[string, number]>
+) {
+  assert.deepEqual(
+    actual.map(share => share.monthKey),
+    expected.map(([monthKey]) => monthKey)
+  );
+  actual.forEach((share, index) => {
+    const amount = expected[index][1];
+    assert.ok(
+      Math.abs(share.amount - amount) < 1e-9,
+      `${share.monthKey}: ${share.amount} is not ${amount}`
+    );
+  });
+}
+
+describe('monthRange', () => {
+  it('lists the months between two month keys, both included', () => {
+    assert.deepEqual(monthRange('2024-11', '2025-02'), [
+      '2024-11',
+      '2024-12',
+      '2025-01',
+      '2025-02',
+    ]);
+    assert.deepEqual(monthRange('2024-03', '2024-03'), ['2024-03']);
+    assert.deepEqual(monthRange('2024-03', '2024-02'), []);
+  });
+});
+
+describe('splitPeriodByMonths', () => {
+  describe('single-month periods', () => {
+    it('reads an end on the 1st of the next month as one month', () => {
+      for (const prorate of ['month', 'day'] as const) {
+        assertShares(
+          splitPeriodByMonths('2024-01-01', '2024-02-01', 300, prorate),
+          [['2024-01', 300]]
+        );
+      }
+    });
+
+    it('reads December to the 1st of January as one month', () => {
+      assertShares(splitPeriodByMonths('2024-12-01', '2025-01-01', 300), [
+        ['2024-12', 300],
+      ]);
+    });
+
+    it('keeps a period within one month in that month', () => {
+      assertShares(
+        splitPeriodByMonths('2024-01-10', '2024-01-20', 100, 'day'),
+        [['2024-01', 100]]
+      );
+    });
+  });
+
+  describe('multi-month periods ending on the 1st', () => {
+    it('includes the whole end month', () => {
+      assertShares(splitPeriodByMonths('2024-01-01', '2024-03-01', 300), [
+        ['2024-01', 100],
+        ['2024-02', 100],
+        ['2024-03', 100],
+      ]);
+    });
+
+    it('counts every day of the end month with day pro-rating', () => {
+      // 31 + 29 + 31 days
+      assertShares(
+        splitPeriodByMonths('2024-01-01', '2024-03-01', 910, 'day'),
+        [
+          ['2024-01', 310],
+          ['2024-02', 290],
+          ['2024-03', 310],
+        ]
+      );
+    });
+
+    it('spreads a period over New Year', () => {
+      assertShares(splitPeriodByMonths('2024-11-01', '2025-01-01', 300), [
+        ['2024-11', 100],
+        ['2024-12', 100],
+        ['2025-01', 100],
+      ]);
+
+      const shares = splitPeriodByMonths('2024-03-01', '2025-01-01', 1100);
+      assert.equal(shares.length, 11);
+      assert.equal(shares[10].monthKey, '2025-01');
+    });
+  });
+
+  describe('partial months', () => {
+    it('gives each month an equal share by default', () => {
+      assertShares(splitPeriodByMonths('2024-01-15', '2024-03-10', 300), [
+        ['2024-01', 100],
+        ['2024-02', 100],
+        ['2024-03', 100],
+      ]);
+    });
+
+    it('shares by the covered days with day pro-rating', () => {
+      // 15-31 January (17 days), February (29 days), 1-10 March (10 days)
+      assertShares(
+        splitPeriodByMonths('2024-01-15', '2024-03-10', 560, 'day'),
+        [
+          ['2024-01', 170],
+          ['2024-02', 290],
+          ['2024-03', 100],
+        ]
+      );
+    });
+  });
+});
+
+describe('allocateExpenseByMonths', () => {
+  const period = {
+    exp_amount: '300',
+    exp_currency: 'EUR',
+    exp_period_start: '2024-01-01',
+    exp_period_end: '2024-03-01',
+    created_at: '2024-05-20T10:00:00Z',
+  };
+
+  it('spreads a period expense over its period', () => {
+    assert.deepEqual(allocateExpenseByMonths(period, 'expense'), [
+      { monthKey: '2024-01', amount: 100, currency: 'EUR' },
+      { monthKey: '2024-02', amount: 100, currency: 'EUR' },
+      { monthKey: '2024-03', amount: 100, currency: 'EUR' },
+    ]);
+  });
+
+  it('puts a flight expense in the flight month, whatever its period', () => {
+    const expense = {
+      ...period,
+      exp_flight: 'flight-1',
+      flights: { flt_date: '2024-04-02' },
+    };
+    assert.deepEqual(allocateExpenseByMonths(expense, 'expense'), [
+      { monthKey: '2024-04', amount: 300, currency: 'EUR' },
+    ]);
+  });
+
+  it('puts charter profit in the invoice month, whatever its period', () => {
+    const expense = { ...period, invoices: { inv_date: '2024-02-15' } };
+    assert.deepEqual(allocateExpenseByMonths(expense, 'charter_profit'), [
+      { monthKey: '2024-02', amount: 300, currency: 'EUR' },
+    ]);
+  });
+
+  it('puts an expense without a period in the month it was entered', () => {
+    const expense = {
+      exp_amount: '50',
+      exp_currency: 'USD',
+      created_at: '2024-05-20T10:00:00Z',
+      invoices: { inv_date: '2024-02-15' },
+    };
+    assert.deepEqual(allocateExpenseByMonths(expense, 'expense'), [
+      { monthKey: '2024-05', amount: 50, currency: 'USD' },
+    ]);
+    assert.deepEqual(allocateExpenseByMonths(expense, 'credit_note'), [
+      { monthKey: '2024-02', amount: 50, currency: 'USD' },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  findPaymentCandidates,
+  pickAutoMatch,
+} from '../src/server/payment-matching.js';
+
+const INVOICES = [
+  {
+    id: 'a',
+    inv_number: 'INV-100',
+    inv_date: '2024-03-01',
+    inv_amount: 1250,
+    inv_currency: 'EUR',
+  },
+  {
+    id: 'b',
+    inv_number: 'INV-200',
+    inv_date: '2024-03-02',
+    inv_amount: 1250,
+    inv_currency: 'EUR',
+  },
+  {
+    id: 'c',
+    inv_number: 'INV-300',
+    inv_date: '2024-03-01',
+    inv_amount: 500,
+    inv_currency: 'USD',
+  },
+];
+
+function payment(fields: Record<string, any>) {
+  return {
+    booking_date: '2024-03-05',
+    amount: -1250,
+    currency: 'EUR',
+    reference: '',
+    counterparty: null,
+    ...fields,
+  };
+}
+
+const ids = (candidates: { invoice: any }[]) =>
+  candidates.map(c => c.invoice.id);
+
+describe('findPaymentCandidates', () => {
+  it('ranks the invoice named in the reference first', () => {
+    const candidates = findPaymentCandidates(
+      payment({ reference: 'Payment inv 100' }),
+      INVOICES
+    );
+
+    assert.deepEqual(ids(candidates), ['a', 'b']);
+    assert.equal(candidates[0].score, 100);
+    assert.equal(candidates[0].inReference, true);
+    assert.equal(candidates[1].score, 60);
+    assert.equal(candidates[1].inReference, false);
+  });
+
+  it('finds the invoice named by the counterparty field too', () => {
+    const candidates = findPaymentCandidates(
+      payment({ amount: -10, counterparty: 'Ref INV-300' }),
+      INVOICES
+    );
+
+    assert.deepEqual(ids(candidates), ['c']);
+    assert.equal(candidates[0].sameAmount, false);
+  });
+
+  it('needs the same amount and currency, or the invoice number', () => {
+    assert.deepEqual(
+      ids(findPaymentCandidates(payment({ currency: 'USD' }), INVOICES)),
+      []
+    );
+    assert.deepEqual(
+      ids(findPaymentCandidates(payment({ amount: -1250.004 }), INVOICES)),
+      ['a', 'b']
+    );
+  });
+
+  it('ignores money coming in', () => {
+    assert.deepEqual(
+      findPaymentCandidates(payment({ amount: 1250 }), INVOICES),
+      []
+    );
+  });
+
+  it('allows payments up to 7 days before and 120 days after the invoice', () => {
+    const inWindow = (booking_date: string) =>
+      findPaymentCandidates(
+        payment({ booking_date, amount: -500, currency: 'USD' }),
+        INVOICES
+      )[0].inWindow;
+
+    assert.equal(inWindow('2024-02-23'), true);
+    assert.equal(inWindow('2024-02-20'), false);
+    assert.equal(inWindow('2024-06-29'), true);
+    assert.equal(inWindow('2024-07-01'), false);
+  });
+
+  it('does not match invoice numbers shorter than three characters', () => {
+    const invoices = [{ ...INVOICES[2], inv_number: '12' }];
+    assert.deepEqual(
+      findPaymentCandidates(payment({ reference: 'Order 12' }), invoices),
+      []
+    );
+  });
+});
+
+describe('pickAutoMatch', () => {
+  const autoMatch = (fields: Record<string, any>) =>
+    pickAutoMatch(findPaymentCandidates(payment(fields), INVOICES))?.id ?? null;
+
+  it('picks the exact match named in the reference', () => {
+    assert.equal(autoMatch({ reference: 'INV-200' }), 'b');
+  });
+
+  it('picks the only exact match without a reference', () => {
+    assert.equal(autoMatch({ amount: -500, currency: 'USD' }), 'c');
+  });
+
+  it('leaves several exact matches without a reference to the user', () => {
+    assert.equal(autoMatch({ reference: 'March fuel' }), null);
+  });
+
+  it('leaves a named invoice with another amount to the user', () => {
+    assert.equal(autoMatch({ amount: -100, reference: 'INV-200 part' }), null);
+  });
+
+  it('leaves a payment outside the date window to the user', () => {
+    assert.equal(
+      autoMatch({ amount: -500, currency: 'USD', booking_date: '2024-09-01' }),
+      null
+    );
+  });
+});
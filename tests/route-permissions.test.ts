@@ -0,0 +1,219 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  API_ROUTE_PERMISSIONS,
+  createApiAuthorization,
+  findUnmappedApiRoutes,
+  getRequiredPermission,
+} from '../src/server/route-permissions.js';
+
+// Tokens accepted by the stubbed Supabase auth, with the role stored for each user
+const USERS: Record<string, { id: string; role: string }> = {
+  'superadmin-token': { id: 'user-superadmin', role: 'superadmin' },
+  'reader-token': { id: 'user-reader', role: 'reader' },
+};
+
+// Stub of the two Supabase calls made by the middleware: auth.getUser and the
+// role lookup in the users table
+function createSupabaseStub(options: { failAuth?: boolean } = {}) {
+  return {
+    auth: {
+      getUser: async (token: string) => {
+        if (options.failAuth) throw new Error('Auth service unavailable');
+        const user = USERS[token];
+        return user
+          ? { data: { user: { id: user.id, email: `${user.id}@test` } } }
+          : { data: { user: null }, error: { message: 'Invalid token' } };
+      },
+    },
+    from: (table: string) => {
+      assert.equal(table, 'users');
+      let userId = '';
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: string) => {
+          userId = value;
+          return query;
+        },
+        single: async () => {
+          const user = Object.values(USERS).find(u => u.id === userId);
+          return user
+            ? { data: { role: user.role, full_name: user.id }, error: null }
+            : { data: null, error: { message: 'Not found' } };
+        },
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+// Server with the authorization middleware in front of a catch-all handler
+async function startServer(supabase: SupabaseClient | null) {
+  const app = express();
+  app.use(cookieParser());
+  app.use('/api', createApiAuthorization(supabase));
+  app.use('/api', (_req, res) => res.json({ ok: true }));
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function stopServer(server: Server) {
+  return new Promise(resolve => server.close(resolve));
+}
+
+function requestRoute(
+  baseUrl: string,
+  method: string,
+  routePath: string,
+  token?: string
+) {
+  return fetch(baseUrl + routePath.replace(/:\w+/g, 'test-id'), {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('API route permissions', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ server, baseUrl } = await startServer(createSupabaseStub()));
+  });
+
+  after(() => stopServer(server));
+
+  for (const route of API_ROUTE_PERMISSIONS) {
+    const name = `${route.method} ${route.path} (${route.permission})`;
+
+    it(`${name} resolves to its own permission`, () => {
+      assert.equal(
+        getRequiredPermission(
+          route.method,
+          route.path.replace(/:\w+/g, 'test-id')
+        ),
+        route.permission
+      );
+    });
+
+    it(`${name} without a token`, async () => {
+      const res = await requestRoute(baseUrl, route.method, route.path);
+      assert.equal(res.status, route.permission === 'public' ? 200 : 401);
+    });
+
+    it(`${name} as reader`, async () => {
+      const res = await requestRoute(
+        baseUrl,
+        route.method,
+        route.path,
+        'reader-token'
+      );
+      assert.equal(res.status, route.permission === 'write' ? 403 : 200);
+    });
+
+    it(`${name} as superadmin`, async () => {
+      const res = await requestRoute(
+        baseUrl,
+        route.method,
+        route.path,
+        'superadmin-token'
+      );
+      assert.equal(res.status, 200);
+    });
+  }
+
+  it('rejects an unknown token', async () => {
+    const res = await requestRoute(baseUrl, 'GET', '/api/flights', 'bad');
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses unmapped routes, even to a superadmin', async () => {
+    assert.equal(getRequiredPermission('GET', '/api/unmapped'), null);
+    assert.equal(getRequiredPermission('POST', '/api/unmapped'), null);
+
+    const res = await requestRoute(
+      baseUrl,
+      'GET',
+      '/api/unmapped',
+      'superadmin-token'
+    );
+    assert.equal(res.status, 403);
+  });
+
+  // Express matches routes ignoring case and a trailing slash
+  for (const variant of [
+    '/API/Backup/create',
+    '/api/BACKUP/CREATE',
+    '/api/backup/create/',
+    '/Api/Backup/Create/',
+  ]) {
+    it(`GET ${variant} needs write access`, async () => {
+      assert.equal(getRequiredPermission('GET', variant), 'write');
+
+      const res = await requestRoute(baseUrl, 'GET', variant, 'reader-token');
+      assert.equal(res.status, 403);
+    });
+  }
+
+  it('matches parameters in any case', () => {
+    assert.equal(
+      getRequiredPermission('PUT', '/API/Flights/ABC-123/'),
+      'write'
+    );
+    assert.equal(getRequiredPermission('GET', '/api/Flights/Expenses'), 'read');
+  });
+});
+
+describe('API authorization errors', () => {
+  it('returns 500 when the auth lookup fails', async () => {
+    const { server, baseUrl } = await startServer(
+      createSupabaseStub({ failAuth: true })
+    );
+    try {
+      const res = await requestRoute(
+        baseUrl,
+        'GET',
+        '/api/flights',
+        'reader-token'
+      );
+      assert.equal(res.status, 500);
+    } finally {
+      await stopServer(server);
+    }
+  });
+
+  it('returns 503 without a database', async () => {
+    const { server, baseUrl } = await startServer(null);
+    try {
+      const res = await requestRoute(
+        baseUrl,
+        'GET',
+        '/api/flights',
+        'reader-token'
+      );
+      assert.equal(res.status, 503);
+    } finally {
+      await stopServer(server);
+    }
+  });
+});
+
+describe('findUnmappedApiRoutes', () => {
+  it('lists API routes without a permission entry', () => {
+    const app = express();
+    app.get('/api/flights', (_req, res) => res.end());
+    app.post('/api/not-in-the-map', (_req, res) => res.end());
+    app.get('/dashboard', (_req, res) => res.end());
+
+    assert.deepEqual(findUnmappedApiRoutes(app), ['POST /api/not-in-the-map']);
+  });
+});
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toTimeString } from '../src/server/spreadsheet-import.js';
+
+describe('toTimeString', () => {
+  it('reads HH:MM and HHMM', () => {
+    assert.equal(toTimeString('1:05'), '01:05:00');
+    assert.equal(toTimeString('0130'), '01:30:00');
+  });
+
+  it('rounds seconds into the minutes, for text as for spreadsheet times', () => {
+    assert.equal(toTimeString('01:30:29'), '01:30:00');
+    assert.equal(toTimeString('01:30:30'), '01:31:00');
+    assert.equal(toTimeString(new Date(2024, 0, 1, 1, 30, 30)), '01:31:00');
+    assert.equal(toTimeString((90 + 0.5) / (24 * 60)), '01:31:00');
+  });
+
+  it('does not round past midnight', () => {
+    assert.equal(toTimeString('23:59:59'), '23:59:00');
+    assert.equal(toTimeString(new Date(2024, 0, 1, 23, 59, 50)), '23:59:00');
+  });
+
+  it('refuses values that are not a time of day', () => {
+    for (const value of ['24:00', '12:60', '12:30:60', 'noon', 1.5, '']) {
+      assert.equal(toTimeString(value), null, String(value));
+    }
+  });
+});